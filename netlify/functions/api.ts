@@ -5,11 +5,41 @@ import mongoose from 'mongoose';
 // Import your API route handlers
 import { GET as getPatients, POST as postPatient, PUT as putPatient, DELETE as deletePatient } from '../../src/app/api/patients/route';
 import { GET as getPatientById, PUT as putPatientById, DELETE as deletePatientById } from '../../src/app/api/patients/[id]/route';
+import { GET as getPatientImports, POST as createPatientImport } from '../../src/app/api/patients/import/route';
+import { GET as getPatientImport, DELETE as cancelPatientImport } from '../../src/app/api/patients/import/[id]/route';
+import { POST as runPatientImport } from '../../src/app/api/patients/import/[id]/run/route';
+import { GET as getPatientImportErrors } from '../../src/app/api/patients/import/[id]/errors/route';
+import { GET as getDuplicatePatients } from '../../src/app/api/patients/duplicates/route';
+import { GET as getAwvWorklist } from '../../src/app/api/patients/worklist/route';
+import { GET as getPatientMerges, POST as mergePatients } from '../../src/app/api/patients/merges/route';
+import { POST as undoPatientMerge } from '../../src/app/api/patients/merges/[id]/undo/route';
 import { GET as getVisits, POST as postVisit } from '../../src/app/api/visits/route';
-import { GET as getVisitById, PUT as putVisit, DELETE as deleteVisit } from '../../src/app/api/visits/[id]/route';
+import { GET as getVisitStats } from '../../src/app/api/visits/stats/route';
+import { GET as getVisitById, PUT as putVisit, PATCH as patchVisit, DELETE as deleteVisit } from '../../src/app/api/visits/[id]/route';
+import { POST as postVisitHealthPlan } from '../../src/app/api/visits/[id]/health-plan/route';
+import { GET as getVisitFhirBundle } from '../../src/app/api/visits/[id]/fhir/route';
+import { GET as getVisitIntake, POST as sendVisitIntake, PATCH as resolveVisitIntake, DELETE as revokeVisitIntake } from '../../src/app/api/visits/[id]/intake/route';
+import { POST as postVisitAddendum } from '../../src/app/api/visits/[id]/addenda/route';
+import { GET as getVisitPdf } from '../../src/app/api/visits/[id]/pdf/route';
+import { GET as getIntakeForm, POST as submitIntakeForm } from '../../src/app/api/intake/[token]/route';
 import { GET as getUsers, POST as postUser } from '../../src/app/api/users/route';
+import { GET as getProviders } from '../../src/app/api/providers/route';
+import { PUT as putProviderHours } from '../../src/app/api/providers/[id]/route';
 import { GET as getPractice } from '../../src/app/api/practice/route';
 import { GET as getTemplates, POST as postTemplate, PUT as putTemplate, DELETE as deleteTemplate } from '../../src/app/api/templates/route';
+import { GET as getTemplateVersions, POST as publishTemplateVersion } from '../../src/app/api/templates/[id]/versions/route';
+import { GET as getTemplateVersion } from '../../src/app/api/templates/[id]/versions/[version]/route';
+import { GET as getTemplateQuestionnaire } from '../../src/app/api/templates/[id]/questionnaire/route';
+import { POST as importTemplateQuestionnaire } from '../../src/app/api/templates/import/route';
+import { GET as getAuditEvents, POST as postAuditEvent } from '../../src/app/api/audit/route';
+import { GET as getInvitations, POST as postInvitation } from '../../src/app/api/invitations/route';
+import { DELETE as revokeInvitation } from '../../src/app/api/invitations/[id]/route';
+import { POST as resendInvitation } from '../../src/app/api/invitations/[id]/resend/route';
+import { GET as verifyInvitation } from '../../src/app/api/invitations/verify/route';
+import { POST as acceptInvitation } from '../../src/app/api/invitations/accept/route';
+import { getRequestUser, RequestUser } from '../../src/lib/apiAuth';
+import { hasPermission, Permission } from '../../src/lib/permissions';
+import { initMailTransport } from '../../src/lib/mailer';
 
 // MongoDB Connection
 const MONGODB_URI = process.env.MONGODB_URI;
@@ -20,6 +50,13 @@ if (!MONGODB_URI) {
 console.log('MongoDB URI found in environment, first few characters:', 
   MONGODB_URI ? `${MONGODB_URI.substring(0, 15)}...` : 'undefined');
 
+// Register the mail transport up front; routes that send email still answer 503 if this fails
+try {
+  console.log('Mail transport:', initMailTransport().name);
+} catch (error) {
+  console.error('Mail transport not configured:', error instanceof Error ? error.message : error);
+}
+
 // In-memory storage for newly created users (this will persist until the function is redeployed)
 const newUsers: Record<string, any> = {};
 
@@ -90,36 +127,11 @@ PracticeSettingsSchema.pre('save', function(next) {
   next();
 });
 
-// Schema for invitation tokens
-const InvitationSchema = new mongoose.Schema({
-  email: { type: String, required: true, unique: true },
-  token: { type: String, required: true },
-  role: { type: String, default: 'staff' },
-  invitedBy: String,
-  createdAt: { type: Date, default: Date.now },
-  expiresAt: { type: Date, required: true },
-  used: { type: Boolean, default: false }
-}, {
-  toJSON: { virtuals: true },
-  toObject: { virtuals: true },
-  collection: 'invitations',
-  strict: false
-});
-
-// Function to generate a secure random token
-const generateToken = () => {
-  // In a real app, use a secure random method
-  const randomStr = Math.random().toString(36).substring(2, 15);
-  const timestamp = Date.now().toString(36);
-  return `${randomStr}${timestamp}`;
-};
-
 // Initialize models
 const getModels = () => {
   const User = mongoose.models.User || mongoose.model('User', UserSchema);
   const PracticeSettings = mongoose.models.PracticeSettings || mongoose.model('PracticeSettings', PracticeSettingsSchema);
-  const Invitation = mongoose.models.Invitation || mongoose.model('Invitation', InvitationSchema);
-  return { User, PracticeSettings, Invitation };
+  return { User, PracticeSettings };
 };
 
 // Connect to MongoDB and test connection
@@ -199,7 +211,7 @@ const createHeaders = (cors: boolean = true): Record<string, string> => {
   if (cors) {
     headers['Access-Control-Allow-Origin'] = '*';
     headers['Access-Control-Allow-Headers'] = 'Content-Type, Authorization';
-    headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, DELETE, OPTIONS';
+    headers['Access-Control-Allow-Methods'] = 'GET, POST, PUT, PATCH, DELETE, OPTIONS';
   }
   
   return headers;
@@ -265,6 +277,195 @@ const mapRoleToValid = (role: string | undefined): string => {
   }
 };
 
+// Nested resource routes, matched before the generic /patients/:id and /visits/:id handlers.
+// Each capture group in the pattern is passed to the route handler under the matching key.
+const dynamicRoutes: { pattern: RegExp; keys: string[]; handlers: Record<string, Function> }[] = [
+  {
+    pattern: /^\/patients\/import$/,
+    keys: [],
+    handlers: { GET: getPatientImports, POST: createPatientImport }
+  },
+  {
+    pattern: /^\/patients\/import\/([^/]+)$/,
+    keys: ['id'],
+    handlers: { GET: getPatientImport, DELETE: cancelPatientImport }
+  },
+  {
+    pattern: /^\/patients\/import\/([^/]+)\/run$/,
+    keys: ['id'],
+    handlers: { POST: runPatientImport }
+  },
+  {
+    // Listed here so the CSV report passes through runRouteHandler unchanged
+    pattern: /^\/patients\/import\/([^/]+)\/errors$/,
+    keys: ['id'],
+    handlers: { GET: getPatientImportErrors }
+  },
+  {
+    pattern: /^\/patients\/worklist$/,
+    keys: [],
+    handlers: { GET: getAwvWorklist }
+  },
+  {
+    pattern: /^\/patients\/duplicates$/,
+    keys: [],
+    handlers: { GET: getDuplicatePatients }
+  },
+  {
+    pattern: /^\/patients\/merges$/,
+    keys: [],
+    handlers: { GET: getPatientMerges, POST: mergePatients }
+  },
+  {
+    pattern: /^\/patients\/merges\/([^/]+)\/undo$/,
+    keys: ['id'],
+    handlers: { POST: undoPatientMerge }
+  },
+  {
+    pattern: /^\/visits\/([^/]+)\/health-plan$/,
+    keys: ['id'],
+    handlers: { POST: postVisitHealthPlan }
+  },
+  {
+    pattern: /^\/visits\/([^/]+)\/fhir$/,
+    keys: ['id'],
+    handlers: { GET: getVisitFhirBundle }
+  },
+  {
+    pattern: /^\/visits\/([^/]+)\/intake$/,
+    keys: ['id'],
+    handlers: { GET: getVisitIntake, POST: sendVisitIntake, PATCH: resolveVisitIntake, DELETE: revokeVisitIntake }
+  },
+  {
+    pattern: /^\/visits\/([^/]+)\/addenda$/,
+    keys: ['id'],
+    handlers: { POST: postVisitAddendum }
+  },
+  {
+    pattern: /^\/visits\/([^/]+)\/pdf$/,
+    keys: ['id'],
+    handlers: { GET: getVisitPdf }
+  },
+  {
+    // Public: the patient's pre-visit questionnaire, authorized by the link token
+    pattern: /^\/intake\/([^/]+)$/,
+    keys: ['token'],
+    handlers: { GET: getIntakeForm, POST: submitIntakeForm }
+  },
+  {
+    pattern: /^\/templates\/import$/,
+    keys: [],
+    handlers: { POST: importTemplateQuestionnaire }
+  },
+  {
+    pattern: /^\/templates\/([^/]+)\/questionnaire$/,
+    keys: ['id'],
+    handlers: { GET: getTemplateQuestionnaire }
+  },
+  {
+    pattern: /^\/templates\/([^/]+)\/versions$/,
+    keys: ['id'],
+    handlers: { GET: getTemplateVersions, POST: publishTemplateVersion }
+  },
+  {
+    pattern: /^\/templates\/([^/]+)\/versions\/([^/]+)$/,
+    keys: ['id', 'version'],
+    handlers: { GET: getTemplateVersion }
+  },
+  {
+    // Listed here so CSV exports pass through runRouteHandler unchanged
+    pattern: /^\/audit$/,
+    keys: [],
+    handlers: { GET: getAuditEvents, POST: postAuditEvent }
+  },
+  {
+    pattern: /^\/invitations\/([^/]+)\/resend$/,
+    keys: ['id'],
+    handlers: { POST: resendInvitation }
+  },
+  {
+    pattern: /^\/invitations\/([^/]+)$/,
+    keys: ['id'],
+    handlers: { DELETE: revokeInvitation }
+  },
+  {
+    // Listed here so the /visits/ handler below does not read "stats" as a visit ID
+    pattern: /^\/visits\/stats$/,
+    keys: [],
+    handlers: { GET: getVisitStats }
+  },
+  {
+    pattern: /^\/providers$/,
+    keys: [],
+    handlers: { GET: getProviders }
+  },
+  {
+    pattern: /^\/providers\/([^/]+)$/,
+    keys: ['id'],
+    handlers: { PUT: putProviderHours }
+  }
+];
+
+// Permissions for the endpoints implemented inline in the handler below. The Next.js
+// route handlers it delegates to check their own permissions. A null permission only
+// requires a signed-in user, and '*' applies to every method not listed.
+const inlineRoutePermissions: { pattern: RegExp; permissions: Record<string, Permission | null> }[] = [
+  {
+    pattern: /^\/(test-mongodb|test-collections|mongo-test|test-create-user|debug-user-creation|raw-request|direct-mongodb-test|simple-user-create)$/,
+    permissions: { '*': 'system:debug' }
+  },
+  { pattern: /^\/users\/(role|profile)$/, permissions: { '*': null } },
+  { pattern: /^\/users$/, permissions: { GET: 'users:read', POST: 'users:manage' } },
+  { pattern: /^\/users\/[^/]+$/, permissions: { GET: 'users:read', '*': 'users:manage' } },
+  { pattern: /^\/practice$/, permissions: { GET: 'practice:read', '*': 'practice:manage' } },
+  { pattern: /^\/practice\/logo$/, permissions: { '*': 'practice:manage' } }
+];
+
+// Run a Next.js route handler and convert its Response to a Netlify function response
+const runRouteHandler = async (
+  routeHandler: Function,
+  request: NextRequest,
+  params: Record<string, string> = {}
+): Promise<HandlerResponse> => {
+  // Connect to MongoDB before handling the request
+  await connectToMongoDB();
+
+  const response: Response = await routeHandler(request, { params });
+  const contentType = response.headers.get('Content-Type') || '';
+
+  if (contentType.includes('application/json')) {
+    const responseData = await response.json();
+
+    return {
+      statusCode: response.status,
+      body: JSON.stringify(responseData),
+      headers: createHeaders()
+    };
+  }
+
+  // Pass non-JSON responses (e.g. file downloads) through with their own headers
+  const headers = createHeaders();
+  response.headers.forEach((value, key) => {
+    headers[key] = value;
+  });
+
+  // Binary files such as PDFs would be corrupted as text, so they are sent base64-encoded
+  if (contentType.includes('application/pdf')) {
+    return {
+      statusCode: response.status,
+      body: Buffer.from(await response.arrayBuffer()).toString('base64'),
+      isBase64Encoded: true,
+      headers
+    };
+  }
+
+  return {
+    statusCode: response.status,
+    body: await response.text(),
+    headers
+  };
+};
+
 const handler: Handler = async (event: HandlerEvent, context: HandlerContext): Promise<HandlerResponse> => {
   // Set function timeout
   context.callbackWaitsForEmptyEventLoop = false;
@@ -295,6 +496,36 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
     // Route the request to the appropriate handler
     const path = event.path.replace('/.netlify/functions/api', '');
     
+    // Check permissions for the inline endpoints before handling them
+    let requestUser: RequestUser | null = null;
+    const inlineRoute = inlineRoutePermissions.find(route => route.pattern.test(path));
+    if (inlineRoute) {
+      await connectToMongoDB();
+      requestUser = await getRequestUser(request);
+      
+      if (!requestUser) {
+        return {
+          statusCode: 401,
+          body: JSON.stringify({ success: false, error: 'Authentication required' }),
+          headers: createHeaders()
+        };
+      }
+      
+      const permission = event.httpMethod in inlineRoute.permissions
+        ? inlineRoute.permissions[event.httpMethod]
+        : inlineRoute.permissions['*'] ?? null;
+      if (permission && !hasPermission(requestUser.role, permission)) {
+        return {
+          statusCode: 403,
+          body: JSON.stringify({
+            success: false,
+            error: `You do not have permission to perform this action (${permission})`
+          }),
+          headers: createHeaders()
+        };
+      }
+    }
+    
     // Add a test endpoint to verify MongoDB connection
     if (path === '/test-mongodb') {
       try {
@@ -702,6 +933,47 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
       query: event.queryStringParameters
     });
 
+    // Handle nested resource routes
+    for (const route of dynamicRoutes) {
+      const match = path.match(route.pattern);
+      if (!match) continue;
+
+      const routeHandler = route.handlers[event.httpMethod];
+      if (!routeHandler) {
+        return {
+          statusCode: 405,
+          body: JSON.stringify({ 
+            error: 'Method not allowed',
+            method: event.httpMethod,
+            path,
+            timestamp: new Date().toISOString()
+          }),
+          headers: createHeaders()
+        };
+      }
+
+      const params: Record<string, string> = {};
+      route.keys.forEach((key, index) => {
+        params[key] = decodeURIComponent(match[index + 1]);
+      });
+
+      try {
+        return await runRouteHandler(routeHandler, request, params);
+      } catch (error) {
+        console.error(`Error handling ${path}:`, error);
+        return {
+          statusCode: 500,
+          body: JSON.stringify({ 
+            error: 'Internal server error',
+            details: error instanceof Error ? error.message : 'Unknown error',
+            path,
+            timestamp: new Date().toISOString()
+          }),
+          headers: createHeaders()
+        };
+      }
+    }
+
     // Handle dynamic routes for patients
     if (path.startsWith('/patients/')) {
       const patientId = path.split('/')[2];
@@ -761,6 +1033,7 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
       const handlers: Record<string, Function> = {
         GET: getVisitById,
         PUT: putVisit,
+        PATCH: patchVisit,
         DELETE: deleteVisit
       };
 
@@ -808,92 +1081,17 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
       }
     }
 
-    // Handle user role requests
-    if (path.startsWith('/users/role')) {
-      try {
-        // Get the userId from query parameters
-        const userId = event.queryStringParameters?.userId;
-        
-        if (!userId) {
-          return {
-            statusCode: 400,
-            body: JSON.stringify({ error: 'User ID is required' }),
-            headers: createHeaders()
-          };
-        }
-        
-        // Connect to MongoDB before handling the request
-        await connectToMongoDB();
-        
-        // Import the user model dynamically
-        const UserSchema = new mongoose.Schema({
-          email: { type: String, required: true, unique: true },
-          role: { type: String, default: 'nurse' },
-          name: String,
-          photoURL: String,
-          createdAt: { type: Date, default: Date.now }
-        });
-        
-        const User = mongoose.models.User || mongoose.model('User', UserSchema);
-        
-        // Special handling for admin users (hardcoded for testing)
-        if (userId === '6wsWnc7HllSNFvnHORIgc8iDc9U2') {
-          return {
-            statusCode: 200,
-            body: JSON.stringify({
-              role: 'admin',
-              id: userId,
-              email: 'admin@example.com'
-            }),
-            headers: createHeaders()
-          };
-        }
-        
-        try {
-          const user = await User.findOne({ _id: userId }).lean();
-          
-          if (!user) {
-            return {
-              statusCode: 404,
-              body: JSON.stringify({ error: 'User not found' }),
-              headers: createHeaders()
-            };
-          }
-          
-          return {
-            statusCode: 200,
-            body: JSON.stringify({
-              role: (user as any).role || 'nurse',
-              id: (user as any)._id,
-              email: (user as any).email
-            }),
-            headers: createHeaders()
-          };
-        } catch (error) {
-          console.error('Error fetching user role:', error);
-          
-          // Fallback to default role for demo/testing
-          return {
-            statusCode: 200, 
-            body: JSON.stringify({
-              role: 'nurse',
-              id: userId,
-              email: 'nurse@example.com'
-            }),
-            headers: createHeaders()
-          };
-        }
-      } catch (error) {
-        console.error('Error handling user role request:', error);
-        return {
-          statusCode: 500,
-          body: JSON.stringify({ 
-            error: 'Internal server error', 
-            details: error instanceof Error ? error.message : 'Unknown error'
-          }),
-          headers: createHeaders()
-        };
-      }
+    // Return the role of the signed-in user, as resolved for permission checks
+    if (path === '/users/role') {
+      return {
+        statusCode: 200,
+        body: JSON.stringify({
+          role: requestUser!.role,
+          id: requestUser!.id,
+          email: requestUser!.email
+        }),
+        headers: createHeaders()
+      };
     }
 
     // Handle user-related endpoints specifically
@@ -1224,7 +1422,9 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
     }
 
     // Handle individual user requests (/users/:id)
-    if (path.match(/^\/users\/[^\/]+$/)) {
+    // Profile lookups are answered by the /users/profile handler below
+    const isProfileLookup = path === '/users/profile' && event.httpMethod === 'GET';
+    if (!isProfileLookup && path.match(/^\/users\/[^\/]+$/)) {
       try {
         // Extract the user ID from the path
         const userId = path.split('/')[2];
@@ -1980,87 +2180,23 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
       }
     }
 
-    // Handle invitation creation endpoint - DISABLED
-    if (path === '/invitations') {
-      try {
-        // Return an error response indicating this feature is disabled
-        return {
-          statusCode: 503,
-          body: JSON.stringify({
-            success: false,
-            error: 'Invitation functionality is currently disabled'
-          }),
-          headers: createHeaders()
-        };
-      } catch (error) {
-        console.error('Error handling invitation endpoint:', error);
-        return {
-          statusCode: 500,
-          body: JSON.stringify({
-            success: false,
-            error: 'Failed to process request',
-            details: error instanceof Error ? error.message : 'Unknown error'
-          }),
-          headers: createHeaders()
-        };
-      }
-    }
-    
-    // Handle verify-invitation endpoint - DISABLED
-    if (path === '/verify-invitation') {
-      return {
-        statusCode: 503,
-        body: JSON.stringify({
-          success: false,
-          error: 'Invitation verification is currently disabled'
-        }),
-        headers: createHeaders()
-      };
-    }
-    
-    // Handle register-with-invitation endpoint - DISABLED
-    if (path === '/register-with-invitation') {
-      return {
-        statusCode: 503,
-        body: JSON.stringify({
-          success: false,
-          error: 'Registration functionality is currently disabled'
-        }),
-        headers: createHeaders()
-      };
-    }
-
     // Handle user profile endpoint
     if (path === '/users/profile') {
       try {
-        // Get user ID from query parameters or authorization header
+        // Other users' profiles require permission to read users
         const userId = event.queryStringParameters?.userId;
-        const authHeader = event.headers?.authorization;
-        
-        // If no user ID is provided, check for authentication
-        if (!userId && !authHeader) {
+        if (userId && userId !== requestUser!.id && !hasPermission(requestUser!.role, 'users:read')) {
           return {
-            statusCode: 400,
+            statusCode: 403,
             body: JSON.stringify({
               success: false,
-              error: 'User ID or authorization is required'
+              error: 'You do not have permission to perform this action (users:read)'
             }),
             headers: createHeaders()
           };
         }
         
-        let userIdToFetch = userId;
-        
-        // If we have an auth header but no userId, extract user from token
-        // Note: In a real app, you would verify the JWT token
-        if (authHeader && !userIdToFetch) {
-          // Simple mock implementation - in reality you'd decode the JWT
-          // For demo purposes, assume token is in format: "Bearer user_id"
-          const parts = authHeader.split(' ');
-          if (parts.length === 2) {
-            userIdToFetch = parts[1];
-          }
-        }
+        let userIdToFetch = userId || requestUser!.id;
         
         // If still no user ID, return error
         if (!userIdToFetch) {
@@ -2226,6 +2362,17 @@ const handler: Handler = async (event: HandlerEvent, context: HandlerContext): P
         POST: postTemplate,
         PUT: putTemplate,
         DELETE: deleteTemplate
+      },
+      '/invitations': {
+        GET: getInvitations,
+        POST: postInvitation
+      },
+      // Public endpoints used by the registration page; the invitation token is the credential
+      '/verify-invitation': {
+        GET: verifyInvitation
+      },
+      '/register-with-invitation': {
+        POST: acceptInvitation
       }
     };
 
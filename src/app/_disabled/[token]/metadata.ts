@@ -1,7 +0,0 @@
-import { Metadata } from 'next';
-
-// This is a server component file that provides metadata
-export const metadata: Metadata = {
-  title: 'Complete Registration - Annual Wellness Visit',
-  description: 'Complete your registration with your invitation token.',
-}; 
\ No newline at end of file
@@ -0,0 +1,146 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import AuditEvent, { AUDIT_ACTIONS, AUDIT_RESOURCE_TYPES } from '@/models/AuditEvent';
+import { auditEventsToCsv, recordAuditEvent } from '@/lib/audit';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Upper bound on the rows in one CSV export
+const MAX_EXPORT_ROWS = 10000;
+
+const REPORT_FORMATS = ['pdf', 'print'];
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Build the audit query from the search parameters shared by the list and the CSV export
+const buildQuery = (searchParams: URLSearchParams) => {
+  const query: any = {};
+
+  const action = searchParams.get('action');
+  if (action && (AUDIT_ACTIONS as readonly string[]).includes(action)) {
+    query.action = action;
+  }
+
+  const resourceType = searchParams.get('resourceType');
+  if (resourceType && (AUDIT_RESOURCE_TYPES as readonly string[]).includes(resourceType)) {
+    query.resourceType = resourceType;
+  }
+
+  const resourceId = searchParams.get('resourceId');
+  if (resourceId) {
+    query.resourceId = resourceId;
+  }
+
+  const actor = searchParams.get('actor');
+  if (actor) {
+    query['actor.email'] = { $regex: escapeRegex(actor), $options: 'i' };
+  }
+
+  const from = searchParams.get('from');
+  const to = searchParams.get('to');
+  if (from || to) {
+    query.timestamp = {};
+    if (from && !isNaN(Date.parse(from))) query.timestamp.$gte = new Date(from);
+    // A date without a time covers the whole day
+    if (to && !isNaN(Date.parse(to))) {
+      const end = new Date(to);
+      if (/^\d{4}-\d{2}-\d{2}$/.test(to)) end.setUTCDate(end.getUTCDate() + 1);
+      query.timestamp.$lt = end;
+    }
+  }
+
+  return query;
+};
+
+// GET /api/audit - Search audit events, or download them as CSV with ?format=csv
+export async function GET(request: NextRequest) {
+  const auth = await requirePermission(request, 'audit:read');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const query = buildQuery(searchParams);
+
+    if (searchParams.get('format') === 'csv') {
+      const events = await AuditEvent.find(query)
+        .sort({ timestamp: -1 })
+        .limit(MAX_EXPORT_ROWS)
+        .lean();
+
+      return new NextResponse(auditEventsToCsv(events), {
+        status: 200,
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`
+        }
+      });
+    }
+
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50') || 50, 1), 200);
+
+    const [events, total] = await Promise.all([
+      AuditEvent.find(query)
+        .sort({ timestamp: -1 })
+        .skip((page - 1) * limit)
+        .limit(limit)
+        .lean(),
+      AuditEvent.countDocuments(query)
+    ]);
+
+    return NextResponse.json({
+      events,
+      pagination: {
+        total,
+        page,
+        limit,
+        pages: Math.ceil(total / limit)
+      }
+    });
+  } catch (error) {
+    console.error('Error fetching audit events:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch audit events' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/audit - Record a visit report generated in the browser (PDF download or print)
+export async function POST(request: NextRequest) {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const visitId = typeof body.visitId === 'string' ? body.visitId : '';
+    const format = REPORT_FORMATS.includes(body.format) ? body.format : 'pdf';
+
+    if (!mongoose.Types.ObjectId.isValid(visitId)) {
+      return NextResponse.json({ error: 'Invalid visit ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    await recordAuditEvent(request, auth.user, {
+      action: 'export',
+      resourceType: 'Visit',
+      resourceId: visitId,
+      details: { report: true, format }
+    });
+
+    return NextResponse.json({ success: true }, { status: 201 });
+  } catch (error) {
+    console.error('Error recording report export:', error);
+    return NextResponse.json(
+      { error: 'Failed to record report export' },
+      { status: 500 }
+    );
+  }
+}
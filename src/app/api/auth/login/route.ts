@@ -3,13 +3,20 @@ import connectToDatabase from '@/lib/mongodb';
 import User from '@/models/User';
 import jwt from 'jsonwebtoken';
 import { cookies } from 'next/headers';
-
-// Secret key for JWT
-const JWT_SECRET = process.env.NEXTAUTH_SECRET || 'your-custom-nextauth-secret-key-at-least-32-chars';
+import { getJwtSecret } from '@/lib/apiAuth';
 
 // POST /api/auth/login - Authenticate a user
 export async function POST(request: Request) {
   try {
+    const jwtSecret = getJwtSecret();
+    if (!jwtSecret) {
+      console.error('Login refused: NEXTAUTH_SECRET is not set');
+      return NextResponse.json(
+        { error: 'Authentication is not configured' },
+        { status: 503 }
+      );
+    }
+
     // Connect to the database
     await connectToDatabase();
     
@@ -57,7 +64,7 @@ export async function POST(request: Request) {
         name: user.name,
         role: user.role 
       },
-      JWT_SECRET,
+      jwtSecret,
       { expiresIn: '7d' }
     );
     
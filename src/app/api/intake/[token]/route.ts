@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { getIntakeForm, PatientIntakeError, submitIntake } from '@/lib/patientIntake';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null, details: any = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+    if (details !== null) {
+      body.details = details;
+    }
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+// GET /api/intake/[token] - The patient's pre-visit questionnaire.
+// Public: the token itself is the credential.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Response> {
+  const { token } = await params;
+
+  try {
+    await connectToDatabase();
+    return apiResponse(await getIntakeForm(token));
+  } catch (error: any) {
+    if (error instanceof PatientIntakeError) {
+      return apiResponse(null, error.status, error.message);
+    }
+
+    console.error('Error loading pre-visit questionnaire:', error);
+    return apiResponse(null, 500, 'The questionnaire could not be loaded. Please try again.');
+  }
+}
+
+// POST /api/intake/[token] - Submit the patient's answers; the link can only be used once
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ token: string }> }
+): Promise<Response> {
+  const { token } = await params;
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    await connectToDatabase();
+    const { intake, before, after } = await submitIntake(token, body.answers);
+
+    await recordAuditEvent(request, {
+      id: `patient:${String(before.patient?._id || before.patient)}`,
+      email: intake.sentTo || `intake:${intake.id}`,
+      role: 'patient'
+    }, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: String(before._id),
+      before,
+      after,
+      details: { intakeId: intake.id, questions: intake.questionIds }
+    });
+
+    return apiResponse({ submittedAt: intake.submittedAt, answered: intake.questionIds.length });
+  } catch (error: any) {
+    if (error instanceof PatientIntakeError) {
+      return apiResponse(null, error.status, error.message, error.details ?? null);
+    }
+
+    console.error('Error submitting pre-visit questionnaire:', error);
+    return apiResponse(null, 500, 'Your answers could not be saved. Please try again.');
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { InvitationError, resendInvitation } from '@/lib/invitations';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// POST /api/invitations/[id]/resend - Email a new link and extend the expiry
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'users:manage');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid invitation ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const invitation = await resendInvitation(id, new URL(request.url).origin);
+
+    return NextResponse.json({ success: true, data: invitation });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error(`Error resending invitation ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to resend invitation' },
+      { status: 500 }
+    );
+  }
+}
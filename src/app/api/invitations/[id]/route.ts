@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { InvitationError, revokeInvitation } from '@/lib/invitations';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// DELETE /api/invitations/[id] - Revoke a pending invitation so its link stops working
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'users:manage');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ success: false, error: 'Invalid invitation ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const invitation = await revokeInvitation(id);
+
+    return NextResponse.json({ success: true, data: invitation });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error(`Error revoking invitation ${id}:`, error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to revoke invitation' },
+      { status: 500 }
+    );
+  }
+}
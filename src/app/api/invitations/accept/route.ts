@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { acceptInvitation, InvitationError } from '@/lib/invitations';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// POST /api/invitations/accept - Create the invited user's account.
+// Public: the token itself is the credential and can only be used once.
+export async function POST(request: NextRequest) {
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    await connectToDatabase();
+    const user = await acceptInvitation({
+      token: body.token,
+      email: body.email,
+      name: body.name,
+      password: body.password
+    });
+
+    return NextResponse.json({ success: true, data: user }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Registration failed. Please try again.' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import Invitation, { INVITATION_STATUSES } from '@/models/Invitation';
+import { createInvitation, InvitationError, toInvitationRecord } from '@/lib/invitations';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/invitations - List invitations, newest first, optionally filtered by ?status=
+export async function GET(request: NextRequest) {
+  const auth = await requirePermission(request, 'users:manage');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status');
+
+    const query: any = {};
+    if (status === 'expired') {
+      query.status = 'pending';
+      query.expiresAt = { $lte: new Date() };
+    } else if (status && (INVITATION_STATUSES as readonly string[]).includes(status)) {
+      query.status = status;
+      if (status === 'pending') query.expiresAt = { $gt: new Date() };
+    }
+
+    const invitations = await Invitation.find(query)
+      .sort({ createdAt: -1 })
+      .populate('invitedBy', 'name email')
+      .lean();
+
+    return NextResponse.json({
+      success: true,
+      data: invitations.map(invitation => toInvitationRecord(invitation))
+    });
+  } catch (error) {
+    console.error('Error fetching invitations:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to fetch invitations' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/invitations - Invite a new user with a role and email them a registration link
+export async function POST(request: NextRequest) {
+  const auth = await requirePermission(request, 'users:manage');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const body = await request.json().catch(() => ({}));
+    const invitation = await createInvitation({
+      email: body.email,
+      name: body.name,
+      role: body.role || 'staff',
+      invitedBy: auth.user.id
+    }, new URL(request.url).origin);
+
+    return NextResponse.json({ success: true, data: invitation }, { status: 201 });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating invitation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to send invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,34 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { InvitationError, verifyInvitation } from '@/lib/invitations';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/invitations/verify?token=&email= - Check an invitation link before registering.
+// Public: the token itself is the credential.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+
+    await connectToDatabase();
+    const invitation = await verifyInvitation(
+      searchParams.get('token') || '',
+      searchParams.get('email') || ''
+    );
+
+    return NextResponse.json({ success: true, data: invitation });
+  } catch (error) {
+    if (error instanceof InvitationError) {
+      return NextResponse.json({ success: false, error: error.message }, { status: error.status });
+    }
+
+    console.error('Error verifying invitation:', error);
+    return NextResponse.json(
+      { success: false, error: 'Failed to verify invitation' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,48 +1,21 @@
 import { NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import mongoose from 'mongoose';
+import Patient from '@/models/Patient';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
 
 // Static export configuration
 export const dynamic = 'force-static';
 export const fetchCache = 'force-no-store';
 export const revalidate = 3600; // Revalidate every hour
 
-// Use the same Patient model from the main patients route
-const PatientSchema = new mongoose.Schema({
-  firstName: { type: String, required: true },
-  lastName: { type: String, required: true },
-  dateOfBirth: { type: String, required: true },
-  gender: { type: String, required: true },
-  email: String,
-  phoneNumber: String,
-  address: {
-    street: String,
-    city: String,
-    state: String,
-    zipCode: String,
-  },
-  insurance: {
-    provider: String,
-    policyNumber: String,
-    groupNumber: String,
-  },
-  medicalHistory: {
-    conditions: [String],
-    medications: [String],
-    allergies: [String],
-    surgeries: [String],
-    notes: String
-  },
-}, { 
-  timestamps: true 
-});
-
-// Get the Patient model (create if it doesn't exist)
-const Patient = mongoose.models.Patient || mongoose.model('Patient', PatientSchema);
-
 // GET: Retrieve a specific patient
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function GET(request, { params }) {
+  const auth = await requirePermission(request, 'patients:read');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -57,6 +30,12 @@ export async function GET(request, { params }) {
       return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Patient',
+      resourceId: id
+    });
+    
     return NextResponse.json({
       success: true,
       data: patient
@@ -73,6 +52,9 @@ export async function GET(request, { params }) {
 // PUT: Update a patient
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function PUT(request, { params }) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -92,6 +74,7 @@ export async function PUT(request, { params }) {
     }
     
     // Find and update the patient
+    const previousPatient = await Patient.findById(id).lean();
     const updatedPatient = await Patient.findByIdAndUpdate(
       id,
       { ...body, updatedAt: new Date() },
@@ -102,6 +85,14 @@ export async function PUT(request, { params }) {
       return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Patient',
+      resourceId: id,
+      before: previousPatient,
+      after: updatedPatient
+    });
+    
     return NextResponse.json({
       success: true,
       data: updatedPatient
@@ -118,6 +109,9 @@ export async function PUT(request, { params }) {
 // DELETE: Delete a patient
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function DELETE(request, { params }) {
+  const auth = await requirePermission(request, 'patients:delete');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -133,6 +127,13 @@ export async function DELETE(request, { params }) {
       return NextResponse.json({ error: 'Patient not found' }, { status: 404 });
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Patient',
+      resourceId: id,
+      before: deletedPatient
+    });
+    
     return NextResponse.json({
       success: true,
       data: { message: 'Patient deleted successfully' }
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import { findDuplicatePatients } from '@/lib/patientMerge';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/duplicates - Pairs of patients that may be the same person.
+// ?patientId= limits the result to one patient; ?threshold= (0-1) overrides the minimum score.
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'patients:read');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const patientId = searchParams.get('patientId') || undefined;
+    const threshold = parseFloat(searchParams.get('threshold') || '');
+
+    if (patientId && !mongoose.Types.ObjectId.isValid(patientId)) {
+      return NextResponse.json({ error: 'Invalid patient ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    const duplicates = await findDuplicatePatients({
+      patientId,
+      threshold: threshold >= 0 && threshold <= 1 ? threshold : undefined
+    });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Patient',
+      details: {
+        duplicates: duplicates.length,
+        ids: Array.from(new Set(duplicates.flatMap(pair => pair.patients.map(patient => patient._id))))
+      }
+    });
+
+    return NextResponse.json({ duplicates }, { status: 200 });
+  } catch (error) {
+    console.error('Error finding duplicate patients:', error);
+    return NextResponse.json(
+      { error: 'Failed to find duplicate patients' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { importErrorReport, PatientImportError } from '@/lib/patientImportJobs';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/import/[id]/errors - CSV of the rows that were not imported and why
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid import ID' }, { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    const { fileName, csv } = await importErrorReport(id);
+
+    // The report repeats patient details from the uploaded file
+    await recordAuditEvent(request, auth.user, {
+      action: 'export',
+      resourceType: 'Patient',
+      details: { source: 'csv-import', importJob: id, format: 'csv' }
+    });
+
+    const baseName = (fileName || 'patients').replace(/\.csv$/i, '').replace(/[^\w.-]+/g, '_');
+    return new NextResponse(csv, {
+      status: 200,
+      headers: {
+        'Content-Type': 'text/csv; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${baseName}-import-errors.csv"`
+      }
+    });
+  } catch (error) {
+    if (error instanceof PatientImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error building patient import report:', error);
+    return NextResponse.json(
+      { error: 'Failed to build patient import report' },
+      { status: 500 }
+    );
+  }
+}
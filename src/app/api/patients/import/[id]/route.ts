@@ -0,0 +1,68 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { cancelImportJob, getImportJob, PatientImportError } from '@/lib/patientImportJobs';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/import/[id] - Progress of an import
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid import ID' }, { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    return NextResponse.json(await getImportJob(id), { status: 200 });
+  } catch (error) {
+    if (error instanceof PatientImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error fetching patient import:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch patient import' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE /api/patients/import/[id] - Cancel an import; patients already created are kept
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid import ID' }, { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    return NextResponse.json(await cancelImportJob(id), { status: 200 });
+  } catch (error) {
+    if (error instanceof PatientImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error cancelling patient import:', error);
+    return NextResponse.json(
+      { error: 'Failed to cancel patient import' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,51 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { PatientImportError, runImportBatch } from '@/lib/patientImportJobs';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// POST /api/patients/import/[id]/run - Process the next batch of rows.
+// Call repeatedly until the returned status is completed.
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid import ID' }, { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    const { job, createdIds } = await runImportBatch(id);
+
+    if (createdIds.length > 0) {
+      await recordAuditEvent(request, auth.user, {
+        action: 'create',
+        resourceType: 'Patient',
+        details: { source: 'csv-import', importJob: id, ids: createdIds }
+      });
+    }
+
+    return NextResponse.json(job, { status: 200 });
+  } catch (error) {
+    if (error instanceof PatientImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error running patient import:', error);
+    return NextResponse.json(
+      { error: 'Failed to run patient import' },
+      { status: 500 }
+    );
+  }
+}
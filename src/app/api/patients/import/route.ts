@@ -0,0 +1,56 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { createImportJob, listImportJobs, PatientImportError } from '@/lib/patientImportJobs';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/import - Recent CSV imports, so an unfinished one can be resumed
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+    return NextResponse.json({ jobs: await listImportJobs() }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching patient imports:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch patient imports' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/patients/import - Start an import from mapped CSV rows.
+// The body is { fileName, rows: [{ line, input }] }; rows are processed by the run endpoint.
+export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const body = await request.json().catch(() => null);
+    const job = await createImportJob({
+      fileName: body?.fileName,
+      rows: body?.rows,
+      createdBy: auth.user.id
+    });
+
+    return NextResponse.json(job, { status: 201 });
+  } catch (error) {
+    if (error instanceof PatientImportError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error creating patient import:', error);
+    return NextResponse.json(
+      { error: 'Failed to create patient import' },
+      { status: 500 }
+    );
+  }
+}
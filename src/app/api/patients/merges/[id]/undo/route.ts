@@ -0,0 +1,58 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import { PatientMergeError, undoPatientMerge } from '@/lib/patientMerge';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// POST /api/patients/merges/[id]/undo - Restore both patients and move the merged visits back
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'patients:merge');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid merge ID' }, { status: 400 });
+  }
+
+  try {
+    await connectToDatabase();
+    const { merge, before, after, restored } = await undoPatientMerge(id, auth.user);
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Patient',
+      resourceId: merge.survivor._id,
+      before,
+      after,
+      details: { merge: merge.id, undo: true }
+    });
+    await recordAuditEvent(request, auth.user, {
+      action: 'create',
+      resourceType: 'Patient',
+      resourceId: merge.merged._id,
+      after: restored,
+      details: { merge: merge.id, undo: true }
+    });
+
+    return NextResponse.json(merge, { status: 200 });
+  } catch (error) {
+    if (error instanceof PatientMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error undoing patient merge:', error);
+    return NextResponse.json(
+      { error: 'Failed to undo patient merge' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,84 @@
+import { NextResponse } from 'next/server';
+import mongoose from 'mongoose';
+import connectToDatabase from '@/lib/mongodb';
+import { listPatientMerges, mergePatients, PatientMergeError } from '@/lib/patientMerge';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/merges - Merge history, newest first (?patientId= for one patient)
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'patients:read');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const patientId = searchParams.get('patientId') || undefined;
+
+    if (patientId && !mongoose.Types.ObjectId.isValid(patientId)) {
+      return NextResponse.json({ error: 'Invalid patient ID' }, { status: 400 });
+    }
+
+    await connectToDatabase();
+    return NextResponse.json({ merges: await listPatientMerges({ patientId }) }, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching patient merges:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch patient merges' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/patients/merges - Merge a duplicate patient into the surviving one.
+// The body is { survivorId, duplicateId, choices: { field: 'survivor' | 'duplicate' } }.
+export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'patients:merge');
+  if (auth.response) return auth.response;
+
+  try {
+    const body = await request.json().catch(() => null);
+
+    await connectToDatabase();
+    const { merge, before, after, removed } = await mergePatients(
+      {
+        survivorId: String(body?.survivorId || ''),
+        duplicateId: String(body?.duplicateId || ''),
+        choices: body?.choices && typeof body.choices === 'object' ? body.choices : undefined
+      },
+      auth.user
+    );
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Patient',
+      resourceId: merge.survivor._id,
+      before,
+      after,
+      details: { merge: merge.id, mergedFrom: merge.merged._id, visits: merge.visitCount }
+    });
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Patient',
+      resourceId: merge.merged._id,
+      before: removed,
+      details: { merge: merge.id, mergedInto: merge.survivor._id }
+    });
+
+    return NextResponse.json(merge, { status: 201 });
+  } catch (error) {
+    if (error instanceof PatientMergeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error merging patients:', error);
+    return NextResponse.json(
+      { error: 'Failed to merge patients' },
+      { status: 500 }
+    );
+  }
+}
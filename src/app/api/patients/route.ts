@@ -1,46 +1,19 @@
 import { NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
-import mongoose from 'mongoose';
+import Patient from '@/models/Patient';
+import { requirePermission } from '@/lib/apiAuth';
+import { listedIds, recordAuditEvent } from '@/lib/audit';
 
 // Static export configuration
 export const dynamic = 'force-static';
 export const fetchCache = 'force-no-store';
 export const revalidate = 3600; // Revalidate every hour
 
-// Define Patient schema
-const PatientSchema = new mongoose.Schema({
-  firstName: { type: String, required: true },
-  lastName: { type: String, required: true },
-  dateOfBirth: { type: String, required: true },
-  gender: { type: String, required: true },
-  email: String,
-  phoneNumber: String,
-  address: {
-    street: String,
-    city: String,
-    state: String,
-    zipCode: String,
-  },
-  insurance: {
-    provider: String,
-    policyNumber: String,
-    groupNumber: String,
-  },
-  medicalHistory: {
-    conditions: [String],
-    medications: [String],
-    allergies: [String],
-    surgeries: [String],
-  },
-}, { 
-  timestamps: true 
-});
-
-// Get the Patient model (create if it doesn't exist)
-const Patient = mongoose.models.Patient || mongoose.model('Patient', PatientSchema);
-
 // GET /api/patients - Fetch patients with pagination
 export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'patients:read');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -80,6 +53,12 @@ export async function GET(request: Request) {
     // Get total count
     const total = await Patient.countDocuments(query);
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Patient',
+      details: { search: search || undefined, page, ids: listedIds(patients) }
+    });
+    
     return NextResponse.json({
       patients,
       pagination: {
@@ -100,6 +79,9 @@ export async function GET(request: Request) {
 
 // POST /api/patients - Create a new patient
 export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -119,6 +101,13 @@ export async function POST(request: Request) {
     const patient = new Patient(body);
     await patient.save();
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'create',
+      resourceType: 'Patient',
+      resourceId: String(patient._id),
+      after: patient
+    });
+    
     return NextResponse.json(patient, { status: 201 });
   } catch (error) {
     console.error('Error creating patient:', error);
@@ -131,6 +120,9 @@ export async function POST(request: Request) {
 
 // PUT /api/patients - Update a patient
 export async function PUT(request: Request) {
+  const auth = await requirePermission(request, 'patients:write');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -156,6 +148,7 @@ export async function PUT(request: Request) {
     }
     
     // Update the patient
+    const previousPatient = await Patient.findById(id).lean();
     const updatedPatient = await Patient.findByIdAndUpdate(
       id,
       { ...body, updatedAt: new Date() },
@@ -169,6 +162,14 @@ export async function PUT(request: Request) {
       );
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Patient',
+      resourceId: id,
+      before: previousPatient,
+      after: updatedPatient
+    });
+    
     return NextResponse.json(updatedPatient, { status: 200 });
   } catch (error) {
     console.error('Error updating patient:', error);
@@ -181,6 +182,9 @@ export async function PUT(request: Request) {
 
 // DELETE /api/patients - Delete a patient
 export async function DELETE(request: Request) {
+  const auth = await requirePermission(request, 'patients:delete');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -206,6 +210,13 @@ export async function DELETE(request: Request) {
       );
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Patient',
+      resourceId: id,
+      before: deletedPatient
+    });
+    
     return NextResponse.json({ message: 'Patient deleted successfully' }, { status: 200 });
   } catch (error) {
     console.error('Error deleting patient:', error);
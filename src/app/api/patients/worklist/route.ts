@@ -0,0 +1,50 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import { getAwvWorklist } from '@/lib/awvWorklist';
+import { AWV_STATUSES, AwvStatus } from '@/lib/awvEligibility';
+import { requirePermission } from '@/lib/apiAuth';
+import { listedIds, recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/patients/worklist - Patients with their AWV eligibility, longest overdue first.
+// ?status= is never, overdue, due or not-due; the response counts every status.
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'patients:read');
+  if (auth.response) return auth.response;
+
+  try {
+    const { searchParams } = new URL(request.url);
+    const status = searchParams.get('status') || 'all';
+    const search = searchParams.get('search') || '';
+    const page = Math.max(parseInt(searchParams.get('page') || '1') || 1, 1);
+    const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '20') || 20, 1), 100);
+
+    if (status !== 'all' && !(AWV_STATUSES as readonly string[]).includes(status)) {
+      return NextResponse.json(
+        { error: `Invalid status; use one of ${AWV_STATUSES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    await connectToDatabase();
+    const worklist = await getAwvWorklist({ status: status as AwvStatus | 'all', search, page, limit });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Patient',
+      details: { worklist: status, search: search || undefined, page, ids: listedIds(worklist.patients) }
+    });
+
+    return NextResponse.json(worklist, { status: 200 });
+  } catch (error) {
+    console.error('Error fetching AWV worklist:', error);
+    return NextResponse.json(
+      { error: 'Failed to fetch AWV worklist' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,8 +2,7 @@
 import { NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import mongoose from 'mongoose';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/apiAuth';
 
 // Practice Settings model schema
 const PracticeSettingsSchema = new mongoose.Schema({
@@ -66,40 +65,15 @@ const UserSchema = new mongoose.Schema({
 
 const User = mongoose.models.User || mongoose.model('User', UserSchema);
 
-// Helper function to check if the user has provider or admin role
-const isUserAdminOrProvider = async (session: any) => {
-  if (!session?.user?.email) return false;
-  
-  const user = await User.findOne({ email: session.user.email });
-  return user?.role === 'admin' || user?.role === 'provider';
-};
-
 // POST /api/practice/logo - Upload practice logo (admin or provider only)
 export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'practice:manage');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authenticated
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
-    // Only admin and provider roles can upload logo
-    const isAuthorized = await isUserAdminOrProvider(session);
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: 'Unauthorized. You do not have permission to upload a logo.' },
-        { status: 403 }
-      );
-    }
-    
     // In a real app, you would:
     // 1. Parse the multipart form data
     // 2. Read the file from the request
@@ -144,30 +118,13 @@ export async function POST(request: Request) {
 
 // DELETE /api/practice/logo - Delete practice logo (admin or provider only)
 export async function DELETE(request: Request) {
+  const auth = await requirePermission(request, 'practice:manage');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authenticated
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
-    // Only admin and provider roles can delete logo
-    const isAuthorized = await isUserAdminOrProvider(session);
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: 'Unauthorized. You do not have permission to delete the logo.' },
-        { status: 403 }
-      );
-    }
-    
     // Find practice settings
     const practiceSettings = await PracticeSettings.findOne();
     
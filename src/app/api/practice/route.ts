@@ -2,8 +2,7 @@
 import { NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import mongoose from 'mongoose';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/apiAuth';
 
 // Static export configuration
 export const dynamic = 'force-static';
@@ -71,31 +70,15 @@ const UserSchema = new mongoose.Schema({
 
 const User = mongoose.models.User || mongoose.model('User', UserSchema);
 
-// Helper function to check if the user has provider or admin role
-const isUserAdminOrProvider = async (session: any) => {
-  if (!session?.user?.email) return false;
-  
-  const user = await User.findOne({ email: session.user.email });
-  return user?.role === 'admin' || user?.role === 'provider';
-};
-
 // GET /api/practice - Get practice settings (any authenticated user)
 export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'practice:read');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authenticated
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
     // Find practice settings - there should only be one document
     let practiceSettings = await PracticeSettings.findOne().lean();
     
@@ -128,30 +111,13 @@ export async function GET(request: Request) {
 
 // PUT /api/practice - Update practice settings (admin or provider only)
 export async function PUT(request: Request) {
+  const auth = await requirePermission(request, 'practice:manage');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authenticated
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
-    // Only admin and provider roles can update practice settings
-    const isAuthorized = await isUserAdminOrProvider(session);
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: 'Unauthorized. You do not have permission to update practice settings.' },
-        { status: 403 }
-      );
-    }
-    
     // Get request body
     const body = await request.json();
     
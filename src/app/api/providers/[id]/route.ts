@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import User from '@/models/User';
+import { requirePermission } from '@/lib/apiAuth';
+import { hasPermission } from '@/lib/permissions';
+import { validateWorkingHours } from '@/lib/scheduling';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// PUT /api/providers/[id] - Replace a provider's working hours; providers can edit their own
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  if (!mongoose.Types.ObjectId.isValid(id)) {
+    return NextResponse.json({ error: 'Invalid provider ID' }, { status: 400 });
+  }
+
+  if (auth.user.id !== id && !hasPermission(auth.user.role, 'users:manage')) {
+    return NextResponse.json({ error: "You do not have permission to change this provider's working hours" }, { status: 403 });
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+    const { hours, errors } = validateWorkingHours(body.workingHours);
+    if (errors.length > 0) {
+      return NextResponse.json({ error: 'Invalid working hours', details: errors }, { status: 400 });
+    }
+
+    await connectToDatabase();
+
+    const provider: any = await User.findOneAndUpdate(
+      { _id: id, role: 'provider' },
+      { workingHours: hours },
+      { new: true }
+    ).select('name email specialty workingHours').lean();
+
+    if (!provider) {
+      return NextResponse.json({ error: 'Provider not found' }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      _id: String(provider._id),
+      name: provider.name,
+      email: provider.email,
+      specialty: provider.specialty,
+      workingHours: provider.workingHours
+    });
+  } catch (error) {
+    console.error(`Error updating working hours of provider ${id}:`, error);
+    return NextResponse.json({ error: 'Failed to update working hours' }, { status: 500 });
+  }
+}
@@ -0,0 +1,38 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import User from '@/models/User';
+import { requirePermission } from '@/lib/apiAuth';
+import { DEFAULT_WORKING_HOURS } from '@/lib/scheduling';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/providers - Active providers and their working hours, for booking and the calendar
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const providers: any[] = await User.find({ role: 'provider', isActive: { $ne: false } })
+      .select('name email specialty workingHours')
+      .sort({ name: 1 })
+      .lean();
+
+    return NextResponse.json({
+      providers: providers.map(provider => ({
+        _id: String(provider._id),
+        name: provider.name,
+        email: provider.email,
+        specialty: provider.specialty,
+        workingHours: provider.workingHours || DEFAULT_WORKING_HOURS
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching providers:', error);
+    return NextResponse.json({ error: 'Failed to fetch providers' }, { status: 500 });
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import TemplateModel from '@/models/Template';
+import { getTemplateVersion } from '@/lib/templateVersions';
+import { templateToQuestionnaire } from '@/lib/fhirQuestionnaire';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET: Export a template as a FHIR Questionnaire, with what could not be mapped.
+// ?version=N exports a published version; otherwise the working copy is exported as a draft.
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'templates:read');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  try {
+    await connectToDatabase();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const versionParam = new URL(request.url).searchParams.get('version');
+    const version = versionParam ? parseInt(versionParam, 10) : null;
+    if (versionParam && (!Number.isInteger(version) || version! < 1)) {
+      return NextResponse.json({ error: 'Invalid version' }, { status: 400 });
+    }
+
+    const template: any = version
+      ? await getTemplateVersion(id, version)
+      : await TemplateModel.findById(id).lean();
+
+    if (!template) {
+      return NextResponse.json({ error: version ? 'Template version not found' : 'Template not found' }, { status: 404 });
+    }
+
+    const result = templateToQuestionnaire({
+      _id: id,
+      name: template.name,
+      description: template.description,
+      sections: template.sections,
+      updatedAt: template.publishedAt || template.updatedAt,
+      // The working copy only matches a published version when it has no unpublished edits
+      version: version || (template.status === 'published' ? template.version : undefined),
+    });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'export',
+      resourceType: 'Template',
+      resourceId: id,
+      details: { format: 'fhir-questionnaire', version: version || undefined }
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    console.error(`Error exporting template ${id} as a questionnaire:`, error);
+    return NextResponse.json(
+      { error: 'Failed to export template' },
+      { status: 500 }
+    );
+  }
+}
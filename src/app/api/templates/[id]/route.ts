@@ -5,6 +5,10 @@ import { getServerSession } from 'next-auth';
 import { authOptions } from '@/lib/auth';
 import mongoose from 'mongoose';
 import { uuidv4 } from '@/utils/uuid';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+import { pinTemplateVersion } from '@/lib/templateVersions';
+import { isValidDuration, MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
 
 // Static export configuration
 export const dynamic = 'force-static';
@@ -16,6 +20,9 @@ const isDevelopment = process.env.NODE_ENV === 'development';
 // GET: Retrieve a specific template
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function GET(request, { params }) {
+  const auth = await requirePermission(request, 'templates:read');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -42,6 +49,8 @@ export async function GET(request, { params }) {
         return NextResponse.json({ error: 'Template not found' }, { status: 404 });
       }
       
+      await recordAuditEvent(request, auth.user, { action: 'read', resourceType: 'Template', resourceId: id });
+      
       return NextResponse.json(template);
     } catch (populateError: any) {
       // If it's a missing schema error for the User model, fetch without populate
@@ -54,6 +63,8 @@ export async function GET(request, { params }) {
           return NextResponse.json({ error: 'Template not found' }, { status: 404 });
         }
         
+        await recordAuditEvent(request, auth.user, { action: 'read', resourceType: 'Template', resourceId: id });
+        
         return NextResponse.json(template);
       }
       
@@ -72,6 +83,9 @@ export async function GET(request, { params }) {
 // PUT: Update a template
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function PUT(request, { params }) {
+  const auth = await requirePermission(request, 'templates:write');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -97,6 +111,13 @@ export async function PUT(request, { params }) {
         { status: 400 }
       );
     }
+
+    if (body.visitDurationMinutes != null && !isValidDuration(body.visitDurationMinutes)) {
+      return NextResponse.json(
+        { error: `Visit duration must be ${MIN_VISIT_MINUTES}-${MAX_VISIT_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
     
     // Process sections to ensure all have IDs
     const processedSections = body.sections.map((section: any) => {
@@ -117,12 +138,19 @@ export async function PUT(request, { params }) {
       };
     });
     
-    // Update template
+    // Edits only change the draft; published versions are created by publishing
+    const { version, status, publishedAt, ...templateData } = body;
+    const previousTemplate: any = await TemplateModel.findById(id).lean();
+    // A template from before versioning is snapshotted as the version visits
+    // used before the edit turns it into a draft
+    const legacyVersion = previousTemplate && !previousTemplate.status ? await pinTemplateVersion(id) : null;
     const updatedTemplate = await TemplateModel.findByIdAndUpdate(
       id,
       { 
-        ...body, 
+        ...(legacyVersion && { version: legacyVersion }),
+        ...templateData, 
         sections: processedSections,
+        status: 'draft',
         updatedAt: new Date()
       },
       { new: true, runValidators: true }
@@ -132,6 +160,14 @@ export async function PUT(request, { params }) {
       return NextResponse.json({ error: 'Template not found' }, { status: 404 });
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Template',
+      resourceId: id,
+      before: previousTemplate,
+      after: updatedTemplate
+    });
+    
     return NextResponse.json(updatedTemplate);
   } catch (error) {
     console.error(`Error updating template ${params.id}:`, error);
@@ -145,6 +181,9 @@ export async function PUT(request, { params }) {
 // DELETE: Remove a template (mark as inactive)
 // @ts-ignore - Disable type checking for this function to resolve Vercel build issues
 export async function DELETE(request, { params }) {
+  const auth = await requirePermission(request, 'templates:delete');
+  if (auth.response) return auth.response;
+  
   try {
     await connectToDatabase();
     
@@ -168,6 +207,13 @@ export async function DELETE(request, { params }) {
       return NextResponse.json({ error: 'Template not found' }, { status: 404 });
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Template',
+      resourceId: id,
+      before: deletedTemplate
+    });
+    
     return NextResponse.json({ message: 'Template deleted successfully' });
   } catch (error) {
     console.error(`Error deleting template ${params.id}:`, error);
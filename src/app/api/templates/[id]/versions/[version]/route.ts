@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { getTemplateVersion } from '@/lib/templateVersions';
+import { requirePermission } from '@/lib/apiAuth';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET: Retrieve a published template version in template shape
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; version: string }> }
+) {
+  const auth = await requirePermission(request, 'templates:read');
+  if (auth.response) return auth.response;
+  
+  const { id, version } = await params;
+
+  try {
+    await connectToDatabase();
+
+    const versionNumber = parseInt(version, 10);
+    if (!mongoose.Types.ObjectId.isValid(id) || Number.isNaN(versionNumber)) {
+      return NextResponse.json({ error: 'Invalid template ID or version' }, { status: 400 });
+    }
+
+    const template = await getTemplateVersion(id, versionNumber);
+
+    if (!template) {
+      return NextResponse.json({ error: 'Template version not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(template);
+  } catch (error) {
+    console.error(`Error fetching version ${version} of template ${id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch template version' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import TemplateVersion from '@/models/TemplateVersion';
+import { publishTemplate, TemplatePublishError } from '@/lib/templateVersions';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET: List the published versions of a template, newest first
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'templates:read');
+  if (auth.response) return auth.response;
+  
+  const { id } = await params;
+
+  try {
+    await connectToDatabase();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const versions = await TemplateVersion.find({ template: id })
+      .select('-sections')
+      .sort({ version: -1 })
+      .lean();
+
+    return NextResponse.json(versions);
+  } catch (error) {
+    console.error(`Error fetching versions for template ${id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to fetch template versions' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST: Publish the current draft as a new immutable version
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const auth = await requirePermission(request, 'templates:publish');
+  if (auth.response) return auth.response;
+  
+  const { id } = await params;
+
+  try {
+    await connectToDatabase();
+
+    if (!mongoose.Types.ObjectId.isValid(id)) {
+      return NextResponse.json({ error: 'Invalid template ID' }, { status: 400 });
+    }
+
+    const body = await request.json().catch(() => ({}));
+    const snapshot = await publishTemplate(id, {
+      notes: typeof body.notes === 'string' ? body.notes : undefined,
+      publishedBy: auth.user.id
+    });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Template',
+      resourceId: id,
+      details: { publishedVersion: snapshot.version, notes: snapshot.notes }
+    });
+
+    return NextResponse.json(snapshot, { status: 201 });
+  } catch (error) {
+    if (error instanceof TemplatePublishError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error(`Error publishing template ${id}:`, error);
+    return NextResponse.json(
+      { error: 'Failed to publish template' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import TemplateModel from '@/models/Template';
+import { questionnaireToTemplate, QuestionnaireError } from '@/lib/fhirQuestionnaire';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// POST: Create a draft template from a FHIR Questionnaire.
+// The body is { questionnaire }; the response lists what could not be mapped.
+export async function POST(request: NextRequest) {
+  const auth = await requirePermission(request, 'templates:write');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const body = await request.json().catch(() => null);
+    const { template: imported, issues } = questionnaireToTemplate(body?.questionnaire);
+
+    // Imported templates start as an unpublished draft like any new template
+    const template = new TemplateModel({
+      ...imported,
+      isActive: false,
+      createdBy: mongoose.Types.ObjectId.isValid(auth.user.id) ? auth.user.id : null,
+      version: 0,
+      status: 'draft'
+    });
+
+    const validationError = template.validateSync();
+    if (validationError) {
+      return NextResponse.json(
+        { error: 'Template validation failed', details: validationError.message, issues },
+        { status: 400 }
+      );
+    }
+
+    await template.save();
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'create',
+      resourceType: 'Template',
+      resourceId: String(template._id),
+      after: template,
+      details: { source: 'fhir-questionnaire', issues: issues.length }
+    });
+
+    return NextResponse.json({ template, issues }, { status: 201 });
+  } catch (error) {
+    if (error instanceof QuestionnaireError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+
+    console.error('Error importing questionnaire:', error);
+    return NextResponse.json(
+      { error: 'Failed to import questionnaire' },
+      { status: 500 }
+    );
+  }
+}
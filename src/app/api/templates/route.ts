@@ -1,6 +1,10 @@
 import mongoose from 'mongoose';
 import TemplateModel from '@/models/Template';
 import { uuidv4 } from '@/utils/uuid';
+import { requirePermission } from '@/lib/apiAuth';
+import { listedIds, recordAuditEvent } from '@/lib/audit';
+import { pinTemplateVersion } from '@/lib/templateVersions';
+import { isValidDuration, MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
 
 // Static export configuration
 export const dynamic = 'force-static';
@@ -26,6 +30,9 @@ function createResponse(data: any, status: number = 200) {
 
 // GET: Retrieve all templates
 export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'templates:read');
+  if (auth.response) return auth.response;
+  
   try {
     // Check MongoDB connection
     if (mongoose.connection.readyState !== 1) {
@@ -51,6 +58,16 @@ export async function GET(request: Request) {
       .sort({ updatedAt: -1 })
       .lean();
     
+    await recordAuditEvent(request, auth.user, id ? {
+      action: 'read',
+      resourceType: 'Template',
+      resourceId: id
+    } : {
+      action: 'read',
+      resourceType: 'Template',
+      details: { name: name || undefined, ids: listedIds(templates) }
+    });
+    
     // If fetching a single template by ID, return the first result
     if (id && templates.length > 0) {
       return createResponse(templates[0]);
@@ -68,6 +85,9 @@ export async function GET(request: Request) {
 
 // POST: Create a new template
 export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'templates:write');
+  if (auth.response) return auth.response;
+  
   try {
     // Check MongoDB connection
     if (mongoose.connection.readyState !== 1) {
@@ -88,6 +108,13 @@ export async function POST(request: Request) {
         400
       );
     }
+
+    if (body.visitDurationMinutes != null && !isValidDuration(body.visitDurationMinutes)) {
+      return createResponse(
+        { error: `Visit duration must be ${MIN_VISIT_MINUTES}-${MAX_VISIT_MINUTES} minutes` },
+        400
+      );
+    }
     
     // Generate IDs for sections and questions if not provided
     const processedSections = body.sections.map((section: any) => {
@@ -111,12 +138,14 @@ export async function POST(request: Request) {
     // Log processed sections for debugging
     console.log('Processed sections:', JSON.stringify(processedSections, null, 2));
     
-    // Create template
+    // New templates start as an unpublished draft
+    const { version, status, publishedAt, ...templateData } = body;
     const template = new TemplateModel({
-      ...body,
+      ...templateData,
       sections: processedSections,
       isActive: body.isActive || false,
-      version: body.version || 1
+      version: 0,
+      status: 'draft'
     });
     
     // Log validation errors if any
@@ -132,6 +161,13 @@ export async function POST(request: Request) {
     // Save the template
     await template.save();
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'create',
+      resourceType: 'Template',
+      resourceId: String(template._id),
+      after: template
+    });
+    
     return createResponse(template, 201);
   } catch (error) {
     console.error('Error creating template:', error);
@@ -144,6 +180,9 @@ export async function POST(request: Request) {
 
 // PUT: Update a template
 export async function PUT(request: Request) {
+  const auth = await requirePermission(request, 'templates:write');
+  if (auth.response) return auth.response;
+  
   try {
     // Check MongoDB connection
     if (mongoose.connection.readyState !== 1) {
@@ -169,6 +208,13 @@ export async function PUT(request: Request) {
         400
       );
     }
+
+    if (body.visitDurationMinutes != null && !isValidDuration(body.visitDurationMinutes)) {
+      return createResponse(
+        { error: `Visit duration must be ${MIN_VISIT_MINUTES}-${MAX_VISIT_MINUTES} minutes` },
+        400
+      );
+    }
     
     // Process sections and questions
     const processedSections = body.sections.map((section: any) => {
@@ -189,12 +235,19 @@ export async function PUT(request: Request) {
       };
     });
     
-    // Update the template
+    // Edits only change the draft; published versions are created by publishing
+    const { version, status, publishedAt, ...templateData } = body;
+    const previousTemplate: any = await TemplateModel.findById(id).lean();
+    // A template from before versioning is snapshotted as the version visits
+    // used before the edit turns it into a draft
+    const legacyVersion = previousTemplate && !previousTemplate.status ? await pinTemplateVersion(id) : null;
     const updatedTemplate = await TemplateModel.findByIdAndUpdate(
       id,
       {
-        ...body,
+        ...(legacyVersion && { version: legacyVersion }),
+        ...templateData,
         sections: processedSections,
+        status: 'draft',
         updatedAt: new Date()
       },
       { new: true, runValidators: true }
@@ -207,6 +260,14 @@ export async function PUT(request: Request) {
       );
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Template',
+      resourceId: id,
+      before: previousTemplate,
+      after: updatedTemplate
+    });
+    
     return createResponse(updatedTemplate);
   } catch (error) {
     console.error('Error updating template:', error);
@@ -219,6 +280,9 @@ export async function PUT(request: Request) {
 
 // DELETE: Delete a template
 export async function DELETE(request: Request) {
+  const auth = await requirePermission(request, 'templates:delete');
+  if (auth.response) return auth.response;
+  
   try {
     // Check MongoDB connection
     if (mongoose.connection.readyState !== 1) {
@@ -246,6 +310,13 @@ export async function DELETE(request: Request) {
       );
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Template',
+      resourceId: id,
+      before: deletedTemplate
+    });
+    
     return createResponse({ message: 'Template deleted successfully' });
   } catch (error) {
     console.error('Error deleting template:', error);
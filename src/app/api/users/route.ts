@@ -1,8 +1,7 @@
 import { NextResponse } from 'next/server';
 import { safeConnectToDatabase, isBuildTime, createMockModel } from '@/lib/prerender-workaround';
 import mongoose from 'mongoose';
-import { getServerSession } from 'next-auth/next';
-import { authOptions } from '@/lib/auth';
+import { requirePermission } from '@/lib/apiAuth';
 
 // Static export configuration
 export const dynamic = 'force-static';
@@ -109,40 +108,11 @@ const initUserModel = async () => {
 // Initialize right away
 initUserModel();
 
-// Helper function to check if the user has admin role
-const isUserAdmin = async (session: any) => {
-  if (!session?.user?.email) return false;
-  
-  // Skip DB lookup during build
-  if (isBuildTime()) {
-    return true; // Mock admin status during build
-  }
-  
-  // Ensure User model is initialized
-  await initUserModel();
-  
-  const user = await User.findOne({ email: session.user.email });
-  return user?.role === 'admin';
-};
-
-// Helper function to check if the user has provider or admin role
-const isUserAdminOrProvider = async (session: any) => {
-  if (!session?.user?.email) return false;
-  
-  // Skip DB lookup during build
-  if (isBuildTime()) {
-    return true; // Mock admin/provider status during build
-  }
-  
-  // Ensure User model is initialized
-  await initUserModel();
-  
-  const user = await User.findOne({ email: session.user.email });
-  return user?.role === 'admin' || user?.role === 'provider';
-};
-
 // GET /api/users - Get all users (admin and provider only)
 export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'users:read');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database safely
     await safeConnectToDatabase();
@@ -150,26 +120,6 @@ export async function GET(request: Request) {
     // Initialize User model
     await initUserModel();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authorized
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
-    // Only admin and provider roles can access user list
-    const isAuthorized = await isUserAdminOrProvider(session);
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: 'Unauthorized. You do not have permission to access this resource.' },
-        { status: 403 }
-      );
-    }
-
     // For build time, return mock data
     if (isBuildTime()) {
       return NextResponse.json({
@@ -246,32 +196,15 @@ export async function GET(request: Request) {
 
 // POST /api/users - Create a new user (admin only)
 export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'users:manage');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await safeConnectToDatabase();
     
-    // Get the user session
-    const session = await getServerSession(authOptions);
-    
-    // Check if the user is authorized
-    if (!session?.user) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Please sign in.' },
-        { status: 401 }
-      );
-    }
-    
-    // Only admin role can create users directly
-    const isAuthorized = await isUserAdmin(session);
-    if (!isAuthorized) {
-      return NextResponse.json(
-        { error: 'Unauthorized. Only administrators can create users.' },
-        { status: 403 }
-      );
-    }
-    
     // Get the current user to set as inviter
-    const invitedBy = await User.findOne({ email: session.user.email });
+    const invitedBy = await User.findOne({ email: auth.user.email });
     
     // Get request body
     const body = await request.json();
@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { z } from 'zod';
+import Visit from '@/models/Visit';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+import { createAddendum } from '@/lib/visitSignature';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+const AddendumSchema = z.object({
+  text: z.string().trim().min(1, 'The addendum is empty').max(10000)
+});
+
+// POST /api/visits/[id]/addenda - Add an addendum to a signed visit
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:complete');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    const parsed = AddendumSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return apiResponse(null, 400, parsed.error.issues[0]?.message || 'Invalid addendum');
+    }
+
+    // Connect to the database
+    await connectToDatabase();
+
+    const visit: any = await Visit.findById(id).select('status signature addenda').lean();
+
+    if (!visit) {
+      return apiResponse(null, 404, 'Visit not found');
+    }
+
+    if (visit.status !== 'signed' || !visit.signature) {
+      return apiResponse(null, 409, 'Addenda can only be added to signed visits; edit the visit instead');
+    }
+
+    const addendum = await createAddendum(visit, parsed.data.text, auth.user);
+
+    // Each addendum chains to the one before it, so two added at once cannot both land
+    const updated = await Visit.findOneAndUpdate(
+      { _id: id, status: 'signed', addenda: { $size: addendum.version - 1 } },
+      { $push: { addenda: addendum }, updatedAt: new Date(), $inc: { revision: 1 } },
+      { new: true }
+    );
+
+    if (!updated) {
+      return apiResponse(null, 409, 'Another addendum was added at the same time; reload the visit and try again');
+    }
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { addendumVersion: addendum.version }
+    });
+
+    return apiResponse(addendum, 201);
+  } catch (error: any) {
+    console.error(`Error adding an addendum to visit ${id}:`, error);
+
+    // Handle specific MongoDB errors
+    if (error.name === 'CastError') {
+      return apiResponse(null, 400, 'Invalid visit ID format');
+    }
+
+    return apiResponse(null, 500, 'Failed to add the addendum: ' + (error.message || 'Unknown error'));
+  }
+}
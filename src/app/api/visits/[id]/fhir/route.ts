@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import Patient from '@/models/Patient';
+import User from '@/models/User';
+import { getVisitTemplate } from '@/lib/templateVersions';
+import { buildVisitBundle } from '@/lib/fhir';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+import { isCompletedStatus } from '@/lib/visitLifecycle';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+// GET /api/visits/[id]/fhir - Export a completed visit as a FHIR R4 Bundle
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    // Connect to the database
+    await connectToDatabase();
+
+    const visit: any = await Visit.findById(id).lean();
+
+    if (!visit) {
+      return apiResponse(null, 404, 'Visit not found');
+    }
+
+    if (!isCompletedStatus(visit.status)) {
+      return apiResponse(null, 409, 'Only completed visits can be exported');
+    }
+
+    const [patient, provider, template]: any[] = await Promise.all([
+      Patient.findById(visit.patient).lean(),
+      visit.provider ? User.findById(visit.provider).select('name email').lean() : null,
+      // Export the answers against the template version the visit was conducted with
+      getVisitTemplate(visit)
+    ]);
+
+    if (!patient) {
+      return apiResponse(null, 404, 'Patient not found');
+    }
+
+    const bundle = buildVisitBundle({ visit, patient, provider, template });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'export',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { format: 'fhir', resources: bundle.entry.length }
+    });
+
+    return new NextResponse(JSON.stringify(bundle, null, 2), {
+      status: 200,
+      headers: {
+        'Content-Type': 'application/fhir+json; charset=utf-8',
+        'Content-Disposition': `attachment; filename="visit-${id}-fhir.json"`
+      }
+    });
+  } catch (error: any) {
+    console.error(`Error exporting visit ${id} as FHIR:`, error);
+
+    // Handle specific MongoDB errors
+    if (error.name === 'CastError') {
+      return apiResponse(null, 400, 'Invalid visit ID format');
+    }
+
+    return apiResponse(null, 500, 'Failed to export visit: ' + (error.message || 'Unknown error'));
+  }
+}
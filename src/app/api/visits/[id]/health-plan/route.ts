@@ -0,0 +1,129 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import Patient from '@/models/Patient';
+import { getVisitTemplate } from '@/lib/templateVersions';
+import Recommendation, { IRecommendation } from '@/models/Recommendation';
+import { generateHealthPlan, HealthPlanItem, normalizeText, summarizeHealthPlan } from '@/lib/healthPlanEngine';
+import { suggestPreventiveServices } from '@/lib/preventiveServices';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+// POST /api/visits/[id]/health-plan - Generate a draft health plan from the visit responses
+// The draft is returned for provider review and is not saved until the visit is updated.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+  
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    // Connect to the database
+    await connectToDatabase();
+
+    // Unsaved responses from the conduct page take precedence over stored ones
+    const body = await request.json().catch(() => ({}));
+
+    const visit: any = await Visit.findById(id).lean();
+
+    if (!visit) {
+      return apiResponse(null, 404, 'Visit not found');
+    }
+
+    if (!visit.template || !mongoose.Types.ObjectId.isValid(String(visit.template))) {
+      return apiResponse(null, 400, 'Visit has no template to generate a health plan from');
+    }
+
+    // Use the template version the visit was conducted with
+    const template = await getVisitTemplate(visit);
+
+    if (!template) {
+      return apiResponse(null, 404, 'Template not found');
+    }
+
+    const library = await Recommendation.find({
+      $or: [
+        { 'condition.conditions.0': { $exists: true } },
+        { condition: { $type: 'string', $ne: '' } },
+        { 'tags.0': { $exists: true } }
+      ]
+    }).lean<IRecommendation[]>();
+
+    const patient: any = await Patient.findById(visit.patient).lean();
+
+    const generated = generateHealthPlan({
+      template,
+      responses: body.responses || visit.responses,
+      library,
+      patient: patient || undefined,
+      now: new Date(visit.scheduledDate)
+    });
+
+    // Screenings and immunizations for the patient's age and sex, unless the plan already has them
+    const planned = new Set(generated.recommendations.map(item => normalizeText(item.text)));
+    const preventive = patient?.dateOfBirth
+      ? suggestPreventiveServices(patient, new Date(visit.scheduledDate)).filter(item => !planned.has(normalizeText(item.text)))
+      : [];
+
+    // Keep the due dates the provider set when the plan was last saved
+    const savedDueDates = new Map<string, string>();
+    (visit.healthPlan?.recommendations || []).forEach((item: any) => {
+      if (item.dueDate) savedDueDates.set(normalizeText(item.text), new Date(item.dueDate).toISOString().slice(0, 10));
+    });
+
+    const recommendations: HealthPlanItem[] = [...generated.recommendations, ...preventive].map(item => {
+      const dueDate = savedDueDates.get(normalizeText(item.text));
+      return dueDate ? { ...item, dueDate } : item;
+    });
+    const healthPlan = { recommendations, summary: summarizeHealthPlan(recommendations) };
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { healthPlanDraft: true }
+    });
+
+    return apiResponse(healthPlan);
+  } catch (error: any) {
+    console.error(`Error generating health plan for visit ${id}:`, error);
+
+    // Handle specific MongoDB errors
+    if (error.name === 'CastError') {
+      return apiResponse(null, 400, 'Invalid visit ID format');
+    }
+
+    return apiResponse(null, 500, 'Failed to generate health plan: ' + (error.message || 'Unknown error'));
+  }
+}
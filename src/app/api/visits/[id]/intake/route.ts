@@ -0,0 +1,193 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import { createIntakeLink, getVisitIntake, PatientIntakeError, resolveIntakeConflict, revokeIntakeLink } from '@/lib/patientIntake';
+import { INTAKE_CONFLICT_RESOLUTIONS, IntakeConflictResolution } from '@/models/PatientIntake';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+// GET /api/visits/[id]/intake - Status of the latest pre-visit questionnaire link
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    await connectToDatabase();
+    return apiResponse(await getVisitIntake(id));
+  } catch (error: any) {
+    console.error(`Error fetching pre-visit questionnaire for visit ${id}:`, error);
+    return apiResponse(null, 500, 'Failed to fetch pre-visit questionnaire: ' + (error.message || 'Unknown error'));
+  }
+}
+
+// POST /api/visits/[id]/intake - Send the patient a new pre-visit questionnaire link
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    await connectToDatabase();
+    const result = await createIntakeLink(
+      id,
+      {
+        email: typeof body.email === 'string' ? body.email : undefined,
+        sendEmail: body.sendEmail !== false,
+        createdBy: auth.user.id
+      },
+      new URL(request.url).origin
+    );
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { intakeLink: 'sent', intakeId: result.intake.id, sentTo: result.intake.sentTo }
+    });
+
+    return apiResponse(result, 201);
+  } catch (error: any) {
+    if (error instanceof PatientIntakeError) {
+      return apiResponse(null, error.status, error.message);
+    }
+
+    console.error(`Error sending pre-visit questionnaire for visit ${id}:`, error);
+    return apiResponse(null, 500, 'Failed to send pre-visit questionnaire: ' + (error.message || 'Unknown error'));
+  }
+}
+
+// PATCH /api/visits/[id]/intake - Resolve a patient answer that differs from the staff answer.
+// Body: { questionId, keep: 'staff' | 'patient' }
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    const body = await request.json().catch(() => ({}));
+
+    if (typeof body.questionId !== 'string' || !body.questionId) {
+      return apiResponse(null, 400, 'questionId is required');
+    }
+    if (!INTAKE_CONFLICT_RESOLUTIONS.includes(body.keep)) {
+      return apiResponse(null, 400, `keep must be one of: ${INTAKE_CONFLICT_RESOLUTIONS.join(', ')}`);
+    }
+
+    await connectToDatabase();
+    const { intake, conflict, visit } = await resolveIntakeConflict(id, {
+      questionId: body.questionId,
+      keep: body.keep as IntakeConflictResolution,
+      resolvedBy: auth.user.id
+    });
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: {
+        intakeId: intake.id,
+        intakeConflict: conflict.questionId,
+        kept: body.keep,
+        ...(visit && { changes: { [conflict.questionId]: { before: conflict.staffValue, after: conflict.patientValue } } })
+      }
+    });
+
+    return apiResponse(intake);
+  } catch (error: any) {
+    if (error instanceof PatientIntakeError) {
+      return apiResponse(null, error.status, error.message);
+    }
+
+    console.error(`Error resolving pre-visit answer for visit ${id}:`, error);
+    return apiResponse(null, 500, 'Failed to resolve pre-visit answer: ' + (error.message || 'Unknown error'));
+  }
+}
+
+// DELETE /api/visits/[id]/intake - Revoke the pending link
+export async function DELETE(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  try {
+    await connectToDatabase();
+    const intake = await revokeIntakeLink(id);
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { intakeLink: 'revoked', intakeId: intake.id }
+    });
+
+    return apiResponse(intake);
+  } catch (error: any) {
+    if (error instanceof PatientIntakeError) {
+      return apiResponse(null, error.status, error.message);
+    }
+
+    console.error(`Error revoking pre-visit questionnaire for visit ${id}:`, error);
+    return apiResponse(null, 500, 'Failed to revoke pre-visit questionnaire: ' + (error.message || 'Unknown error'));
+  }
+}
@@ -0,0 +1,182 @@
+import { NextRequest, NextResponse } from 'next/server';
+import crypto from 'crypto';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import Patient from '@/models/Patient';
+import User from '@/models/User';
+import PracticeSettings from '@/models/PracticeSettings';
+import VisitPdf, { VISIT_PDF_TYPES, VisitPdfType } from '@/models/VisitPdf';
+import { getVisitTemplate } from '@/lib/templateVersions';
+import { suggestBillingCodes } from '@/lib/billing';
+import { buildVisitPdfDefinition, VISIT_PDF_LAYOUT_VERSION } from '@/lib/visitPdf';
+import { buildPatientHandoutDefinition } from '@/lib/patientHandout';
+import { loadLogoDataUrl, renderPdf } from '@/lib/pdfRenderer';
+import { verifyVisitSignature } from '@/lib/visitSignature';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+import { COMPLETED_VISIT_STATUSES, isCompletedStatus } from '@/lib/visitLifecycle';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// Visit and signature times in the PDF; the server's clock zone would make the output depend on where it runs
+const PDF_TIME_ZONE = process.env.PRACTICE_TIME_ZONE || 'UTC';
+
+// Define a response function to standardize all API responses
+function apiResponse(data: any = null, status = 200, error: string | null = null) {
+  const body: any = {};
+
+  if (error) {
+    body.success = false;
+    body.error = error;
+  } else {
+    body.success = true;
+    if (data !== null) {
+      body.data = data;
+    }
+  }
+
+  return NextResponse.json(body, { status });
+}
+
+const sha256 = (value: string | Buffer) => crypto.createHash('sha256').update(value).digest('hex');
+
+const personName = (person: any) =>
+  person?.name || [person?.firstName, person?.lastName].filter(Boolean).join(' ') || 'Unknown Provider';
+
+// GET /api/visits/[id]/pdf - The visit report as a PDF, rendered once per visit revision
+// ?type=handout gives the patient's large-type prevention plan instead
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  const { id } = await params;
+  const type = (request.nextUrl.searchParams.get('type') || 'report') as VisitPdfType;
+
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+
+  if (!VISIT_PDF_TYPES.includes(type)) {
+    return apiResponse(null, 400, `type must be one of: ${VISIT_PDF_TYPES.join(', ')}`);
+  }
+
+  try {
+    // Connect to the database
+    await connectToDatabase();
+
+    const visit: any = await Visit.findById(id).lean();
+
+    if (!visit) {
+      return apiResponse(null, 404, 'Visit not found');
+    }
+
+    if (!isCompletedStatus(visit.status)) {
+      return apiResponse(null, 409, 'Only completed visits have a PDF report');
+    }
+
+    const [patient, provider, template, practice, history]: any[] = await Promise.all([
+      Patient.findById(visit.patient).lean(),
+      visit.provider ? User.findById(visit.provider).select('name firstName lastName email updatedAt').lean() : null,
+      // Report the answers against the template version the visit was conducted with
+      getVisitTemplate(visit),
+      PracticeSettings.findOne().lean(),
+      Visit.find({ patient: visit.patient, status: { $in: COMPLETED_VISIT_STATUSES } })
+        .select('status scheduledDate completedAt')
+        .lean()
+    ]);
+
+    if (!patient) {
+      return apiResponse(null, 404, 'Patient not found');
+    }
+
+    if (!template) {
+      return apiResponse(null, 400, 'Visit has no template to report on');
+    }
+
+    const billing = suggestBillingCodes({ visit, template, history });
+    const revision = visit.revision ?? 0;
+
+    // Everything the PDF shows that can change without a new visit revision
+    const sourceHash = sha256(JSON.stringify({
+      layout: VISIT_PDF_LAYOUT_VERSION,
+      timeZone: PDF_TIME_ZONE,
+      patient: patient.updatedAt,
+      // Unpinned visits render from the live template, which can be edited without a new revision
+      template: template.isSnapshot
+        ? [String(template._id), template.version]
+        : [String(template._id), template.updatedAt],
+      provider: provider ? [String(provider._id), provider.updatedAt] : null,
+      practice: practice ? [practice.updatedAt, practice.logo || null] : null,
+      billing: billing.suggestions.map(suggestion => suggestion.code)
+    }));
+
+    let cached: any = await VisitPdf.findOne({ visit: id, type, revision, sourceHash }).lean();
+
+    if (!cached) {
+      const documentParams = {
+        visit,
+        patient,
+        template,
+        provider: { name: personName(provider), email: provider?.email || '' },
+        practice,
+        logo: await loadLogoDataUrl(practice?.logo),
+        timeZone: PDF_TIME_ZONE
+      };
+      const docDefinition = type === 'handout'
+        ? buildPatientHandoutDefinition(documentParams)
+        : buildVisitPdfDefinition({
+          ...documentParams,
+          billing,
+          signatureValid: visit.signature ? verifyVisitSignature(visit) : undefined
+        });
+      const pdf = await renderPdf(docDefinition);
+
+      cached = await VisitPdf.findOneAndUpdate(
+        { visit: id, type, revision },
+        { sourceHash, pdf, pdfHash: sha256(pdf), size: pdf.length },
+        { upsert: true, new: true, setDefaultsOnInsert: true }
+      ).lean();
+    }
+
+    const etag = `"${cached.pdfHash}"`;
+    const headers = {
+      'Content-Type': 'application/pdf',
+      'Content-Disposition': `attachment; filename="visit-${id}-${type}-r${revision}.pdf"`,
+      'Cache-Control': 'private, no-cache',
+      'ETag': etag
+    };
+
+    await recordAuditEvent(request, auth.user, {
+      action: 'export',
+      resourceType: 'Visit',
+      resourceId: id,
+      details: { format: 'pdf', type, revision, size: cached.size }
+    });
+
+    if (request.headers.get('If-None-Match') === etag) {
+      return new NextResponse(null, { status: 304, headers });
+    }
+
+    // Lean documents return Buffer fields as BSON Binary
+    const pdf: Buffer = Buffer.isBuffer(cached.pdf) ? cached.pdf : Buffer.from(cached.pdf.buffer);
+
+    return new NextResponse(new Uint8Array(pdf), { status: 200, headers });
+  } catch (error: any) {
+    console.error(`Error rendering PDF for visit ${id}:`, error);
+
+    // Handle specific MongoDB errors
+    if (error.name === 'CastError') {
+      return apiResponse(null, 400, 'Invalid visit ID format');
+    }
+
+    return apiResponse(null, 500, 'Failed to render visit PDF: ' + (error.message || 'Unknown error'));
+  }
+}
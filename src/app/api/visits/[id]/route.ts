@@ -2,6 +2,19 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import mongoose from 'mongoose';
 import { z } from 'zod';
+import Visit, { VISIT_STATUSES } from '@/models/Visit';
+import { getVisitTemplate, pinTemplateVersion } from '@/lib/templateVersions';
+import { flattenResponses, groupResponsesBySection, isAnswered } from '@/lib/visitResponses';
+import { toVisitRecord } from '@/lib/visitRecords';
+import { scoreVisit } from '@/lib/scoring';
+import { validateVisitResponses } from '@/lib/visitValidation';
+import { requirePermission } from '@/lib/apiAuth';
+import { recordAuditEvent } from '@/lib/audit';
+import { MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
+import { bookWithoutConflicts, isBookedStatus, SchedulingConflictError } from '@/lib/visitScheduling';
+import { isCompletedStatus, isOpenStatus } from '@/lib/visitLifecycle';
+import { rescheduleVisit, statusChange, transitionPath, transitionUpdate, VisitTransitionError } from '@/lib/visitTransitions';
+import { signVisit, verifyVisitSignature } from '@/lib/visitSignature';
 
 // Static export configuration
 export const dynamic = 'force-static';
@@ -9,12 +22,15 @@ export const fetchCache = 'force-no-store';
 export const revalidate = 3600; // Revalidate every hour
 
 // Define a response function to standardize all API responses
-function apiResponse(data: any = null, status = 200, error: string | null = null) {
+function apiResponse(data: any = null, status = 200, error: string | null = null, details: any = null) {
   const body: any = {};
   
   if (error) {
     body.success = false;
     body.error = error;
+    if (details !== null) {
+      body.details = details;
+    }
   } else {
     body.success = true;
     if (data !== null) {
@@ -25,71 +41,90 @@ function apiResponse(data: any = null, status = 200, error: string | null = null
   return NextResponse.json(body, { status });
 }
 
-// Define Visit schema
-const VisitSchema = new mongoose.Schema({
-  patient: { 
-    type: mongoose.Schema.Types.ObjectId, 
-    ref: 'Patient',
-    required: true 
-  },
-  provider: { 
-    type: mongoose.Schema.Types.ObjectId, 
-    ref: 'User',
-    required: false 
-  },
-  scheduledDate: { 
-    type: Date, 
-    required: true 
-  },
-  status: { 
-    type: String, 
-    enum: ['scheduled', 'in-progress', 'completed', 'cancelled', 'no-show'],
-    default: 'scheduled' 
-  },
-  visitType: {
-    type: String,
-    default: 'check-up'
-  },
-  templateId: {
-    type: String,
-    required: false
-  },
-  responses: {
-    type: mongoose.Schema.Types.Mixed,
-    default: {}
-  },
-  healthPlan: {
-    type: mongoose.Schema.Types.Mixed,
-    default: null
-  },
-  notes: String,
-  completedSections: [Number]
-}, { 
-  timestamps: true 
+const HealthPlanUpdateSchema = z.object({
+  recommendations: z.array(z.object({
+    domain: z.string().min(1),
+    text: z.string().min(1),
+    priority: z.enum(['high', 'medium', 'low']).default('medium'),
+    source: z.object({
+      question: z.string(),
+      response: z.string().optional()
+    }).optional(),
+    dueDate: z.coerce.date().nullable().optional()
+  })),
+  summary: z.string().optional()
 });
 
-// Get or create the Visit model
-const Visit = mongoose.models.Visit || mongoose.model('Visit', VisitSchema);
-
 // Zod schema for validation
 const VisitUpdateSchema = z.object({
   patient: z.string().optional(),
   provider: z.string().optional(),
   scheduledDate: z.string().datetime().optional(),
-  status: z.enum(['scheduled', 'in-progress', 'completed', 'cancelled', 'no-show']).optional(),
+  durationMinutes: z.number().int().min(MIN_VISIT_MINUTES).max(MAX_VISIT_MINUTES).optional(),
+  status: z.enum(VISIT_STATUSES).optional(),
+  // Why the visit is being cancelled, marked a no-show or rescheduled
+  reason: z.string().max(500).optional(),
+  // NPI of a provider signing for the first time, saved to their profile
+  npiNumber: z.string().max(20).optional(),
   visitType: z.string().optional(),
+  location: z.string().optional(),
   templateId: z.string().optional(),
-  responses: z.record(z.any()).optional(),
-  healthPlan: z.any().optional(),
+  // Either a flat questionId -> value map or the stored section grouped form
+  responses: z.union([
+    z.record(z.any()),
+    z.array(z.object({
+      sectionId: z.string(),
+      answers: z.array(z.object({
+        questionId: z.string(),
+        value: z.any()
+      }))
+    }))
+  ]).optional(),
+  healthPlan: HealthPlanUpdateSchema.nullable().optional(),
   notes: z.string().optional(),
+  completedSections: z.array(z.number()).optional(),
+  // Revision the client last loaded; the write is rejected with 409 when the visit has moved on
+  revision: z.number().int().min(0).optional()
+});
+
+// Autosave of individual answers
+const VisitPatchSchema = z.object({
+  revision: z.number().int().min(0),
+  // Only the answers that changed, by question id; null clears an answer
+  answers: z.record(z.any()).default({}),
   completedSections: z.array(z.number()).optional()
 });
 
+// Fields that make up the visit's documentation, which cannot change in the request that signs it.
+// Covers everything visitContentHash reads, directly or through the scores and pinned version derived from them
+const CONTENT_FIELDS = ['responses', 'healthPlan', 'notes', 'completedSections', 'templateId', 'scheduledDate'] as const;
+
+const SIGNED_VISIT_ERROR = 'Signed visits are read-only; add an addendum to change them';
+
+// Visits saved before revisions were added have no revision field and count as revision 0
+const revisionFilter = (revision: number) =>
+  revision === 0 ? { $or: [{ revision: 0 }, { revision: { $exists: false } }] } : { revision };
+
+// 409 body with the current server copy, so the client can merge its edits into it
+async function staleWriteResponse(id: string) {
+  const current: any = await Visit.findById(id).select('revision responses updatedAt status').lean();
+  
+  return apiResponse(null, 409, 'This visit was changed by someone else since it was loaded', {
+    revision: current?.revision ?? 0,
+    updatedAt: current?.updatedAt,
+    status: current?.status,
+    responses: flattenResponses(current?.responses)
+  });
+}
+
 // GET /api/visits/[id] - Fetch a specific visit
 export async function GET(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+  
   const { id } = await params;
   
   // Validate ID format
@@ -102,7 +137,7 @@ export async function GET(
     await connectToDatabase();
     
     // Fetch the visit from the database
-    const visit = await Visit.findById(id)
+    const visit: any = await Visit.findById(id)
       .populate('patient', 'firstName lastName dateOfBirth')
       .populate('provider', 'firstName lastName')
       .lean();
@@ -111,7 +146,19 @@ export async function GET(
       return apiResponse(null, 404, 'Visit not found');
     }
     
-    return apiResponse(visit);
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Visit',
+      resourceId: id
+    });
+    
+    // Signed visits report whether their content still matches the signature
+    const record: any = toVisitRecord(visit);
+    if (visit.signature) {
+      record.signatureValid = verifyVisitSignature(visit);
+    }
+    
+    return apiResponse(record);
   } catch (error: any) {
     console.error(`Error fetching visit ${id}:`, error);
     
@@ -129,6 +176,9 @@ export async function PUT(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+  
   const { id } = await params;
   
   // Validate ID format
@@ -147,19 +197,186 @@ export async function PUT(
       // Validate request data
       const validatedData = VisitUpdateSchema.parse(body);
       
-      // Update the visit with validated data
-      const visit = await Visit.findByIdAndUpdate(
-        id,
-        { ...validatedData, updatedAt: new Date() },
+      // Clients send templateId; the model stores it as the template reference
+      const { templateId: requestedTemplateId, reason, npiNumber, ...update }: Record<string, any> = { ...validatedData };
+      
+      const previousVisit: any = await Visit.findById(id).lean();
+      if (!previousVisit) {
+        return apiResponse(null, 404, 'Visit not found');
+      }
+      
+      if (previousVisit.status === 'signed') {
+        return apiResponse(null, 409, SIGNED_VISIT_ERROR);
+      }
+      
+      if (validatedData.revision !== undefined && (previousVisit.revision ?? 0) !== validatedData.revision) {
+        return staleWriteResponse(id);
+      }
+      
+      // Sending the current status again is not a transition
+      const newStatus = validatedData.status !== previousVisit.status ? validatedData.status : undefined;
+      delete update.status;
+      
+      // Rescheduling books a new visit at the requested time instead of moving this one
+      if (newStatus === 'rescheduled') {
+        const { original, replacement } = await rescheduleVisit(previousVisit, {
+          scheduledDate: validatedData.scheduledDate,
+          provider: validatedData.provider,
+          durationMinutes: validatedData.durationMinutes,
+          reason
+        }, auth.user);
+        
+        await recordAuditEvent(request, auth.user, {
+          action: 'update',
+          resourceType: 'Visit',
+          resourceId: id,
+          before: previousVisit,
+          after: original
+        });
+        await recordAuditEvent(request, auth.user, {
+          action: 'create',
+          resourceType: 'Visit',
+          resourceId: String(replacement._id),
+          after: replacement,
+          details: { rescheduledFrom: id }
+        });
+        
+        return apiResponse(toVisitRecord(original));
+      }
+      
+      // Throws when the lifecycle does not allow the change
+      const statusPath = newStatus ? transitionPath(previousVisit.status, newStatus, auth.user, reason) : [];
+      const isCompleting = newStatus === 'completed';
+      // Completed visits stay valid: editing their answers is checked like completing them
+      const endsCompleted = newStatus ? newStatus === 'completed' : previousVisit.status === 'completed';
+      const mustValidate = endsCompleted && (isCompleting || !!validatedData.responses);
+      
+      // The signature covers the visit as stored, so signing cannot change it at the same time
+      if (newStatus === 'signed') {
+        if (CONTENT_FIELDS.some(field => validatedData[field] !== undefined)) {
+          return apiResponse(null, 400, 'Save changes to the visit before signing it');
+        }
+        update.signature = await signVisit(previousVisit, auth.user, npiNumber);
+      }
+      
+      if (validatedData.responses || isCompleting || requestedTemplateId) {
+        const existing: any = await Visit.findById(id)
+          .select('template templateVersion responses status patient')
+          .populate('patient', 'dateOfBirth gender')
+          .lean();
+        
+        if (!existing) {
+          return apiResponse(null, 404, 'Visit not found');
+        }
+        
+        const existingTemplateId = existing.template ? String(existing.template) : undefined;
+        const templateId = requestedTemplateId || existingTemplateId;
+        let templateVersion = existing.templateVersion;
+        
+        // Pin the published version when the template changes or an unpinned visit is still being conducted
+        const templateChanged = !!requestedTemplateId && requestedTemplateId !== existingTemplateId;
+        if (templateId && (templateChanged || (!templateVersion && !isCompletedStatus(existing.status)))) {
+          templateVersion = await pinTemplateVersion(templateId);
+          if (templateChanged && !templateVersion) {
+            return apiResponse(null, 400, 'The selected template has not been published yet');
+          }
+          update.templateVersion = templateVersion;
+        }
+        if (templateChanged) {
+          update.template = requestedTemplateId;
+        }
+        
+        const template = await getVisitTemplate({ templateId, templateVersion });
+        const responses = flattenResponses(validatedData.responses || existing.responses);
+        
+        // Responses must satisfy the template before a visit can be completed, and while it is
+        if (mustValidate) {
+          if (!template) {
+            return apiResponse(null, 422, 'Visit cannot be completed without an assessment template');
+          }
+          
+          const patient = existing.patient && typeof existing.patient === 'object' ? existing.patient : undefined;
+          const validation = validateVisitResponses(template, responses, patient);
+          
+          if (!validation.valid) {
+            return apiResponse(null, 422, 'Visit responses are incomplete or invalid', validation.errors);
+          }
+          
+          update.responses = validation.responses;
+        }
+        
+        // Recompute instrument scores whenever responses change
+        if (template) {
+          update.scores = scoreVisit(template, update.responses || responses);
+        }
+        
+        if (update.responses) {
+          update.responses = groupResponsesBySection(update.responses, template, existing.responses);
+        }
+      }
+      
+      delete update.revision;
+      
+      if (newStatus) {
+        Object.assign(update, transitionUpdate(previousVisit.status, statusPath, auth.user, reason));
+      }
+      
+      // Moving, lengthening or reassigning a booked visit must not double-book anyone
+      // Edit forms send every field back, so compare with the stored values rather than checking presence
+      const changed = (field: string, value: (visit: any) => any) =>
+        update[field] !== undefined && value(update) !== value(previousVisit);
+      const scheduleChanged =
+        changed('patient', visit => String(visit.patient)) ||
+        changed('provider', visit => String(visit.provider || '')) ||
+        changed('scheduledDate', visit => new Date(visit.scheduledDate).getTime()) ||
+        changed('durationMinutes', visit => visit.durationMinutes) ||
+        (!!update.status && !isBookedStatus(previousVisit.status));
+      
+      // A status change only applies to the status it was checked against
+      const filter: Record<string, any> = validatedData.revision === undefined
+        ? { _id: id }
+        : { _id: id, ...revisionFilter(validatedData.revision) };
+      if (newStatus) {
+        filter.status = previousVisit.status;
+      }
+      if (newStatus === 'signed') {
+        Object.assign(filter, revisionFilter(previousVisit.revision ?? 0));
+      }
+      const save = () => Visit.findOneAndUpdate(
+        filter,
+        { ...update, updatedAt: new Date(), $inc: { revision: 1 } },
         { new: true, runValidators: true }
       );
+      const visit = scheduleChanged && isBookedStatus(update.status || previousVisit.status)
+        ? await bookWithoutConflicts({
+            visitId: id,
+            patient: String(update.patient || previousVisit.patient),
+            provider: update.provider ?? (previousVisit.provider ? String(previousVisit.provider) : undefined),
+            scheduledDate: new Date(update.scheduledDate || previousVisit.scheduledDate),
+            durationMinutes: update.durationMinutes ?? previousVisit.durationMinutes
+          }, save)
+        : await save();
       
       if (!visit) {
-        return apiResponse(null, 404, 'Visit not found');
+        return staleWriteResponse(id);
       }
       
-      return apiResponse(visit);
+      await recordAuditEvent(request, auth.user, {
+        action: 'update',
+        resourceType: 'Visit',
+        resourceId: id,
+        before: previousVisit,
+        after: visit
+      });
+      
+      return apiResponse(toVisitRecord(visit));
     } catch (validationError: any) {
+      if (validationError instanceof SchedulingConflictError) {
+        return apiResponse(null, validationError.status, validationError.message, validationError.conflicts);
+      }
+      if (validationError instanceof VisitTransitionError) {
+        return apiResponse(null, validationError.status, validationError.message);
+      }
       console.error('Visit update validation error:', validationError);
       return apiResponse(null, 400, `Validation error: ${validationError.message || 'Invalid data'}`);
     }
@@ -179,11 +396,145 @@ export async function PUT(
   }
 }
 
+// PATCH /api/visits/[id] - Save changed answers of a visit being conducted
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+  
+  const { id } = await params;
+  
+  // Validate ID format
+  if (!id || !mongoose.Types.ObjectId.isValid(id)) {
+    return apiResponse(null, 400, 'Invalid visit ID format');
+  }
+  
+  try {
+    // Connect to the database
+    await connectToDatabase();
+    
+    const parsed = VisitPatchSchema.safeParse(await request.json().catch(() => ({})));
+    if (!parsed.success) {
+      return apiResponse(null, 400, `Validation error: ${parsed.error.message}`);
+    }
+    const { revision, answers, completedSections } = parsed.data;
+    
+    const existing: any = await Visit.findById(id).lean();
+    if (!existing) {
+      return apiResponse(null, 404, 'Visit not found');
+    }
+    
+    if (!isOpenStatus(existing.status)) {
+      return apiResponse(null, 409, `Answers of a ${existing.status} visit cannot be autosaved`);
+    }
+    
+    if ((existing.revision ?? 0) !== revision) {
+      return staleWriteResponse(id);
+    }
+    
+    const previousResponses = flattenResponses(existing.responses);
+    const responses = { ...previousResponses };
+    Object.entries(answers).forEach(([questionId, value]) => {
+      if (isAnswered(value)) {
+        responses[questionId] = value;
+      } else {
+        delete responses[questionId];
+      }
+    });
+    
+    // The first saved answer starts the visit
+    const update: Record<string, any> = {
+      status: 'in-progress'
+    };
+    if (existing.status !== 'in-progress') {
+      update.$push = { statusHistory: statusChange(existing.status, 'in-progress', auth.user) };
+    }
+    if (completedSections) {
+      update.completedSections = completedSections;
+    }
+    
+    // Pin the published version as soon as an unpinned visit is being conducted
+    const templateId = existing.template ? String(existing.template) : undefined;
+    let templateVersion = existing.templateVersion;
+    if (templateId && !templateVersion) {
+      templateVersion = await pinTemplateVersion(templateId);
+      update.templateVersion = templateVersion;
+    }
+    
+    const template = await getVisitTemplate({ templateId, templateVersion });
+    if (template) {
+      update.scores = scoreVisit(template, responses);
+    }
+    update.responses = groupResponsesBySection(responses, template, existing.responses);
+    
+    // The revision check is repeated in the update itself in case another write landed in between
+    const visit = await Visit.findOneAndUpdate(
+      { _id: id, ...revisionFilter(revision) },
+      { ...update, updatedAt: new Date(), $inc: { revision: 1 } },
+      { new: true, runValidators: true }
+    );
+    
+    if (!visit) {
+      return staleWriteResponse(id);
+    }
+    
+    // Answers are logged per question, so the event holds only the ones that changed
+    // rather than the whole visit; scores follow from the answers
+    const changedQuestions = Object.keys(answers)
+      .filter(questionId => JSON.stringify(previousResponses[questionId]) !== JSON.stringify(responses[questionId]));
+    const answersOf = (map: Record<string, unknown>) =>
+      Object.fromEntries(changedQuestions.map(questionId => [questionId, map[questionId]]));
+    
+    await recordAuditEvent(request, auth.user, {
+      action: 'update',
+      resourceType: 'Visit',
+      resourceId: id,
+      before: {
+        status: existing.status,
+        templateVersion: existing.templateVersion,
+        completedSections: existing.completedSections,
+        responses: answersOf(previousResponses)
+      },
+      after: {
+        status: visit.status,
+        templateVersion: visit.templateVersion,
+        completedSections: visit.completedSections,
+        responses: answersOf(responses)
+      },
+      details: { autosave: true, questions: changedQuestions }
+    });
+    
+    return apiResponse({
+      _id: id,
+      revision: visit.revision,
+      updatedAt: visit.updatedAt,
+      status: visit.status,
+      scores: visit.scores
+    });
+  } catch (error: any) {
+    console.error(`Error autosaving visit ${id}:`, error);
+    
+    // Handle specific MongoDB errors
+    if (error.name === 'CastError') {
+      return apiResponse(null, 400, 'Invalid visit ID format');
+    } else if (error.name === 'ValidationError') {
+      return apiResponse(null, 400, `Validation error: ${error.message}`);
+    }
+    
+    return apiResponse(null, 500, 'Failed to save answers: ' + (error.message || 'Unknown error'));
+  }
+}
+
 // DELETE /api/visits/[id] - Delete a visit
 export async function DELETE(
   request: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ): Promise<Response> {
+  const auth = await requirePermission(request, 'visits:delete');
+  if (auth.response) return auth.response;
+  
   const { id } = await params;
   
   // Validate ID format
@@ -195,13 +546,23 @@ export async function DELETE(
     // Connect to the database
     await connectToDatabase();
     
-    // Delete the visit
-    const result = await Visit.findByIdAndDelete(id);
+    // Delete the visit, unless it has been signed
+    const result = await Visit.findOneAndDelete({ _id: id, status: { $ne: 'signed' } });
     
     if (!result) {
-      return apiResponse(null, 404, 'Visit not found');
+      const signed = await Visit.exists({ _id: id, status: 'signed' });
+      return signed
+        ? apiResponse(null, 409, 'Signed visits cannot be deleted')
+        : apiResponse(null, 404, 'Visit not found');
     }
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'delete',
+      resourceType: 'Visit',
+      resourceId: id,
+      before: result
+    });
+    
     return apiResponse({ message: 'Visit deleted successfully' });
   } catch (error: any) {
     console.error(`Error deleting visit ${id}:`, error);
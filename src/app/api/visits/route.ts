@@ -1,48 +1,27 @@
 import { NextResponse } from 'next/server';
 import connectToDatabase from '@/lib/mongodb';
 import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import { getVisitTemplate, pinTemplateVersion } from '@/lib/templateVersions';
+import { groupResponsesBySection } from '@/lib/visitResponses';
+import { toVisitRecord } from '@/lib/visitRecords';
+import { requirePermission } from '@/lib/apiAuth';
+import { listedIds, recordAuditEvent } from '@/lib/audit';
+import { isValidDuration, MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
+import { bookWithoutConflicts, isBookedStatus, SchedulingConflictError, templateVisitDuration } from '@/lib/visitScheduling';
+import { INITIAL_VISIT_STATUSES, VisitStatus } from '@/lib/visitLifecycle';
+import { statusChange } from '@/lib/visitTransitions';
 
 // Static export configuration
 export const dynamic = 'force-static';
 export const fetchCache = 'force-no-store';
 export const revalidate = 3600; // Revalidate every hour
 
-// Define Visit schema
-const VisitSchema = new mongoose.Schema({
-  patient: { 
-    type: mongoose.Schema.Types.ObjectId, 
-    ref: 'Patient', 
-    required: true 
-  },
-  scheduledDate: { type: Date, required: true },
-  status: { 
-    type: String, 
-    enum: ['scheduled', 'in-progress', 'completed', 'cancelled', 'no-show'],
-    default: 'scheduled'
-  },
-  templateId: { type: String, required: true },
-  responses: { type: Object, default: {} },
-  provider: { 
-    type: mongoose.Schema.Types.ObjectId, 
-    ref: 'User'
-  },
-  location: { type: String },
-  notes: { type: String },
-  documents: [{ 
-    name: String,
-    url: String,
-    type: String,
-    uploadedAt: Date
-  }],
-}, { 
-  timestamps: true 
-});
-
-// Get the Visit model (create if it doesn't exist)
-const Visit = mongoose.models.Visit || mongoose.model('Visit', VisitSchema);
-
 // GET /api/visits - Fetch visits with pagination
 export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -52,6 +31,7 @@ export async function GET(request: Request) {
     const page = parseInt(searchParams.get('page') || '1');
     const limit = parseInt(searchParams.get('limit') || '10');
     const patientId = searchParams.get('patientId') || null;
+    const providerId = searchParams.get('providerId') || null;
     const status = searchParams.get('status') || null;
     const fromDate = searchParams.get('fromDate') || null;
     const toDate = searchParams.get('toDate') || null;
@@ -65,8 +45,14 @@ export async function GET(request: Request) {
       query.patient = patientId;
     }
     
+    if (providerId) {
+      query.provider = providerId;
+    }
+    
+    // A comma-separated list matches any of the statuses, e.g. completed,signed
     if (status) {
-      query.status = status;
+      const statuses = status.split(',').map(value => value.trim()).filter(Boolean);
+      query.status = statuses.length === 1 ? statuses[0] : { $in: statuses };
     }
     
     if (fromDate || toDate) {
@@ -98,8 +84,14 @@ export async function GET(request: Request) {
     // Get total count
     const total = await Visit.countDocuments(query);
     
+    await recordAuditEvent(request, auth.user, {
+      action: 'read',
+      resourceType: 'Visit',
+      details: { patientId: patientId || undefined, providerId: providerId || undefined, status: status || undefined, page, ids: listedIds(visits) }
+    });
+    
     return NextResponse.json({
-      visits,
+      visits: visits.map(visit => toVisitRecord(visit)),
       pagination: {
         total,
         page,
@@ -118,6 +110,9 @@ export async function GET(request: Request) {
 
 // POST /api/visits - Create a new visit
 export async function POST(request: Request) {
+  const auth = await requirePermission(request, 'visits:write');
+  if (auth.response) return auth.response;
+  
   try {
     // Connect to the database
     await connectToDatabase();
@@ -125,10 +120,13 @@ export async function POST(request: Request) {
     // Parse request body
     const body = await request.json();
     
+    // Clients send templateId; the model stores it as the template reference
+    const templateId = body.templateId || body.template;
+    
     // Validate required fields
-    if (!body.patient || !body.scheduledDate) {
+    if (!body.patient || !body.scheduledDate || !templateId) {
       return NextResponse.json(
-        { error: 'Missing required fields (patient and scheduledDate are required)' },
+        { error: 'Missing required fields (patient, scheduledDate and templateId are required)' },
         { status: 400 }
       );
     }
@@ -141,16 +139,90 @@ export async function POST(request: Request) {
       );
     }
     
+    const status: VisitStatus = body.status || 'scheduled';
+    if (!INITIAL_VISIT_STATUSES.includes(status)) {
+      return NextResponse.json(
+        { error: `New visits must be ${INITIAL_VISIT_STATUSES.join(' or ')}` },
+        { status: 400 }
+      );
+    }
+    
+    if (body.durationMinutes != null && !isValidDuration(body.durationMinutes)) {
+      return NextResponse.json(
+        { error: `Visit duration must be ${MIN_VISIT_MINUTES}-${MAX_VISIT_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
+    
+    // Pin the published template version the visit will be conducted with
+    const templateVersion = await pinTemplateVersion(String(templateId));
+    
+    if (!templateVersion) {
+      return NextResponse.json(
+        { error: 'The selected template has not been published yet' },
+        { status: 400 }
+      );
+    }
+    
+    const template = body.responses
+      ? await getVisitTemplate({ templateId, templateVersion })
+      : null;
+    
+    const durationMinutes = body.durationMinutes ?? await templateVisitDuration(String(templateId));
+    const scheduledDate = new Date(body.scheduledDate);
+    if (isNaN(scheduledDate.getTime())) {
+      return NextResponse.json(
+        { error: 'Invalid scheduled date' },
+        { status: 400 }
+      );
+    }
+    
     // Create new visit
-    const visit = new Visit(body);
-    await visit.save();
+    // Only what a new booking sets; signatures, addenda, revisions, scores,
+    // health plans and status history come from their own workflows
+    const visit = new Visit({
+      patient: body.patient,
+      provider: body.provider || undefined,
+      scheduledDate,
+      visitType: body.visitType,
+      notes: body.notes,
+      template: templateId,
+      templateVersion,
+      durationMinutes,
+      status,
+      statusHistory: [statusChange(null, status, auth.user)],
+      responses: groupResponsesBySection(body.responses, template),
+    });
+    if (isBookedStatus(status)) {
+      await bookWithoutConflicts({
+        patient: body.patient,
+        provider: body.provider,
+        scheduledDate,
+        durationMinutes
+      }, () => visit.save());
+    } else {
+      await visit.save();
+    }
+    
+    await recordAuditEvent(request, auth.user, {
+      action: 'create',
+      resourceType: 'Visit',
+      resourceId: String(visit._id),
+      after: visit
+    });
     
     // Populate patient and provider info
     await visit.populate('patient', 'firstName lastName');
     await visit.populate('provider', 'name');
     
-    return NextResponse.json(visit, { status: 201 });
+    return NextResponse.json(toVisitRecord(visit), { status: 201 });
   } catch (error) {
+    if (error instanceof SchedulingConflictError) {
+      return NextResponse.json(
+        { error: error.message, conflicts: error.conflicts },
+        { status: error.status }
+      );
+    }
     console.error('Error creating visit:', error);
     return NextResponse.json(
       { error: 'Failed to create visit' },
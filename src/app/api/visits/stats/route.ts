@@ -0,0 +1,57 @@
+import { NextResponse } from 'next/server';
+import connectToDatabase from '@/lib/mongodb';
+import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import { requirePermission } from '@/lib/apiAuth';
+import { VISIT_STATUSES, VisitStatus } from '@/lib/visitLifecycle';
+
+// Static export configuration
+export const dynamic = 'force-static';
+export const fetchCache = 'force-no-store';
+export const revalidate = 3600; // Revalidate every hour
+
+// GET /api/visits/stats - Number of visits in each lifecycle status
+export async function GET(request: Request) {
+  const auth = await requirePermission(request, 'visits:read');
+  if (auth.response) return auth.response;
+
+  try {
+    await connectToDatabase();
+
+    const { searchParams } = new URL(request.url);
+    const providerId = searchParams.get('providerId');
+    const fromDate = searchParams.get('fromDate');
+    const toDate = searchParams.get('toDate');
+
+    const match: any = {};
+    if (providerId) {
+      if (!mongoose.Types.ObjectId.isValid(providerId)) {
+        return NextResponse.json({ error: 'Invalid provider ID' }, { status: 400 });
+      }
+      match.provider = new mongoose.Types.ObjectId(providerId);
+    }
+    if (fromDate || toDate) {
+      match.scheduledDate = {};
+      if (fromDate) match.scheduledDate.$gte = new Date(fromDate);
+      if (toDate) match.scheduledDate.$lte = new Date(toDate);
+    }
+
+    const rows: { _id: string; count: number }[] = await Visit.aggregate([
+      { $match: match },
+      { $group: { _id: '$status', count: { $sum: 1 } } }
+    ]);
+
+    const counts = Object.fromEntries(VISIT_STATUSES.map(status => [status, 0])) as Record<VisitStatus, number>;
+    rows.forEach(row => {
+      if (row._id in counts) counts[row._id as VisitStatus] = row.count;
+    });
+
+    return NextResponse.json({
+      counts,
+      total: rows.reduce((sum, row) => sum + row.count, 0)
+    });
+  } catch (error) {
+    console.error('Error fetching visit stats:', error);
+    return NextResponse.json({ error: 'Failed to fetch visit stats' }, { status: 500 });
+  }
+}
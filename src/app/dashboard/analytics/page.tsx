@@ -6,12 +6,25 @@ import { useAuth } from '@/contexts/AuthContext';
 import userService from '@/services/userService';
 import visitService from '@/services/visitService';
 import patientService from '@/services/patientService';
+import { hasPermission } from '@/lib/permissions';
+import {
+  COMPLETED_VISIT_STATUSES,
+  OPEN_VISIT_STATUSES,
+  sumStatusCounts,
+  VISIT_STATUS_BADGES,
+  VISIT_STATUS_LABELS,
+  VISIT_STATUSES,
+  VisitStatus
+} from '@/lib/visitLifecycle';
 
 interface AnalyticsSummary {
   totalPatients: number;
   totalVisits: number;
   completedVisits: number;
   pendingVisits: number;
+  noShowVisits: number;
+  cancelledVisits: number;
+  visitsByStatus: Record<VisitStatus, number>;
   activeUsers: number;
   averageVisitDuration: number;
 }
@@ -37,7 +50,7 @@ export default function AnalyticsPage() {
         setUserRole(role);
 
         // Check permission - only admin and provider can access
-        if (role !== 'admin' && role !== 'provider') {
+        if (!hasPermission(role, 'analytics:read')) {
           router.push('/dashboard');
           return;
         }
@@ -45,21 +58,22 @@ export default function AnalyticsPage() {
         // Fetch analytics data
         const [
           patientsResponse,
-          completedVisitsResponse,
-          pendingVisitsResponse,
+          visitStats,
           usersResponse
         ] = await Promise.all([
           patientService.getPatients({ limit: 1 }),
-          visitService.getVisits({ status: 'completed', limit: 1 }),
-          visitService.getVisits({ status: 'scheduled', limit: 1 }),
+          visitService.getVisitStats(),
           userService.getUsers({ status: 'active', limit: 1 })
         ]);
 
         setAnalytics({
           totalPatients: patientsResponse.pagination.total,
-          totalVisits: completedVisitsResponse.pagination.total + pendingVisitsResponse.pagination.total,
-          completedVisits: completedVisitsResponse.pagination.total,
-          pendingVisits: pendingVisitsResponse.pagination.total,
+          totalVisits: visitStats.total,
+          completedVisits: sumStatusCounts(visitStats.counts, COMPLETED_VISIT_STATUSES),
+          pendingVisits: sumStatusCounts(visitStats.counts, OPEN_VISIT_STATUSES),
+          noShowVisits: visitStats.counts['no-show'],
+          cancelledVisits: visitStats.counts.cancelled,
+          visitsByStatus: visitStats.counts,
           activeUsers: usersResponse.pagination.total,
           averageVisitDuration: 30 // Default value, replace with actual calculation
         });
@@ -133,6 +147,21 @@ export default function AnalyticsPage() {
           <p className="text-3xl font-bold text-gray-900 mt-2">{analytics.pendingVisits}</p>
         </div>
 
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-sm font-medium text-gray-500">No-shows</h3>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{analytics.noShowVisits}</p>
+          {analytics.completedVisits + analytics.noShowVisits > 0 && (
+            <p className="text-sm text-gray-500 mt-1">
+              {Math.round((analytics.noShowVisits / (analytics.completedVisits + analytics.noShowVisits)) * 100)}% of visits that were due
+            </p>
+          )}
+        </div>
+
+        <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
+          <h3 className="text-sm font-medium text-gray-500">Cancelled Visits</h3>
+          <p className="text-3xl font-bold text-gray-900 mt-2">{analytics.cancelledVisits}</p>
+        </div>
+
         <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6">
           <h3 className="text-sm font-medium text-gray-500">Active Users</h3>
           <p className="text-3xl font-bold text-gray-900 mt-2">{analytics.activeUsers}</p>
@@ -143,6 +172,18 @@ export default function AnalyticsPage() {
           <p className="text-3xl font-bold text-gray-900 mt-2">{analytics.averageVisitDuration} min</p>
         </div>
       </div>
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 p-6 mt-6">
+        <h3 className="text-sm font-medium text-gray-500 mb-4">Visits by Status</h3>
+        <ul className="grid grid-cols-2 md:grid-cols-4 gap-4">
+          {VISIT_STATUSES.map(status => (
+            <li key={status} className="flex items-center justify-between">
+              <span className={VISIT_STATUS_BADGES[status]}>{VISIT_STATUS_LABELS[status]}</span>
+              <span className="font-semibold text-gray-900">{analytics.visitsByStatus[status]}</span>
+            </li>
+          ))}
+        </ul>
+      </div>
     </div>
   );
 } 
\ No newline at end of file
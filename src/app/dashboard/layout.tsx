@@ -4,6 +4,8 @@ import { useState, useEffect } from 'react';
 import Navigation from './components/Navigation';
 import { FiMenu, FiX, FiBell, FiSearch } from 'react-icons/fi';
 import Link from 'next/link';
+import { syncPendingDrafts } from '@/lib/draftSync';
+import { useAuth } from '@/contexts/AuthContext';
 
 export default function DashboardLayout({
   children,
@@ -12,6 +14,23 @@ export default function DashboardLayout({
 }) {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isScrolled, setIsScrolled] = useState(false);
+  const { user } = useAuth();
+  const userId = user?.uid;
+  
+  // Push the signed-in user's visit drafts saved offline on this device once there is a connection
+  useEffect(() => {
+    if (!userId) return;
+    
+    const syncDrafts = () => {
+      syncPendingDrafts(userId).catch(error => console.error('Error syncing offline drafts:', error));
+    };
+    
+    if (navigator.onLine) {
+      syncDrafts();
+    }
+    window.addEventListener('online', syncDrafts);
+    return () => window.removeEventListener('online', syncDrafts);
+  }, [userId]);
   
   // Set sidebar open by default on large screens
   useEffect(() => {
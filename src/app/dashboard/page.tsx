@@ -6,13 +6,14 @@ import { useAuth } from '@/contexts/AuthContext';
 import patientService from '@/services/patientService';
 import visitService from '@/services/visitService';
 import templateService from '@/services/templateService';
+import { COMPLETED_VISIT_STATUSES, OPEN_VISIT_STATUSES, sumStatusCounts, VISIT_STATUS_BADGES, VISIT_STATUS_LABELS, VisitStatus } from '@/lib/visitLifecycle';
 
 interface DashboardStats {
   recentVisits: {
     _id: string;
     patientName: string;
     date: string;
-    status: string;
+    status: VisitStatus;
   }[];
   upcomingVisits: {
     _id: string;
@@ -42,35 +43,26 @@ export default function DashboardPage() {
       const patientsResponse = await patientService.getPatients({ limit: 1 });
       const totalPatients = patientsResponse?.pagination?.total || 0;
       
-      // Get recent completed visits (last 3)
+      // Get recent completed or signed visits (last 3)
       const recentVisitsResponse = await visitService.getVisits({ 
-        status: 'completed', 
+        status: COMPLETED_VISIT_STATUSES.join(','), 
         limit: 3,
         sortField: 'scheduledDate',
         sortOrder: 'desc'
       });
       
-      // Get upcoming visits (next 3)
+      // Get upcoming visits (next 3), including patients who have checked in
       const upcomingVisitsResponse = await visitService.getVisits({ 
-        status: 'scheduled', 
+        status: 'scheduled,checked-in', 
         limit: 3,
         sortField: 'scheduledDate',
         sortOrder: 'asc'
       });
       
-      // Get completed visits count
-      const completedVisitsResponse = await visitService.getVisits({ 
-        status: 'completed', 
-        limit: 1
-      });
-      const completedVisits = completedVisitsResponse?.pagination?.total || 0;
-      
-      // Get pending visits count
-      const pendingVisitsResponse = await visitService.getVisits({ 
-        status: 'scheduled', 
-        limit: 1
-      });
-      const pendingVisits = pendingVisitsResponse?.pagination?.total || 0;
+      // Completed counts signed visits too; pending is every visit that has not finished
+      const visitStats = await visitService.getVisitStats();
+      const completedVisits = sumStatusCounts(visitStats.counts, COMPLETED_VISIT_STATUSES);
+      const pendingVisits = sumStatusCounts(visitStats.counts, OPEN_VISIT_STATUSES);
 
       // Format recent visits
       const recentVisits = (recentVisitsResponse?.visits || []).map(visit => ({
@@ -221,8 +213,8 @@ export default function DashboardPage() {
                       </p>
                     </div>
                     <div>
-                      <span className="text-sm bg-green-100 text-green-800 py-1 px-2 rounded">
-                        {visit.status}
+                      <span className={VISIT_STATUS_BADGES[visit.status] || 'badge badge-gray'}>
+                        {VISIT_STATUS_LABELS[visit.status] || visit.status}
                       </span>
                     </div>
                   </li>
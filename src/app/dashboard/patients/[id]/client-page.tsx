@@ -1,145 +1,103 @@
 'use client';
 
-import { useState, useEffect } from 'react';
-import { useRouter } from 'next/navigation';
+import { useState, useEffect, useMemo } from 'react';
 import Link from 'next/link';
+import patientService, { Patient } from '@/services/patientService';
+import visitService, { IVisitResponse } from '@/services/visitService';
+import templateService, { Template } from '@/services/templateService';
+import { buildPatientTimeline, TimelineRecommendation } from '@/lib/patientTimeline';
+import TrendChart from '@/components/patients/TrendChart';
+import { AWV_STATUS_LABELS, awvEligibility, formatAwvDate, scheduleAwvHref, summarizeAwvVisits } from '@/lib/awvEligibility';
+import { isCompletedStatus, VISIT_STATUS_BADGES, VISIT_STATUS_LABELS } from '@/lib/visitLifecycle';
 
-interface Patient {
-  id: string;
-  firstName: string;
-  lastName: string;
-  dateOfBirth: string;
-  gender: string;
-  medicalRecordNumber?: string;
-  email?: string;
-  phone?: string;
-  address?: {
-    street?: string;
-    city?: string;
-    state?: string;
-    zipCode?: string;
-  };
-  insuranceInfo?: {
-    provider?: string;
-    policyNumber?: string;
-    groupNumber?: string;
-  };
-}
+const templateKey = (visit: IVisitResponse) => `${visit.templateId}@${visit.templateVersion || 'current'}`;
 
-interface Visit {
-  id: string;
-  date: string;
-  status: string;
-  provider: string;
-  template: string;
-}
+// Completed visits are placed on the timeline by when they were completed
+const visitDate = (visit: IVisitResponse) => visit.completedAt || visit.scheduledDate;
 
-// Mock data for demonstration
-const mockPatients: { [key: string]: Patient } = {
-  '1': {
-    id: '1',
-    firstName: 'John',
-    lastName: 'Doe',
-    dateOfBirth: '1975-05-15',
-    gender: 'male',
-    medicalRecordNumber: 'MRN12345',
-    email: 'john.doe@example.com',
-    phone: '555-123-4567',
-    address: {
-      street: '123 Main St',
-      city: 'Anytown',
-      state: 'CA',
-      zipCode: '12345',
-    },
-    insuranceInfo: {
-      provider: 'Blue Cross',
-      policyNumber: 'BC-12345678',
-      groupNumber: 'G-87654321',
-    },
-  },
-  '2': {
-    id: '2',
-    firstName: 'Jane',
-    lastName: 'Smith',
-    dateOfBirth: '1982-08-23',
-    gender: 'female',
-    medicalRecordNumber: 'MRN23456',
-    email: 'jane.smith@example.com',
-    phone: '555-234-5678',
-    address: {
-      street: '456 Oak Ave',
-      city: 'Somewhere',
-      state: 'NY',
-      zipCode: '67890',
-    },
-    insuranceInfo: {
-      provider: 'Aetna',
-      policyNumber: 'AE-87654321',
-      groupNumber: 'G-12345678',
-    },
-  },
-};
-
-const mockVisits: { [key: string]: Visit[] } = {
-  '1': [
-    {
-      id: 'v1',
-      date: '2023-02-15',
-      status: 'completed',
-      provider: 'Dr. Sarah Johnson',
-      template: 'Annual Wellness Visit',
-    },
-    {
-      id: 'v2',
-      date: '2023-06-10',
-      status: 'completed',
-      provider: 'Dr. Michael Chen',
-      template: 'Hypertension Follow-up',
-    },
-    {
-      id: 'v3',
-      date: '2023-11-05',
-      status: 'scheduled',
-      provider: 'Dr. Sarah Johnson',
-      template: 'Annual Wellness Visit',
-    },
-  ],
-  '2': [
-    {
-      id: 'v4',
-      date: '2023-03-20',
-      status: 'completed',
-      provider: 'Dr. Michael Chen',
-      template: 'Annual Wellness Visit',
-    },
-    {
-      id: 'v5',
-      date: '2023-08-15',
-      status: 'completed',
-      provider: 'Dr. Sarah Johnson',
-      template: 'Diabetes Management',
-    },
-  ],
-};
+const formatDate = (date: string) => new Date(date).toLocaleDateString();
+
+function RecommendationList({ title, items, className }: { title: string; items: TimelineRecommendation[]; className: string }) {
+  return (
+    <div>
+      <h4 className="text-sm font-medium mb-1">
+        {title} <span className={className}>{items.length}</span>
+      </h4>
+      {items.length > 0 ? (
+        <ul className="text-sm space-y-1">
+          {items.map(item => (
+            <li key={`${item.domain}|${item.text}`}>
+              <span className="text-gray-500">{item.domain}:</span> {item.text}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-sm text-gray-500">None</p>
+      )}
+    </div>
+  );
+}
 
 export default function PatientDetailClient({ params }: { params: { id: string } }) {
   const [patient, setPatient] = useState<Patient | null>(null);
-  const [visits, setVisits] = useState<Visit[]>([]);
+  const [visits, setVisits] = useState<IVisitResponse[]>([]);
+  const [templates, setTemplates] = useState<Record<string, Template | null>>({});
   const [isLoading, setIsLoading] = useState(true);
-  const router = useRouter();
+  const [error, setError] = useState<string | null>(null);
+  const [changedOnly, setChangedOnly] = useState(false);
   const patientId = params.id;
 
   useEffect(() => {
-    // In a real app, this would be an API call
-    setTimeout(() => {
-      if (patientId && mockPatients[patientId]) {
-        setPatient(mockPatients[patientId]);
-        setVisits(mockVisits[patientId] || []);
+    const fetchPatient = async () => {
+      setIsLoading(true);
+      setError(null);
+
+      try {
+        const [patientData, visitsData] = await Promise.all([
+          patientService.getPatientById(patientId),
+          visitService.getVisits({ patientId, limit: 100, sortField: 'scheduledDate', sortOrder: 'desc' }),
+        ]);
+        setPatient(patientData);
+        setVisits(visitsData.visits || []);
+
+        // Each completed visit is read with the template version it was conducted with
+        const completed = (visitsData.visits || []).filter(visit => isCompletedStatus(visit.status) && visit.templateId);
+        const uniqueVisits = Array.from(new Map(completed.map(visit => [templateKey(visit), visit])).values());
+        const loaded = await Promise.all(uniqueVisits.map(async visit => {
+          try {
+            return [templateKey(visit), await templateService.getTemplateForVisit(visit)] as const;
+          } catch (err) {
+            console.error('Error loading template for visit:', err);
+            return [templateKey(visit), null] as const;
+          }
+        }));
+        setTemplates(Object.fromEntries(loaded));
+      } catch (err) {
+        console.error('Error loading patient:', err);
+        setError('Failed to load patient details');
+      } finally {
+        setIsLoading(false);
       }
-      setIsLoading(false);
-    }, 500);
+    };
+
+    fetchPatient();
   }, [patientId]);
 
+  const timeline = useMemo(() => buildPatientTimeline(
+    visits
+      .filter(visit => isCompletedStatus(visit.status))
+      .map(visit => ({
+        id: visit._id,
+        date: visitDate(visit),
+        responses: visit.responses,
+        scores: visit.scores,
+        recommendations: visit.healthPlan?.recommendations,
+        template: visit.templateId ? templates[templateKey(visit)] : null,
+      }))
+  ), [visits, templates]);
+
+  const awv = useMemo(() => awvEligibility(summarizeAwvVisits(visits)), [visits]);
+
   if (isLoading) {
     return (
       <div className="animate-pulse">
@@ -168,7 +126,7 @@ export default function PatientDetailClient({ params }: { params: { id: string }
   if (!patient) {
     return (
       <div className="card text-center py-8">
-        <p className="text-gray-500">Patient not found.</p>
+        <p className="text-gray-500">{error || 'Patient not found.'}</p>
         <Link href="/dashboard/patients" className="btn-primary mt-4 inline-block">
           Back to Patients
         </Link>
@@ -176,6 +134,8 @@ export default function PatientDetailClient({ params }: { params: { id: string }
     );
   }
 
+  const rows = changedOnly ? timeline.rows.filter(row => row.changed) : timeline.rows;
+
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
@@ -183,10 +143,10 @@ export default function PatientDetailClient({ params }: { params: { id: string }
           {patient.firstName} {patient.lastName}
         </h1>
         <div className="flex gap-3">
-          <Link href={`/dashboard/patients/${patient.id}/edit`} className="btn-secondary">
+          <Link href={`/dashboard/patients/${patient._id}/edit`} className="btn-secondary">
             Edit Patient
           </Link>
-          <Link href={`/dashboard/visits/new?patientId=${patient.id}`} className="btn-primary">
+          <Link href={scheduleAwvHref(patient._id, awv)} className="btn-primary">
             Schedule Visit
           </Link>
         </div>
@@ -202,19 +162,28 @@ export default function PatientDetailClient({ params }: { params: { id: string }
             </div>
 
             <div className="text-gray-600">Date of Birth:</div>
-            <div>{new Date(patient.dateOfBirth).toLocaleDateString()}</div>
+            <div>{formatDate(patient.dateOfBirth)}</div>
 
             <div className="text-gray-600">Gender:</div>
-            <div>{patient.gender.charAt(0).toUpperCase() + patient.gender.slice(1)}</div>
-
-            <div className="text-gray-600">MRN:</div>
-            <div>{patient.medicalRecordNumber || 'N/A'}</div>
+            <div>{patient.gender ? patient.gender.charAt(0).toUpperCase() + patient.gender.slice(1) : 'N/A'}</div>
 
             <div className="text-gray-600">Email:</div>
             <div>{patient.email || 'N/A'}</div>
 
             <div className="text-gray-600">Phone:</div>
-            <div>{patient.phone || 'N/A'}</div>
+            <div>{patient.phoneNumber || 'N/A'}</div>
+
+            <div className="text-gray-600">AWV Status:</div>
+            <div>
+              {AWV_STATUS_LABELS[awv.status]}
+              {awv.nextScheduledDate && <span className="text-gray-500"> (scheduled {formatAwvDate(awv.nextScheduledDate)})</span>}
+            </div>
+
+            <div className="text-gray-600">Last AWV:</div>
+            <div>{awv.lastAwvDate ? formatAwvDate(awv.lastAwvDate) : 'None on record'}</div>
+
+            <div className="text-gray-600">Next Eligible:</div>
+            <div>{awv.nextEligibleDate ? formatAwvDate(awv.nextEligibleDate) : 'Now'}</div>
           </div>
         </div>
 
@@ -238,16 +207,16 @@ export default function PatientDetailClient({ params }: { params: { id: string }
 
           <div>
             <h3 className="text-md font-medium mb-2">Insurance Information</h3>
-            {patient.insuranceInfo?.provider ? (
+            {patient.insurance?.provider ? (
               <div className="grid grid-cols-2 gap-x-4 gap-y-2">
                 <div className="text-gray-600">Provider:</div>
-                <div>{patient.insuranceInfo.provider}</div>
+                <div>{patient.insurance.provider}</div>
 
                 <div className="text-gray-600">Policy Number:</div>
-                <div>{patient.insuranceInfo.policyNumber}</div>
+                <div>{patient.insurance.policyNumber}</div>
 
                 <div className="text-gray-600">Group Number:</div>
-                <div>{patient.insuranceInfo.groupNumber}</div>
+                <div>{patient.insurance.groupNumber}</div>
               </div>
             ) : (
               <p className="text-gray-500">No insurance information on file</p>
@@ -256,6 +225,100 @@ export default function PatientDetailClient({ params }: { params: { id: string }
         </div>
       </div>
 
+      <div className="card mb-8">
+        <h2 className="text-lg font-semibold mb-1">Wellness Timeline</h2>
+        <p className="text-sm text-gray-500 mb-4">
+          {timeline.visits.length === 0
+            ? 'Trends appear here once the patient has a completed visit.'
+            : `${timeline.visits.length} completed visit${timeline.visits.length === 1 ? '' : 's'} since ${formatDate(timeline.visits[0].date)}`}
+        </p>
+
+        {timeline.trends.length > 0 && (
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-6">
+            {timeline.trends.map(trend => (
+              <TrendChart key={trend.id} trend={trend} />
+            ))}
+          </div>
+        )}
+
+        {timeline.recommendationChanges.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-md font-medium mb-2">Health Plan Changes</h3>
+            <div className="space-y-4">
+              {timeline.recommendationChanges.map(change => (
+                <div key={change.visitId} className="border rounded p-3">
+                  <div className="text-sm text-gray-600 mb-2">
+                    <Link href={`/dashboard/visits/${change.visitId}`} className="text-primary-600 hover:text-primary-800">
+                      {formatDate(change.date)}
+                    </Link>
+                    {' '}compared with {formatDate(change.previousDate)}
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                    <RecommendationList title="Recurring" items={change.recurring} className="badge badge-yellow" />
+                    <RecommendationList title="New" items={change.added} className="badge badge-red" />
+                    <RecommendationList title="Resolved" items={change.resolved} className="badge badge-green" />
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+        )}
+
+        {timeline.rows.length > 0 && (
+          <div>
+            <div className="flex justify-between items-center mb-2">
+              <h3 className="text-md font-medium">Answers by Visit</h3>
+              <label className="flex items-center gap-2 text-sm">
+                <input type="checkbox" checked={changedOnly} onChange={e => setChangedOnly(e.target.checked)} />
+                Only show changed answers
+              </label>
+            </div>
+            <div className="overflow-x-auto">
+              <table className="min-w-full text-sm">
+                <thead>
+                  <tr>
+                    <th className="px-4 py-2 text-left">Question</th>
+                    {timeline.visits.map(visit => (
+                      <th key={visit.id} className="px-4 py-2 text-left whitespace-nowrap">
+                        <Link href={`/dashboard/visits/${visit.id}`} className="text-primary-600 hover:text-primary-800">
+                          {formatDate(visit.date)}
+                        </Link>
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {rows.map(row => (
+                    <tr key={row.questionId} className="border-t hover:bg-gray-50">
+                      <td className="px-4 py-2">
+                        <div>{row.text}</div>
+                        <div className="text-xs text-gray-500">{row.section}</div>
+                      </td>
+                      {row.values.map((value, index) => {
+                        const previous = row.values.slice(0, index).reverse().find(item => item !== null);
+                        const changed = value !== null && previous !== undefined && value !== previous;
+                        return (
+                          <td
+                            key={timeline.visits[index].id}
+                            className={`px-4 py-2 ${changed ? 'bg-yellow-50 font-medium' : ''}`}
+                            title={changed ? `Changed from ${previous}` : undefined}
+                          >
+                            {value ?? <span className="text-gray-400">—</span>}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {rows.length === 0 && (
+                <p className="text-gray-500 text-sm mt-2">No answers changed between visits.</p>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
       <div className="card">
         <h2 className="text-lg font-semibold mb-4">Visit History</h2>
         {visits.length > 0 ? (
@@ -272,28 +335,24 @@ export default function PatientDetailClient({ params }: { params: { id: string }
               </thead>
               <tbody>
                 {visits.map((visit) => (
-                  <tr key={visit.id} className="hover:bg-gray-50">
+                  <tr key={visit._id} className="hover:bg-gray-50">
                     <td className="px-4 py-2">
-                      {new Date(visit.date).toLocaleDateString()}
+                      {formatDate(visit.scheduledDate)}
                     </td>
-                    <td className="px-4 py-2">{visit.template}</td>
-                    <td className="px-4 py-2">{visit.provider}</td>
+                    <td className="px-4 py-2">{visit.visitType}</td>
                     <td className="px-4 py-2">
-                      <span
-                        className={`py-1 px-2 rounded text-xs ${
-                          visit.status === 'completed'
-                            ? 'bg-green-100 text-green-800'
-                            : visit.status === 'scheduled'
-                            ? 'bg-blue-100 text-blue-800'
-                            : 'bg-gray-100 text-gray-800'
-                        }`}
-                      >
-                        {visit.status.charAt(0).toUpperCase() + visit.status.slice(1)}
+                      {visit.provider?.name
+                        || `${visit.provider?.firstName || ''} ${visit.provider?.lastName || ''}`.trim()
+                        || 'Unknown Provider'}
+                    </td>
+                    <td className="px-4 py-2">
+                      <span className={VISIT_STATUS_BADGES[visit.status] || 'badge badge-gray'}>
+                        {VISIT_STATUS_LABELS[visit.status] || visit.status}
                       </span>
                     </td>
                     <td className="px-4 py-2">
                       <Link
-                        href={`/dashboard/visits/${visit.id}`}
+                        href={`/dashboard/visits/${visit._id}`}
                         className="text-primary-600 hover:text-primary-800"
                       >
                         View
@@ -310,4 +369,4 @@ export default function PatientDetailClient({ params }: { params: { id: string }
       </div>
     </div>
   );
-} 
\ No newline at end of file
+}
@@ -0,0 +1,348 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { FiArrowLeft, FiGitMerge, FiRotateCcw, FiX } from 'react-icons/fi';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import patientService, {
+  DuplicatePatientPair,
+  DuplicatePatientSummary,
+  Patient,
+  PatientMergeRecord,
+} from '@/services/patientService';
+import { defaultMergeChoices, MERGE_FIELDS, MergeChoices, MergeField } from '@/lib/patientMatching';
+
+interface MergeReview {
+  pair: DuplicatePatientPair;
+  survivor: Patient;
+  duplicate: Patient;
+  choices: MergeChoices;
+}
+
+const formatDate = (value: string | undefined) => {
+  if (!value) return '';
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? value : format(date, 'MMM d, yyyy');
+};
+
+const patientName = (patient: { firstName?: string; lastName?: string }) =>
+  `${patient.firstName || ''} ${patient.lastName || ''}`.trim() || 'Unnamed patient';
+
+// Readable form of a patient field for the side-by-side comparison
+const describeField = (patient: Record<string, any>, field: MergeField): string => {
+  const value = patient[field];
+  if (value === undefined || value === null || value === '') return '';
+
+  switch (field) {
+    case 'dateOfBirth':
+      return formatDate(value);
+    case 'address':
+      return [value.street, value.city, value.state, value.zipCode].filter(Boolean).join(', ');
+    case 'insurance':
+      return [value.provider, value.policyNumber && `Policy ${value.policyNumber}`, value.groupNumber && `Group ${value.groupNumber}`]
+        .filter(Boolean)
+        .join(' · ');
+    case 'medicalHistory':
+      return (['conditions', 'medications', 'allergies', 'surgeries'] as const)
+        .filter(key => value[key]?.length)
+        .map(key => `${value[key].length} ${key}`)
+        .concat(value.notes ? ['notes'] : [])
+        .join(', ');
+    default:
+      return String(value);
+  }
+};
+
+// Keep the record with more visits, or the older one, unless the user picks otherwise
+const suggestedSurvivor = (pair: DuplicatePatientPair): [DuplicatePatientSummary, DuplicatePatientSummary] => {
+  const [a, b] = pair.patients;
+  if (a.visitCount !== b.visitCount) return a.visitCount > b.visitCount ? [a, b] : [b, a];
+  return a._id <= b._id ? [a, b] : [b, a];
+};
+
+export default function PatientDuplicatesPage() {
+  const { role } = useAuth();
+  const can = useCan();
+  const router = useRouter();
+
+  const [pairs, setPairs] = useState<DuplicatePatientPair[]>([]);
+  const [merges, setMerges] = useState<PatientMergeRecord[]>([]);
+  const [review, setReview] = useState<MergeReview | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isMerging, setIsMerging] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const canMerge = can('patients:merge');
+
+  useEffect(() => {
+    if (role && !canMerge) {
+      router.push('/dashboard/patients');
+    }
+  }, [role, canMerge, router]);
+
+  const loadData = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      const [duplicates, history] = await Promise.all([
+        patientService.findDuplicates(),
+        patientService.getMerges(),
+      ]);
+      setPairs(duplicates);
+      setMerges(history);
+    } catch (err) {
+      console.error('Error loading duplicate patients:', err);
+      setError('Failed to load possible duplicates. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canMerge) {
+      loadData();
+    }
+  }, [canMerge, loadData]);
+
+  const openReview = async (pair: DuplicatePatientPair, survivorId?: string) => {
+    const [suggested, other] = suggestedSurvivor(pair);
+    const keep = survivorId ? pair.patients.find(patient => patient._id === survivorId)! : suggested;
+    const remove = keep._id === suggested._id ? other : suggested;
+
+    try {
+      setError(null);
+      setMessage(null);
+      const [survivor, duplicate] = await Promise.all([
+        patientService.getPatientById(keep._id),
+        patientService.getPatientById(remove._id),
+      ]);
+      setReview({ pair, survivor, duplicate, choices: defaultMergeChoices(survivor, duplicate) });
+    } catch (err) {
+      console.error('Error loading patients to merge:', err);
+      setError('Failed to load the patients. One of them may have been merged or deleted already.');
+    }
+  };
+
+  const setChoice = (field: MergeField, choice: 'survivor' | 'duplicate') => {
+    setReview(current => current && { ...current, choices: { ...current.choices, [field]: choice } });
+  };
+
+  const handleMerge = async () => {
+    if (!review) return;
+
+    const survivorVisits = review.pair.patients.find(patient => patient._id === review.survivor._id)?.visitCount || 0;
+    const duplicateVisits = review.pair.patients.find(patient => patient._id === review.duplicate._id)?.visitCount || 0;
+    if (!confirm(
+      `Merge ${patientName(review.duplicate)} into ${patientName(review.survivor)}? ` +
+      `The record with ${survivorVisits} visits is kept and ${duplicateVisits} visits move to it. ` +
+      'The merge can be undone from the merge history.'
+    )) {
+      return;
+    }
+
+    try {
+      setIsMerging(true);
+      setError(null);
+      await patientService.mergePatients(review.survivor._id, review.duplicate._id, review.choices);
+      setMessage(`Merged ${patientName(review.duplicate)} into ${patientName(review.survivor)}.`);
+      setReview(null);
+      loadData();
+    } catch (err) {
+      console.error('Error merging patients:', err);
+      setError(err instanceof Error ? err.message : 'Failed to merge the patients.');
+    } finally {
+      setIsMerging(false);
+    }
+  };
+
+  const handleUndo = async (merge: PatientMergeRecord) => {
+    if (!confirm(`Undo the merge of ${patientName(merge.merged)} into ${patientName(merge.survivor)}? Both records and their visits are restored.`)) {
+      return;
+    }
+
+    try {
+      setError(null);
+      await patientService.undoMerge(merge.id);
+      setMessage(`Restored ${patientName(merge.merged)} as a separate patient.`);
+      loadData();
+    } catch (err) {
+      console.error('Error undoing merge:', err);
+      setError(err instanceof Error ? err.message : 'Failed to undo the merge.');
+    }
+  };
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link href="/dashboard/patients" className="text-gray-500 hover:text-gray-700 mr-3" aria-label="Back to patients">
+          <FiArrowLeft />
+        </Link>
+        <h1 className="text-2xl font-bold">Duplicate Patients</h1>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+      {message && (
+        <div className="bg-green-100 border border-green-400 text-green-700 px-4 py-3 rounded mb-4">
+          {message}
+        </div>
+      )}
+
+      {review && (
+        <div className="card mb-6">
+          <div className="flex justify-between items-start mb-4">
+            <div>
+              <h2 className="text-lg font-semibold">Review merge</h2>
+              <p className="text-sm text-gray-600">
+                Choose the value to keep for each field. The kept record keeps its ID and receives the other record&apos;s visits.
+              </p>
+            </div>
+            <button onClick={() => setReview(null)} className="text-gray-500 hover:text-gray-700" aria-label="Close">
+              <FiX />
+            </button>
+          </div>
+
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-3 py-2 text-left font-medium text-gray-500">Field</th>
+                  {[review.survivor, review.duplicate].map((patient, index) => (
+                    <th key={patient._id} className="px-3 py-2 text-left font-medium text-gray-500">
+                      <label className="flex items-center space-x-2 cursor-pointer">
+                        <input
+                          type="radio"
+                          name="survivor"
+                          checked={index === 0}
+                          onChange={() => openReview(review.pair, patient._id)}
+                        />
+                        <span>{index === 0 ? 'Keep this record' : 'Merge into the kept record'}</span>
+                      </label>
+                    </th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {MERGE_FIELDS.map(({ field, label }) => {
+                  const survivorValue = describeField(review.survivor, field);
+                  const duplicateValue = describeField(review.duplicate, field);
+                  const differs = survivorValue !== duplicateValue;
+                  return (
+                    <tr key={field} className={differs ? '' : 'text-gray-400'}>
+                      <td className="px-3 py-2 font-medium">{label}</td>
+                      {(['survivor', 'duplicate'] as const).map(side => (
+                        <td key={side} className="px-3 py-2">
+                          <label className={`flex items-start space-x-2 ${differs ? 'cursor-pointer' : ''}`}>
+                            <input
+                              type="radio"
+                              name={`choice-${field}`}
+                              disabled={!differs}
+                              checked={(review.choices[field] || 'survivor') === side}
+                              onChange={() => setChoice(field, side)}
+                              className="mt-1"
+                            />
+                            <span>{(side === 'survivor' ? survivorValue : duplicateValue) || '—'}</span>
+                          </label>
+                        </td>
+                      ))}
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex justify-end mt-4 space-x-2">
+            <button onClick={() => setReview(null)} className="btn-secondary">Cancel</button>
+            <button onClick={handleMerge} disabled={isMerging} className="btn-primary flex items-center disabled:opacity-50">
+              <FiGitMerge className="mr-2" /> {isMerging ? 'Merging...' : 'Merge patients'}
+            </button>
+          </div>
+        </div>
+      )}
+
+      <div className="card mb-6">
+        <h2 className="text-lg font-semibold mb-4">Possible duplicates</h2>
+        {isLoading ? (
+          <p className="text-gray-500">Comparing patients...</p>
+        ) : pairs.length === 0 ? (
+          <p className="text-gray-500">No likely duplicates found.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {pairs.map(pair => (
+              <li key={pair.patients.map(patient => patient._id).join(':')} className="py-4">
+                <div className="flex flex-wrap justify-between items-start gap-4">
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4 flex-1">
+                    {pair.patients.map(patient => (
+                      <div key={patient._id} className="text-sm">
+                        <Link href={`/dashboard/patients/${patient._id}`} className="font-medium text-primary-600">
+                          {patientName(patient)}
+                        </Link>
+                        <div className="text-gray-600">
+                          DOB {formatDate(patient.dateOfBirth) || 'unknown'}
+                          {patient.medicalRecordNumber && ` · MRN ${patient.medicalRecordNumber}`}
+                        </div>
+                        <div className="text-gray-600">
+                          {[patient.phoneNumber, patient.email].filter(Boolean).join(' · ') || 'No contact details'}
+                        </div>
+                        <div className="text-gray-500">{patient.visitCount} {patient.visitCount === 1 ? 'visit' : 'visits'}</div>
+                      </div>
+                    ))}
+                  </div>
+                  <div className="flex flex-col items-end space-y-2">
+                    <span className={pair.score >= 0.9 ? 'badge badge-red' : 'badge badge-yellow'}>
+                      {Math.round(pair.score * 100)}% match
+                    </span>
+                    <button onClick={() => openReview(pair)} className="btn-secondary flex items-center text-sm">
+                      <FiGitMerge className="mr-1" /> Review
+                    </button>
+                  </div>
+                </div>
+                <div className="text-xs text-gray-500 mt-2">{pair.reasons.join(' · ')}</div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {merges.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Merge history</h2>
+          <ul className="divide-y divide-gray-200">
+            {merges.map(merge => (
+              <li key={merge.id} className="py-3 flex flex-wrap justify-between items-center gap-2">
+                <div className="text-sm">
+                  <div>
+                    <span className="font-medium">{patientName(merge.merged)}</span> merged into{' '}
+                    <Link href={`/dashboard/patients/${merge.survivor._id}`} className="font-medium text-primary-600">
+                      {patientName(merge.survivor)}
+                    </Link>
+                    {' '}· {merge.visitCount} {merge.visitCount === 1 ? 'visit' : 'visits'} moved
+                  </div>
+                  <div className="text-gray-500">
+                    {format(new Date(merge.mergedAt), 'MMM d, yyyy h:mm a')}
+                    {merge.mergedByEmail && ` by ${merge.mergedByEmail}`}
+                    {merge.undoneAt && ` · undone ${format(new Date(merge.undoneAt), 'MMM d, yyyy h:mm a')}`}
+                    {merge.undoneByEmail && ` by ${merge.undoneByEmail}`}
+                  </div>
+                </div>
+                {merge.status !== 'undone' ? (
+                  <button onClick={() => handleUndo(merge)} className="btn-secondary flex items-center text-sm">
+                    <FiRotateCcw className="mr-1" /> Undo
+                  </button>
+                ) : (
+                  <span className="badge badge-gray">undone</span>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
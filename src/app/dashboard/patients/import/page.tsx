@@ -0,0 +1,481 @@
+'use client';
+
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { FiArrowLeft, FiDownload, FiPause, FiPlay, FiUpload, FiX } from 'react-icons/fi';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import patientService, { PatientImportJob } from '@/services/patientService';
+import { parseCsv } from '@/lib/csv';
+import {
+  ColumnMapping,
+  IMPORT_FIELDS,
+  ImportRowStatus,
+  mapRows,
+  MAX_IMPORT_ROWS,
+  missingRequiredFields,
+  previewImport,
+  suggestMapping,
+} from '@/lib/patientImport';
+import type { PatientField } from '@/lib/patientValidation';
+
+// Rows shown in the preview table; the counts cover the whole file
+const PREVIEW_LIMIT = 100;
+
+type PreviewFilter = 'all' | ImportRowStatus;
+
+const STATUS_BADGES: Record<ImportRowStatus, string> = {
+  valid: 'badge badge-green',
+  invalid: 'badge badge-red',
+  duplicate: 'badge badge-yellow',
+};
+
+const JOB_STATUS_BADGES: Record<PatientImportJob['status'], string> = {
+  pending: 'badge badge-gray',
+  running: 'badge badge-blue',
+  completed: 'badge badge-green',
+  cancelled: 'badge badge-gray',
+};
+
+const isUnfinished = (job: PatientImportJob) => job.status === 'pending' || job.status === 'running';
+
+const skippedRows = (job: PatientImportJob) => job.duplicates + job.invalid + job.failed;
+
+const fieldLabel = (field: PatientField) =>
+  IMPORT_FIELDS.find(definition => definition.field === field)?.label || field;
+
+export default function PatientImportPage() {
+  const { role } = useAuth();
+  const can = useCan();
+  const router = useRouter();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  // Set by the pause button; the run loop stops after the current batch
+  const pauseRef = useRef(false);
+
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [dataRows, setDataRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [filter, setFilter] = useState<PreviewFilter>('all');
+  const [job, setJob] = useState<PatientImportJob | null>(null);
+  const [jobs, setJobs] = useState<PatientImportJob[]>([]);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canImport = can('patients:write');
+
+  useEffect(() => {
+    if (role && !canImport) {
+      router.push('/dashboard/patients');
+    }
+  }, [role, canImport, router]);
+
+  const loadJobs = useCallback(async () => {
+    try {
+      setJobs(await patientService.getImportJobs());
+    } catch (err) {
+      console.error('Error loading patient imports:', err);
+    }
+  }, []);
+
+  useEffect(() => {
+    if (canImport) {
+      loadJobs();
+    }
+  }, [canImport, loadJobs]);
+
+  const missing = useMemo(() => missingRequiredFields(mapping), [mapping]);
+
+  const preview = useMemo(
+    () => (headers.length > 0 && missing.length === 0 ? previewImport(mapRows(dataRows, mapping)) : []),
+    [headers, dataRows, mapping, missing]
+  );
+
+  const counts = useMemo(() => {
+    const result: Record<ImportRowStatus, number> = { valid: 0, invalid: 0, duplicate: 0 };
+    preview.forEach(row => result[row.status]++);
+    return result;
+  }, [preview]);
+
+  const visibleRows = useMemo(
+    () => preview.filter(row => filter === 'all' || row.status === filter).slice(0, PREVIEW_LIMIT),
+    [preview, filter]
+  );
+
+  const mappedFields = IMPORT_FIELDS.filter(definition => mapping[definition.field] !== undefined);
+
+  const resetFile = () => {
+    setFileName('');
+    setHeaders([]);
+    setDataRows([]);
+    setMapping({});
+    setFilter('all');
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow the same file to be picked again after fixing it
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+
+    setError(null);
+    setJob(null);
+    const [header, ...rows] = parseCsv(await file.text());
+
+    if (!header || rows.length === 0) {
+      resetFile();
+      setError(`${file.name} has no patient rows below its header row`);
+      return;
+    }
+    if (rows.length > MAX_IMPORT_ROWS) {
+      resetFile();
+      setError(`${file.name} has ${rows.length} rows; import at most ${MAX_IMPORT_ROWS} at a time`);
+      return;
+    }
+
+    const trimmedHeader = header.map(column => column.trim());
+    setFileName(file.name);
+    setHeaders(trimmedHeader);
+    setDataRows(rows);
+    setMapping(suggestMapping(trimmedHeader));
+    setFilter('all');
+  };
+
+  const handleMappingChange = (field: PatientField, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === '') {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  // Process batches until the import finishes, is paused or fails
+  const runJob = async (start: PatientImportJob) => {
+    pauseRef.current = false;
+    setJob(start);
+    setIsRunning(true);
+    setError(null);
+
+    let current = start;
+    try {
+      while (isUnfinished(current) && !pauseRef.current) {
+        current = await patientService.runImportBatch(current.id);
+        setJob(current);
+      }
+    } catch (err) {
+      console.error('Error running patient import:', err);
+      setError(`${err instanceof Error ? err.message : 'The import stopped'}. Resume it to continue where it stopped.`);
+    } finally {
+      setIsRunning(false);
+      loadJobs();
+    }
+  };
+
+  const handleStart = async () => {
+    try {
+      setIsStarting(true);
+      setError(null);
+      const created = await patientService.startImport(fileName, mapRows(dataRows, mapping));
+      resetFile();
+      await runJob(created);
+    } catch (err) {
+      console.error('Error starting patient import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to start the import. Please try again.');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const handleCancel = async (target: PatientImportJob) => {
+    if (!confirm('Cancel this import? Patients imported so far are kept.')) {
+      return;
+    }
+
+    pauseRef.current = true;
+    try {
+      const cancelled = await patientService.cancelImport(target.id);
+      if (job?.id === cancelled.id) {
+        setJob(cancelled);
+      }
+      loadJobs();
+    } catch (err) {
+      console.error('Error cancelling patient import:', err);
+      setError(err instanceof Error ? err.message : 'Failed to cancel the import.');
+    }
+  };
+
+  const handleDownloadReport = async (target: PatientImportJob) => {
+    try {
+      const blob = await patientService.downloadImportErrors(target.id);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${(target.fileName || 'patients').replace(/\.csv$/i, '')}-import-errors.csv`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error downloading import report:', err);
+      setError(err instanceof Error ? err.message : 'Failed to download the error report.');
+    }
+  };
+
+  const progress = job && job.total > 0 ? Math.round((job.processed / job.total) * 100) : 0;
+  const otherJobs = jobs.filter(item => item.id !== job?.id);
+
+  return (
+    <div>
+      <div className="flex items-center mb-6">
+        <Link href="/dashboard/patients" className="text-gray-500 hover:text-gray-700 mr-3" aria-label="Back to patients">
+          <FiArrowLeft />
+        </Link>
+        <h1 className="text-2xl font-bold">Import Patients</h1>
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {job && (
+        <div className="card mb-6">
+          <div className="flex justify-between items-start mb-3">
+            <div>
+              <h2 className="text-lg font-semibold">{job.fileName || 'Patient import'}</h2>
+              <p className="text-sm text-gray-600">
+                {job.processed} of {job.total} rows processed
+              </p>
+            </div>
+            <span className={JOB_STATUS_BADGES[job.status]}>{job.status}</span>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-2 mb-4">
+            <div className="bg-primary-600 h-2 rounded-full transition-all" style={{ width: `${progress}%` }} />
+          </div>
+
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm mb-4">
+            <div><span className="font-semibold text-green-700">{job.created}</span> imported</div>
+            <div><span className="font-semibold text-yellow-700">{job.duplicates}</span> duplicates</div>
+            <div><span className="font-semibold text-red-700">{job.invalid}</span> invalid</div>
+            <div><span className="font-semibold text-red-700">{job.failed}</span> failed</div>
+          </div>
+
+          <div className="flex flex-wrap gap-2">
+            {isRunning && (
+              <button onClick={() => { pauseRef.current = true; }} className="btn-secondary flex items-center">
+                <FiPause className="mr-2" /> Pause
+              </button>
+            )}
+            {!isRunning && isUnfinished(job) && (
+              <button onClick={() => runJob(job)} className="btn-primary flex items-center">
+                <FiPlay className="mr-2" /> Resume
+              </button>
+            )}
+            {isUnfinished(job) && (
+              <button onClick={() => handleCancel(job)} className="btn-danger flex items-center">
+                <FiX className="mr-2" /> Cancel import
+              </button>
+            )}
+            {skippedRows(job) > 0 && !isRunning && (
+              <button onClick={() => handleDownloadReport(job)} className="btn-secondary flex items-center">
+                <FiDownload className="mr-2" /> Download error report
+              </button>
+            )}
+            {job.status === 'completed' && (
+              <Link href="/dashboard/patients" className="btn-secondary flex items-center">
+                View patients
+              </Link>
+            )}
+          </div>
+        </div>
+      )}
+
+      {!isRunning && headers.length === 0 && (
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold mb-2">Upload a CSV file</h2>
+          <p className="text-sm text-gray-600 mb-4">
+            The first row must name the columns. First name, last name, date of birth and gender are required;
+            dates can be YYYY-MM-DD or MM/DD/YYYY. Rows that match an existing patient by medical record number,
+            or by name and date of birth, are skipped and listed in the error report.
+          </p>
+          <button onClick={() => fileInputRef.current?.click()} className="btn-primary flex items-center">
+            <FiUpload className="mr-2" /> Choose file
+          </button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,text/csv"
+            className="hidden"
+            onChange={handleFile}
+          />
+        </div>
+      )}
+
+      {headers.length > 0 && (
+        <>
+          <div className="card mb-6">
+            <div className="flex justify-between items-start mb-4">
+              <div>
+                <h2 className="text-lg font-semibold">Map columns</h2>
+                <p className="text-sm text-gray-600">{fileName} · {dataRows.length} rows</p>
+              </div>
+              <button onClick={resetFile} className="text-sm text-gray-500 hover:text-gray-700">
+                Choose another file
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(definition => (
+                <div key={definition.field}>
+                  <label htmlFor={`map-${definition.field}`} className="form-label">
+                    {definition.label}{definition.required && <span className="text-red-600"> *</span>}
+                  </label>
+                  <select
+                    id={`map-${definition.field}`}
+                    className="form-input w-full"
+                    value={mapping[definition.field] ?? ''}
+                    onChange={(e) => handleMappingChange(definition.field, e.target.value)}
+                  >
+                    <option value="">Not imported</option>
+                    {headers.map((header, index) => (
+                      <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                    ))}
+                  </select>
+                </div>
+              ))}
+            </div>
+
+            {missing.length > 0 && (
+              <p className="text-sm text-red-600 mt-4">
+                Choose a column for {missing.map(definition => definition.label.toLowerCase()).join(', ')}.
+              </p>
+            )}
+          </div>
+
+          {missing.length === 0 && (
+            <div className="card mb-6">
+              <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <h2 className="text-lg font-semibold">Preview</h2>
+                <div className="flex space-x-2 text-sm">
+                  {(['all', 'valid', 'invalid', 'duplicate'] as PreviewFilter[]).map(option => (
+                    <button
+                      key={option}
+                      onClick={() => setFilter(option)}
+                      className={`px-3 py-1 rounded ${filter === option ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700'}`}
+                    >
+                      {option === 'all' ? `All (${preview.length})` : `${option.charAt(0).toUpperCase() + option.slice(1)} (${counts[option]})`}
+                    </button>
+                  ))}
+                </div>
+              </div>
+
+              <p className="text-sm text-gray-600 mb-4">
+                {counts.valid} rows are ready to import.
+                {counts.invalid + counts.duplicate > 0 &&
+                  ` ${counts.invalid + counts.duplicate} will be skipped and listed in the error report.`}
+                {' '}Rows are also checked against existing patients while they are imported.
+              </p>
+
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200 text-sm">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Line</th>
+                      <th className="px-3 py-2 text-left font-medium text-gray-500">Status</th>
+                      {mappedFields.map(definition => (
+                        <th key={definition.field} className="px-3 py-2 text-left font-medium text-gray-500 whitespace-nowrap">
+                          {definition.label}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200">
+                    {visibleRows.map(row => {
+                      const fieldErrors = new Map(row.errors.map(item => [item.field, item.message]));
+                      return (
+                        <tr key={row.line}>
+                          <td className="px-3 py-2 text-gray-500">{row.line}</td>
+                          <td className="px-3 py-2">
+                            <span className={STATUS_BADGES[row.status]}>{row.status}</span>
+                            {row.duplicateOfLine !== undefined && (
+                              <div className="text-xs text-gray-500 mt-1">Same patient as line {row.duplicateOfLine}</div>
+                            )}
+                          </td>
+                          {mappedFields.map(definition => (
+                            <td key={definition.field} className="px-3 py-2 align-top">
+                              <div className={fieldErrors.has(definition.field) ? 'text-red-700' : ''}>
+                                {row.input[definition.field] || <span className="text-gray-400">—</span>}
+                              </div>
+                              {fieldErrors.has(definition.field) && (
+                                <div className="text-xs text-red-600 mt-1">{fieldErrors.get(definition.field)}</div>
+                              )}
+                            </td>
+                          ))}
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+
+              {preview.filter(row => filter === 'all' || row.status === filter).length > PREVIEW_LIMIT && (
+                <p className="text-xs text-gray-500 mt-2">Showing the first {PREVIEW_LIMIT} rows.</p>
+              )}
+
+              <div className="flex justify-end mt-6">
+                <button
+                  onClick={handleStart}
+                  disabled={isStarting || counts.valid === 0}
+                  className="btn-primary flex items-center disabled:opacity-50"
+                >
+                  <FiUpload className="mr-2" />
+                  {isStarting ? 'Starting...' : `Import ${counts.valid} ${counts.valid === 1 ? 'patient' : 'patients'}`}
+                </button>
+              </div>
+            </div>
+          )}
+        </>
+      )}
+
+      {otherJobs.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-4">Recent imports</h2>
+          <ul className="divide-y divide-gray-200">
+            {otherJobs.map(item => (
+              <li key={item.id} className="py-3 flex flex-wrap justify-between items-center gap-2">
+                <div>
+                  <div className="font-medium">{item.fileName || 'Patient import'}</div>
+                  <div className="text-sm text-gray-600">
+                    {format(new Date(item.createdAt), 'MMM d, yyyy h:mm a')} · {item.created} of {item.total} imported
+                    {skippedRows(item) > 0 && `, ${skippedRows(item)} skipped`}
+                  </div>
+                </div>
+                <div className="flex items-center space-x-2">
+                  <span className={JOB_STATUS_BADGES[item.status]}>{item.status}</span>
+                  {isUnfinished(item) && !isRunning && (
+                    <button onClick={() => runJob(item)} className="btn-secondary flex items-center text-sm">
+                      <FiPlay className="mr-1" /> Resume
+                    </button>
+                  )}
+                  {skippedRows(item) > 0 && (
+                    <button onClick={() => handleDownloadReport(item)} className="btn-secondary flex items-center text-sm">
+                      <FiDownload className="mr-1" /> Errors
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
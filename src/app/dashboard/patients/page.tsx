@@ -3,12 +3,28 @@
 import { useState, useEffect } from 'react';
 import Link from 'next/link';
 import { useRouter } from 'next/navigation';
-import patientService, { Patient } from '@/services/patientService';
-import { FiPlusCircle, FiSearch, FiEdit, FiUserPlus } from 'react-icons/fi';
+import patientService, { Patient, AwvWorklistPatient } from '@/services/patientService';
+import { FiPlusCircle, FiSearch, FiEdit, FiUserPlus, FiUpload, FiUsers, FiCalendar } from 'react-icons/fi';
+import { useCan } from '@/contexts/AuthContext';
+import { AWV_STATUS_LABELS, AwvStatus, formatAwvDate, scheduleAwvHref } from '@/lib/awvEligibility';
+
+// Worklist filters shown above the list; 'all' is the plain patient list
+const AWV_FILTERS: (AwvStatus | 'all')[] = ['all', 'due', 'overdue', 'never'];
+
+const AWV_BADGES: Record<AwvStatus, string> = {
+  never: 'badge badge-blue',
+  overdue: 'badge badge-red',
+  due: 'badge badge-yellow',
+  'not-due': 'badge badge-green',
+};
+
+type PatientListItem = Patient & { awv?: AwvWorklistPatient['awv'] };
 
 export default function PatientsPage() {
-  const [patients, setPatients] = useState<Patient[]>([]);
-  const [filteredPatients, setFilteredPatients] = useState<Patient[]>([]);
+  const [patients, setPatients] = useState<PatientListItem[]>([]);
+  const [filteredPatients, setFilteredPatients] = useState<PatientListItem[]>([]);
+  const [awvFilter, setAwvFilter] = useState<AwvStatus | 'all'>('all');
+  const [awvCounts, setAwvCounts] = useState<Record<AwvStatus, number> | null>(null);
   const [searchTerm, setSearchTerm] = useState('');
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
@@ -16,17 +32,29 @@ export default function PatientsPage() {
   const [totalPages, setTotalPages] = useState(1);
   const [limit] = useState(10);
   const router = useRouter();
+  const can = useCan();
 
   const fetchPatients = async () => {
     try {
       setIsLoading(true);
       setError(null);
       
-      const response = await patientService.getPatients({
-        page: currentPage,
-        limit,
-        search: searchTerm,
-      });
+      let response;
+      if (awvFilter === 'all') {
+        response = await patientService.getPatients({
+          page: currentPage,
+          limit,
+          search: searchTerm,
+        });
+      } else {
+        response = await patientService.getAwvWorklist({
+          status: awvFilter,
+          page: currentPage,
+          limit,
+          search: searchTerm,
+        });
+        setAwvCounts(response.counts);
+      }
       
       console.log('Patients API response:', response);
       
@@ -44,7 +72,19 @@ export default function PatientsPage() {
 
   useEffect(() => {
     fetchPatients();
-  }, [currentPage]);
+  }, [currentPage, awvFilter]);
+
+  // Counts for the worklist filter labels
+  useEffect(() => {
+    patientService.getAwvWorklist({ limit: 1 })
+      .then(response => setAwvCounts(response.counts))
+      .catch(err => console.error('Error fetching AWV worklist counts:', err));
+  }, []);
+
+  const handleAwvFilterChange = (filter: AwvStatus | 'all') => {
+    setAwvFilter(filter);
+    setCurrentPage(1);
+  };
 
   useEffect(() => {
     const delayDebounce = setTimeout(() => {
@@ -91,9 +131,21 @@ export default function PatientsPage() {
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Patients</h1>
-        <Link href="/dashboard/patients/new" className="btn-primary flex items-center">
-          <FiUserPlus className="mr-2" /> Add New Patient
-        </Link>
+        <div className="flex space-x-2">
+          {can('patients:merge') && (
+            <Link href="/dashboard/patients/duplicates" className="btn-secondary flex items-center">
+              <FiUsers className="mr-2" /> Find Duplicates
+            </Link>
+          )}
+          {can('patients:write') && (
+            <Link href="/dashboard/patients/import" className="btn-secondary flex items-center">
+              <FiUpload className="mr-2" /> Import CSV
+            </Link>
+          )}
+          <Link href="/dashboard/patients/new" className="btn-primary flex items-center">
+            <FiUserPlus className="mr-2" /> Add New Patient
+          </Link>
+        </div>
       </div>
 
       <div className="card mb-6">
@@ -109,6 +161,20 @@ export default function PatientsPage() {
             />
           </div>
         </div>
+        <div className="flex flex-wrap gap-2 text-sm">
+          {AWV_FILTERS.map(filter => (
+            <button
+              key={filter}
+              onClick={() => handleAwvFilterChange(filter)}
+              className={`px-3 py-1 rounded ${
+                awvFilter === filter ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700'
+              }`}
+            >
+              {filter === 'all' ? 'All patients' : AWV_STATUS_LABELS[filter]}
+              {filter !== 'all' && awvCounts && ` (${awvCounts[filter]})`}
+            </button>
+          ))}
+        </div>
       </div>
 
       {error && (
@@ -148,6 +214,17 @@ export default function PatientsPage() {
                         <p>Policy #: {patient.insurance.policyNumber}</p>
                       )}
                     </div>
+                    {patient.awv && (
+                      <div className="text-sm mt-2 flex flex-wrap items-center gap-2">
+                        <span className={AWV_BADGES[patient.awv.status]}>{AWV_STATUS_LABELS[patient.awv.status]}</span>
+                        {patient.awv.lastAwvDate && (
+                          <span className="text-gray-600">Last AWV {formatAwvDate(patient.awv.lastAwvDate)}</span>
+                        )}
+                        {patient.awv.nextEligibleDate && (
+                          <span className="text-gray-600">· Eligible from {formatAwvDate(patient.awv.nextEligibleDate)}</span>
+                        )}
+                      </div>
+                    )}
                   </div>
                   <div className="flex flex-col items-end">
                     {patient.email && (
@@ -163,6 +240,19 @@ export default function PatientsPage() {
                     >
                       <FiEdit className="mr-1" /> Edit
                     </Link>
+                    {patient.awv && (patient.awv.nextScheduledDate ? (
+                      <span className="text-sm text-gray-600 mt-2 flex items-center">
+                        <FiCalendar className="mr-1" /> Scheduled {formatAwvDate(patient.awv.nextScheduledDate)}
+                      </span>
+                    ) : can('visits:write') && (
+                      <Link
+                        href={scheduleAwvHref(patient._id, patient.awv)}
+                        className="btn-primary text-sm mt-2 flex items-center"
+                        onClick={(e) => e.stopPropagation()}
+                      >
+                        <FiCalendar className="mr-1" /> Schedule visit
+                      </Link>
+                    ))}
                   </div>
                 </div>
               </div>
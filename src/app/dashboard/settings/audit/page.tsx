@@ -0,0 +1,381 @@
+'use client';
+
+import { useState, useEffect, useCallback, FormEvent, Fragment } from 'react';
+import { useRouter } from 'next/navigation';
+import { format } from 'date-fns';
+import { FiDownload, FiSearch, FiChevronDown, FiChevronRight } from 'react-icons/fi';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import auditService, { AuditEvent, AuditSearchParams } from '@/services/auditService';
+
+const PAGE_SIZE = 50;
+
+const emptyFilters: AuditSearchParams = {
+  actor: '',
+  action: '',
+  resourceType: '',
+  resourceId: '',
+  from: '',
+  to: '',
+};
+
+const getActionBadgeClass = (action: AuditEvent['action']) => {
+  switch (action) {
+    case 'create':
+      return 'badge badge-green';
+    case 'update':
+      return 'badge badge-yellow';
+    case 'delete':
+      return 'badge badge-red';
+    default:
+      return 'badge badge-gray';
+  }
+};
+
+const describeValue = (value: unknown) => {
+  if (value === undefined || value === null || value === '') return '—';
+  return typeof value === 'string' ? value : JSON.stringify(value);
+};
+
+export default function AuditLogPage() {
+  const { role } = useAuth();
+  const can = useCan();
+  const router = useRouter();
+  const [events, setEvents] = useState<AuditEvent[]>([]);
+  const [filters, setFilters] = useState<AuditSearchParams>(emptyFilters);
+  const [appliedFilters, setAppliedFilters] = useState<AuditSearchParams>(emptyFilters);
+  const [currentPage, setCurrentPage] = useState(1);
+  const [totalPages, setTotalPages] = useState(1);
+  const [total, setTotal] = useState(0);
+  const [expanded, setExpanded] = useState<string | null>(null);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const canView = can('audit:read');
+
+  // Only admins can view the audit log
+  useEffect(() => {
+    if (role && !canView) {
+      router.push('/dashboard/settings');
+    }
+  }, [role, canView, router]);
+
+  const loadEvents = useCallback(async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+      const response = await auditService.getAuditEvents({
+        ...appliedFilters,
+        page: currentPage,
+        limit: PAGE_SIZE,
+      });
+      setEvents(response.events);
+      setTotalPages(Math.max(response.pagination.pages, 1));
+      setTotal(response.pagination.total);
+    } catch (err) {
+      console.error('Error loading audit events:', err);
+      setError('Failed to load audit events. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [appliedFilters, currentPage]);
+
+  useEffect(() => {
+    if (canView) {
+      loadEvents();
+    }
+  }, [canView, loadEvents]);
+
+  const handleFilterChange = (field: keyof AuditSearchParams, value: string) => {
+    setFilters(prev => ({ ...prev, [field]: value }));
+  };
+
+  const handleSearch = (e: FormEvent) => {
+    e.preventDefault();
+    setCurrentPage(1);
+    setAppliedFilters(filters);
+  };
+
+  const handleReset = () => {
+    setFilters(emptyFilters);
+    setAppliedFilters(emptyFilters);
+    setCurrentPage(1);
+  };
+
+  const handleExport = async () => {
+    try {
+      setIsExporting(true);
+      const blob = await auditService.exportAuditCsv(appliedFilters);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `audit-log-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting audit events:', err);
+      alert('Failed to export the audit log. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!role || !canView) {
+    return null;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Audit Log</h1>
+          <p className="text-sm text-gray-500 mt-1">Who viewed or changed patients, visits and templates</p>
+        </div>
+
+        <button
+          onClick={handleExport}
+          className="btn-secondary self-start sm:self-auto flex items-center"
+          disabled={isExporting || total === 0}
+        >
+          <FiDownload className="mr-2" />
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <form onSubmit={handleSearch} className="card mb-6">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="form-label" htmlFor="audit-actor">User email</label>
+            <input
+              id="audit-actor"
+              type="text"
+              className="form-input"
+              value={filters.actor}
+              onChange={(e) => handleFilterChange('actor', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label" htmlFor="audit-action">Action</label>
+            <select
+              id="audit-action"
+              className="form-input"
+              value={filters.action}
+              onChange={(e) => handleFilterChange('action', e.target.value)}
+            >
+              <option value="">All actions</option>
+              <option value="read">Read</option>
+              <option value="create">Create</option>
+              <option value="update">Update</option>
+              <option value="delete">Delete</option>
+              <option value="export">Export</option>
+            </select>
+          </div>
+          <div>
+            <label className="form-label" htmlFor="audit-resource-type">Resource</label>
+            <select
+              id="audit-resource-type"
+              className="form-input"
+              value={filters.resourceType}
+              onChange={(e) => handleFilterChange('resourceType', e.target.value)}
+            >
+              <option value="">All resources</option>
+              <option value="Patient">Patient</option>
+              <option value="Visit">Visit</option>
+              <option value="Template">Template</option>
+            </select>
+          </div>
+          <div>
+            <label className="form-label" htmlFor="audit-resource-id">Resource ID</label>
+            <input
+              id="audit-resource-id"
+              type="text"
+              className="form-input"
+              value={filters.resourceId}
+              onChange={(e) => handleFilterChange('resourceId', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label" htmlFor="audit-from">From</label>
+            <input
+              id="audit-from"
+              type="date"
+              className="form-input"
+              value={filters.from}
+              onChange={(e) => handleFilterChange('from', e.target.value)}
+            />
+          </div>
+          <div>
+            <label className="form-label" htmlFor="audit-to">To</label>
+            <input
+              id="audit-to"
+              type="date"
+              className="form-input"
+              value={filters.to}
+              onChange={(e) => handleFilterChange('to', e.target.value)}
+            />
+          </div>
+        </div>
+        <div className="flex justify-end gap-2 mt-4">
+          <button type="button" onClick={handleReset} className="btn-secondary">
+            Reset
+          </button>
+          <button type="submit" className="btn-primary flex items-center">
+            <FiSearch className="mr-2" /> Search
+          </button>
+        </div>
+      </form>
+
+      {error && (
+        <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded-lg mb-6">
+          <p>{error}</p>
+        </div>
+      )}
+
+      <div className="bg-white rounded-xl shadow-sm border border-gray-100 overflow-x-auto mb-6">
+        <table className="min-w-full divide-y divide-gray-200">
+          <thead className="bg-gray-50">
+            <tr>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Time
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                User
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Action
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Resource
+              </th>
+              <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                Changes
+              </th>
+            </tr>
+          </thead>
+          <tbody className="bg-white divide-y divide-gray-200">
+            {isLoading ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  Loading audit events...
+                </td>
+              </tr>
+            ) : events.length === 0 ? (
+              <tr>
+                <td colSpan={5} className="px-6 py-4 text-center text-sm text-gray-500">
+                  No audit events match these filters.
+                </td>
+              </tr>
+            ) : (
+              events.map((event) => (
+                <Fragment key={event._id}>
+                  <tr
+                    className="hover:bg-gray-50 cursor-pointer"
+                    onClick={() => setExpanded(expanded === event._id ? null : event._id)}
+                  >
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {format(new Date(event.timestamp), 'MMM d, yyyy HH:mm:ss')}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="text-gray-900">{event.actor.email}</div>
+                      <div className="text-gray-500 capitalize">{event.actor.role}</div>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <span className={getActionBadgeClass(event.action)}>{event.action}</span>
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      {event.resourceType}
+                      {event.resourceId && (
+                        <span className="ml-1 font-mono text-xs text-gray-500">{event.resourceId}</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-700">
+                      <span className="inline-flex items-center">
+                        {expanded === event._id ? <FiChevronDown className="mr-1" /> : <FiChevronRight className="mr-1" />}
+                        {event.changes.length > 0
+                          ? `${event.changes.length} field${event.changes.length === 1 ? '' : 's'}`
+                          : 'Details'}
+                      </span>
+                    </td>
+                  </tr>
+                  {expanded === event._id && (
+                    <tr className="bg-gray-50">
+                      <td colSpan={5} className="px-6 py-4 text-sm">
+                        {event.changes.length > 0 && (
+                          <table className="min-w-full mb-3">
+                            <thead>
+                              <tr className="text-left text-xs text-gray-500 uppercase">
+                                <th className="pr-4 py-1">Field</th>
+                                <th className="pr-4 py-1">Before</th>
+                                <th className="py-1">After</th>
+                              </tr>
+                            </thead>
+                            <tbody>
+                              {event.changes.map((change) => (
+                                <tr key={change.field} className="align-top">
+                                  <td className="pr-4 py-1 font-mono text-xs">{change.field}</td>
+                                  <td className="pr-4 py-1 text-red-700 break-all">{describeValue(change.before)}</td>
+                                  <td className="py-1 text-green-700 break-all">{describeValue(change.after)}</td>
+                                </tr>
+                              ))}
+                            </tbody>
+                          </table>
+                        )}
+                        <dl className="grid grid-cols-1 md:grid-cols-3 gap-2 text-gray-600">
+                          <div>
+                            <dt className="font-medium text-gray-700">IP address</dt>
+                            <dd>{event.ipAddress || '—'}</dd>
+                          </div>
+                          <div className="md:col-span-2">
+                            <dt className="font-medium text-gray-700">User agent</dt>
+                            <dd className="break-all">{event.userAgent || '—'}</dd>
+                          </div>
+                          {event.details && (
+                            <div className="md:col-span-3">
+                              <dt className="font-medium text-gray-700">Details</dt>
+                              <dd className="font-mono text-xs break-all">{JSON.stringify(event.details)}</dd>
+                            </div>
+                          )}
+                        </dl>
+                      </td>
+                    </tr>
+                  )}
+                </Fragment>
+              ))
+            )}
+          </tbody>
+        </table>
+      </div>
+
+      {/* Pagination controls */}
+      {totalPages > 1 && (
+        <div className="flex justify-center items-center space-x-2">
+          <button
+            onClick={() => setCurrentPage(p => Math.max(p - 1, 1))}
+            disabled={currentPage === 1}
+            className={`px-3 py-1 rounded ${
+              currentPage === 1 ? 'bg-gray-200 text-gray-500' : 'bg-primary-600 text-white'
+            }`}
+          >
+            Previous
+          </button>
+
+          <span className="text-gray-600">
+            Page {currentPage} of {totalPages} ({total} events)
+          </span>
+
+          <button
+            onClick={() => setCurrentPage(p => Math.min(p + 1, totalPages))}
+            disabled={currentPage === totalPages}
+            className={`px-3 py-1 rounded ${
+              currentPage === totalPages ? 'bg-gray-200 text-gray-500' : 'bg-primary-600 text-white'
+            }`}
+          >
+            Next
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,96 +1,59 @@
 'use client';
 
-import { useState, useEffect } from 'react';
+import { useEffect, ReactNode } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FiUser, FiActivity, FiCpu, FiSettings, FiShield, FiUsers } from 'react-icons/fi';
-import { useAuth } from '@/contexts/AuthContext';
+import { FiUser, FiActivity, FiCpu, FiSettings, FiShield, FiUsers, FiFileText } from 'react-icons/fi';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import type { Permission } from '@/lib/permissions';
 
-interface UserRole {
-  role: 'admin' | 'provider' | 'staff';
-  id: string;
-  email: string;
-}
-
-// This would come from your API in a real application
-const getUserRole = async (userId: string): Promise<UserRole> => {
-  // For now, we'll simulate an API call
-  // In a real app, you would fetch this from your backend
-  return new Promise((resolve) => {
-    setTimeout(() => {
-      // Simulate different roles - this is just for demonstration
-      // userID ending with 1 = admin, 2 = provider, else = staff
-      const lastChar = userId.charAt(userId.length - 1);
-      const role = lastChar === '1' ? 'admin' : 
-                  lastChar === '2' ? 'provider' : 'staff';
-      
-      resolve({
-        role: role as 'admin' | 'provider' | 'staff',
-        id: userId,
-        email: 'user@example.com' // This would come from the user object in a real app
-      });
-    }, 500);
-  });
-};
-
-const tabs = [
+// Tabs without a permission are available to every signed-in user
+const tabs: { name: string; href: string; icon: ReactNode; permission?: Permission }[] = [
   {
     name: 'Profile',
     href: '/dashboard/settings/profile',
-    icon: <FiUser className="w-5 h-5" />,
-    allowedRoles: ['admin', 'provider', 'staff']
+    icon: <FiUser className="w-5 h-5" />
   },
   {
     name: 'Practice',
     href: '/dashboard/settings/practice',
     icon: <FiActivity className="w-5 h-5" />,
-    allowedRoles: ['admin', 'provider', 'staff']
+    permission: 'practice:read'
   },
   {
     name: 'Users',
     href: '/dashboard/settings/users',
     icon: <FiUsers className="w-5 h-5" />,
-    allowedRoles: ['admin', 'provider']
+    permission: 'users:read'
   },
   {
     name: 'Template Management',
     href: '/dashboard/settings/templates',
     icon: <FiSettings className="w-5 h-5" />,
-    allowedRoles: ['admin', 'provider']
+    permission: 'templates:write'
+  },
+  {
+    name: 'Audit Log',
+    href: '/dashboard/settings/audit',
+    icon: <FiFileText className="w-5 h-5" />,
+    permission: 'audit:read'
   },
   {
     name: 'Security',
     href: '/dashboard/settings/security',
-    icon: <FiShield className="w-5 h-5" />,
-    allowedRoles: ['admin', 'provider', 'staff']
+    icon: <FiShield className="w-5 h-5" />
   },
 ];
 
 export default function SettingsPage() {
-  const { user } = useAuth();
+  const { user, role } = useAuth();
+  const can = useCan();
   const router = useRouter();
-  const [userRole, setUserRole] = useState<UserRole | null>(null);
-  const [isLoading, setIsLoading] = useState(true);
-
-  // Fetch the user's role when the component mounts
-  useEffect(() => {
-    if (user) {
-      setIsLoading(true);
-      getUserRole(user.uid)
-        .then(role => {
-          setUserRole(role);
-          setIsLoading(false);
-        })
-        .catch(error => {
-          console.error('Error fetching user role:', error);
-          setIsLoading(false);
-        });
-    }
-  }, [user]);
+  const isLoading = !!user && !role;
 
-  // Filter tabs based on user's role
+  // Filter tabs based on the user's permissions
   const accessibleTabs = tabs.filter(tab => 
-    userRole && tab.allowedRoles.includes(userRole.role)
+    role && (!tab.permission || can(tab.permission))
   );
 
   // Redirect to the first accessible tab if we're on the main settings page
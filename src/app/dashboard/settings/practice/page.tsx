@@ -5,6 +5,7 @@ import { FiSave, FiCamera, FiUpload, FiInfo, FiX } from 'react-icons/fi';
 import { useAuth } from '@/contexts/AuthContext';
 import practiceService, { IPracticeSettings } from '@/services/practiceService';
 import userService from '@/services/userService';
+import { hasPermission } from '@/lib/permissions';
 
 export default function PracticeSettingsPage() {
   const { user } = useAuth();
@@ -152,7 +153,7 @@ export default function PracticeSettingsPage() {
   };
   
   // Check if user can edit settings (admin or provider only)
-  const canEdit = userRole === 'admin' || userRole === 'provider';
+  const canEdit = hasPermission(userRole, 'practice:manage');
   
   if (isLoading) {
     return (
@@ -17,6 +17,7 @@ import {
 import { useAuth } from '@/contexts/AuthContext';
 import templateService, { Template, TemplatesResponse } from '@/services/templateService';
 import userService from '@/services/userService';
+import { hasPermission } from '@/lib/permissions';
 
 export default function TemplateManagementPage() {
   const { user } = useAuth();
@@ -46,7 +47,7 @@ export default function TemplateManagementPage() {
           setUserRole(role);
           
           // Check permission - only admin and provider can access
-          if (role !== 'admin' && role !== 'provider') {
+          if (!hasPermission(role, 'templates:write')) {
             router.push('/dashboard');
             return;
           }
@@ -179,7 +180,7 @@ export default function TemplateManagementPage() {
   };
   
   // Only admin and provider can access template management
-  if (userRole && userRole !== 'admin' && userRole !== 'provider') {
+  if (userRole && !hasPermission(userRole, 'templates:write')) {
     router.push('/dashboard');
     return null;
   }
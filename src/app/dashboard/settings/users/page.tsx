@@ -17,6 +17,7 @@ import {
 } from 'react-icons/fi';
 import { useAuth } from '@/contexts/AuthContext';
 import userService, { IUser, IUserSearchParams } from '@/services/userService';
+import { hasPermission } from '@/lib/permissions';
 
 // Helper function to get role badge styling
 const getRoleBadgeClass = (role: string) => {
@@ -97,7 +98,7 @@ function UsersContent() {
         setCurrentUserRole(role);
         
         // Check permission - only admin and provider can access
-        if (role !== 'admin' && role !== 'provider') {
+        if (!hasPermission(role, 'users:read')) {
           router.push('/dashboard');
           return;
         }
@@ -298,7 +299,7 @@ function UsersContent() {
   };
   
   // Only admin can access user management
-  if (currentUserRole && currentUserRole !== 'admin' && currentUserRole !== 'provider') {
+  if (currentUserRole && !hasPermission(currentUserRole, 'users:read')) {
     router.push('/dashboard');
     return null;
   }
@@ -330,7 +331,7 @@ function UsersContent() {
         <button
           onClick={handleAddUser}
           className="btn-primary self-start sm:self-auto"
-          disabled={currentUserRole !== 'admin'}
+          disabled={!hasPermission(currentUserRole, 'users:manage')}
         >
           <FiPlus className="h-4 w-4" />
           <span>Add User</span>
@@ -436,7 +437,7 @@ function UsersContent() {
                           onClick={() => handleDeleteUser(user)}
                           className="text-red-600 hover:text-red-900 p-1 rounded hover:bg-red-50"
                           title="Delete user"
-                          disabled={user.id === '1' || currentUserRole !== 'admin'}
+                          disabled={user.id === '1' || !hasPermission(currentUserRole, 'users:manage')}
                         >
                           <FiTrash2 className="h-4 w-4" />
                         </button>
@@ -511,7 +512,7 @@ function UsersContent() {
                           >
                             <option value="staff">Staff</option>
                             <option value="provider">Provider</option>
-                            {currentUserRole === 'admin' && (
+                            {hasPermission(currentUserRole, 'users:manage') && (
                               <option value="admin">Admin</option>
                             )}
                           </select>
@@ -605,7 +606,7 @@ function UsersContent() {
                           >
                             <option value="staff">Staff</option>
                             <option value="provider">Provider</option>
-                            {currentUserRole === 'admin' && (
+                            {hasPermission(currentUserRole, 'users:manage') && (
                               <option value="admin">Admin</option>
                             )}
                           </select>
@@ -3,6 +3,8 @@
 import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
+import { apiFetch } from '@/lib/apiFetch';
+import { DEFAULT_VISIT_MINUTES, MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
 
 // Client component for template editing
 export default function EditTemplateClientPage({ params }: { params: { id: string } }) {
@@ -33,7 +35,7 @@ export default function EditTemplateClientPage({ params }: { params: { id: strin
     try {
       setIsLoading(true);
       // Fetch the template data - replace with your actual API call
-      const response = await fetch(`/api/templates/${params.id}`);
+      const response = await apiFetch(`/api/templates/${params.id}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch template');
@@ -55,7 +57,7 @@ export default function EditTemplateClientPage({ params }: { params: { id: strin
       const url = isNew ? '/api/templates' : `/api/templates/${params.id}`;
       const method = isNew ? 'POST' : 'PUT';
       
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method,
         headers: {
           'Content-Type': 'application/json',
@@ -112,7 +114,8 @@ export default function EditTemplateClientPage({ params }: { params: { id: strin
             name: template.name,
             description: template.description,
             sections: template.sections,
-            isActive: template.isActive
+            isActive: template.isActive,
+            visitDurationMinutes: template.visitDurationMinutes ?? null
           });
         }}>
           <div className="mb-4">
@@ -140,8 +143,59 @@ export default function EditTemplateClientPage({ params }: { params: { id: strin
             />
           </div>
           
-          {/* Add more form fields for template sections and questions */}
-          
+          <div className="mb-4">
+            <label className="block text-gray-700 text-sm font-bold mb-2">
+              Visit Duration (minutes):
+            </label>
+            {/* Length of the appointment booked on the scheduling calendar */}
+            <input
+              type="number"
+              className="shadow appearance-none border rounded w-32 py-2 px-3 text-gray-700 leading-tight focus:outline-none focus:shadow-outline"
+              min={MIN_VISIT_MINUTES}
+              max={MAX_VISIT_MINUTES}
+              step={5}
+              placeholder={String(DEFAULT_VISIT_MINUTES)}
+              value={template.visitDurationMinutes ?? ''}
+              onChange={(e) => setTemplate({
+                ...template,
+                visitDurationMinutes: e.target.value === '' ? undefined : Number(e.target.value)
+              })}
+            />
+          </div>
+
+          {template.sections?.length > 0 && (
+            <div className="mb-4">
+              <label className="block text-gray-700 text-sm font-bold mb-2">
+                Sections:
+              </label>
+              <ul className="border rounded divide-y">
+                {template.sections.map((section: any, index: number) => (
+                  <li key={section.id} className="flex items-center justify-between p-3">
+                    <div>
+                      <p className="font-medium text-gray-800">{section.title}</p>
+                      <p className="text-xs text-gray-500">{section.questions?.length || 0} questions</p>
+                    </div>
+                    {/* Patient-completable sections are shown on the pre-visit questionnaire link */}
+                    <label className="flex items-center text-sm text-gray-700">
+                      <input
+                        type="checkbox"
+                        className="mr-2"
+                        checked={!!section.patientCompletable}
+                        onChange={(e) => setTemplate({
+                          ...template,
+                          sections: template.sections.map((item: any, itemIndex: number) =>
+                            itemIndex === index ? { ...item, patientCompletable: e.target.checked || undefined } : item
+                          )
+                        })}
+                      />
+                      Patient completes before the visit
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
           <div className="flex items-center justify-end mt-6">
             <button
               type="button"
@@ -0,0 +1,260 @@
+'use client';
+
+import { useState, useEffect, ReactNode } from 'react';
+import Link from 'next/link';
+import { FiArrowLeft, FiUploadCloud, FiPlus, FiMinus, FiEdit2 } from 'react-icons/fi';
+import templateService, { Template, TemplateVersionSummary } from '@/services/templateService';
+import { ChangeKind, describeValue, diffTemplates, FieldChange } from '@/lib/templateDiff';
+import { useCan } from '@/contexts/AuthContext';
+
+// 'draft' refers to the current, editable template
+type VersionKey = number | 'draft';
+
+const KIND_STYLES: Record<ChangeKind, { badge: string; label: string }> = {
+  added: { badge: 'badge-green', label: 'Added' },
+  removed: { badge: 'badge-red', label: 'Removed' },
+  changed: { badge: 'badge-yellow', label: 'Changed' },
+};
+
+const KIND_ICONS: Record<ChangeKind, ReactNode> = {
+  added: <FiPlus className="text-green-600 mr-1 flex-shrink-0" />,
+  removed: <FiMinus className="text-red-600 mr-1 flex-shrink-0" />,
+  changed: <FiEdit2 className="text-yellow-600 mr-1 flex-shrink-0" />,
+};
+
+function FieldChanges({ changes }: { changes: FieldChange[] }) {
+  if (changes.length === 0) return null;
+
+  return (
+    <ul className="text-sm text-gray-700 space-y-1 mt-1">
+      {changes.map(change => (
+        <li key={change.field}>
+          <span className="font-medium capitalize">{change.field}</span>:{' '}
+          <span className="line-through text-red-700">{describeValue(change.before)}</span>{' '}
+          &rarr; <span className="text-green-700">{describeValue(change.after)}</span>
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+export default function TemplateVersionsClientPage({ params }: { params: { id: string } }) {
+  const can = useCan();
+  const [template, setTemplate] = useState<Template | null>(null);
+  const [versions, setVersions] = useState<TemplateVersionSummary[]>([]);
+  const [snapshots, setSnapshots] = useState<Record<string, Template>>({});
+  const [fromVersion, setFromVersion] = useState<VersionKey | null>(null);
+  const [toVersion, setToVersion] = useState<VersionKey>('draft');
+  const [isLoading, setIsLoading] = useState(true);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const loadVersions = async () => {
+    try {
+      setIsLoading(true);
+      setError(null);
+
+      const [templateData, versionList] = await Promise.all([
+        templateService.getTemplateById(params.id),
+        templateService.getTemplateVersions(params.id),
+      ]);
+
+      setTemplate(templateData);
+      setVersions(versionList);
+      setFromVersion(versionList.length > 0 ? versionList[0].version : null);
+      setToVersion('draft');
+    } catch (err) {
+      console.error('Error loading template versions:', err);
+      setError('Failed to load template versions');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    loadVersions();
+  }, [params.id]);
+
+  // Fetch the snapshots being compared on demand
+  useEffect(() => {
+    [fromVersion, toVersion].forEach(version => {
+      if (typeof version !== 'number' || snapshots[version]) return;
+
+      templateService.getTemplateVersion(params.id, version)
+        .then(snapshot => setSnapshots(current => ({ ...current, [version]: snapshot })))
+        .catch(err => {
+          console.error(`Error loading version ${version}:`, err);
+          setError(`Failed to load version ${version}`);
+        });
+    });
+  }, [fromVersion, toVersion, params.id]);
+
+  const resolve = (version: VersionKey | null) => {
+    if (version === null) return { name: template?.name, description: template?.description, sections: [] };
+    return version === 'draft' ? template : snapshots[version];
+  };
+
+  const before = resolve(fromVersion);
+  const after = resolve(toVersion);
+  const diff = before && after ? diffTemplates(before, after) : null;
+
+  const handlePublish = async () => {
+    if (!template) return;
+
+    const notes = prompt(`Publish "${template.name}" as version ${(template.version || 0) + 1}? Optional release notes:`);
+    if (notes === null) return;
+
+    try {
+      setIsPublishing(true);
+      await templateService.publishTemplate(params.id, notes || undefined);
+      await loadVersions();
+    } catch (err) {
+      console.error('Error publishing template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish template');
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  const versionOptions = (includeNone: boolean) => (
+    <>
+      {includeNone && <option value="">(empty template)</option>}
+      <option value="draft">Current draft</option>
+      {versions.map(version => (
+        <option key={version.version} value={version.version}>
+          Version {version.version}
+        </option>
+      ))}
+    </>
+  );
+
+  const parseVersion = (value: string): VersionKey | null => {
+    if (value === '') return null;
+    return value === 'draft' ? 'draft' : Number(value);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex flex-col items-center justify-center my-8">
+        <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
+        <p className="mt-4 text-gray-600">Loading versions...</p>
+      </div>
+    );
+  }
+
+  const hasDraft = template ? template.status === 'draft' || !template.version : false;
+
+  return (
+    <div className="container mx-auto p-4">
+      <div className="mb-6">
+        <Link href="/dashboard/templates" className="flex items-center text-blue-600 hover:text-blue-800">
+          <FiArrowLeft className="mr-1" /> Back to Templates
+        </Link>
+      </div>
+
+      <div className="flex justify-between items-center mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-800">{template?.name || 'Template'} Versions</h1>
+          <p className="text-sm text-gray-600">
+            {template?.version ? `Latest published version: ${template.version}` : 'Not published yet'}
+            {hasDraft && ' · Unpublished changes'}
+          </p>
+        </div>
+        {hasDraft && can('templates:publish') && (
+          <button onClick={handlePublish} className="btn-primary flex items-center" disabled={isPublishing}>
+            <FiUploadCloud className="mr-2" />
+            {isPublishing ? 'Publishing...' : 'Publish Draft'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+        <div className="card">
+          <h2 className="text-lg font-semibold mb-3">History</h2>
+          {versions.length === 0 ? (
+            <p className="text-sm text-gray-500">No versions have been published.</p>
+          ) : (
+            <ul className="divide-y divide-gray-200">
+              {versions.map(version => (
+                <li key={version.version} className="py-3">
+                  <div className="flex justify-between">
+                    <span className="font-medium">Version {version.version}</span>
+                    <span className="text-sm text-gray-500">
+                      {new Date(version.publishedAt).toLocaleDateString()}
+                    </span>
+                  </div>
+                  {version.notes && <p className="text-sm text-gray-600">{version.notes}</p>}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="card lg:col-span-2">
+          <div className="flex flex-wrap items-end gap-4 mb-4">
+            <div>
+              <label className="form-label">Compare</label>
+              <select
+                className="form-input"
+                value={fromVersion === null ? '' : String(fromVersion)}
+                onChange={(e) => setFromVersion(parseVersion(e.target.value))}
+              >
+                {versionOptions(true)}
+              </select>
+            </div>
+            <div>
+              <label className="form-label">With</label>
+              <select
+                className="form-input"
+                value={String(toVersion)}
+                onChange={(e) => setToVersion(parseVersion(e.target.value) ?? 'draft')}
+              >
+                {versionOptions(false)}
+              </select>
+            </div>
+          </div>
+
+          {!diff ? (
+            <p className="text-sm text-gray-500">Loading comparison...</p>
+          ) : !diff.hasChanges ? (
+            <p className="text-sm text-gray-500">No differences between these versions.</p>
+          ) : (
+            <div className="space-y-4">
+              <FieldChanges changes={diff.changes} />
+              {diff.sections.map(section => (
+                <div key={section.sectionId} className="border border-gray-200 rounded p-3">
+                  <div className="flex items-center justify-between">
+                    <span className="font-medium">{section.title}</span>
+                    <span className={`badge ${KIND_STYLES[section.kind].badge}`}>{KIND_STYLES[section.kind].label}</span>
+                  </div>
+                  <FieldChanges changes={section.changes} />
+                  {section.questions.length > 0 && (
+                    <ul className="mt-2 space-y-2">
+                      {section.questions.map(question => (
+                        <li key={question.questionId} className="text-sm">
+                          <div className="flex items-start">
+                            {KIND_ICONS[question.kind]}
+                            <span>{question.text}</span>
+                          </div>
+                          <div className="ml-5">
+                            <FieldChanges changes={question.changes} />
+                          </div>
+                        </li>
+                      ))}
+                    </ul>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
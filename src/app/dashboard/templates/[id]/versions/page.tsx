@@ -0,0 +1,20 @@
+// Server Component for static generation
+import { Metadata } from 'next';
+import TemplateVersionsClientPage from './client-page';
+
+// Export metadata for this page
+export const metadata: Metadata = {
+  title: 'Template Versions',
+  description: 'Published versions of an assessment template',
+};
+
+// Required for static site generation with [id] param
+export async function generateStaticParams() {
+  // Return a placeholder ID for static generation
+  return [{ id: 'placeholder' }];
+}
+
+// Server Component for the template version history page
+export default function Page({ params }: { params: { id: string } }) {
+  return <TemplateVersionsClientPage params={params} />;
+}
@@ -3,12 +3,14 @@
 // Remove force-dynamic to allow for prerendering
 // export const dynamic = 'force-dynamic';
 
-import { useState, useEffect, Suspense } from 'react';
+import { useState, useEffect, useRef, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { FiPlus, FiEdit, FiCopy, FiTrash2, FiSearch } from 'react-icons/fi';
+import { FiPlus, FiEdit, FiCopy, FiTrash2, FiSearch, FiUploadCloud, FiClock, FiDownload, FiUpload, FiX } from 'react-icons/fi';
 import { ITemplateResponse } from '@/models/Template';
 import templateService, { TemplateSearchParams } from '@/services/templateService';
+import type { QuestionnaireIssue } from '@/lib/fhirQuestionnaire';
+import { useCan } from '@/contexts/AuthContext';
 
 // Interface for template list items
 interface TemplateListItem {
@@ -19,9 +21,19 @@ interface TemplateListItem {
   questions: number;
   lastUpdated: string;
   isDefault: boolean;
+  // Latest published version, 0 when never published
+  version: number;
+  // Whether there are edits since the last publish
+  hasDraft: boolean;
   createdBy: any; // Type will be refined when user authentication is implemented
 }
 
+// Mapping report shown after a FHIR Questionnaire import or export
+interface MappingReport {
+  title: string;
+  issues: QuestionnaireIssue[];
+}
+
 // Loading component for Suspense fallback
 function TemplatesLoading() {
   return (
@@ -35,6 +47,7 @@ function TemplatesLoading() {
 // Main component content extracted to be wrapped in Suspense
 function TemplatesContent() {
   const router = useRouter();
+  const can = useCan();
   const searchParams = useSearchParams();
   const searchQuery = searchParams?.get('search') || '';
   
@@ -42,6 +55,8 @@ function TemplatesContent() {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [search, setSearch] = useState(searchQuery);
+  const [report, setReport] = useState<MappingReport | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
   
   useEffect(() => {
     fetchTemplates(search);
@@ -88,6 +103,8 @@ function TemplatesContent() {
           questions: questionCount,
           lastUpdated: new Date(template.updatedAt || Date.now()).toLocaleDateString(),
           isDefault: false, // This would be determined by backend logic
+          version: template.version || 0,
+          hasDraft: template.status === 'draft' || !template.version,
           createdBy: template.createdBy,
         };
       });
@@ -124,6 +141,66 @@ function TemplatesContent() {
     }
   };
   
+  const handlePublishTemplate = async (template: TemplateListItem) => {
+    const notes = prompt(`Publish "${template.name}" as version ${template.version + 1}? Optional release notes:`);
+    if (notes === null) {
+      return;
+    }
+    
+    try {
+      await templateService.publishTemplate(template.id, notes || undefined);
+      fetchTemplates(search);
+    } catch (err) {
+      console.error('Error publishing template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to publish template. Please try again.');
+    }
+  };
+  
+  const handleExportQuestionnaire = async (template: TemplateListItem) => {
+    try {
+      const { questionnaire, issues } = await templateService.exportQuestionnaire(template.id);
+      
+      const blob = new Blob([JSON.stringify(questionnaire, null, 2)], { type: 'application/fhir+json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `${template.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase()}-questionnaire.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+      
+      setReport({ title: `Exported "${template.name}" as a FHIR Questionnaire`, issues });
+    } catch (err) {
+      console.error('Error exporting template:', err);
+      setError(err instanceof Error ? err.message : 'Failed to export template. Please try again.');
+    }
+  };
+  
+  const handleImportQuestionnaire = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    // Allow the same file to be picked again after fixing it
+    e.target.value = '';
+    if (!file) {
+      return;
+    }
+    
+    setError(null);
+    try {
+      let questionnaire: unknown;
+      try {
+        questionnaire = JSON.parse(await file.text());
+      } catch {
+        throw new Error(`${file.name} is not valid JSON`);
+      }
+      
+      const { template, issues } = await templateService.importQuestionnaire(questionnaire);
+      setReport({ title: `Imported "${template.name}" as a draft template`, issues });
+      fetchTemplates(search);
+    } catch (err) {
+      console.error('Error importing questionnaire:', err);
+      setError(err instanceof Error ? err.message : 'Failed to import questionnaire. Please try again.');
+    }
+  };
+  
   const handleDuplicateTemplate = async (id: string) => {
     try {
       // Fetch the template to duplicate
@@ -139,7 +216,7 @@ function TemplatesContent() {
         description: fullTemplate.description,
         sections: fullTemplate.sections || [],
         isActive: false,
-        version: 1,
+        version: 0,
         createdBy: null
       };
       
@@ -155,12 +232,29 @@ function TemplatesContent() {
     <div className="container mx-auto p-4">
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold text-gray-800">Assessment Templates</h1>
-        <Link 
-          href="/dashboard/templates/new" 
-          className="bg-blue-600 text-white px-4 py-2 rounded-md flex items-center"
-        >
-          <FiPlus className="mr-2" /> Create Template
-        </Link>
+        {can('templates:write') && (
+          <div className="flex space-x-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="bg-white border border-gray-300 text-gray-700 px-4 py-2 rounded-md flex items-center"
+            >
+              <FiUpload className="mr-2" /> Import FHIR
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".json,application/json,application/fhir+json"
+              className="hidden"
+              onChange={handleImportQuestionnaire}
+            />
+            <Link 
+              href="/dashboard/templates/new" 
+              className="bg-blue-600 text-white px-4 py-2 rounded-md flex items-center"
+            >
+              <FiPlus className="mr-2" /> Create Template
+            </Link>
+          </div>
+        )}
       </div>
       
       <div className="bg-white rounded-lg shadow-md p-6 mb-8">
@@ -193,6 +287,34 @@ function TemplatesContent() {
           </div>
         )}
         
+        {report && (
+          <div className="bg-blue-50 border border-blue-200 px-4 py-3 rounded mb-4">
+            <div className="flex justify-between items-center">
+              <p className="font-medium text-blue-900">{report.title}</p>
+              <button onClick={() => setReport(null)} className="text-blue-700 hover:text-blue-900">
+                <FiX className="w-5 h-5" title="Dismiss" />
+              </button>
+            </div>
+            {report.issues.length === 0 ? (
+              <p className="text-sm text-blue-800 mt-1">Everything mapped without loss.</p>
+            ) : (
+              <ul className="text-sm mt-2 space-y-1">
+                {report.issues.map((issue, index) => (
+                  <li key={`${issue.linkId}-${index}`} className="flex items-start gap-2">
+                    <span className={`badge ${issue.severity === 'warning' ? 'badge-yellow' : 'badge-blue'}`}>
+                      {issue.severity}
+                    </span>
+                    <span className="text-gray-700">
+                      {issue.linkId && <code className="text-xs mr-1">{issue.linkId}</code>}
+                      {issue.message}
+                    </span>
+                  </li>
+                ))}
+              </ul>
+            )}
+          </div>
+        )}
+        
         {isLoading ? (
           <div className="flex flex-col items-center justify-center my-8">
             <div className="animate-spin rounded-full h-12 w-12 border-t-2 border-b-2 border-blue-500"></div>
@@ -216,6 +338,9 @@ function TemplatesContent() {
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Description
                   </th>
+                  <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+                    Status
+                  </th>
                   <th scope="col" className="px-6 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
                     Sections
                   </th>
@@ -250,6 +375,16 @@ function TemplatesContent() {
                         {template.description || 'No description'}
                       </div>
                     </td>
+                    <td className="px-6 py-4 whitespace-nowrap text-sm">
+                      <div className="flex space-x-1">
+                        {template.version > 0 && (
+                          <span className="badge badge-green">Published v{template.version}</span>
+                        )}
+                        {template.hasDraft && (
+                          <span className="badge badge-yellow">Draft</span>
+                        )}
+                      </div>
+                    </td>
                     <td className="px-6 py-4 whitespace-nowrap text-sm text-gray-500">
                       {template.sections}
                     </td>
@@ -261,24 +396,50 @@ function TemplatesContent() {
                     </td>
                     <td className="px-6 py-4 whitespace-nowrap text-right text-sm font-medium">
                       <div className="flex space-x-2">
+                        {can('templates:write') && (
+                          <Link 
+                            href={`/dashboard/templates/${template.id}/edit`}
+                            className="text-blue-600 hover:text-blue-900"
+                          >
+                            <FiEdit className="w-5 h-5" title="Edit" />
+                          </Link>
+                        )}
+                        {template.hasDraft && can('templates:publish') && (
+                          <button 
+                            onClick={() => handlePublishTemplate(template)}
+                            className="text-purple-600 hover:text-purple-900"
+                          >
+                            <FiUploadCloud className="w-5 h-5" title="Publish" />
+                          </button>
+                        )}
                         <Link 
-                          href={`/dashboard/templates/${template.id}/edit`}
-                          className="text-blue-600 hover:text-blue-900"
+                          href={`/dashboard/templates/${template.id}/versions`}
+                          className="text-gray-600 hover:text-gray-900"
                         >
-                          <FiEdit className="w-5 h-5" title="Edit" />
+                          <FiClock className="w-5 h-5" title="Version history" />
                         </Link>
                         <button 
-                          onClick={() => handleDuplicateTemplate(template.id)}
-                          className="text-green-600 hover:text-green-900"
-                        >
-                          <FiCopy className="w-5 h-5" title="Duplicate" />
-                        </button>
-                        <button 
-                          onClick={() => handleDeleteTemplate(template.id)}
-                          className="text-red-600 hover:text-red-900"
+                          onClick={() => handleExportQuestionnaire(template)}
+                          className="text-gray-600 hover:text-gray-900"
                         >
-                          <FiTrash2 className="w-5 h-5" title="Delete" />
+                          <FiDownload className="w-5 h-5" title="Export FHIR Questionnaire" />
                         </button>
+                        {can('templates:write') && (
+                          <button 
+                            onClick={() => handleDuplicateTemplate(template.id)}
+                            className="text-green-600 hover:text-green-900"
+                          >
+                            <FiCopy className="w-5 h-5" title="Duplicate" />
+                          </button>
+                        )}
+                        {can('templates:delete') && (
+                          <button 
+                            onClick={() => handleDeleteTemplate(template.id)}
+                            className="text-red-600 hover:text-red-900"
+                          >
+                            <FiTrash2 className="w-5 h-5" title="Delete" />
+                          </button>
+                        )}
                       </div>
                     </td>
                   </tr>
@@ -14,13 +14,20 @@ import {
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { useToast } from "@/components/ui/use-toast";
-import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Select } from "@/components/ui/select";
 import { UserPlusIcon } from "lucide-react";
+import userService, { IUserInvite } from "@/services/userService";
 
-export default function InviteUserButton() {
+interface InviteUserButtonProps {
+  // Called after an invitation has been sent, e.g. to refresh a list
+  onInvited?: () => void;
+}
+
+export default function InviteUserButton({ onInvited }: InviteUserButtonProps) {
   const [isOpen, setIsOpen] = useState(false);
   const [email, setEmail] = useState('');
-  const [role, setRole] = useState('staff');
+  const [name, setName] = useState('');
+  const [role, setRole] = useState<IUserInvite['role']>('staff');
   const [isLoading, setIsLoading] = useState(false);
   const { toast } = useToast();
 
@@ -39,40 +46,23 @@ export default function InviteUserButton() {
     setIsLoading(true);
     
     try {
-      const response = await fetch('/.netlify/functions/api/invitations', {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({ email, role }),
-      });
+      await userService.sendInvitation({ email, name, role });
       
-      const data = await response.json();
+      toast({
+        title: "Success",
+        description: `Invitation sent to ${email}`,
+      });
       
-      if (data.success) {
-        toast({
-          title: "Success",
-          description: "Invitation sent successfully",
-        });
-        
-        // Show the invitation link in the console for easy testing
-        console.log('Invitation Link:', data.data.inviteLink);
-        
-        setIsOpen(false);
-        setEmail('');
-        setRole('staff');
-      } else {
-        toast({
-          title: "Error",
-          description: data.error || "Failed to send invitation",
-          variant: "destructive",
-        });
-      }
+      setIsOpen(false);
+      setEmail('');
+      setName('');
+      setRole('staff');
+      onInvited?.();
     } catch (error) {
       console.error('Error sending invitation:', error);
       toast({
         title: "Error",
-        description: "Failed to send invitation. Please try again.",
+        description: error instanceof Error ? error.message : "Failed to send invitation. Please try again.",
         variant: "destructive",
       });
     } finally {
@@ -111,18 +101,32 @@ export default function InviteUserButton() {
                 required
               />
             </div>
+            <div className="grid grid-cols-4 items-center gap-4">
+              <Label htmlFor="name" className="text-right">
+                Name
+              </Label>
+              <Input
+                id="name"
+                type="text"
+                value={name}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+                className="col-span-3"
+                placeholder="Optional"
+              />
+            </div>
             <div className="grid grid-cols-4 items-center gap-4">
               <Label htmlFor="role" className="text-right">
                 Role
               </Label>
               <Select 
+                id="role"
                 options={[
                   { value: 'admin', label: 'Administrator' },
-                  { value: 'doctor', label: 'Doctor' },
-                  { value: 'nurse', label: 'Nurse/Staff' }
+                  { value: 'provider', label: 'Provider' },
+                  { value: 'staff', label: 'Staff' }
                 ]}
                 value={role}
-                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRole(e.target.value)}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setRole(e.target.value as IUserInvite['role'])}
                 className="col-span-3"
               />
             </div>
@@ -4,6 +4,7 @@ import { useEffect, useState } from 'react';
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { Edit, Trash } from 'lucide-react';
+import { apiFetch } from '@/lib/apiFetch';
 
 interface User {
   id: string;
@@ -27,7 +28,7 @@ export default function UserTable() {
     setError('');
     
     try {
-      const response = await fetch('/.netlify/functions/api/users');
+      const response = await apiFetch('/.netlify/functions/api/users');
       const data = await response.json();
       
       if (data.success) {
@@ -50,7 +51,7 @@ export default function UserTable() {
     }
     
     try {
-      const response = await fetch(`/.netlify/functions/api/users/${id}`, {
+      const response = await apiFetch(`/.netlify/functions/api/users/${id}`, {
         method: 'DELETE',
       });
       
@@ -0,0 +1,244 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { RefreshCw, Trash, ArrowLeft } from 'lucide-react';
+import { useToast } from '@/components/ui/use-toast';
+import Header from '@/components/dashboard/Header';
+import { useCan } from '@/contexts/AuthContext';
+import userService, { IInvitation } from '@/services/userService';
+import InviteUserButton from '../components/InviteUserButton';
+
+const ROLE_LABELS: Record<string, string> = {
+  admin: 'Administrator',
+  provider: 'Provider',
+  staff: 'Staff',
+};
+
+const STATUS_BADGES: Record<IInvitation['status'], string> = {
+  pending: 'badge badge-yellow',
+  accepted: 'badge badge-green',
+  revoked: 'badge badge-gray',
+  expired: 'badge badge-red',
+};
+
+export default function InvitationsPage() {
+  const [invitations, setInvitations] = useState<IInvitation[]>([]);
+  const [statusFilter, setStatusFilter] = useState<IInvitation['status'] | ''>('');
+  const [isLoading, setIsLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [error, setError] = useState('');
+  const { toast } = useToast();
+  const can = useCan();
+
+  const fetchInvitations = useCallback(async () => {
+    setIsLoading(true);
+    setError('');
+
+    try {
+      setInvitations(await userService.getInvitations(statusFilter || undefined));
+    } catch (error) {
+      console.error('Error fetching invitations:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load invitations. Please try again.');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchInvitations();
+  }, [fetchInvitations]);
+
+  const handleResend = async (invitation: IInvitation) => {
+    setBusyId(invitation.id);
+    try {
+      await userService.resendInvitation(invitation.id);
+      toast({
+        title: "Success",
+        description: `A new invitation link was sent to ${invitation.email}`,
+      });
+      await fetchInvitations();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to resend invitation',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  const handleRevoke = async (invitation: IInvitation) => {
+    if (!confirm(`Revoke the invitation for ${invitation.email}? The link they received will stop working.`)) {
+      return;
+    }
+
+    setBusyId(invitation.id);
+    try {
+      await userService.revokeInvitation(invitation.id);
+      toast({
+        title: "Success",
+        description: `Invitation for ${invitation.email} revoked`,
+      });
+      await fetchInvitations();
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : 'Failed to revoke invitation',
+        variant: "destructive",
+      });
+    } finally {
+      setBusyId(null);
+    }
+  };
+
+  // Format date string to readable format
+  const formatDate = (dateString: string) => {
+    const date = new Date(dateString);
+    return new Intl.DateTimeFormat('en-US', {
+      year: 'numeric',
+      month: 'short',
+      day: 'numeric',
+      hour: '2-digit',
+      minute: '2-digit',
+    }).format(date);
+  };
+
+  const canManage = can('users:manage');
+
+  return (
+    <div className="p-6 space-y-4">
+      <Header title="User Invitations" description="Invite new users and manage pending invitations" />
+
+      <div className="flex flex-wrap justify-between gap-2">
+        <Link href="/dashboard/users">
+          <Button variant="outline" className="flex items-center gap-1">
+            <ArrowLeft className="h-4 w-4" />
+            <span>Back to Users</span>
+          </Button>
+        </Link>
+
+        <div className="flex items-center gap-2">
+          <select
+            className="form-input"
+            value={statusFilter}
+            onChange={(e) => setStatusFilter(e.target.value as IInvitation['status'] | '')}
+            aria-label="Filter by status"
+          >
+            <option value="">All invitations</option>
+            <option value="pending">Pending</option>
+            <option value="expired">Expired</option>
+            <option value="accepted">Accepted</option>
+            <option value="revoked">Revoked</option>
+          </select>
+          {canManage && <InviteUserButton onInvited={fetchInvitations} />}
+        </div>
+      </div>
+
+      <div className="bg-white p-6 rounded-lg shadow">
+        {isLoading ? (
+          <div className="py-8 text-center">
+            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-blue-600"></div>
+            <p className="mt-2 text-gray-500">Loading invitations...</p>
+          </div>
+        ) : error ? (
+          <div className="text-center py-8">
+            <p className="text-red-500">{error}</p>
+            <Button
+              onClick={fetchInvitations}
+              className="mt-4"
+              variant="outline"
+            >
+              Try Again
+            </Button>
+          </div>
+        ) : invitations.length === 0 ? (
+          <div className="text-center py-8">
+            <p className="text-gray-500">No invitations found.</p>
+            <p className="mt-2 text-sm text-gray-400">
+              Use Invite User to send someone a registration link.
+            </p>
+          </div>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm text-left">
+              <thead className="text-xs text-gray-700 uppercase bg-gray-100">
+                <tr>
+                  <th className="px-4 py-3 rounded-tl-lg">Email</th>
+                  <th className="px-4 py-3">Role</th>
+                  <th className="px-4 py-3">Status</th>
+                  <th className="px-4 py-3">Sent</th>
+                  <th className="px-4 py-3">Expires</th>
+                  <th className="px-4 py-3 rounded-tr-lg">Actions</th>
+                </tr>
+              </thead>
+              <tbody>
+                {invitations.map((invitation) => {
+                  const canChange = canManage && (invitation.status === 'pending' || invitation.status === 'expired');
+
+                  return (
+                    <tr
+                      key={invitation.id}
+                      className="border-b hover:bg-gray-50"
+                    >
+                      <td className="px-4 py-3">
+                        <div className="font-medium">{invitation.email}</div>
+                        {invitation.name && <div className="text-gray-500">{invitation.name}</div>}
+                      </td>
+                      <td className="px-4 py-3">{ROLE_LABELS[invitation.role] || invitation.role}</td>
+                      <td className="px-4 py-3">
+                        <span className={STATUS_BADGES[invitation.status]}>{invitation.status}</span>
+                      </td>
+                      <td className="px-4 py-3">
+                        {formatDate(invitation.lastSentAt)}
+                        {invitation.sendCount > 1 && (
+                          <span className="ml-1 text-xs text-gray-500">({invitation.sendCount} times)</span>
+                        )}
+                        {invitation.invitedBy && (
+                          <div className="text-xs text-gray-500">by {invitation.invitedBy.name || invitation.invitedBy.email}</div>
+                        )}
+                      </td>
+                      <td className="px-4 py-3">
+                        {invitation.status === 'accepted' && invitation.acceptedAt
+                          ? `Accepted ${formatDate(invitation.acceptedAt)}`
+                          : formatDate(invitation.expiresAt)}
+                      </td>
+                      <td className="px-4 py-3">
+                        {canChange && (
+                          <div className="flex items-center space-x-2">
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              onClick={() => handleResend(invitation)}
+                              disabled={busyId === invitation.id}
+                              title="Resend with a new link"
+                            >
+                              <RefreshCw className="h-4 w-4" />
+                            </Button>
+                            {invitation.status === 'pending' && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => handleRevoke(invitation)}
+                                disabled={busyId === invitation.id}
+                                title="Revoke invitation"
+                              >
+                                <Trash className="h-4 w-4" />
+                              </Button>
+                            )}
+                          </div>
+                        )}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -4,6 +4,7 @@ import { Suspense } from 'react';
 import Header from "@/components/dashboard/Header";
 import Pagination from "@/components/dashboard/Pagination";
 import UserTable from "./components/UserTable";
+import InviteUserButton from "./components/InviteUserButton";
 import Link from 'next/link';
 import { Button } from '@/components/ui/button';
 import { UserPlus } from 'lucide-react';
@@ -21,6 +22,8 @@ export default function UsersPage() {
           </Button>
         </Link>
         
+        <InviteUserButton />
+        
         <Link href="/dashboard/users/new">
           <Button className="flex items-center gap-1">
             <UserPlus className="h-4 w-4" />
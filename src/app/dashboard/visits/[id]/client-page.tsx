@@ -9,6 +9,16 @@ import Link from 'next/link';
 import { FiCalendar, FiClock, FiUser, FiFileText, FiClipboard, FiEdit, FiDownload, FiTrash2 } from 'react-icons/fi';
 import visitService from '@/services/visitService';
 import templateService from '@/services/templateService';
+import HealthPlanReview from '@/components/visits/HealthPlanReview';
+import ScreeningResults from '@/components/visits/ScreeningResults';
+import BillingCodes from '@/components/visits/BillingCodes';
+import PatientIntakeCard from '@/components/visits/PatientIntakeCard';
+import VisitStatusCard from '@/components/visits/VisitStatusCard';
+import VisitSignatureCard from '@/components/visits/VisitSignatureCard';
+import { useCan } from '@/contexts/AuthContext';
+import { BillingSummary, suggestBillingCodes } from '@/lib/billing';
+import { scoreVisit } from '@/lib/scoring';
+import { isCompletedStatus, isOpenStatus, VISIT_STATUS_BADGES, VISIT_STATUS_LABELS } from '@/lib/visitLifecycle';
 import { format } from 'date-fns';
 
 // Simplified props to avoid type conflicts
@@ -27,9 +37,12 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
   
   const [visit, setVisit] = useState<any>(null);
   const [template, setTemplate] = useState<any>(null);
+  const [billing, setBilling] = useState<BillingSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isDeleting, setIsDeleting] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const can = useCan();
 
   useEffect(() => {
     const fetchVisitAndTemplate = async () => {
@@ -60,15 +73,27 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
         setVisit(visitData);
         
         // Fetch template data if available
+        let templateData = null;
         if (visitData.templateId) {
           try {
-            const templateData = await templateService.getTemplateById(visitData.templateId);
+            templateData = await templateService.getTemplateForVisit(visitData);
             setTemplate(templateData);
           } catch (err) {
             console.error('Error fetching template:', err);
             // Don't set error since the visit might still be viewable
           }
         }
+        
+        // Billing depends on whether the patient has had an AWV before
+        const patientId = typeof visitData.patient === 'object' ? visitData.patient?._id : visitData.patient;
+        if (isCompletedStatus(visitData.status) && patientId) {
+          try {
+            const history = await visitService.getVisits({ patientId, status: 'completed,signed', limit: 100 });
+            setBilling(suggestBillingCodes({ visit: visitData, template: templateData, history: history.visits }));
+          } catch (err) {
+            console.error('Error loading visit history for billing:', err);
+          }
+        }
       } catch (err) {
         console.error('Error fetching visit:', err);
         setError('Failed to load visit details');
@@ -81,10 +106,10 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
   }, [visitId]);
 
   const handleDelete = async () => {
-    // Change confirmation message based on visit status
-    const confirmMessage = visit?.status === 'completed' 
+    // Cancelling keeps the visit and its history; deleting removes it altogether
+    const confirmMessage = isCompletedStatus(visit?.status)
       ? 'Are you sure you want to delete this completed visit? All data including assessment results and health plan will be permanently deleted.'
-      : 'Are you sure you want to cancel this visit? This action cannot be undone.';
+      : 'Are you sure you want to delete this visit? To keep a record of it, cancel it instead. This action cannot be undone.';
       
     if (window.confirm(confirmMessage)) {
       try {
@@ -93,12 +118,32 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
         router.push('/dashboard/visits');
       } catch (err) {
         console.error('Error deleting visit:', err);
-        setError(`Failed to ${visit?.status === 'completed' ? 'delete' : 'cancel'} visit`);
+        setError('Failed to delete visit');
         setIsDeleting(false);
       }
     }
   };
   
+  const handleFhirExport = async () => {
+    try {
+      setIsExporting(true);
+      const blob = await visitService.exportFhirBundle(visitId);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `visit-${visitId}-fhir.json`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (err) {
+      console.error('Error exporting visit as FHIR:', err);
+      alert('Failed to export the visit. Please try again.');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+  
   const formatDate = (dateString: string) => {
     try {
       const options: Intl.DateTimeFormatOptions = { 
@@ -115,21 +160,6 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
     }
   };
   
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'completed':
-        return <span className="badge-success">Completed</span>;
-      case 'scheduled':
-        return <span className="badge-primary">Scheduled</span>;
-      case 'in-progress':
-        return <span className="badge-warning">In Progress</span>;
-      case 'cancelled':
-        return <span className="badge-danger">Canceled</span>;
-      default:
-        return <span className="badge-secondary">{status}</span>;
-    }
-  };
-  
   if (isLoading) {
     return (
       <div className="animate-pulse">
@@ -179,12 +209,17 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
     ? `${visit.provider.firstName || ''} ${visit.provider.lastName || ''}`.trim() || 'Unknown Provider'
     : 'Unknown Provider';
   
+  // Visits saved before scoring was added have no stored scores
+  const scores = visit.scores && visit.scores.length > 0
+    ? visit.scores
+    : scoreVisit(template, visit.responses);
+  
   return (
     <div>
       <div className="flex justify-between items-center mb-6">
         <h1 className="text-2xl font-bold">Visit Details</h1>
         <div className="flex space-x-2">
-          {visit.status === 'scheduled' && (
+          {(visit.status === 'scheduled' || visit.status === 'checked-in') && (
             <Link href={`/dashboard/visits/${visitId}/conduct`} className="btn-primary">
               Start Visit
             </Link>
@@ -194,10 +229,20 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
               Continue Visit
             </Link>
           )}
-          {visit.status === 'completed' && (
-            <Link href={`/dashboard/visits/${visitId}/report`} className="btn-secondary">
-              View Report
-            </Link>
+          {isCompletedStatus(visit.status) && (
+            <>
+              <button
+                onClick={handleFhirExport}
+                className="btn-secondary flex items-center"
+                disabled={isExporting}
+                title="Download as a FHIR R4 Bundle for an EHR"
+              >
+                <FiDownload className="mr-1" /> {isExporting ? 'Exporting...' : 'Export FHIR'}
+              </button>
+              <Link href={`/dashboard/visits/${visitId}/report`} className="btn-secondary">
+                View Report
+              </Link>
+            </>
           )}
         </div>
       </div>
@@ -209,20 +254,13 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
               <div>
                 <h2 className="text-xl font-semibold">{template?.name || 'Visit'}</h2>
                 <div className="flex items-center mt-2 mb-4">
-                  {getStatusBadge(visit.status)}
+                  <span className={VISIT_STATUS_BADGES[visit.status as keyof typeof VISIT_STATUS_BADGES] || 'badge badge-gray'}>
+                    {VISIT_STATUS_LABELS[visit.status as keyof typeof VISIT_STATUS_LABELS] || visit.status}
+                  </span>
                 </div>
               </div>
               <div>
-                {(visit.status === 'scheduled' || visit.status === 'in-progress') && (
-                  <button
-                    onClick={handleDelete}
-                    className="btn-danger"
-                    disabled={isDeleting}
-                  >
-                    {isDeleting ? 'Canceling...' : 'Cancel Visit'}
-                  </button>
-                )}
-                {visit.status === 'completed' && (
+                {can('visits:delete') && visit.status !== 'signed' && (
                   <button
                     onClick={handleDelete}
                     className="btn-danger flex items-center"
@@ -264,6 +302,36 @@ export default function VisitDetailClientPage({ params: propParams }: VisitDetai
               </div>
             </div>
           </div>
+          
+          <PatientIntakeCard
+            visitId={visitId}
+            editable={isOpenStatus(visit.status)}
+            reviewable={isOpenStatus(visit.status) || visit.status === 'completed'}
+            onAnswerChanged={() => visitService.getVisitById(visitId).then(setVisit).catch(() => undefined)}
+          />
+          
+          <ScreeningResults scores={scores} />
+          
+          <BillingCodes billing={billing} />
+          
+          {(visit.status === 'in-progress' || isCompletedStatus(visit.status)) && (
+            <HealthPlanReview
+              visitId={visitId}
+              healthPlan={visit.healthPlan}
+              editable={visit.status !== 'signed'}
+              onSaved={(healthPlan) => setVisit({ ...visit, healthPlan })}
+            />
+          )}
+        </div>
+        
+        <div>
+          <VisitStatusCard visit={visit} onChanged={setVisit} />
+          
+          <VisitSignatureCard
+            visit={visit}
+            editable
+            onAddendumAdded={(addendum) => setVisit({ ...visit, addenda: [...(visit.addenda || []), addendum] })}
+          />
         </div>
       </div>
     </div>
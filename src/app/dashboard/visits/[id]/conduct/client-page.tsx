@@ -3,20 +3,36 @@
 // Prevent static rendering of this route
 export const dynamic = 'force-dynamic';
 
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
-import { FiChevronLeft, FiChevronRight, FiSave, FiCheckCircle, FiAlertCircle } from 'react-icons/fi';
+import { FiChevronLeft, FiChevronRight, FiSave, FiCheckCircle, FiAlertCircle, FiWifiOff, FiRefreshCw, FiZap, FiList } from 'react-icons/fi';
 import visitService from '@/services/visitService';
 import templateService from '@/services/templateService';
 import { v4 as uuidv4 } from 'uuid';
 import ErrorBoundary from '@/components/ErrorBoundary';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import QuestionField from '@/components/visits/QuestionField';
+import RapidEntryForm, { focusQuestion } from '@/components/visits/RapidEntryForm';
+import ScreeningResults from '@/components/visits/ScreeningResults';
+import { scoreVisit } from '@/lib/scoring';
+import { getVisibility } from '@/lib/conditionalLogic';
+import { validateVisitResponses, ResponseValidationError } from '@/lib/visitValidation';
+import { flattenResponses, formatAnswer, patientReportedQuestionIds, ResponseMap } from '@/lib/visitResponses';
+import { getDraft, saveDraft, deleteDraft, isOfflineError, applyAnswers } from '@/lib/offlineDrafts';
+import { syncVisitDraft, DraftSyncResult } from '@/lib/draftSync';
+import { mergeResponses, sameResponse, ConflictResolution, ResponseConflict } from '@/lib/responseMerge';
 
 // Import all the types and logic from the original file
 
+const ENTRY_MODE_KEY = 'conductEntryMode';
+
 // Client component for conducting visits
 export default function ConductVisitClientPage({ params }: { params: { id: string } }) {
   const router = useRouter();
+  const can = useCan();
+  const { user } = useAuth();
+  const userId = user?.uid;
   const [isLoading, setIsLoading] = useState(true);
   const [visit, setVisit] = useState<any>(null);
   const [template, setTemplate] = useState<any>(null);
@@ -25,41 +41,229 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
   const [responses, setResponses] = useState<Record<string, any>>({});
   const [isSaving, setIsSaving] = useState(false);
   const [completedSections, setCompletedSections] = useState<number[]>([]);
+  const [validationErrors, setValidationErrors] = useState<ResponseValidationError[]>([]);
+  // 'rapid' shows every section on one page for keyboard entry of paper forms
+  const [entryMode, setEntryMode] = useState<'guided' | 'rapid'>('guided');
+  
+  // Offline drafts: answers are autosaved to this device and synced when online
+  const [isOffline, setIsOffline] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [hasPendingChanges, setHasPendingChanges] = useState(false);
+  const [syncNotice, setSyncNotice] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ResponseConflict[]>([]);
+  const [resolutions, setResolutions] = useState<Record<string, ConflictResolution>>({});
+  // Server state the local answers are based on
+  const baseRef = useRef<{ revision: number; responses: ResponseMap }>({ revision: 0, responses: {} });
+  // Visit revision the next server write is based on
+  const revisionRef = useRef(0);
+  // Questions answered since the last successful autosave
+  const dirtyQuestionsRef = useRef<Set<string>>(new Set());
+  const isAutosavingRef = useRef(false);
+  // Bumped on every local edit; compared with the count at the last draft save
+  const editCountRef = useRef(0);
+  const savedEditCountRef = useRef(0);
+  // Latest state for callbacks registered once, such as the online listener
+  const latestRef = useRef({ responses, completedSections, conflicts, visit, template });
+  latestRef.current = { responses, completedSections, conflicts, visit, template };
   
   useEffect(() => {
+    // Drafts belong to the signed-in user, so wait until they are known
+    if (!userId) return;
+    
     // Fetch visit and template data
     fetchVisitData();
-  }, [params.id]);
+  }, [params.id, userId]);
+  
+  useEffect(() => {
+    if (localStorage.getItem(ENTRY_MODE_KEY) === 'rapid') {
+      setEntryMode('rapid');
+    }
+  }, []);
+  
+  const toggleEntryMode = () => {
+    const next = entryMode === 'rapid' ? 'guided' : 'rapid';
+    setEntryMode(next);
+    localStorage.setItem(ENTRY_MODE_KEY, next);
+  };
+  
+  useEffect(() => {
+    setIsOffline(!navigator.onLine);
+    
+    const handleOnline = () => {
+      setIsOffline(false);
+      syncNow();
+    };
+    const handleOffline = () => setIsOffline(true);
+    
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [params.id, userId]);
+  
+  // Autosave local edits to IndexedDB shortly after the last change
+  useEffect(() => {
+    if (editCountRef.current === savedEditCountRef.current || !visit || !template) return;
+    
+    const timer = setTimeout(() => {
+      persistDraft().catch(err => console.error('Error saving offline draft:', err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [responses, completedSections]);
+  
+  // Autosave the changed answers to the server a little after typing stops
+  useEffect(() => {
+    if (dirtyQuestionsRef.current.size === 0 || isOffline || conflicts.length > 0 || !visit) return;
+    
+    const timer = setTimeout(autosaveAnswers, 1500);
+    return () => clearTimeout(timer);
+  }, [responses, completedSections, isOffline, conflicts]);
+  
+  const autosaveAnswers = async () => {
+    if (isAutosavingRef.current || dirtyQuestionsRef.current.size === 0) return;
+    isAutosavingRef.current = true;
+    
+    const questionIds = Array.from(dirtyQuestionsRef.current);
+    const answers = Object.fromEntries(questionIds.map(questionId => [
+      questionId,
+      latestRef.current.responses[questionId] ?? null
+    ]));
+    let saved = false;
+    
+    try {
+      const result = await visitService.saveAnswers(params.id, {
+        revision: revisionRef.current,
+        answers,
+        completedSections: latestRef.current.completedSections
+      });
+      
+      revisionRef.current = result.revision;
+      const baseResponses = { ...baseRef.current.responses };
+      questionIds.forEach(questionId => {
+        if (answers[questionId] === null) {
+          delete baseResponses[questionId];
+        } else {
+          baseResponses[questionId] = answers[questionId];
+        }
+        // Answers changed again while the request ran stay dirty
+        if (sameResponse(latestRef.current.responses[questionId], answers[questionId])) {
+          dirtyQuestionsRef.current.delete(questionId);
+        }
+      });
+      baseRef.current = { revision: result.revision, responses: baseResponses };
+      setVisit((prev: any) => ({ ...prev, status: result.status, revision: result.revision, updatedAt: result.updatedAt }));
+      saved = true;
+      
+      if (dirtyQuestionsRef.current.size === 0) {
+        setHasPendingChanges(false);
+        await persistDraft();
+      }
+    } catch (err: any) {
+      if (err.status === 409 && err.details?.revision !== undefined) {
+        // Someone else saved the visit: merge their answers with ours through the draft sync
+        await persistDraft();
+        await syncNow();
+      } else if (isOfflineError(err)) {
+        setIsOffline(!navigator.onLine);
+        setSyncNotice('Saved on this device. Changes will sync when the connection returns.');
+      } else {
+        console.error('Error autosaving answers:', err);
+        setSyncNotice(err.message || 'Failed to autosave. Your answers are saved on this device.');
+      }
+    } finally {
+      isAutosavingRef.current = false;
+      
+      // The debounce skips answers typed while the request ran; save them now rather than on the next edit
+      if (saved && dirtyQuestionsRef.current.size > 0) {
+        autosaveAnswers();
+      }
+    }
+  };
+  
+  // Keep the answers that differ from the server on this device, or drop the draft when none do
+  const persistDraft = async () => {
+    const latest = latestRef.current;
+    const base = baseRef.current;
+    savedEditCountRef.current = editCountRef.current;
+    if (!userId) return null;
+    
+    const changed = Object.keys({ ...base.responses, ...latest.responses })
+      .filter(questionId => !sameResponse(latest.responses[questionId], base.responses[questionId]));
+    if (changed.length === 0 && latest.conflicts.length === 0) {
+      await deleteDraft(userId, params.id);
+      return null;
+    }
+    
+    return saveDraft({
+      userId,
+      visitId: params.id,
+      answers: Object.fromEntries(changed.map(questionId => [questionId, latest.responses[questionId] ?? null])),
+      baseAnswers: Object.fromEntries(changed.map(questionId => [questionId, base.responses[questionId] ?? null])),
+      completedSections: latest.completedSections,
+      baseRevision: base.revision,
+      conflicts: latest.conflicts
+    });
+  };
   
   const fetchVisitData = async () => {
+    if (!userId) return;
+    
     try {
       setIsLoading(true);
       
+      const draft = await getDraft(userId, params.id).catch(err => {
+        console.error('Error reading offline draft:', err);
+        return null;
+      });
+      
       // Get visit data
       const visitData = await visitService.getVisitById(params.id);
       if (!visitData) {
         throw new Error('Visit not found');
       }
       
-      setVisit(visitData);
-      
-      // Load responses if they exist
-      if (visitData.responses) {
-        setResponses(visitData.responses);
+      if (visitData.status === 'signed') {
+        throw new Error('This visit has been signed and can no longer be edited. Add an addendum on the visit page instead.');
       }
       
-      // Load completed sections if they exist
-      if (visitData.completedSections) {
-        setCompletedSections(visitData.completedSections);
+      // Get template data
+      if (!visitData.templateId) {
+        throw new Error('This visit has no assessment template');
       }
       
-      // Get template data
-      const templateData = await templateService.getTemplateById(visitData.templateId);
+      const templateData = await templateService.getTemplateForVisit(visitData);
       if (!templateData) {
         throw new Error('Template not found');
       }
       
+      setVisit(visitData);
       setTemplate(templateData);
+      revisionRef.current = visitData.revision ?? 0;
+      dirtyQuestionsRef.current.clear();
+      
+      const serverResponses = flattenResponses(visitData.responses);
+      if (draft) {
+        // Unsynced answers from this device take precedence over the server copy
+        const localResponses = applyAnswers(serverResponses, draft.answers);
+        baseRef.current = { revision: draft.baseRevision, responses: applyAnswers(serverResponses, draft.baseAnswers) };
+        setResponses(localResponses);
+        setCompletedSections(draft.completedSections || []);
+        setConflicts(draft.conflicts || []);
+        setHasPendingChanges(true);
+        // The sync merges with the latest answers, which are not rendered yet
+        latestRef.current = { ...latestRef.current, responses: localResponses };
+        
+        // Also discards the draft when the visit is no longer in progress
+        applySyncResult(await syncVisitDraft(userId, params.id), localResponses);
+      } else {
+        baseRef.current = { revision: visitData.revision ?? 0, responses: serverResponses };
+        setResponses(serverResponses);
+        setCompletedSections(visitData.completedSections || []);
+        setConflicts([]);
+        setHasPendingChanges(false);
+      }
     } catch (err: any) {
       console.error('Error fetching data:', err);
       setError(err.message || 'Failed to load visit. Please try again.');
@@ -68,19 +272,149 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
     }
   };
   
+  // Update the page after a sync; answers edited while it ran are kept
+  const applySyncResult = (result: DraftSyncResult, sentResponses: ResponseMap) => {
+    switch (result.status) {
+      case 'synced': {
+        const syncedResponses = result.responses;
+        revisionRef.current = result.visit?.revision ?? revisionRef.current;
+        baseRef.current = { revision: revisionRef.current, responses: syncedResponses };
+        
+        const merged = mergeResponses(sentResponses, latestRef.current.responses, syncedResponses).merged;
+        dirtyQuestionsRef.current = new Set(
+          Object.keys({ ...merged, ...syncedResponses }).filter(questionId => !sameResponse(merged[questionId], syncedResponses[questionId]))
+        );
+        setResponses(merged);
+        setConflicts([]);
+        setResolutions({});
+        setHasPendingChanges(false);
+        setSyncNotice(null);
+        setVisit((prev: any) => ({ ...prev, status: 'in-progress', updatedAt: result.visit?.updatedAt }));
+        return true;
+      }
+      case 'offline':
+        setIsOffline(true);
+        setSyncNotice('Saved on this device. Changes will sync when the connection returns.');
+        return false;
+      case 'conflict':
+        setConflicts(result.conflicts);
+        setSyncNotice(null);
+        return false;
+      case 'closed':
+        setHasPendingChanges(false);
+        setSyncNotice(`This visit was marked ${result.visit?.status} elsewhere, so the changes saved on this device were discarded.`);
+        return false;
+      default:
+        // Nothing was pending, e.g. the background sync already pushed the draft
+        setHasPendingChanges(false);
+        return true;
+    }
+  };
+  
+  const syncNow = async (chosen: Record<string, ConflictResolution> = {}) => {
+    try {
+      setIsSyncing(true);
+      const editCount = editCountRef.current;
+      
+      // Make sure the latest answers are in the draft before pushing it
+      if (!userId) return false;
+      const draft = editCount !== savedEditCountRef.current ? await persistDraft() : await getDraft(userId, params.id);
+      if (!draft) {
+        setHasPendingChanges(false);
+        return true;
+      }
+      
+      const sentResponses = applyAnswers(baseRef.current.responses, draft.answers);
+      const synced = applySyncResult(await syncVisitDraft(userId, params.id, chosen), sentResponses);
+      if (synced && editCountRef.current !== editCount) {
+        // Answers changed during the sync; the autosave marks them pending again
+        setHasPendingChanges(true);
+      }
+      return synced;
+    } catch (err: any) {
+      console.error('Error syncing visit:', err);
+      setSyncNotice(err.message || 'Failed to sync changes. They are saved on this device.');
+      return false;
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+  
+  const handleResponseChange = (questionId: string, value: any) => {
+    editCountRef.current += 1;
+    dirtyQuestionsRef.current.add(questionId);
+    setHasPendingChanges(true);
+    setResponses(prev => ({ ...prev, [questionId]: value }));
+    
+    // Clear the highlight once the question is changed
+    setValidationErrors(prev => prev.filter(e => e.questionId !== questionId));
+  };
+  
+  const findQuestion = (questionId: string) => (template?.sections || [])
+    .flatMap((section: any) => section.questions || [])
+    .find((question: any) => question.id === questionId);
+  
+  // Highlight invalid questions and jump to the first section with a problem
+  const showValidationErrors = (errors: ResponseValidationError[]) => {
+    setValidationErrors(errors);
+    
+    const firstSectionIndex = (template?.sections || [])
+      .findIndex((section: any) => section.id === errors[0]?.sectionId);
+    if (firstSectionIndex !== -1) {
+      setCurrentSectionIndex(firstSectionIndex);
+    }
+    
+    // Rapid entry shows every section, so go straight to the question
+    if (entryMode === 'rapid' && errors[0]) {
+      setTimeout(() => focusQuestion(errors[0].questionId), 0);
+    }
+  };
+  
+  // Scores update live as instrument questions are answered
+  const scores = scoreVisit(template, responses);
+  
+  // Re-evaluate conditional sections and questions on every answer
+  const visibility = getVisibility(template, responses, {
+    dateOfBirth: visit?.patient?.dateOfBirth,
+    gender: visit?.patient?.gender
+  });
+  const visibleSectionIndexes: number[] = (template?.sections || [])
+    .map((_: any, index: number) => index)
+    .filter((index: number) => !visibility.hiddenSections.has(template.sections[index].id));
+  
+  // Stay on the nearest visible section if an answer hides the current one
+  const activeSectionIndex = visibleSectionIndexes.includes(currentSectionIndex)
+    ? currentSectionIndex
+    : visibleSectionIndexes.find(index => index > currentSectionIndex)
+      ?? visibleSectionIndexes[visibleSectionIndexes.length - 1]
+      ?? 0;
+  const sectionPosition = visibleSectionIndexes.indexOf(activeSectionIndex);
+  const currentSection = template?.sections?.[activeSectionIndex];
+  const visibleQuestions = (currentSection?.questions || [])
+    .filter((question: any) => !visibility.hiddenQuestions.has(question.id));
+  
+  // Answers from the patient's pre-visit questionnaire stay marked until they are changed here
+  const storedResponses = flattenResponses(visit?.responses);
+  const patientReported = new Set(
+    Array.from(patientReportedQuestionIds(visit?.responses))
+      .filter(questionId => sameResponse(responses[questionId], storedResponses[questionId]))
+  );
+  
+  // Same check the server runs on completion, limited to required questions without an answer
+  const missingRequired = entryMode === 'rapid'
+    ? validateVisitResponses(template, responses, {
+        dateOfBirth: visit?.patient?.dateOfBirth,
+        gender: visit?.patient?.gender
+      }).errors.filter(e => e.code === 'required')
+    : [];
+  
   const handleSave = async () => {
     try {
       setIsSaving(true);
       
-      // Update visit with responses
-      await visitService.updateVisit(params.id, {
-        responses,
-        completedSections,
-        status: 'in-progress'
-      });
-      
-      // Refresh data
-      await fetchVisitData();
+      // Saving goes through the draft so it also works without a connection
+      await persistDraft();
+      await syncNow();
     } catch (err: any) {
       console.error('Error saving visit:', err);
       setError(err.message || 'Failed to save progress. Please try again.');
@@ -90,6 +424,26 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
   };
   
   const handleComplete = async () => {
+    // Check locally first; the server runs the same validation
+    const validation = validateVisitResponses(template, responses, {
+      dateOfBirth: visit?.patient?.dateOfBirth,
+      gender: visit?.patient?.gender
+    });
+    if (!validation.valid) {
+      showValidationErrors(validation.errors);
+      return;
+    }
+    
+    if (isOffline) {
+      setSyncNotice('Reconnect to complete the visit. Your answers are saved on this device.');
+      return;
+    }
+    
+    // Bring the server copy up to date first so concurrent edits are merged, not overwritten
+    if (hasPendingChanges && !(await syncNow())) {
+      return;
+    }
+    
     try {
       setIsSaving(true);
       
@@ -97,13 +451,32 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
       await visitService.updateVisit(params.id, {
         responses,
         completedSections,
-        status: 'completed'
+        status: 'completed',
+        revision: revisionRef.current
       });
       
+      if (userId) {
+        await deleteDraft(userId, params.id).catch(err => console.error('Error removing offline draft:', err));
+      }
+      
       // Redirect to visit details
       router.push(`/dashboard/visits/${params.id}`);
     } catch (err: any) {
       console.error('Error completing visit:', err);
+      
+      if (err.status === 422 && Array.isArray(err.details) && err.details.length > 0) {
+        showValidationErrors(err.details);
+        return;
+      }
+      
+      if (err.status === 409 && err.details?.revision !== undefined) {
+        await persistDraft();
+        if (await syncNow()) {
+          setSyncNotice('Someone else saved this visit while you were working. Their answers have been merged; review them and complete the visit again.');
+        }
+        return;
+      }
+      
       setError(err.message || 'Failed to complete visit. Please try again.');
     } finally {
       setIsSaving(false);
@@ -136,7 +509,25 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
     <div className="container mx-auto p-4">
       <div className="mb-6 flex items-center justify-between">
         <h1 className="text-2xl font-bold">Conduct Visit: {visit?.patientName}</h1>
-        <div className="flex gap-2">
+        <div className="flex items-center gap-3">
+          <span className="text-sm text-gray-500 flex items-center">
+            {isOffline ? (
+              <><FiWifiOff className="mr-1" /> Offline - saving on this device</>
+            ) : isSyncing ? (
+              <><FiRefreshCw className="mr-1 animate-spin" /> Syncing...</>
+            ) : hasPendingChanges ? (
+              'Unsynced changes saved on this device'
+            ) : (
+              'All changes saved'
+            )}
+          </span>
+          <button
+            onClick={toggleEntryMode}
+            className="flex items-center gap-2 bg-gray-200 px-4 py-2 rounded"
+            title={entryMode === 'rapid' ? 'Answer one section at a time' : 'Enter all sections on one page with keyboard shortcuts'}
+          >
+            {entryMode === 'rapid' ? <><FiList /> Step by Step</> : <><FiZap /> Rapid Entry</>}
+          </button>
           <button
             onClick={handleSave}
             disabled={isSaving}
@@ -147,41 +538,166 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
         </div>
       </div>
       
+      {syncNotice && (
+        <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded mb-4">
+          {syncNotice}
+        </div>
+      )}
+      
+      {patientReported.size > 0 && (
+        <div className="bg-blue-50 border border-blue-200 text-blue-800 px-4 py-3 rounded mb-4 text-sm">
+          {patientReported.size} answer{patientReported.size === 1 ? ' was' : 's were'} reported by the patient before the visit.
+          They are marked Patient-reported; review them with the patient and change any that need correcting.
+        </div>
+      )}
+      
+      {conflicts.length > 0 && (
+        <div className="bg-white border border-orange-300 rounded-lg shadow-md p-4 mb-6">
+          <h2 className="font-semibold flex items-center mb-1">
+            <FiAlertCircle className="mr-2 text-orange-600" />
+            {conflicts.length} answer{conflicts.length === 1 ? ' was' : 's were'} also changed by someone else
+          </h2>
+          <p className="text-sm text-gray-600 mb-3">
+            Choose which answer to keep for each question. Other changes have been merged automatically.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {conflicts.map(conflict => {
+              const question = findQuestion(conflict.questionId);
+              const describe = (value: any) => (question ? formatAnswer(question, value) : String(value ?? '')) || 'No answer';
+              return (
+                <li key={conflict.questionId} className="py-3">
+                  <div className="font-medium text-sm mb-2">{question?.text || conflict.questionId}</div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                    {(['local', 'remote'] as ConflictResolution[]).map(side => (
+                      <button
+                        key={side}
+                        type="button"
+                        onClick={() => setResolutions(prev => ({ ...prev, [conflict.questionId]: side }))}
+                        className={`text-left text-sm border rounded p-2 ${resolutions[conflict.questionId] === side ? 'border-blue-500 bg-blue-50' : 'border-gray-200'}`}
+                      >
+                        <div className="text-xs text-gray-500">{side === 'local' ? 'Keep this device\'s answer' : 'Use the saved answer'}</div>
+                        <div>{describe(side === 'local' ? conflict.local : conflict.remote)}</div>
+                      </button>
+                    ))}
+                  </div>
+                </li>
+              );
+            })}
+          </ul>
+          <div className="flex justify-end mt-3">
+            <button
+              onClick={() => syncNow(resolutions)}
+              disabled={isSyncing || isOffline || conflicts.some(conflict => !resolutions[conflict.questionId])}
+              className="flex items-center gap-2 bg-blue-600 text-white px-4 py-2 rounded disabled:opacity-50"
+            >
+              <FiRefreshCw /> Apply and Sync
+            </button>
+          </div>
+        </div>
+      )}
+      
       {template && template.sections && (
         <div className="bg-white rounded-lg shadow-md">
-          <div className="border-b p-4">
-            <div className="flex justify-between items-center">
-              <h2 className="text-xl font-semibold">
-                {template.sections[currentSectionIndex]?.title || 'Section'}
-              </h2>
-              <div className="text-sm text-gray-500">
-                Section {currentSectionIndex + 1} of {template.sections.length}
+          {entryMode === 'rapid' ? (
+            <ErrorBoundary>
+              <RapidEntryForm
+                sections={template.sections}
+                visibility={visibility}
+                responses={responses}
+                onChange={handleResponseChange}
+                missingRequired={missingRequired}
+                validationErrors={validationErrors}
+                patientReported={patientReported}
+              />
+            </ErrorBoundary>
+          ) : (
+            <div className="border-b p-4">
+              <div className="flex justify-between items-center">
+                <h2 className="text-xl font-semibold">
+                  {currentSection?.title || 'Section'}
+                </h2>
+                <div className="text-sm text-gray-500">
+                  Section {sectionPosition + 1} of {visibleSectionIndexes.length}
+                </div>
               </div>
             </div>
-          </div>
+          )}
           
           <div className="p-6">
-            {/* Form content would go here */}
-            <p>This is a simplified version. Implement the full form content based on your template structure.</p>
+            {validationErrors.length > 0 && (
+              <div className="bg-red-50 border border-red-300 text-red-700 px-4 py-3 rounded mb-6">
+                <div className="flex items-center font-medium mb-2">
+                  <FiAlertCircle className="mr-2" />
+                  {validationErrors.length} question{validationErrors.length === 1 ? '' : 's'} must be fixed before completing the visit
+                </div>
+                <ul className="text-sm list-disc ml-6">
+                  {validationErrors.map(validationError => (
+                    <li key={validationError.questionId}>
+                      <button
+                        type="button"
+                        className="underline text-left"
+                        onClick={() => showValidationErrors([
+                          validationError,
+                          ...validationErrors.filter(e => e !== validationError)
+                        ])}
+                      >
+                        {validationError.sectionTitle}: {validationError.question}
+                      </button>
+                      {' '}- {validationError.message}
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+            
+            {entryMode === 'guided' && currentSection?.description && (
+              <p className="text-gray-600 mb-6">{currentSection.description}</p>
+            )}
+            
+            {entryMode === 'guided' && (
+              <ErrorBoundary>
+                {visibleQuestions.map((question: any) => (
+                  <QuestionField
+                    key={question.id}
+                    question={question}
+                    value={responses[question.id]}
+                    onChange={(value) => handleResponseChange(question.id, value)}
+                    error={validationErrors.find(e => e.questionId === question.id)?.message}
+                    patientReported={patientReported.has(question.id)}
+                  />
+                ))}
+              </ErrorBoundary>
+            )}
+            
+            {scores.some(score => score.positive) && (
+              <div className="mt-6">
+                <h3 className="font-semibold mb-3">Positive Screens</h3>
+                <ScreeningResults scores={scores.filter(score => score.positive)} compact />
+              </div>
+            )}
           </div>
           
           <div className="border-t p-4 flex justify-between">
-            <button
-              onClick={() => setCurrentSectionIndex(Math.max(0, currentSectionIndex - 1))}
-              disabled={currentSectionIndex === 0}
-              className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded disabled:opacity-50"
-            >
-              <FiChevronLeft /> Previous
-            </button>
+            {entryMode === 'rapid' ? (
+              <span />
+            ) : (
+              <button
+                onClick={() => setCurrentSectionIndex(visibleSectionIndexes[sectionPosition - 1])}
+                disabled={sectionPosition <= 0}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-200 rounded disabled:opacity-50"
+              >
+                <FiChevronLeft /> Previous
+              </button>
+            )}
             
-            {currentSectionIndex < template.sections.length - 1 ? (
+            {entryMode === 'guided' && sectionPosition < visibleSectionIndexes.length - 1 ? (
               <button
-                onClick={() => setCurrentSectionIndex(currentSectionIndex + 1)}
+                onClick={() => setCurrentSectionIndex(visibleSectionIndexes[sectionPosition + 1])}
                 className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded"
               >
                 Next <FiChevronRight />
               </button>
-            ) : (
+            ) : can('visits:complete') ? (
               <button
                 onClick={handleComplete}
                 disabled={isSaving}
@@ -189,6 +705,10 @@ export default function ConductVisitClientPage({ params }: { params: { id: strin
               >
                 <FiCheckCircle /> Complete Visit
               </button>
+            ) : (
+              <span className="px-4 py-2 text-sm text-gray-500">
+                A provider must review and complete this visit
+              </span>
             )}
           </div>
         </div>
@@ -10,7 +10,18 @@ import { FiPrinter, FiDownload, FiMail, FiEdit, FiArrowLeft, FiUser, FiFileText,
 import visitService from '@/services/visitService';
 import templateService from '@/services/templateService';
 import patientService from '@/services/patientService';
+import auditService from '@/services/auditService';
 import { format } from 'date-fns';
+import ScreeningResults from '@/components/visits/ScreeningResults';
+import BillingCodes from '@/components/visits/BillingCodes';
+import VisitSignatureCard from '@/components/visits/VisitSignatureCard';
+import { BillingSummary, suggestBillingCodes } from '@/lib/billing';
+import { getVisibility } from '@/lib/conditionalLogic';
+import { groupRecommendationsByDomain } from '@/lib/healthPlanEngine';
+import { formatScore, scoreVisit } from '@/lib/scoring';
+import { flattenResponses, formatAnswer, isAnswered } from '@/lib/visitResponses';
+import { isCompletedStatus, VISIT_STATUS_LABELS, VisitStatus } from '@/lib/visitLifecycle';
+import type { VisitPdfType } from '@/models/VisitPdf';
 
 // ErrorBoundary component to catch rendering errors
 class ErrorBoundary extends Component<{ children: ReactNode, fallback: ReactNode }> {
@@ -87,42 +98,13 @@ function VisitReportInner({ visitId }: { visitId: string }) {
   const [visit, setVisit] = useState<any>(null);
   const [template, setTemplate] = useState<any>(null);
   const [patient, setPatient] = useState<any>(null);
+  const [billing, setBilling] = useState<BillingSummary | null>(null);
   const [isLoading, setIsLoading] = useState(true);
   const [isPrinting, setIsPrinting] = useState(false);
   const [error, setError] = useState<string | null>(null);
-  const [generatingPDF, setGeneratingPDF] = useState(false);
+  const [generatingPDF, setGeneratingPDF] = useState<VisitPdfType | null>(null);
   const reportRef = useRef<HTMLDivElement>(null);
   
-  // State for PDF modules
-  const [pdfModules, setPdfModules] = useState<{
-    jspdf: any | null;
-    html2canvas: any | null;
-  }>({
-    jspdf: null,
-    html2canvas: null
-  });
-  
-  // Load PDF modules on client side only
-  useEffect(() => {
-    const loadPdfModules = async () => {
-      try {
-        const [jspdfModule, html2canvasModule] = await Promise.all([
-          import('jspdf'),
-          import('html2canvas')
-        ]);
-        
-        setPdfModules({
-          jspdf: jspdfModule.default,
-          html2canvas: html2canvasModule.default
-        });
-      } catch (err) {
-        console.error('Error loading PDF modules:', err);
-      }
-    };
-    
-    loadPdfModules();
-  }, []);
-  
   useEffect(() => {
     const fetchVisitData = async () => {
       if (!visitId) {
@@ -157,9 +139,10 @@ function VisitReportInner({ visitId }: { visitId: string }) {
         setVisit(visitResponse); // Keep original structure for consistency
         
         // Fetch template if available
+        let templateData = null;
         if (visitData.templateId) {
           try {
-            const templateData = await templateService.getTemplateById(visitData.templateId);
+            templateData = await templateService.getTemplateForVisit(visitData);
             if (templateData) {
             setTemplate(templateData);
             }
@@ -169,6 +152,18 @@ function VisitReportInner({ visitId }: { visitId: string }) {
           }
         }
         
+        // Billing depends on whether the patient has had an AWV before
+        const patientId = typeof visitData.patient === 'object' ? visitData.patient?._id : visitData.patient;
+        if (isCompletedStatus(visitData.status) && patientId) {
+          try {
+            const history = await visitService.getVisits({ patientId, status: 'completed,signed', limit: 100 });
+            setBilling(suggestBillingCodes({ visit: visitData, template: templateData, history: history.visits }));
+          } catch (err) {
+            console.error('Error loading visit history for billing:', err);
+            // Continue without billing codes - non-critical
+          }
+        }
+        
         // Fetch patient details if not populated
         if (visitData.patient) {
           if (typeof visitData.patient === 'object' && visitData.patient !== null) {
@@ -198,59 +193,30 @@ function VisitReportInner({ visitId }: { visitId: string }) {
   
   const handlePrint = () => {
     setIsPrinting(true);
+    auditService.recordReportExport(visitId, 'print');
     setTimeout(() => {
       window.print();
       setIsPrinting(false);
     }, 100);
   };
   
-  const handleDownloadPDF = async () => {
-    if (!reportRef.current || !pdfModules.jspdf || !pdfModules.html2canvas) {
-      alert('PDF generation is still loading. Please try again in a moment.');
-      return;
-    }
-    
+  const handleDownloadPDF = async (type: VisitPdfType) => {
     try {
-      setGeneratingPDF(true);
-      const reportElement = reportRef.current;
-      
-      // Set a temporary class for PDF generation
-      reportElement.classList.add('generating-pdf');
-      
-      // Capture the content as canvas
-      const canvas = await pdfModules.html2canvas(reportElement, {
-        scale: 2, // Higher scale for better quality
-        useCORS: true,
-        logging: false
-      });
-      
-      // Remove temporary class
-      reportElement.classList.remove('generating-pdf');
-      
-      // Get the canvas dimensions
-      const imgWidth = 210; // A4 width in mm
-      const imgHeight = (canvas.height * imgWidth) / canvas.width;
-      
-      // Convert canvas to image
-      const imgData = canvas.toDataURL('image/png');
-      
-      // Initialize PDF - use proper constructor with options object
-      const pdf = new pdfModules.jspdf({
-        orientation: 'portrait',
-        unit: 'mm',
-        format: 'a4'
-      });
-      
-      // Add the image to PDF
-      pdf.addImage(imgData, 'PNG', 0, 0, imgWidth, imgHeight);
-      
-      // Save the PDF
-      pdf.save(`Visit_Report_${visitId}.pdf`);
-    } catch (error) {
-      console.error('Error generating PDF:', error);
-      alert('Failed to generate PDF. Please try again.');
+      setGeneratingPDF(type);
+      const blob = await visitService.downloadVisitPdf(visitId, type);
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = type === 'handout' ? `Prevention_Plan_${visitId}.pdf` : `Visit_Report_${visitId}.pdf`;
+      document.body.appendChild(link);
+      link.click();
+      link.remove();
+      URL.revokeObjectURL(url);
+    } catch (error: any) {
+      console.error('Error downloading PDF:', error);
+      alert(error.message || 'Failed to download the PDF. Please try again.');
     } finally {
-      setGeneratingPDF(false);
+      setGeneratingPDF(null);
     }
   };
   
@@ -287,9 +253,6 @@ function VisitReportInner({ visitId }: { visitId: string }) {
     }
   };
 
-  // Render the rest of the component...
-  // Include all the rendering logic from the original component
-  
   if (isLoading) {
     return (
       <div className="animate-pulse">
@@ -320,7 +283,36 @@ function VisitReportInner({ visitId }: { visitId: string }) {
     );
   }
   
-  // Return the visit report UI here
+  const visitData = visit?.data || visit || {};
+  const responseMap = flattenResponses(visitData.responses);
+  const visibility = getVisibility(template, responseMap, patient || undefined);
+  
+  // Visits saved before scoring was added have no stored scores
+  const scores = visitData.scores && visitData.scores.length > 0
+    ? visitData.scores
+    : scoreVisit(template, visitData.responses);
+  
+  // Only answered questions in sections that were shown during the visit
+  const reportSections = (template?.sections || [])
+    .filter((section: any) => !visibility.hiddenSections.has(section.id))
+    .map((section: any) => ({
+      id: section.id,
+      title: section.title,
+      answers: (section.questions || [])
+        .filter((question: any) => !visibility.hiddenQuestions.has(question.id) && isAnswered(responseMap[question.id]))
+        .map((question: any) => {
+          const score = scores.find((item: any) => item.questionId === question.id);
+          return {
+            id: question.id,
+            text: question.text,
+            value: score ? `${formatScore(score)} - ${score.interpretation}` : formatAnswer(question, responseMap[question.id]),
+          };
+        }),
+    }))
+    .filter((section: any) => section.answers.length > 0);
+  
+  const recommendations: HealthPlanRecommendation[] = visitData.healthPlan?.recommendations || [];
+  
   return (
     <div>
       <div className="mb-6 flex justify-between items-center">
@@ -341,12 +333,22 @@ function VisitReportInner({ visitId }: { visitId: string }) {
           </button>
           
           <button
-            onClick={handleDownloadPDF}
+            onClick={() => handleDownloadPDF('report')}
             className="btn-secondary flex items-center"
-            disabled={generatingPDF || !pdfModules.jspdf}
+            disabled={!!generatingPDF || !isCompletedStatus(visitData.status)}
           >
             <FiDownload className="mr-1" /> 
-            {generatingPDF ? 'Generating...' : 'Download PDF'}
+            {generatingPDF === 'report' ? 'Generating...' : 'Download PDF'}
+          </button>
+          
+          <button
+            onClick={() => handleDownloadPDF('handout')}
+            className="btn-secondary flex items-center"
+            disabled={!!generatingPDF || !isCompletedStatus(visitData.status)}
+            title="Large-type screening schedule and prevention plan to give the patient"
+          >
+            <FiFileText className="mr-1" /> 
+            {generatingPDF === 'handout' ? 'Generating...' : 'Patient Handout'}
           </button>
           
           <button
@@ -359,11 +361,117 @@ function VisitReportInner({ visitId }: { visitId: string }) {
       </div>
       
       <div ref={reportRef} className={`report-container ${isPrinting ? 'printing' : ''}`}>
-        {/* Visit report content would go here based on the visit data */}
         <h1 className="text-3xl font-bold mb-6">Visit Report</h1>
         
-        {/* Display visit and patient information */}
-        {/* This would be completed with all the rendered content from the original component */}
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-6">
+          <div className="card">
+            <h2 className="text-lg font-semibold mb-3 flex items-center">
+              <FiUser className="mr-2" /> Patient
+            </h2>
+            {patient ? (
+              <dl className="space-y-1 text-sm">
+                <div><dt className="inline font-medium">Name: </dt><dd className="inline">{patient.firstName} {patient.lastName}</dd></div>
+                <div><dt className="inline font-medium">Date of Birth: </dt><dd className="inline">{formatDate(patient.dateOfBirth)} ({calculateAge(patient.dateOfBirth)})</dd></div>
+                <div><dt className="inline font-medium">Gender: </dt><dd className="inline">{patient.gender || 'N/A'}</dd></div>
+                <div><dt className="inline font-medium">Medical Record #: </dt><dd className="inline">{patient.medicalRecordNumber || 'N/A'}</dd></div>
+              </dl>
+            ) : (
+              <p className="text-sm text-gray-500">Patient details unavailable</p>
+            )}
+          </div>
+          
+          <div className="card">
+            <h2 className="text-lg font-semibold mb-3 flex items-center">
+              <FiClipboard className="mr-2" /> Visit
+            </h2>
+            <dl className="space-y-1 text-sm">
+              <div><dt className="inline font-medium">Scheduled: </dt><dd className="inline">{formatDate(visitData.scheduledDate)}</dd></div>
+              <div><dt className="inline font-medium">Completed: </dt><dd className="inline">{formatDate(visitData.completedAt)}</dd></div>
+              <div><dt className="inline font-medium">Status: </dt><dd className="inline">{VISIT_STATUS_LABELS[visitData.status as VisitStatus] || visitData.status}</dd></div>
+              <div>
+                <dt className="inline font-medium">Template: </dt>
+                <dd className="inline">
+                  {template ? template.name : 'N/A'}
+                  {template?.version ? ` (Version ${template.version})` : ''}
+                </dd>
+              </div>
+            </dl>
+          </div>
+        </div>
+        
+        {scores.length > 0 && (
+          <div className="mb-6">
+            <ScreeningResults scores={scores} />
+          </div>
+        )}
+        
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold mb-3 flex items-center">
+            <FiFileText className="mr-2" /> Assessment
+          </h2>
+          {!template ? (
+            <p className="text-sm text-gray-500 flex items-center">
+              <FiInfo className="mr-1" /> The assessment template for this visit is unavailable.
+            </p>
+          ) : reportSections.length === 0 ? (
+            <p className="text-sm text-gray-500">No responses were recorded for this visit.</p>
+          ) : (
+            <div className="space-y-6">
+              {reportSections.map((section: any) => (
+                <div key={section.id}>
+                  <h3 className="font-semibold mb-2">{section.title}</h3>
+                  <table className="min-w-full text-sm border border-gray-200">
+                    <tbody>
+                      {section.answers.map((answer: { id: string; text: string; value: string }) => (
+                        <tr key={answer.id} className="border-b border-gray-200">
+                          <td className="p-2 w-3/5 text-gray-700">{answer.text}</td>
+                          <td className="p-2 font-medium">{answer.value}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        <div className="card mb-6">
+          <h2 className="text-lg font-semibold mb-3 flex items-center">
+            <FiActivity className="mr-2" /> Personalized Health Plan
+          </h2>
+          {recommendations.length === 0 ? (
+            <p className="text-sm text-gray-500 flex items-center">
+              <FiAlertCircle className="mr-1" /> No health plan has been recorded for this visit.
+            </p>
+          ) : (
+            <div className="space-y-4">
+              {visitData.healthPlan?.summary && (
+                <p className="text-sm text-gray-700">{visitData.healthPlan.summary}</p>
+              )}
+              {groupRecommendationsByDomain(recommendations).map(group => (
+                <div key={group.domain}>
+                  <h3 className="font-semibold capitalize mb-1">{group.domain}</h3>
+                  <ul className="space-y-1">
+                    {group.items.map((item, index) => (
+                      <li key={index} className="flex items-start text-sm">
+                        {item.priority === 'high' && <FiAlertTriangle className="text-red-600 mt-1 mr-2 flex-shrink-0" />}
+                        <span className="flex-1">{item.text}</span>
+                        <span className={`badge ml-2 ${item.priority === 'high' ? 'badge-red' : item.priority === 'medium' ? 'badge-yellow' : 'badge-gray'}`}>
+                          {item.priority}
+                        </span>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+        
+        <BillingCodes billing={billing} />
+        
+        <VisitSignatureCard visit={visitData} />
       </div>
     </div>
   );
@@ -0,0 +1,630 @@
+'use client';
+
+import { useState, useEffect, DragEvent } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import {
+  addDays,
+  addMonths,
+  addWeeks,
+  differenceInCalendarDays,
+  endOfMonth,
+  format,
+  isSameDay,
+  isSameMonth,
+  startOfDay,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns';
+import { FiChevronLeft, FiChevronRight, FiClock, FiList, FiPlus, FiTrash2 } from 'react-icons/fi';
+import visitService, { ApiError, IProvider, ISchedulingConflict, IVisitResponse } from '@/services/visitService';
+import { useAuth, useCan } from '@/contexts/AuthContext';
+import {
+  BOOKED_VISIT_STATUSES,
+  DEFAULT_WORKING_HOURS,
+  isWithinWorkingHours,
+  rangesOverlap,
+  SLOT_MINUTES,
+  visitDuration,
+  visitEnd,
+  WEEKDAY_NAMES,
+  WorkingHours,
+} from '@/lib/scheduling';
+import { VisitStatus } from '@/lib/visitLifecycle';
+
+type CalendarView = 'day' | 'week' | 'month';
+
+const VIEWS: CalendarView[] = ['day', 'week', 'month'];
+
+// Hours shown on the day and week grids, in local time
+const DAY_START_HOUR = 7;
+const DAY_END_HOUR = 19;
+// Height of one SLOT_MINUTES slot in pixels
+const SLOT_HEIGHT = 12;
+const SLOTS_PER_DAY = ((DAY_END_HOUR - DAY_START_HOUR) * 60) / SLOT_MINUTES;
+
+const STATUS_COLORS: Record<string, string> = {
+  scheduled: 'bg-blue-100 border-blue-400 text-blue-900',
+  'checked-in': 'bg-indigo-100 border-indigo-400 text-indigo-900',
+  'in-progress': 'bg-yellow-100 border-yellow-400 text-yellow-900',
+  completed: 'bg-green-100 border-green-400 text-green-900',
+  signed: 'bg-green-100 border-green-600 text-green-900',
+};
+
+// One column of the day or week grid: a provider on the day view, a day on the week view
+interface CalendarColumn {
+  key: string;
+  label: string;
+  date: Date;
+  // Working hours are shaded and drops reassign the visit when the column belongs to a provider
+  provider?: IProvider;
+  // Visits without a provider, shown in their own column on the day view
+  unassigned?: boolean;
+}
+
+const providerIdOf = (visit: IVisitResponse) => visit.provider?._id || '';
+
+const patientNameOf = (visit: IVisitResponse) =>
+  visit.patient ? `${visit.patient.firstName} ${visit.patient.lastName}` : 'Unknown patient';
+
+const visitRange = (view: CalendarView, anchor: Date) => {
+  if (view === 'day') {
+    const start = startOfDay(anchor);
+    return { start, end: addDays(start, 1) };
+  }
+  if (view === 'week') {
+    const start = startOfWeek(anchor);
+    return { start, end: addDays(start, 7) };
+  }
+  // The month grid shows whole weeks, including days of the neighbouring months
+  const start = startOfWeek(startOfMonth(anchor));
+  return { start, end: addDays(startOfWeek(endOfMonth(anchor)), 7) };
+};
+
+const slotStart = (date: Date, slot: number) => {
+  const start = startOfDay(date);
+  start.setMinutes(DAY_START_HOUR * 60 + slot * SLOT_MINUTES);
+  return start;
+};
+
+// Visits that overlap another booked visit with the same provider or patient
+function findOverlaps(visits: IVisitResponse[]): Set<string> {
+  const overlapping = new Set<string>();
+  visits.forEach((visit, index) => {
+    visits.slice(index + 1).forEach(other => {
+      const shared = (providerIdOf(visit) && providerIdOf(visit) === providerIdOf(other)) ||
+        (visit.patient?._id && visit.patient._id === other.patient?._id);
+      if (shared && rangesOverlap(new Date(visit.scheduledDate), visitEnd(visit), new Date(other.scheduledDate), visitEnd(other))) {
+        overlapping.add(visit._id);
+        overlapping.add(other._id);
+      }
+    });
+  });
+  return overlapping;
+}
+
+// Side by side lanes for visits in one column that overlap in time
+function layoutLanes(visits: IVisitResponse[]): Map<string, { lane: number; lanes: number }> {
+  const layout = new Map<string, { lane: number; lanes: number }>();
+  const sorted = [...visits].sort((a, b) => new Date(a.scheduledDate).getTime() - new Date(b.scheduledDate).getTime());
+  let cluster: IVisitResponse[] = [];
+  let laneEnds: Date[] = [];
+  let clusterEnd = 0;
+
+  const closeCluster = () => {
+    cluster.forEach(visit => layout.set(visit._id, { ...layout.get(visit._id)!, lanes: laneEnds.length }));
+    cluster = [];
+    laneEnds = [];
+  };
+
+  sorted.forEach(visit => {
+    const start = new Date(visit.scheduledDate);
+    if (cluster.length > 0 && start.getTime() >= clusterEnd) {
+      closeCluster();
+    }
+    let lane = laneEnds.findIndex(end => end <= start);
+    if (lane === -1) {
+      lane = laneEnds.length;
+    }
+    laneEnds[lane] = visitEnd(visit);
+    clusterEnd = Math.max(clusterEnd, visitEnd(visit).getTime());
+    cluster.push(visit);
+    layout.set(visit._id, { lane, lanes: 1 });
+  });
+  closeCluster();
+
+  return layout;
+}
+
+export default function VisitCalendarPage() {
+  const router = useRouter();
+  const can = useCan();
+  const { user } = useAuth();
+  const [view, setView] = useState<CalendarView>('day');
+  const [anchor, setAnchor] = useState(() => startOfDay(new Date()));
+  const [providerFilter, setProviderFilter] = useState('');
+  const [providers, setProviders] = useState<IProvider[]>([]);
+  const [visits, setVisits] = useState<IVisitResponse[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ISchedulingConflict[]>([]);
+  const [draggingId, setDraggingId] = useState<string | null>(null);
+  const [isEditingHours, setIsEditingHours] = useState(false);
+
+  const canSchedule = can('visits:write');
+  const selectedProvider = providers.find(provider => provider._id === providerFilter);
+  // Providers can change their own hours; admins can change anyone's
+  const canEditHours = !!selectedProvider &&
+    (can('users:manage') || selectedProvider.email === user?.email?.toLowerCase());
+
+  const fetchVisits = async () => {
+    const { start, end } = visitRange(view, anchor);
+    try {
+      setIsLoading(true);
+      const response = await visitService.getVisits({
+        fromDate: start.toISOString(),
+        // toDate is inclusive, so stop just before the next range starts
+        toDate: new Date(end.getTime() - 1).toISOString(),
+        providerId: providerFilter || undefined,
+        limit: 500,
+        sortField: 'scheduledDate',
+        sortOrder: 'asc',
+      });
+      setVisits(response.visits.filter(visit =>
+        BOOKED_VISIT_STATUSES.includes(visit.status as VisitStatus)
+      ));
+    } catch (err: any) {
+      console.error('Error fetching calendar visits:', err);
+      setError(err.message || 'Failed to load visits');
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    visitService.getProviders()
+      .then(setProviders)
+      .catch(err => console.error('Error fetching providers:', err));
+  }, []);
+
+  useEffect(() => {
+    fetchVisits();
+  }, [view, anchor, providerFilter]);
+
+  const overlapping = findOverlaps(visits);
+
+  const move = (direction: number) => {
+    if (view === 'day') setAnchor(date => addDays(date, direction));
+    else if (view === 'week') setAnchor(date => addWeeks(date, direction));
+    else setAnchor(date => addMonths(date, direction));
+  };
+
+  const title = view === 'day'
+    ? format(anchor, 'EEEE, MMMM d, yyyy')
+    : view === 'week'
+      ? `${format(startOfWeek(anchor), 'MMM d')} – ${format(addDays(startOfWeek(anchor), 6), 'MMM d, yyyy')}`
+      : format(anchor, 'MMMM yyyy');
+
+  const reschedule = async (visitId: string, start: Date, providerId?: string) => {
+    const visit = visits.find(item => item._id === visitId);
+    if (!visit) return;
+
+    const targetProviderId = providerId ?? providerIdOf(visit);
+    if (start.getTime() === new Date(visit.scheduledDate).getTime() && targetProviderId === providerIdOf(visit)) {
+      return;
+    }
+
+    const targetProvider = providers.find(provider => provider._id === targetProviderId);
+    if (targetProvider && !isWithinWorkingHours(start, visitDuration(visit), targetProvider.workingHours)) {
+      const confirmed = window.confirm(
+        `${format(start, 'EEE MMM d, h:mm a')} is outside ${targetProvider.name}'s working hours. Move the visit anyway?`
+      );
+      if (!confirmed) return;
+    }
+
+    setError(null);
+    setConflicts([]);
+    try {
+      await visitService.updateVisit(visit._id, {
+        scheduledDate: start,
+        provider: targetProviderId !== providerIdOf(visit) ? targetProviderId : undefined,
+        revision: visit.revision,
+      });
+    } catch (err: any) {
+      if (err instanceof ApiError && err.status === 409 && Array.isArray(err.details)) {
+        setError(`${patientNameOf(visit)} was not moved. ${err.message}:`);
+        setConflicts(err.details);
+      } else if (err instanceof ApiError && err.status === 409) {
+        setError('This visit was changed by someone else. The calendar has been refreshed.');
+      } else {
+        setError(err.message || 'Failed to reschedule visit');
+      }
+    }
+    fetchVisits();
+  };
+
+  const handleDrop = (event: DragEvent, start: Date, providerId?: string) => {
+    event.preventDefault();
+    const visitId = event.dataTransfer.getData('text/plain');
+    setDraggingId(null);
+    if (visitId) {
+      reschedule(visitId, start, providerId);
+    }
+  };
+
+  const handleSlotClick = (start: Date, providerId?: string) => {
+    if (!canSchedule) return;
+    const params = new URLSearchParams({ date: format(start, 'yyyy-MM-dd'), time: format(start, 'HH:mm') });
+    if (providerId) params.set('providerId', providerId);
+    router.push(`/dashboard/visits/new?${params.toString()}`);
+  };
+
+  const renderVisitBlock = (visit: IVisitResponse, style: React.CSSProperties, showProvider: boolean) => {
+    const draggable = canSchedule && visit.status === 'scheduled';
+    return (
+      <div
+        key={visit._id}
+        draggable={draggable}
+        onDragStart={(event) => {
+          event.dataTransfer.setData('text/plain', visit._id);
+          event.dataTransfer.effectAllowed = 'move';
+          setDraggingId(visit._id);
+        }}
+        onDragEnd={() => setDraggingId(null)}
+        onClick={() => router.push(`/dashboard/visits/${visit._id}`)}
+        // While dragging, let drops fall through to the slots underneath
+        className={`absolute rounded border-l-4 px-1 text-xs overflow-hidden cursor-pointer ${
+          STATUS_COLORS[visit.status] || STATUS_COLORS.scheduled
+        } ${overlapping.has(visit._id) ? 'ring-2 ring-red-500' : ''} ${
+          draggingId && draggingId !== visit._id ? 'pointer-events-none' : ''
+        } ${draggingId === visit._id ? 'opacity-50' : ''}`}
+        style={style}
+        title={`${patientNameOf(visit)} · ${format(new Date(visit.scheduledDate), 'h:mm a')}–${format(visitEnd(visit), 'h:mm a')}${
+          overlapping.has(visit._id) ? ' · overlaps another visit' : ''
+        }`}
+      >
+        <div className="font-medium truncate">{patientNameOf(visit)}</div>
+        <div className="truncate">
+          {format(new Date(visit.scheduledDate), 'h:mm a')} · {visitDuration(visit)} min
+          {showProvider && visit.provider?.name && ` · ${visit.provider.name}`}
+        </div>
+      </div>
+    );
+  };
+
+  const renderTimeGrid = (columns: CalendarColumn[]) => (
+    <div className="flex overflow-x-auto">
+      <div className="w-16 flex-shrink-0 pt-8">
+        {Array.from({ length: DAY_END_HOUR - DAY_START_HOUR }, (_, index) => (
+          <div key={index} className="text-xs text-gray-500 text-right pr-2" style={{ height: SLOT_HEIGHT * (60 / SLOT_MINUTES) }}>
+            {format(new Date(2000, 0, 1, DAY_START_HOUR + index), 'h a')}
+          </div>
+        ))}
+      </div>
+      {columns.map(column => {
+        const columnVisits = visits.filter(visit =>
+          isSameDay(new Date(visit.scheduledDate), column.date) &&
+          (column.unassigned ? !providerIdOf(visit) : !column.provider || view !== 'day' || providerIdOf(visit) === column.provider._id)
+        );
+        const lanes = layoutLanes(columnVisits);
+        const dayStart = slotStart(column.date, 0);
+
+        return (
+          <div key={column.key} className="flex-1 min-w-[140px] border-l border-gray-200">
+            <div className={`h-8 text-sm font-medium text-center truncate px-1 ${
+              isSameDay(column.date, new Date()) && view === 'week' ? 'text-primary-600' : 'text-gray-700'
+            }`}>
+              {column.label}
+            </div>
+            <div className="relative" style={{ height: SLOTS_PER_DAY * SLOT_HEIGHT }}>
+              {Array.from({ length: SLOTS_PER_DAY }, (_, slot) => {
+                const start = slotStart(column.date, slot);
+                const working = !column.provider || isWithinWorkingHours(start, SLOT_MINUTES, column.provider.workingHours);
+                const providerId = view === 'day' ? column.provider?._id : undefined;
+                return (
+                  <div
+                    key={slot}
+                    className={`border-gray-100 ${slot % (60 / SLOT_MINUTES) === 0 ? 'border-t' : ''} ${
+                      working ? 'bg-white hover:bg-primary-50' : 'bg-gray-100'
+                    } ${canSchedule ? 'cursor-pointer' : ''}`}
+                    style={{ height: SLOT_HEIGHT }}
+                    onDragOver={(event) => event.preventDefault()}
+                    onDrop={(event) => handleDrop(event, start, providerId)}
+                    onClick={() => handleSlotClick(start, providerId || (view === 'week' ? providerFilter : undefined))}
+                  />
+                );
+              })}
+              {columnVisits.map(visit => {
+                const { lane, lanes: laneCount } = lanes.get(visit._id)!;
+                const minutes = (new Date(visit.scheduledDate).getTime() - dayStart.getTime()) / 60000;
+                return renderVisitBlock(visit, {
+                  top: Math.max(minutes, 0) / SLOT_MINUTES * SLOT_HEIGHT,
+                  height: Math.max(visitDuration(visit) / SLOT_MINUTES * SLOT_HEIGHT, SLOT_HEIGHT * 2) - 2,
+                  left: `${(lane / laneCount) * 100}%`,
+                  width: `${100 / laneCount}%`,
+                }, view === 'week' && !providerFilter);
+              })}
+            </div>
+          </div>
+        );
+      })}
+    </div>
+  );
+
+  const dayColumns = (): CalendarColumn[] => {
+    const shown = selectedProvider ? [selectedProvider] : providers;
+    const columns: CalendarColumn[] = shown.map(provider => ({
+      key: provider._id,
+      label: provider.name,
+      date: anchor,
+      provider,
+    }));
+    if (!selectedProvider && (providers.length === 0 || visits.some(visit => !providerIdOf(visit)))) {
+      columns.push({ key: 'unassigned', label: 'Unassigned', date: anchor, unassigned: true });
+    }
+    return columns;
+  };
+
+  const weekColumns = (): CalendarColumn[] =>
+    Array.from({ length: 7 }, (_, index) => {
+      const date = addDays(startOfWeek(anchor), index);
+      return { key: date.toISOString(), label: format(date, 'EEE d'), date, provider: selectedProvider };
+    });
+
+  const renderMonth = () => {
+    const { start, end } = visitRange('month', anchor);
+    const days = Array.from({ length: differenceInCalendarDays(end, start) }, (_, index) => addDays(start, index));
+
+    return (
+      <div className="grid grid-cols-7 border-t border-l border-gray-200">
+        {WEEKDAY_NAMES.map(name => (
+          <div key={name} className="text-xs font-medium text-gray-500 text-center py-1 border-r border-b border-gray-200">
+            {name.slice(0, 3)}
+          </div>
+        ))}
+        {days.map(day => {
+          const dayVisits = visits.filter(visit => isSameDay(new Date(visit.scheduledDate), day));
+          return (
+            <div
+              key={day.toISOString()}
+              className={`min-h-[96px] p-1 border-r border-b border-gray-200 ${isSameMonth(day, anchor) ? 'bg-white' : 'bg-gray-50'}`}
+              onDragOver={(event) => event.preventDefault()}
+              onDrop={(event) => {
+                // Moving to another day keeps the time of day
+                const visit = visits.find(item => item._id === event.dataTransfer.getData('text/plain'));
+                if (!visit) return;
+                const original = new Date(visit.scheduledDate);
+                const start = startOfDay(day);
+                start.setHours(original.getHours(), original.getMinutes());
+                handleDrop(event, start);
+              }}
+            >
+              <button
+                className={`text-xs font-medium ${isSameDay(day, new Date()) ? 'text-primary-600' : 'text-gray-700'}`}
+                onClick={() => {
+                  setAnchor(startOfDay(day));
+                  setView('day');
+                }}
+              >
+                {format(day, 'd')}
+              </button>
+              {dayVisits.slice(0, 3).map(visit => (
+                <div
+                  key={visit._id}
+                  draggable={canSchedule && visit.status === 'scheduled'}
+                  onDragStart={(event) => {
+                    event.dataTransfer.setData('text/plain', visit._id);
+                    setDraggingId(visit._id);
+                  }}
+                  onDragEnd={() => setDraggingId(null)}
+                  onClick={() => router.push(`/dashboard/visits/${visit._id}`)}
+                  className={`text-xs truncate rounded px-1 mt-0.5 cursor-pointer ${STATUS_COLORS[visit.status] || STATUS_COLORS.scheduled} ${
+                    overlapping.has(visit._id) ? 'ring-1 ring-red-500' : ''
+                  }`}
+                >
+                  {format(new Date(visit.scheduledDate), 'h:mm')} {patientNameOf(visit)}
+                </div>
+              ))}
+              {dayVisits.length > 3 && (
+                <div className="text-xs text-gray-500 mt-0.5">+{dayVisits.length - 3} more</div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  return (
+    <div>
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4 mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">Schedule</h1>
+          <p className="text-sm text-gray-500 mt-1">
+            Drag a scheduled visit to move it{canSchedule ? ', or click an open slot to book one' : ''}
+          </p>
+        </div>
+        <div className="flex gap-2 self-start sm:self-auto">
+          <Link href="/dashboard/visits" className="btn-secondary">
+            <FiList className="h-4 w-4" />
+            <span>List</span>
+          </Link>
+          {canSchedule && (
+            <Link href="/dashboard/visits/new" className="btn-primary">
+              <FiPlus className="h-4 w-4" />
+              <span>New Visit</span>
+            </Link>
+          )}
+        </div>
+      </div>
+
+      <div className="card mb-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div className="flex items-center gap-2">
+            <button onClick={() => move(-1)} className="p-2 rounded hover:bg-gray-100" aria-label="Previous">
+              <FiChevronLeft />
+            </button>
+            <button onClick={() => setAnchor(startOfDay(new Date()))} className="px-3 py-1 rounded bg-gray-100 text-gray-700 text-sm">
+              Today
+            </button>
+            <button onClick={() => move(1)} className="p-2 rounded hover:bg-gray-100" aria-label="Next">
+              <FiChevronRight />
+            </button>
+            <h2 className="text-lg font-semibold ml-2">{title}</h2>
+          </div>
+          <div className="flex flex-wrap items-center gap-2 text-sm">
+            <select
+              className="form-input py-1"
+              value={providerFilter}
+              onChange={(event) => {
+                setProviderFilter(event.target.value);
+                setIsEditingHours(false);
+              }}
+            >
+              <option value="">All providers</option>
+              {providers.map(provider => (
+                <option key={provider._id} value={provider._id}>{provider.name}</option>
+              ))}
+            </select>
+            {canEditHours && (
+              <button
+                onClick={() => setIsEditingHours(editing => !editing)}
+                className={`px-3 py-1 rounded flex items-center ${
+                  isEditingHours ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                <FiClock className="mr-1" /> Working hours
+              </button>
+            )}
+            {VIEWS.map(option => (
+              <button
+                key={option}
+                onClick={() => setView(option)}
+                className={`px-3 py-1 rounded capitalize ${
+                  view === option ? 'bg-primary-600 text-white' : 'bg-gray-100 text-gray-700'
+                }`}
+              >
+                {option}
+              </button>
+            ))}
+          </div>
+        </div>
+      </div>
+
+      {isEditingHours && selectedProvider && (
+        <WorkingHoursEditor
+          key={selectedProvider._id}
+          provider={selectedProvider}
+          onSaved={(updated) => {
+            setProviders(current => current.map(provider => (provider._id === updated._id ? updated : provider)));
+            setIsEditingHours(false);
+          }}
+        />
+      )}
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          <p>{error}</p>
+          {conflicts.length > 0 && (
+            <ul className="list-disc list-inside text-sm mt-2">
+              {conflicts.map(conflict => (
+                <li key={conflict.visitId}>
+                  {conflict.patientName || 'Another visit'}: {visitService.formatDate(conflict.scheduledDate)} ({conflict.durationMinutes} min)
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      <div className={`card ${isLoading ? 'opacity-60' : ''}`}>
+        {view === 'month' ? renderMonth() : renderTimeGrid(view === 'day' ? dayColumns() : weekColumns())}
+      </div>
+    </div>
+  );
+}
+
+function WorkingHoursEditor({ provider, onSaved }: { provider: IProvider; onSaved: (provider: IProvider) => void }) {
+  const [hours, setHours] = useState<WorkingHours[]>(provider.workingHours);
+  const [isSaving, setIsSaving] = useState(false);
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const updateBlock = (index: number, change: Partial<WorkingHours>) =>
+    setHours(current => current.map((block, blockIndex) => (blockIndex === index ? { ...block, ...change } : block)));
+
+  const handleSave = async () => {
+    try {
+      setIsSaving(true);
+      setErrors([]);
+      onSaved(await visitService.updateWorkingHours(provider._id, hours));
+    } catch (err: any) {
+      setErrors(err instanceof ApiError && Array.isArray(err.details) ? err.details : [err.message || 'Failed to save working hours']);
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <h2 className="text-lg font-semibold mb-1">Working hours for {provider.name}</h2>
+      <p className="text-sm text-gray-500 mb-4">
+        Times outside these hours are shaded on the calendar. Add a second block on a day to leave a break.
+      </p>
+      {errors.length > 0 && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          <ul className="list-disc list-inside text-sm">
+            {errors.map(message => <li key={message}>{message}</li>)}
+          </ul>
+        </div>
+      )}
+      <div className="space-y-2">
+        {hours.map((block, index) => (
+          <div key={index} className="flex flex-wrap items-center gap-2">
+            <select
+              className="form-input w-40"
+              value={block.day}
+              onChange={(event) => updateBlock(index, { day: Number(event.target.value) })}
+            >
+              {WEEKDAY_NAMES.map((name, day) => <option key={name} value={day}>{name}</option>)}
+            </select>
+            <input
+              type="time"
+              className="form-input w-32"
+              value={block.start}
+              onChange={(event) => updateBlock(index, { start: event.target.value })}
+            />
+            <span className="text-gray-500">to</span>
+            <input
+              type="time"
+              className="form-input w-32"
+              value={block.end}
+              onChange={(event) => updateBlock(index, { end: event.target.value })}
+            />
+            <button
+              onClick={() => setHours(current => current.filter((_, blockIndex) => blockIndex !== index))}
+              className="p-2 text-red-600 hover:bg-red-50 rounded"
+              aria-label="Remove block"
+            >
+              <FiTrash2 />
+            </button>
+          </div>
+        ))}
+        {hours.length === 0 && <p className="text-sm text-gray-500">No working hours; every slot is shaded.</p>}
+      </div>
+      <div className="flex flex-wrap gap-2 mt-4">
+        <button
+          onClick={() => setHours(current => [...current, { day: 1, start: '08:00', end: '17:00' }])}
+          className="btn-secondary"
+        >
+          <FiPlus className="h-4 w-4" /> Add block
+        </button>
+        <button onClick={() => setHours(DEFAULT_WORKING_HOURS)} className="btn-secondary">
+          Reset to weekdays 8–5
+        </button>
+        <button onClick={handleSave} className="btn-primary" disabled={isSaving}>
+          {isSaving ? 'Saving...' : 'Save working hours'}
+        </button>
+      </div>
+    </div>
+  );
+}
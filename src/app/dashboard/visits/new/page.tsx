@@ -6,17 +6,20 @@ export const dynamic = 'force-dynamic';
 import { useState, useEffect, FormEvent, Suspense } from 'react';
 import { useRouter, useSearchParams } from 'next/navigation';
 import Link from 'next/link';
-import { FiCalendar, FiClock, FiUser, FiClipboard } from 'react-icons/fi';
+import { FiCalendar, FiClock, FiUser, FiClipboard, FiAlertTriangle } from 'react-icons/fi';
 import patientService from '@/services/patientService';
-import visitService, { IVisitCreateRequest } from '@/services/visitService';
+import visitService, { ApiError, IProvider, ISchedulingConflict, IVisitCreateRequest } from '@/services/visitService';
 import templateService from '@/services/templateService';
 import { ITemplateResponse } from '@/models/Template';
+import { DEFAULT_VISIT_MINUTES, isWithinWorkingHours, MAX_VISIT_MINUTES, MIN_VISIT_MINUTES } from '@/lib/scheduling';
 
 interface VisitFormData {
   patientId: string;
   templateId: string;
+  providerId: string;
   scheduledDate: string;
   scheduledTime: string;
+  durationMinutes: string;
   notes: string;
 }
 
@@ -45,19 +48,26 @@ function NewVisitContent() {
   const router = useRouter();
   const searchParams = useSearchParams();
   const patientId = searchParams.get('patientId');
+  // Prefilled by "Schedule visit" on the AWV worklist and by clicking a slot on the calendar
+  const prefilledDate = searchParams.get('date');
+  const prefilledTime = searchParams.get('time');
   
   const [formData, setFormData] = useState<VisitFormData>({
     patientId: patientId || '',
     templateId: '',
-    scheduledDate: '',
-    scheduledTime: '',
+    providerId: searchParams.get('providerId') || '',
+    scheduledDate: prefilledDate && /^\d{4}-\d{2}-\d{2}$/.test(prefilledDate) ? prefilledDate : '',
+    scheduledTime: prefilledTime && /^\d{2}:\d{2}$/.test(prefilledTime) ? prefilledTime : '',
+    durationMinutes: '',
     notes: '',
   });
   
   const [patients, setPatients] = useState<Patient[]>([]);
   const [templates, setTemplates] = useState<Template[]>([]);
+  const [providers, setProviders] = useState<IProvider[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ISchedulingConflict[]>([]);
   
   useEffect(() => {
     // Fetch patients
@@ -67,7 +77,17 @@ function NewVisitContent() {
         if (!response || !response.patients) {
           throw new Error('Invalid patient data received');
         }
-        setPatients(response.patients);
+        
+        // The prefilled patient may not be among the first page of patients
+        let loaded: Patient[] = response.patients;
+        if (patientId && !loaded.some(patient => patient._id === patientId)) {
+          try {
+            loaded = [await patientService.getPatientById(patientId), ...loaded];
+          } catch (err) {
+            console.error('Error fetching prefilled patient:', err);
+          }
+        }
+        setPatients(loaded);
       } catch (err) {
         console.error('Error fetching patients:', err);
         setError('Failed to load patients');
@@ -94,6 +114,9 @@ function NewVisitContent() {
     
     fetchPatients();
     fetchTemplates();
+    visitService.getProviders()
+      .then(setProviders)
+      .catch(err => console.error('Error fetching providers:', err));
   }, []);
   
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLSelectElement | HTMLTextAreaElement>) => {
@@ -101,10 +124,26 @@ function NewVisitContent() {
     setFormData(prev => ({ ...prev, [name]: value }));
   };
   
+  // Length booked when the duration is left blank
+  const selectedTemplate = templates.find(template => template._id === formData.templateId);
+  const templateDuration = selectedTemplate?.visitDurationMinutes || DEFAULT_VISIT_MINUTES;
+  
+  // Booking outside the provider's hours is allowed, but worth a second look
+  const selectedProvider = providers.find(provider => provider._id === formData.providerId);
+  const scheduledStart = formData.scheduledDate && formData.scheduledTime
+    ? new Date(`${formData.scheduledDate}T${formData.scheduledTime}`)
+    : null;
+  const outsideWorkingHours = !!selectedProvider && !!scheduledStart && !isWithinWorkingHours(
+    scheduledStart,
+    Number(formData.durationMinutes) || templateDuration,
+    selectedProvider.workingHours
+  );
+  
   const handleSubmit = async (e: FormEvent) => {
     e.preventDefault();
     setIsLoading(true);
     setError(null);
+    setConflicts([]);
     
     try {
       // Combine date and time into a single Date object
@@ -115,6 +154,8 @@ function NewVisitContent() {
         patient: formData.patientId,
         scheduledDate: scheduledDateTime,
         templateId: formData.templateId,
+        provider: formData.providerId || undefined,
+        durationMinutes: formData.durationMinutes ? Number(formData.durationMinutes) : undefined,
         notes: formData.notes,
       };
       
@@ -127,6 +168,9 @@ function NewVisitContent() {
     } catch (err: any) {
       console.error('Error creating visit:', err);
       setError(err.message || 'Failed to create visit');
+      if (err instanceof ApiError && err.status === 409 && Array.isArray(err.details)) {
+        setConflicts(err.details);
+      }
     } finally {
       setIsLoading(false);
     }
@@ -148,6 +192,15 @@ function NewVisitContent() {
       {error && (
         <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
           <p>{error}</p>
+          {conflicts.length > 0 && (
+            <ul className="list-disc list-inside text-sm mt-2">
+              {conflicts.map(conflict => (
+                <li key={conflict.visitId}>
+                  {conflict.patientName || 'Another visit'}: {visitService.formatDate(conflict.scheduledDate)} ({conflict.durationMinutes} min)
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       )}
       
@@ -188,13 +241,56 @@ function NewVisitContent() {
             >
               <option value="">Select Template</option>
               {templates.map(template => (
-                <option key={template._id} value={template._id}>
-                  {template.name}
+                <option key={template._id} value={template._id} disabled={!template.version}>
+                  {template.name}{template.version ? ` (v${template.version})` : ' (not published)'}
                 </option>
               ))}
             </select>
           </div>
           
+          <div>
+            <label htmlFor="providerId" className="block text-sm font-medium text-gray-700 mb-1">
+              Provider
+            </label>
+            <div className="relative">
+              <div className="absolute inset-y-0 left-0 pl-3 flex items-center pointer-events-none">
+                <FiUser className="text-gray-400" />
+              </div>
+              <select
+                id="providerId"
+                name="providerId"
+                className="form-input pl-10"
+                value={formData.providerId}
+                onChange={handleInputChange}
+              >
+                <option value="">Unassigned</option>
+                {providers.map(provider => (
+                  <option key={provider._id} value={provider._id}>
+                    {provider.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+          
+          <div>
+            <label htmlFor="durationMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+              Duration (minutes)
+            </label>
+            <input
+              type="number"
+              id="durationMinutes"
+              name="durationMinutes"
+              className="form-input"
+              min={MIN_VISIT_MINUTES}
+              max={MAX_VISIT_MINUTES}
+              step={5}
+              placeholder={`${templateDuration} (template default)`}
+              value={formData.durationMinutes}
+              onChange={handleInputChange}
+            />
+          </div>
+          
           <div>
             <label htmlFor="scheduledDate" className="block text-sm font-medium text-gray-700 mb-1">
               Date <span className="text-red-500">*</span>
@@ -235,6 +331,12 @@ function NewVisitContent() {
             </div>
           </div>
           
+          {outsideWorkingHours && (
+            <div className="md:col-span-2 flex items-center text-sm text-yellow-700">
+              <FiAlertTriangle className="mr-2" /> This time is outside {selectedProvider!.name}'s working hours.
+            </div>
+          )}
+          
           <div className="md:col-span-2">
             <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
               Notes
@@ -25,6 +25,7 @@ import {
 import visitService, { IVisitResponse, IVisitSearchParams } from '@/services/visitService';
 import patientService from '@/services/patientService';
 import { format } from 'date-fns';
+import { isOpenStatus, VISIT_STATUS_BADGES, VISIT_STATUS_LABELS, VISIT_STATUSES } from '@/lib/visitLifecycle';
 
 interface VisitFilter {
   search: string;
@@ -161,21 +162,6 @@ function VisitsContent() {
     setCurrentPage(1);
   };
 
-  const getStatusBadge = (status: string) => {
-    switch (status) {
-      case 'scheduled':
-        return 'badge-blue';
-      case 'completed':
-        return 'badge-green';
-      case 'cancelled':
-        return 'badge-red';
-      case 'no-show':
-        return 'badge-yellow';
-      default:
-        return 'badge-gray';
-    }
-  };
-
   const formatDate = (date: string) => {
     try {
       return format(new Date(date), 'MMM d, yyyy');
@@ -199,10 +185,16 @@ function VisitsContent() {
           <h1 className="text-2xl font-bold text-gray-900">Patient Visits</h1>
           <p className="text-sm text-gray-500 mt-1">Manage and track all patient visits</p>
         </div>
-        <Link href="/dashboard/visits/new" className="btn-primary self-start sm:self-auto">
-          <FiPlus className="h-4 w-4" />
-          <span>New Visit</span>
-        </Link>
+        <div className="flex gap-2 self-start sm:self-auto">
+          <Link href="/dashboard/visits/calendar" className="btn-secondary">
+            <FiCalendar className="h-4 w-4" />
+            <span>Calendar</span>
+          </Link>
+          <Link href="/dashboard/visits/new" className="btn-primary">
+            <FiPlus className="h-4 w-4" />
+            <span>New Visit</span>
+          </Link>
+        </div>
       </div>
 
       <div className="bg-white rounded-xl shadow-sm border border-gray-100 mb-6 overflow-hidden">
@@ -240,10 +232,9 @@ function VisitsContent() {
               className="form-input min-w-[140px]"
             >
               <option value="">All Status</option>
-              <option value="scheduled">Scheduled</option>
-              <option value="completed">Completed</option>
-              <option value="cancelled">Cancelled</option>
-              <option value="no-show">No Show</option>
+              {VISIT_STATUSES.map(status => (
+                <option key={status} value={status}>{VISIT_STATUS_LABELS[status]}</option>
+              ))}
             </select>
             
             <div className="flex items-center gap-2">
@@ -291,10 +282,9 @@ function VisitsContent() {
                 className="form-input"
               >
                 <option value="">All Status</option>
-                <option value="scheduled">Scheduled</option>
-                <option value="completed">Completed</option>
-                <option value="cancelled">Cancelled</option>
-                <option value="no-show">No Show</option>
+                {VISIT_STATUSES.map(status => (
+                  <option key={status} value={status}>{VISIT_STATUS_LABELS[status]}</option>
+                ))}
               </select>
             </div>
             
@@ -401,8 +391,8 @@ function VisitsContent() {
                           {visit.patient ? `${visit.patient.firstName} ${visit.patient.lastName}` : 'Unknown Patient'}
                         </h3>
                         <div className="flex items-center text-sm text-gray-500 gap-1">
-                          <span className={`badge ${getStatusBadge(visit.status)}`}>
-                            {visit.status.charAt(0).toUpperCase() + visit.status.slice(1)}
+                          <span className={VISIT_STATUS_BADGES[visit.status] || 'badge badge-gray'}>
+                            {VISIT_STATUS_LABELS[visit.status] || visit.status}
                           </span>
                           <span className="text-gray-400">•</span>
                           <span>{formatDate(visit.scheduledDate)}</span>
@@ -416,10 +406,10 @@ function VisitsContent() {
                   <div className="flex items-center gap-2 self-end sm:self-auto">
                     <Link 
                       href={`/dashboard/visits/${visit._id}/conduct`}
-                      className={`btn-secondary py-1.5 px-3 text-sm ${visit.status !== 'scheduled' ? 'opacity-50 pointer-events-none' : ''}`}
-                      aria-disabled={visit.status !== 'scheduled'}
+                      className={`btn-secondary py-1.5 px-3 text-sm ${!isOpenStatus(visit.status) ? 'opacity-50 pointer-events-none' : ''}`}
+                      aria-disabled={!isOpenStatus(visit.status)}
                     >
-                      {visit.status === 'scheduled' ? (
+                      {isOpenStatus(visit.status) ? (
                         <>
                           <FiFileText className="h-4 w-4" />
                           <span>Conduct</span>
@@ -427,7 +417,7 @@ function VisitsContent() {
                       ) : (
                         <>
                           <FiSlash className="h-4 w-4" />
-                          <span>{visit.status === 'completed' ? 'Completed' : 'Unavailable'}</span>
+                          <span>{VISIT_STATUS_LABELS[visit.status] || 'Unavailable'}</span>
                         </>
                       )}
                     </Link>
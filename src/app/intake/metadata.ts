@@ -0,0 +1,7 @@
+import { Metadata } from 'next';
+
+// This is a server component file that provides metadata
+export const metadata: Metadata = {
+  title: 'Pre-Visit Questionnaire - Annual Wellness Visit',
+  description: 'Answer a few questions before your Annual Wellness Visit.',
+};
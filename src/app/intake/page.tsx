@@ -0,0 +1,234 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiCheckCircle } from 'react-icons/fi';
+import type { ISection } from '@/models/Template';
+import QuestionField from '@/components/visits/QuestionField';
+import { getVisibility } from '@/lib/conditionalLogic';
+import { isAnswered } from '@/lib/visitResponses';
+
+interface IntakeForm {
+  firstName?: string;
+  scheduledDate: string;
+  expiresAt: string;
+  patient: { age: number | null; gender?: string };
+  sections: ISection[];
+}
+
+interface FieldError {
+  questionId: string;
+  sectionId: string;
+  message: string;
+}
+
+// Pre-visit questionnaire links point here with ?token= since the site is statically exported.
+// Patients answer one section per page, so the form works on a phone.
+export default function IntakePage() {
+  const [token, setToken] = useState('');
+  const [form, setForm] = useState<IntakeForm | null>(null);
+  const [responses, setResponses] = useState<Record<string, any>>({});
+  const [sectionIndex, setSectionIndex] = useState(0);
+  const [fieldErrors, setFieldErrors] = useState<FieldError[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [isSubmitted, setIsSubmitted] = useState(false);
+  const [error, setError] = useState('');
+
+  useEffect(() => {
+    async function loadForm() {
+      try {
+        const tokenParam = new URLSearchParams(window.location.search).get('token');
+        if (!tokenParam) {
+          setError('This questionnaire can only be opened from the link your care team sent you.');
+          return;
+        }
+
+        setToken(tokenParam);
+        const response = await fetch(`/.netlify/functions/api/intake/${encodeURIComponent(tokenParam)}`);
+        const data = await response.json();
+
+        if (data.success) {
+          setForm(data.data);
+        } else {
+          setError(data.error || 'This link is not valid.');
+        }
+      } catch (error) {
+        console.error('Error loading questionnaire:', error);
+        setError('The questionnaire could not be loaded. Please check your connection and try again.');
+      } finally {
+        setIsLoading(false);
+      }
+    }
+
+    loadForm();
+  }, []);
+
+  const visibility = getVisibility(form, responses, form?.patient);
+  const sections = (form?.sections || []).filter(section => !visibility.hiddenSections.has(section.id));
+  const section = sections[Math.min(sectionIndex, sections.length - 1)];
+  const isLastSection = sectionIndex >= sections.length - 1;
+
+  const handleChange = (questionId: string, value: any) => {
+    setResponses(prev => ({ ...prev, [questionId]: value }));
+    setFieldErrors(prev => prev.filter(item => item.questionId !== questionId));
+  };
+
+  const goToSection = (index: number) => {
+    setSectionIndex(index);
+    window.scrollTo({ top: 0 });
+  };
+
+  // Required questions are checked per section so the patient is not sent back at the end
+  const handleNext = () => {
+    const missing = (section?.questions || [])
+      .filter(question => question.required && !visibility.hiddenQuestions.has(question.id))
+      .filter(question => !isAnswered(responses[question.id]))
+      .map(question => ({ questionId: question.id, sectionId: section.id, message: 'Please answer this question' }));
+
+    if (missing.length > 0) {
+      setFieldErrors(missing);
+      document.getElementById(`question-${missing[0].questionId}`)?.scrollIntoView({ block: 'center' });
+      return;
+    }
+
+    if (isLastSection) {
+      handleSubmit();
+    } else {
+      goToSection(sectionIndex + 1);
+    }
+  };
+
+  const handleSubmit = async () => {
+    setIsSubmitting(true);
+    setError('');
+
+    try {
+      const response = await fetch(`/.netlify/functions/api/intake/${encodeURIComponent(token)}`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ answers: responses }),
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setIsSubmitted(true);
+        window.scrollTo({ top: 0 });
+        return;
+      }
+
+      // Show the server's validation errors on the first section that has one
+      if (Array.isArray(data.details) && data.details.length > 0) {
+        setFieldErrors(data.details);
+        const index = sections.findIndex(item => item.id === data.details[0].sectionId);
+        if (index !== -1) goToSection(index);
+      }
+      setError(data.error || 'Your answers could not be saved. Please try again.');
+    } catch (error) {
+      console.error('Error submitting questionnaire:', error);
+      setError('Your answers could not be sent. Please check your connection and try again.');
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <header className="bg-primary-600 text-white px-4 py-3">
+        <h1 className="text-lg font-semibold">Annual Wellness Visit</h1>
+      </header>
+
+      <main className="max-w-xl mx-auto p-4">
+        {isLoading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-blue-500"></div>
+          </div>
+        ) : isSubmitted ? (
+          <div className="bg-white p-6 rounded-lg shadow-md text-center">
+            <FiCheckCircle className="text-green-500 mx-auto mb-3" size={40} />
+            <h2 className="text-xl font-semibold mb-2">Thank you!</h2>
+            <p className="text-gray-600">
+              Your answers were sent to your care team. They will go over them with you during your visit.
+            </p>
+          </div>
+        ) : !form || !section ? (
+          <div className="bg-white p-6 rounded-lg shadow-md">
+            <p className="text-red-600">{error || 'There are no questions to answer right now.'}</p>
+          </div>
+        ) : (
+          <>
+            {sectionIndex === 0 && (
+              <div className="mb-4">
+                <h2 className="text-xl font-semibold">Hello{form.firstName ? ` ${form.firstName}` : ''},</h2>
+                <p className="text-gray-600 mt-1">
+                  Please answer these questions before your visit on {new Date(form.scheduledDate).toLocaleDateString()}.
+                  Your care team will review your answers with you.
+                </p>
+              </div>
+            )}
+
+            <div className="mb-3">
+              <div className="flex justify-between text-sm text-gray-600 mb-1">
+                <span>Part {sectionIndex + 1} of {sections.length}</span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-2">
+                <div
+                  className="bg-primary-600 h-2 rounded-full"
+                  style={{ width: `${((sectionIndex + 1) / sections.length) * 100}%` }}
+                ></div>
+              </div>
+            </div>
+
+            <div className="bg-white p-4 sm:p-6 rounded-lg shadow-md">
+              <h3 className="text-lg font-semibold mb-1">{section.title}</h3>
+              {section.description && <p className="text-gray-600 text-sm mb-4">{section.description}</p>}
+
+              {error && (
+                <div className="bg-red-50 p-3 rounded-md text-red-600 text-sm mb-4">{error}</div>
+              )}
+
+              {(section.questions || [])
+                .filter(question => !visibility.hiddenQuestions.has(question.id))
+                .map(question => (
+                  <QuestionField
+                    key={question.id}
+                    question={question}
+                    value={responses[question.id]}
+                    onChange={(value) => handleChange(question.id, value)}
+                    error={fieldErrors.find(item => item.questionId === question.id)?.message}
+                    disabled={isSubmitting}
+                  />
+                ))}
+
+              <div className="flex gap-3 mt-6">
+                {sectionIndex > 0 && (
+                  <button
+                    type="button"
+                    onClick={() => goToSection(sectionIndex - 1)}
+                    className="btn-secondary flex-1 py-3"
+                    disabled={isSubmitting}
+                  >
+                    Back
+                  </button>
+                )}
+                <button
+                  type="button"
+                  onClick={handleNext}
+                  className="btn-primary flex-1 py-3"
+                  disabled={isSubmitting}
+                >
+                  {isLastSection ? (isSubmitting ? 'Sending...' : 'Send Answers') : 'Next'}
+                </button>
+              </div>
+            </div>
+
+            <p className="text-xs text-gray-500 text-center mt-4">
+              This link can be used once and expires on {new Date(form.expiresAt).toLocaleDateString()}.
+            </p>
+          </>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,6 +1,6 @@
 'use client';
 
-import { useState } from 'react';
+import { useState, useEffect } from 'react';
 import { useRouter } from 'next/navigation';
 import Link from 'next/link';
 import { loginWithEmail } from '@/lib/firebase';
@@ -10,8 +10,14 @@ export default function LoginPage() {
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
   const [loading, setLoading] = useState(false);
+  const [registered, setRegistered] = useState(false);
   const router = useRouter();
 
+  // Accepted invitations redirect here with ?registered=true
+  useEffect(() => {
+    setRegistered(new URLSearchParams(window.location.search).get('registered') === 'true');
+  }, []);
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     setError('');
@@ -55,6 +61,11 @@ export default function LoginPage() {
               Sign in to your account
             </h2>
           </div>
+          {registered && !error && (
+            <div className="bg-green-50 border-l-4 border-green-500 p-4">
+              <p className="text-green-700">Your account has been created. Sign in to continue.</p>
+            </div>
+          )}
           {error && (
             <div className="bg-red-50 border-l-4 border-red-500 p-4">
               <p className="text-red-700">{error}</p>
@@ -2,7 +2,12 @@
 
 import { PropsWithChildren } from "react";
 import { AuthProvider } from "@/contexts/AuthContext";
+import { ToastProvider } from "@/components/ui/use-toast";
 
 export function Providers({ children }: PropsWithChildren) {
-  return <AuthProvider>{children}</AuthProvider>;
+  return (
+    <AuthProvider>
+      <ToastProvider>{children}</ToastProvider>
+    </AuthProvider>
+  );
 } 
\ No newline at end of file
@@ -2,6 +2,6 @@ import { Metadata } from 'next';
 
 // This is a server component file that provides metadata
 export const metadata: Metadata = {
-  title: 'Registration - Annual Wellness Visit',
-  description: 'Registration is only available through invitation. Please contact an administrator for assistance.',
+  title: 'Complete Registration - Annual Wellness Visit',
+  description: 'Complete your registration with your invitation link.',
 }; 
\ No newline at end of file
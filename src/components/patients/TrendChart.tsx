@@ -0,0 +1,114 @@
+import type { Trend } from '@/lib/patientTimeline';
+
+interface TrendChartProps {
+  trend: Trend;
+}
+
+const WIDTH = 320;
+const HEIGHT = 160;
+const PADDING = { top: 12, right: 12, bottom: 24, left: 36 };
+
+const LINE_COLORS = ['#2563eb', '#dc2626', '#16a34a'];
+
+const formatShortDate = (date: string) =>
+  new Date(date).toLocaleDateString(undefined, { month: 'short', year: 'numeric' });
+
+// Small line chart of a measurement across visits, one evenly spaced column per visit date
+export default function TrendChart({ trend }: TrendChartProps) {
+  const dates = Array.from(new Set(trend.lines.flatMap(line => line.points.map(point => point.date)))).sort();
+  const values = trend.lines.flatMap(line => line.points.map(point => point.value));
+  if (trend.threshold !== undefined) values.push(trend.threshold);
+
+  let min = trend.min ?? Math.floor(Math.min(...values));
+  let max = trend.max ?? Math.ceil(Math.max(...values));
+  if (trend.min === undefined && trend.max === undefined) {
+    const margin = Math.max(1, Math.round((max - min) * 0.1));
+    min -= margin;
+    max += margin;
+  }
+  if (max === min) max = min + 1;
+
+  const plotWidth = WIDTH - PADDING.left - PADDING.right;
+  const plotHeight = HEIGHT - PADDING.top - PADDING.bottom;
+  const x = (date: string) => dates.length === 1
+    ? PADDING.left + plotWidth / 2
+    : PADDING.left + (dates.indexOf(date) / (dates.length - 1)) * plotWidth;
+  const y = (value: number) => PADDING.top + (1 - (value - min) / (max - min)) * plotHeight;
+
+  const latest = trend.lines.map(line => ({ line, point: line.points[line.points.length - 1] }));
+
+  return (
+    <div className="border rounded p-3">
+      <div className="flex justify-between items-baseline mb-2">
+        <h3 className="font-medium">{trend.title}</h3>
+        <span className="text-sm text-gray-600">
+          {latest
+            .filter(item => item.point)
+            .map(item => `${trend.lines.length > 1 ? `${item.line.label} ` : ''}${item.point.value}`)
+            .join(' / ')}
+          {trend.unit ? ` ${trend.unit}` : ''}
+        </span>
+      </div>
+
+      <svg viewBox={`0 0 ${WIDTH} ${HEIGHT}`} className="w-full h-auto" role="img" aria-label={`${trend.title} over time`}>
+        {[min, max].map(tick => (
+          <g key={tick}>
+            <line x1={PADDING.left} x2={WIDTH - PADDING.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={PADDING.left - 4} y={y(tick) + 4} textAnchor="end" fontSize="10" fill="#6b7280">{tick}</text>
+          </g>
+        ))}
+
+        {trend.threshold !== undefined && (
+          <line
+            x1={PADDING.left}
+            x2={WIDTH - PADDING.right}
+            y1={y(trend.threshold)}
+            y2={y(trend.threshold)}
+            stroke="#f59e0b"
+            strokeDasharray="4 3"
+          >
+            <title>Screening threshold: {trend.threshold}</title>
+          </line>
+        )}
+
+        {dates.map(date => (
+          <text key={date} x={x(date)} y={HEIGHT - 6} textAnchor="middle" fontSize="10" fill="#6b7280">
+            {formatShortDate(date)}
+          </text>
+        ))}
+
+        {trend.lines.map((line, index) => {
+          const color = LINE_COLORS[index % LINE_COLORS.length];
+          return (
+            <g key={line.key}>
+              {line.points.length > 1 && (
+                <polyline
+                  fill="none"
+                  stroke={color}
+                  strokeWidth="2"
+                  points={line.points.map(point => `${x(point.date)},${y(point.value)}`).join(' ')}
+                />
+              )}
+              {line.points.map(point => (
+                <circle key={point.visitId} cx={x(point.date)} cy={y(point.value)} r="3" fill={color}>
+                  <title>{`${line.label}: ${point.value} (${formatShortDate(point.date)})`}</title>
+                </circle>
+              ))}
+            </g>
+          );
+        })}
+      </svg>
+
+      {trend.lines.length > 1 && (
+        <div className="flex gap-4 text-xs text-gray-600 mt-1">
+          {trend.lines.map((line, index) => (
+            <span key={line.key} className="flex items-center gap-1">
+              <span className="inline-block w-3 h-0.5" style={{ backgroundColor: LINE_COLORS[index % LINE_COLORS.length] }} />
+              {line.label}
+            </span>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,67 @@
+import { FiAlertTriangle, FiDollarSign, FiInfo } from 'react-icons/fi';
+import { BillingSummary, formatBillingCode } from '@/lib/billing';
+
+interface BillingCodesProps {
+  billing: BillingSummary | null;
+}
+
+export default function BillingCodes({ billing }: BillingCodesProps) {
+  if (!billing) {
+    return null;
+  }
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <FiDollarSign className="mr-2" /> Suggested Billing Codes
+        </h2>
+        <span className="text-xs text-gray-500">Suggestions only; verify before submitting a claim</span>
+      </div>
+
+      {billing.warnings.length > 0 && (
+        <ul className="space-y-2 mb-4">
+          {billing.warnings.map((warning, index) => (
+            <li
+              key={index}
+              className={`flex items-start p-3 rounded border text-sm ${warning.severity === 'warning' ? 'bg-yellow-50 border-yellow-200' : 'bg-blue-50 border-blue-200'}`}
+            >
+              {warning.severity === 'warning' ? (
+                <FiAlertTriangle className="text-yellow-600 mt-0.5 mr-2 flex-shrink-0" />
+              ) : (
+                <FiInfo className="text-blue-600 mt-0.5 mr-2 flex-shrink-0" />
+              )}
+              <span>{warning.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <ul className="divide-y divide-gray-200">
+        {billing.suggestions.map(suggestion => (
+          <li key={suggestion.code} className="py-3">
+            <div className="flex items-center gap-2">
+              <span className="font-mono font-semibold">{formatBillingCode(suggestion)}</span>
+              <span className="text-sm">{suggestion.description}</span>
+              <span className={`badge ml-auto ${suggestion.kind === 'awv' ? 'badge-blue' : 'badge-gray'}`}>
+                {suggestion.kind === 'awv' ? 'AWV' : 'Add-on'}
+              </span>
+            </div>
+            <ul className="text-sm text-gray-700 mt-1 list-disc list-inside">
+              {suggestion.documentation.map((item, index) => (
+                <li key={index}>{item}</li>
+              ))}
+            </ul>
+            {suggestion.requirements.length > 0 && (
+              <ul className="text-xs text-gray-500 mt-1 space-y-0.5">
+                {suggestion.requirements.map((item, index) => (
+                  <li key={index}>Confirm: {item}</li>
+                ))}
+              </ul>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,200 @@
+'use client';
+
+import { useState } from 'react';
+import { FiRefreshCw, FiSave, FiX } from 'react-icons/fi';
+import visitService, { IHealthPlan, IHealthPlanRecommendation } from '@/services/visitService';
+import { groupRecommendationsByDomain, summarizeHealthPlan } from '@/lib/healthPlanEngine';
+import { formatDueDate } from '@/lib/preventiveServices';
+
+interface HealthPlanReviewProps {
+  visitId: string;
+  healthPlan?: IHealthPlan | null;
+  // Generating is only offered while the visit can still be changed
+  editable?: boolean;
+  onSaved?: (healthPlan: IHealthPlan) => void;
+}
+
+interface DraftRecommendation extends IHealthPlanRecommendation {
+  included: boolean;
+}
+
+const priorityBadge = (priority: string) => {
+  switch (priority) {
+    case 'high':
+      return <span className="badge badge-red">High</span>;
+    case 'medium':
+      return <span className="badge badge-yellow">Medium</span>;
+    default:
+      return <span className="badge badge-gray">Low</span>;
+  }
+};
+
+export default function HealthPlanReview({ visitId, healthPlan, editable = true, onSaved }: HealthPlanReviewProps) {
+  const [draft, setDraft] = useState<DraftRecommendation[] | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleGenerate = async () => {
+    try {
+      setIsGenerating(true);
+      setError(null);
+
+      const generated = await visitService.generateHealthPlan(visitId);
+      setDraft(generated.recommendations.map(item => ({
+        ...item,
+        dueDate: item.dueDate ? item.dueDate.slice(0, 10) : null,
+        included: true,
+      })));
+    } catch (err: any) {
+      console.error('Error generating health plan:', err);
+      setError(err.message || 'Failed to generate health plan');
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const updateDraftItem = (index: number, changes: Partial<DraftRecommendation>) => {
+    setDraft(prev => prev && prev.map((item, i) => (i === index ? { ...item, ...changes } : item)));
+  };
+
+  const handleSave = async () => {
+    if (!draft) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const recommendations = draft
+        .filter(item => item.included)
+        .map(({ included, ...item }) => ({ ...item, dueDate: item.dueDate || undefined }));
+      const plan: IHealthPlan = {
+        recommendations,
+        summary: summarizeHealthPlan(recommendations),
+      };
+
+      await visitService.updateVisit(visitId, { healthPlan: plan });
+      setDraft(null);
+      onSaved?.(plan);
+    } catch (err: any) {
+      console.error('Error saving health plan:', err);
+      setError(err.message || 'Failed to save health plan');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const savedRecommendations = healthPlan?.recommendations || [];
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Health Plan</h2>
+        {editable && !draft && (
+          <button
+            onClick={handleGenerate}
+            className="btn-secondary flex items-center"
+            disabled={isGenerating}
+          >
+            <FiRefreshCw className={`mr-1 ${isGenerating ? 'animate-spin' : ''}`} />
+            {isGenerating ? 'Generating...' : savedRecommendations.length > 0 ? 'Regenerate' : 'Generate'}
+          </button>
+        )}
+      </div>
+
+      {error && (
+        <div className="bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded mb-4">
+          {error}
+        </div>
+      )}
+
+      {draft ? (
+        <div>
+          <p className="text-sm text-gray-600 mb-4">
+            Review the generated recommendations. Only the checked items will be saved to the visit. Screenings and
+            immunizations are suggested as due now; change the date for any the patient has already had, or uncheck them.
+          </p>
+
+          {draft.length === 0 ? (
+            <p className="text-gray-500">No recommendations were triggered by this visit.</p>
+          ) : (
+            groupRecommendationsByDomain(draft.map((item, index) => ({ ...item, index }))).map(group => (
+              <div key={group.domain} className="mb-4">
+                <h3 className="font-medium text-gray-800 mb-2">{group.domain}</h3>
+                <ul className="space-y-2">
+                  {group.items.map(item => (
+                    <li key={item.index} className="flex items-start border rounded p-3">
+                      <input
+                        type="checkbox"
+                        className="mt-1 mr-3"
+                        checked={item.included}
+                        onChange={e => updateDraftItem(item.index, { included: e.target.checked })}
+                      />
+                      <div className="flex-1">
+                        <div className={item.included ? '' : 'text-gray-400 line-through'}>{item.text}</div>
+                        {item.source && (
+                          <div className="text-xs text-gray-500 mt-1">
+                            {item.source.question}{item.source.response ? `: ${item.source.response}` : ''}
+                          </div>
+                        )}
+                      </div>
+                      <input
+                        type="date"
+                        className="form-input ml-3 w-40 text-sm"
+                        title="Due date on the patient's screening schedule"
+                        value={item.dueDate || ''}
+                        onChange={e => updateDraftItem(item.index, { dueDate: e.target.value || null })}
+                      />
+                      <select
+                        className="form-input ml-3 w-28 text-sm"
+                        value={item.priority}
+                        onChange={e => updateDraftItem(item.index, { priority: e.target.value as DraftRecommendation['priority'] })}
+                      >
+                        <option value="high">High</option>
+                        <option value="medium">Medium</option>
+                        <option value="low">Low</option>
+                      </select>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))
+          )}
+
+          <div className="flex justify-end space-x-2 mt-4">
+            <button onClick={() => setDraft(null)} className="btn-secondary flex items-center" disabled={isSaving}>
+              <FiX className="mr-1" /> Discard
+            </button>
+            <button onClick={handleSave} className="btn-primary flex items-center" disabled={isSaving}>
+              <FiSave className="mr-1" /> {isSaving ? 'Saving...' : 'Save Health Plan'}
+            </button>
+          </div>
+        </div>
+      ) : savedRecommendations.length > 0 ? (
+        <div>
+          {healthPlan?.summary && <p className="text-sm text-gray-600 mb-4">{healthPlan.summary}</p>}
+          {groupRecommendationsByDomain(savedRecommendations).map(group => (
+            <div key={group.domain} className="mb-4">
+              <h3 className="font-medium text-gray-800 mb-2">{group.domain}</h3>
+              <ul className="space-y-2">
+                {group.items.map((item, index) => (
+                  <li key={index} className="flex justify-between items-start">
+                    <span>
+                      {item.text}
+                      {item.dueDate && <span className="text-sm text-gray-500"> (due {formatDueDate(item.dueDate)})</span>}
+                    </span>
+                    <span className="ml-3">{priorityBadge(item.priority)}</span>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-gray-500">
+          No health plan has been created for this visit yet.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { FiCopy, FiSend, FiSmartphone, FiX } from 'react-icons/fi';
+import visitService, { IVisitIntake } from '@/services/visitService';
+import { useCan } from '@/contexts/AuthContext';
+
+interface PatientIntakeCardProps {
+  visitId: string;
+  // New links can only be sent while the visit has not been closed
+  editable?: boolean;
+  // Differing patient answers can be resolved until the visit is signed
+  reviewable?: boolean;
+  // Called after the patient's answer replaced a staff answer on the visit
+  onAnswerChanged?: () => void;
+}
+
+const statusBadge = (status: IVisitIntake['status']) => {
+  switch (status) {
+    case 'pending':
+      return <span className="badge badge-yellow">Waiting for patient</span>;
+    case 'submitted':
+      return <span className="badge badge-green">Submitted</span>;
+    case 'expired':
+      return <span className="badge badge-gray">Expired</span>;
+    default:
+      return <span className="badge badge-gray">Revoked</span>;
+  }
+};
+
+const formatValue = (value: any): string => {
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value)) return value.join(', ');
+  if (value && typeof value === 'object') {
+    return Object.entries(value).map(([key, item]) => `${key}: ${item}`).join(', ');
+  }
+  return String(value ?? '');
+};
+
+/**
+ * Sends the patient a link to answer the template's patient-completable
+ * sections before the visit, and shows whether they have done so.
+ */
+export default function PatientIntakeCard({ visitId, editable = true, reviewable = false, onAnswerChanged }: PatientIntakeCardProps) {
+  const [intake, setIntake] = useState<IVisitIntake | null>(null);
+  const [link, setLink] = useState<string | null>(null);
+  const [email, setEmail] = useState('');
+  const [sendEmail, setSendEmail] = useState(true);
+  const [isLoading, setIsLoading] = useState(true);
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const can = useCan();
+
+  useEffect(() => {
+    visitService.getIntake(visitId)
+      .then(setIntake)
+      .catch(err => setError(err.message || 'Failed to load the pre-visit questionnaire'))
+      .finally(() => setIsLoading(false));
+  }, [visitId]);
+
+  const handleSend = async () => {
+    if (intake?.status === 'pending' && !confirm('Send a new link? The link sent earlier will stop working.')) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      setError(null);
+
+      const result = await visitService.sendIntakeLink(visitId, {
+        email: email.trim() || undefined,
+        sendEmail
+      });
+      setIntake(result.intake);
+      setLink(result.link);
+    } catch (err: any) {
+      setError(err.message || 'Failed to send the pre-visit questionnaire');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleRevoke = async () => {
+    if (!confirm('Revoke the link? The patient will no longer be able to submit answers with it.')) {
+      return;
+    }
+
+    try {
+      setIsBusy(true);
+      setError(null);
+
+      setIntake(await visitService.revokeIntakeLink(visitId));
+      setLink(null);
+    } catch (err: any) {
+      setError(err.message || 'Failed to revoke the link');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleResolve = async (questionId: string, keep: 'staff' | 'patient') => {
+    try {
+      setIsBusy(true);
+      setError(null);
+
+      setIntake(await visitService.resolveIntakeConflict(visitId, questionId, keep));
+      if (keep === 'patient') onAnswerChanged?.();
+    } catch (err: any) {
+      setError(err.message || 'Failed to resolve the answer');
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  if (isLoading || (!intake && !editable)) {
+    return null;
+  }
+
+  const canSend = editable && can('visits:write');
+  const canResolve = reviewable && can('visits:write');
+  const openConflicts = intake?.status === 'submitted' ? (intake.conflicts || []).filter(conflict => !conflict.resolution) : [];
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <FiSmartphone className="mr-2" /> Pre-Visit Questionnaire
+        </h2>
+        {intake && statusBadge(intake.status)}
+      </div>
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-3 rounded text-sm mb-4">{error}</div>
+      )}
+
+      {intake ? (
+        <div className="text-sm text-gray-700 space-y-1 mb-4">
+          {intake.sentTo && <p>Sent to {intake.sentTo}</p>}
+          {intake.status === 'submitted' && intake.submittedAt ? (
+            <p>
+              Submitted {new Date(intake.submittedAt).toLocaleString()} with {intake.questionIds.length} answers.
+              They are marked as patient-reported for review while conducting the visit.
+            </p>
+          ) : intake.status === 'pending' ? (
+            <p>Link expires {new Date(intake.expiresAt).toLocaleString()}.</p>
+          ) : null}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-600 mb-4">
+          Let the patient answer the sections marked as patient-completable from their own phone or computer before the visit.
+        </p>
+      )}
+
+      {openConflicts.length > 0 && (
+        <div className="mb-4">
+          <p className="text-sm text-yellow-800 bg-yellow-50 p-3 rounded mb-2">
+            The patient answered {openConflicts.length} {openConflicts.length === 1 ? 'question' : 'questions'} differently
+            from what was already entered. The existing answers were kept.
+          </p>
+          <ul className="divide-y divide-gray-200">
+            {openConflicts.map(conflict => (
+              <li key={conflict.questionId} className="py-2 text-sm">
+                <div className="font-medium">{conflict.question || conflict.questionId}</div>
+                <div className="text-gray-700">Entered by staff: {formatValue(conflict.staffValue)}</div>
+                <div className="text-gray-700">Patient answered: {formatValue(conflict.patientValue)}</div>
+                {canResolve && (
+                  <div className="flex gap-2 mt-1">
+                    <button type="button" className="btn-secondary text-xs" disabled={isBusy} onClick={() => handleResolve(conflict.questionId, 'staff')}>
+                      Keep Staff Answer
+                    </button>
+                    <button type="button" className="btn-secondary text-xs" disabled={isBusy} onClick={() => handleResolve(conflict.questionId, 'patient')}>
+                      Use Patient Answer
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {link && (
+        <div className="flex items-center gap-2 mb-4">
+          <input className="form-input text-xs" value={link} readOnly onFocus={e => e.target.select()} />
+          <button
+            type="button"
+            className="btn-secondary flex items-center"
+            onClick={() => navigator.clipboard?.writeText(link)}
+            title="Copy the link to share it another way"
+          >
+            <FiCopy />
+          </button>
+        </div>
+      )}
+
+      {canSend && (
+        <div className="space-y-3">
+          <div className="flex flex-col sm:flex-row gap-2">
+            <input
+              type="email"
+              className="form-input"
+              placeholder="Patient's email on file"
+              value={email}
+              onChange={e => setEmail(e.target.value)}
+              disabled={!sendEmail}
+            />
+            <button type="button" onClick={handleSend} className="btn-primary flex items-center whitespace-nowrap" disabled={isBusy}>
+              <FiSend className="mr-1" /> {intake?.status === 'pending' ? 'Send New Link' : 'Send Link'}
+            </button>
+            {intake?.status === 'pending' && (
+              <button type="button" onClick={handleRevoke} className="btn-secondary flex items-center" disabled={isBusy}>
+                <FiX className="mr-1" /> Revoke
+              </button>
+            )}
+          </div>
+          <label className="flex items-center text-sm text-gray-700">
+            <input type="checkbox" className="mr-2" checked={sendEmail} onChange={e => setSendEmail(e.target.checked)} />
+            Email the link to the patient
+          </label>
+        </div>
+      )}
+    </div>
+  );
+}
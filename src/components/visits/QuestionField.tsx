@@ -0,0 +1,363 @@
+'use client';
+
+import type { IQuestion } from '@/models/Template';
+import { getInstrumentItems, isScoredQuestion, scoreQuestion, formatScore } from '@/lib/scoring';
+
+interface QuestionFieldProps {
+  question: IQuestion;
+  value: any;
+  onChange: (value: any) => void;
+  error?: string;
+  disabled?: boolean;
+  // Compact one-line layout with keyboard shortcuts for options, used by rapid entry
+  dense?: boolean;
+  // The answer came from the patient's pre-visit questionnaire and has not been changed since
+  patientReported?: boolean;
+}
+
+const VITAL_SIGN_FIELDS = [
+  { key: 'systolic', label: 'Systolic BP', unit: 'mmHg' },
+  { key: 'diastolic', label: 'Diastolic BP', unit: 'mmHg' },
+  { key: 'heartRate', label: 'Heart Rate', unit: 'bpm' },
+  { key: 'respiratoryRate', label: 'Respiratory Rate', unit: '/min' },
+  { key: 'temperature', label: 'Temperature', unit: '°F' },
+  { key: 'oxygenSaturation', label: 'O2 Saturation', unit: '%' },
+];
+
+// Each answer block a keyboard user moves through: a question, or one item of an instrument
+const ENTRY_STOP_SELECTOR = '[data-entry-stop]';
+
+// Focus the first control of the answer block after the one containing the element
+export const focusNextEntryStop = (from: HTMLElement) => {
+  const stops = Array.from(document.querySelectorAll<HTMLElement>(ENTRY_STOP_SELECTOR));
+  const next = stops[stops.indexOf(from.closest(ENTRY_STOP_SELECTOR) as HTMLElement) + 1];
+  if (!next) return;
+
+  const control = next.querySelector<HTMLElement>('input:checked, input, select, textarea');
+  control?.focus();
+  next.scrollIntoView({ block: 'nearest' });
+};
+
+// Shortcut hint shown next to an option in dense mode
+const ShortcutKey = ({ index }: { index: number }) => index < 9
+  ? <kbd className="text-xs text-gray-500 border border-gray-300 rounded px-1 mr-1">{index + 1}</kbd>
+  : null;
+
+// Calculate BMI from height and weight in the configured units
+export const calculateBmi = (height: number, weight: number, units: 'metric' | 'imperial' = 'imperial'): number | null => {
+  if (!height || !weight) return null;
+
+  const bmi = units === 'metric'
+    ? weight / Math.pow(height / 100, 2)
+    : (703 * weight) / Math.pow(height, 2);
+
+  return Math.round(bmi * 10) / 10;
+};
+
+const PatientReportedBadge = () => (
+  <span className="badge badge-blue ml-2" title="Answered by the patient before the visit; review with the patient">
+    Patient-reported
+  </span>
+);
+
+export default function QuestionField({
+  question,
+  value,
+  onChange,
+  error,
+  disabled = false,
+  dense = false,
+  patientReported = false
+}: QuestionFieldProps) {
+  const updateField = (key: string, fieldValue: any) => {
+    onChange({ ...(value && typeof value === 'object' ? value : {}), [key]: fieldValue });
+  };
+
+  // Number keys pick the nth option and Y/N answer yes/no questions, then move on to the next answer
+  const handleShortcut = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (disabled || e.altKey || e.ctrlKey || e.metaKey) return;
+
+    // Keys typed into text and number fields are part of the answer
+    const target = e.target as HTMLElement;
+    if (target instanceof HTMLTextAreaElement || target instanceof HTMLSelectElement) return;
+    if (target instanceof HTMLInputElement && target.type !== 'radio' && target.type !== 'checkbox') return;
+
+    const key = e.key.toLowerCase();
+    const index = /^[1-9]$/.test(key) ? Number(key) - 1 : -1;
+    let handled = false;
+    let advance = true;
+
+    if (isScoredQuestion(question)) {
+      const items = getInstrumentItems(question);
+      const itemId = target.closest<HTMLElement>('[data-item-id]')?.dataset.itemId;
+      const item = items.find(candidate => candidate.id === itemId) || items[0];
+      const option = item?.options[index];
+      if (option) {
+        if (items.length === 1 && item.id === question.id) {
+          onChange(option.value);
+        } else {
+          updateField(item.id, option.value);
+        }
+        handled = true;
+      }
+    } else if (question.type === 'boolean') {
+      const answer = key === 'y' || index === 0 ? true : key === 'n' || index === 1 ? false : null;
+      if (answer !== null) {
+        onChange(answer);
+        handled = true;
+      }
+    } else if (question.type === 'multipleChoice') {
+      const option = (question.options || [])[index];
+      if (option && question.config?.multiple) {
+        const selected: string[] = Array.isArray(value) ? value : [];
+        onChange(selected.includes(option.value)
+          ? selected.filter(v => v !== option.value)
+          : [...selected, option.value]);
+        handled = true;
+        // Several options can be picked, so stay on the question
+        advance = false;
+      } else if (option) {
+        onChange(option.value);
+        handled = true;
+      }
+    }
+
+    if (handled) {
+      e.preventDefault();
+      if (advance) focusNextEntryStop(target);
+    }
+  };
+
+  const renderInput = () => {
+    if (isScoredQuestion(question)) {
+      const items = getInstrumentItems(question);
+      const singleItem = items.length === 1 && items[0].id === question.id;
+      const itemValues = singleItem ? { [question.id]: value } : (value || {});
+      const score = scoreQuestion(question, value);
+
+      return (
+        <div className="space-y-4">
+          {items.map(item => (
+            <div key={item.id} data-item-id={item.id} data-entry-stop>
+              {!singleItem && <div className="text-sm text-gray-700 mb-2">{item.text}</div>}
+              <div className="flex flex-wrap gap-4">
+                {item.options.map((option, index) => (
+                  <label key={option.value} className="flex items-center text-sm">
+                    <input
+                      type="radio"
+                      className="mr-2"
+                      name={`${question.id}-${item.id}`}
+                      checked={String(itemValues[item.id] ?? '') === option.value}
+                      onChange={() => singleItem ? onChange(option.value) : updateField(item.id, option.value)}
+                      disabled={disabled}
+                    />
+                    {dense && <ShortcutKey index={index} />}
+                    {option.label}
+                  </label>
+                ))}
+              </div>
+            </div>
+          ))}
+          {score && (
+            <div className={`text-sm font-medium ${score.positive ? 'text-red-700' : score.complete ? 'text-green-700' : 'text-gray-600'}`}>
+              Score {formatScore(score)}: {score.interpretation}
+              {score.followUp && <span className="block font-normal">Follow-up: {score.followUp}</span>}
+            </div>
+          )}
+        </div>
+      );
+    }
+
+    switch (question.type) {
+      case 'multipleChoice':
+        if (question.config?.multiple) {
+          const selected: string[] = Array.isArray(value) ? value : [];
+          return (
+            <div className={dense ? 'flex flex-wrap gap-x-4 gap-y-1' : 'space-y-2'}>
+              {(question.options || []).map((option, index) => (
+                <label key={option.value} className="flex items-center">
+                  <input
+                    type="checkbox"
+                    className="mr-2"
+                    checked={selected.includes(option.value)}
+                    onChange={e => onChange(
+                      e.target.checked
+                        ? [...selected, option.value]
+                        : selected.filter(v => v !== option.value)
+                    )}
+                    disabled={disabled}
+                  />
+                  {dense && <ShortcutKey index={index} />}
+                  {option.label}
+                </label>
+              ))}
+            </div>
+          );
+        }
+
+        return (
+          <div className={dense ? 'flex flex-wrap gap-x-4 gap-y-1' : 'space-y-2'}>
+            {(question.options || []).map((option, index) => (
+              <label key={option.value} className="flex items-center">
+                <input
+                  type="radio"
+                  className="mr-2"
+                  name={question.id}
+                  checked={value === option.value}
+                  onChange={() => onChange(option.value)}
+                  disabled={disabled}
+                />
+                {dense && <ShortcutKey index={index} />}
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'boolean':
+        return (
+          <div className="flex gap-6">
+            {[{ label: 'Yes', value: true }, { label: 'No', value: false }].map((option, index) => (
+              <label key={option.label} className="flex items-center">
+                <input
+                  type="radio"
+                  className="mr-2"
+                  name={question.id}
+                  checked={value === option.value}
+                  onChange={() => onChange(option.value)}
+                  disabled={disabled}
+                />
+                {dense && <ShortcutKey index={index} />}
+                {option.label}
+              </label>
+            ))}
+          </div>
+        );
+
+      case 'numeric':
+        return (
+          <input
+            type="number"
+            className="form-input"
+            value={value ?? ''}
+            min={question.config?.thresholds?.min}
+            max={question.config?.thresholds?.max}
+            onChange={e => onChange(e.target.value === '' ? null : Number(e.target.value))}
+            disabled={disabled}
+          />
+        );
+
+      case 'date':
+        return (
+          <input
+            type="date"
+            className="form-input"
+            value={value ? String(value).substring(0, 10) : ''}
+            onChange={e => onChange(e.target.value || null)}
+            disabled={disabled}
+          />
+        );
+
+      case 'bmi': {
+        const units = question.config?.units || 'imperial';
+        const height = value?.height ?? '';
+        const weight = value?.weight ?? '';
+        const updateBmi = (key: 'height' | 'weight', fieldValue: string) => {
+          const next = { height, weight, [key]: fieldValue === '' ? '' : Number(fieldValue) };
+          onChange({ ...next, bmi: calculateBmi(Number(next.height), Number(next.weight), units) });
+        };
+
+        return (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <label className="form-label">Height ({units === 'metric' ? 'cm' : 'in'})</label>
+              <input type="number" className="form-input" value={height} onChange={e => updateBmi('height', e.target.value)} disabled={disabled} />
+            </div>
+            <div>
+              <label className="form-label">Weight ({units === 'metric' ? 'kg' : 'lb'})</label>
+              <input type="number" className="form-input" value={weight} onChange={e => updateBmi('weight', e.target.value)} disabled={disabled} />
+            </div>
+            <div>
+              <label className="form-label">BMI</label>
+              <div className="py-2 font-medium">{value?.bmi ?? '—'}</div>
+            </div>
+          </div>
+        );
+      }
+
+      case 'vitalSigns':
+        return (
+          <div className="grid grid-cols-2 md:grid-cols-3 gap-4">
+            {VITAL_SIGN_FIELDS.map(field => (
+              <div key={field.key}>
+                <label className="form-label">{field.label} ({field.unit})</label>
+                <input
+                  type="number"
+                  className="form-input"
+                  value={value?.[field.key] ?? ''}
+                  onChange={e => updateField(field.key, e.target.value === '' ? null : Number(e.target.value))}
+                  disabled={disabled}
+                />
+              </div>
+            ))}
+          </div>
+        );
+
+      default:
+        if (question.config?.multiline) {
+          return (
+            <textarea
+              className="form-input"
+              rows={3}
+              value={value ?? ''}
+              onChange={e => onChange(e.target.value)}
+              disabled={disabled}
+            />
+          );
+        }
+
+        return (
+          <input
+            type="text"
+            className="form-input"
+            value={value ?? ''}
+            onChange={e => onChange(e.target.value)}
+            disabled={disabled}
+          />
+        );
+    }
+  };
+
+  if (dense) {
+    return (
+      <div
+        className={`grid grid-cols-1 md:grid-cols-3 gap-2 py-2 border-b border-gray-100 ${error ? 'border-l-4 border-l-red-500 pl-3' : ''}`}
+        id={`question-${question.id}`}
+        onKeyDown={handleShortcut}
+      >
+        <div className="text-sm font-medium text-gray-700">
+          {question.text}
+          {question.required && <span className="text-red-500 ml-1">*</span>}
+          {patientReported && <PatientReportedBadge />}
+        </div>
+        {/* Instrument items are answer blocks of their own */}
+        <div className="md:col-span-2" data-entry-stop={isScoredQuestion(question) ? undefined : true}>
+          {renderInput()}
+          {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className={`mb-6 ${error ? 'border-l-4 border-red-500 pl-3' : ''}`} id={`question-${question.id}`}>
+      <label className="form-label">
+        {question.text}
+        {question.required && <span className="text-red-500 ml-1">*</span>}
+        {patientReported && <PatientReportedBadge />}
+      </label>
+      {renderInput()}
+      {error && <p className="text-sm text-red-600 mt-1">{error}</p>}
+    </div>
+  );
+}
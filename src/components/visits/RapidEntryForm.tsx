@@ -0,0 +1,133 @@
+'use client';
+
+import type { ISection } from '@/models/Template';
+import type { VisibilityResult } from '@/lib/conditionalLogic';
+import type { ResponseValidationError } from '@/lib/visitValidation';
+import QuestionField from '@/components/visits/QuestionField';
+
+interface RapidEntryFormProps {
+  sections: ISection[];
+  visibility: VisibilityResult;
+  responses: Record<string, any>;
+  onChange: (questionId: string, value: any) => void;
+  // Required questions that are still unanswered, from validateVisitResponses
+  missingRequired: ResponseValidationError[];
+  validationErrors: ResponseValidationError[];
+  // Questions answered on the patient's pre-visit questionnaire
+  patientReported?: Set<string>;
+}
+
+// Scroll to a question and put the cursor in its first control
+export const focusQuestion = (questionId: string) => {
+  const element = document.getElementById(`question-${questionId}`);
+  if (!element) return;
+
+  element.scrollIntoView({ block: 'center' });
+  element.querySelector<HTMLElement>('input:checked, input, select, textarea')?.focus();
+};
+
+const focusSection = (sectionId: string) => {
+  const element = document.getElementById(`rapid-section-${sectionId}`);
+  if (!element) return;
+
+  element.scrollIntoView({ block: 'start' });
+  element.querySelector<HTMLElement>('input, select, textarea')?.focus();
+};
+
+/**
+ * Every visible section and question on one page, for transcribing paper
+ * forms. Questions hidden by conditional logic are not rendered, so Tab only
+ * visits questions that apply.
+ */
+export default function RapidEntryForm({
+  sections,
+  visibility,
+  responses,
+  onChange,
+  missingRequired,
+  validationErrors,
+  patientReported
+}: RapidEntryFormProps) {
+  const visibleSections = sections.filter(section => !visibility.hiddenSections.has(section.id));
+
+  // Alt+Up/Down jump between sections, Alt+R to the next required question without an answer
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLDivElement>) => {
+    if (!e.altKey) return;
+
+    const currentSectionId = (e.target as HTMLElement).closest<HTMLElement>('[data-section-id]')?.dataset.sectionId;
+    const position = visibleSections.findIndex(section => section.id === currentSectionId);
+
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      const next = visibleSections[position + (e.key === 'ArrowDown' ? 1 : -1)];
+      if (next) {
+        e.preventDefault();
+        focusSection(next.id);
+      }
+    } else if (e.key.toLowerCase() === 'r' && missingRequired.length > 0) {
+      e.preventDefault();
+      const active = (e.target as HTMLElement).closest<HTMLElement>('[id^="question-"]')?.id.replace('question-', '');
+      const index = missingRequired.findIndex(item => item.questionId === active);
+      focusQuestion(missingRequired[(index + 1) % missingRequired.length].questionId);
+    }
+  };
+
+  return (
+    <div onKeyDown={handleKeyDown}>
+      <div className="sticky top-0 z-10 bg-white border-b p-3 flex flex-wrap items-center gap-2">
+        <label htmlFor="rapid-jump" className="text-sm text-gray-600">Jump to</label>
+        <select
+          id="rapid-jump"
+          className="form-input w-auto py-1"
+          value=""
+          onChange={e => e.target.value && focusSection(e.target.value)}
+        >
+          <option value="">Section...</option>
+          {visibleSections.map(section => {
+            const missing = missingRequired.filter(item => item.sectionId === section.id).length;
+            return (
+              <option key={section.id} value={section.id}>
+                {section.title}{missing > 0 ? ` (${missing} required)` : ''}
+              </option>
+            );
+          })}
+        </select>
+
+        <button
+          type="button"
+          onClick={() => missingRequired[0] && focusQuestion(missingRequired[0].questionId)}
+          className={`badge ${missingRequired.length > 0 ? 'badge-yellow' : 'badge-green'}`}
+          title="Go to the first unanswered required question (Alt+R)"
+        >
+          {missingRequired.length > 0
+            ? `${missingRequired.length} required unanswered`
+            : 'All required questions answered'}
+        </button>
+
+        <span className="text-xs text-gray-500 ml-auto">
+          1-9 pick an option · Y/N yes or no · Tab next question · Alt+↑/↓ section · Alt+R next required
+        </span>
+      </div>
+
+      <div className="p-4 space-y-6">
+        {visibleSections.map(section => (
+          <section key={section.id} id={`rapid-section-${section.id}`} data-section-id={section.id}>
+            <h2 className="text-lg font-semibold border-b-2 border-gray-200 pb-1 mb-1">{section.title}</h2>
+            {(section.questions || [])
+              .filter(question => !visibility.hiddenQuestions.has(question.id))
+              .map(question => (
+                <QuestionField
+                  key={question.id}
+                  question={question}
+                  value={responses[question.id]}
+                  onChange={(value) => onChange(question.id, value)}
+                  error={validationErrors.find(e => e.questionId === question.id)?.message}
+                  patientReported={patientReported?.has(question.id)}
+                  dense
+                />
+              ))}
+          </section>
+        ))}
+      </div>
+    </div>
+  );
+}
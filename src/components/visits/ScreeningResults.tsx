@@ -0,0 +1,75 @@
+import { FiAlertTriangle, FiCheckCircle, FiHelpCircle } from 'react-icons/fi';
+import type { IInstrumentScore } from '@/models/Visit';
+import { formatScore } from '@/lib/scoring';
+
+const TONES = {
+  positive: { row: 'bg-red-50 border-red-200', badge: 'badge badge-red' },
+  negative: { row: 'bg-green-50 border-green-200', badge: 'badge badge-green' },
+  incomplete: { row: 'bg-gray-50 border-gray-200', badge: 'badge badge-gray' },
+};
+
+interface ScreeningResultsProps {
+  scores: IInstrumentScore[];
+  // Render without the card wrapper, e.g. inside the conduct form
+  compact?: boolean;
+}
+
+export default function ScreeningResults({ scores, compact = false }: ScreeningResultsProps) {
+  if (!scores || scores.length === 0) {
+    return null;
+  }
+
+  const positiveCount = scores.filter(score => score.positive).length;
+
+  // Partially answered screens that are not yet conclusive get neither color
+  const tone = (score: IInstrumentScore) => {
+    if (score.positive) return TONES.positive;
+    return score.complete ? TONES.negative : TONES.incomplete;
+  };
+
+  const content = (
+    <ul className="space-y-3">
+      {scores.map(score => (
+        <li
+          key={score.questionId}
+          className={`flex items-start p-3 rounded border ${tone(score).row}`}
+        >
+          {score.positive && <FiAlertTriangle className="text-red-600 mt-1 mr-2 flex-shrink-0" />}
+          {!score.positive && score.complete && <FiCheckCircle className="text-green-600 mt-1 mr-2 flex-shrink-0" />}
+          {!score.positive && !score.complete && <FiHelpCircle className="text-gray-500 mt-1 mr-2 flex-shrink-0" />}
+          <div className="flex-1">
+            <div className="flex justify-between">
+              <span className="font-medium">{score.label}</span>
+              <span className={tone(score).badge}>
+                {formatScore(score)}
+              </span>
+            </div>
+            <div className="text-sm text-gray-700">
+              {score.interpretation}
+              {!score.complete && <span className="text-gray-500"> (incomplete)</span>}
+            </div>
+            {score.followUp && (
+              <div className="text-sm text-red-700 mt-1">Follow-up: {score.followUp}</div>
+            )}
+          </div>
+        </li>
+      ))}
+    </ul>
+  );
+
+  if (compact) {
+    return content;
+  }
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold">Screening Results</h2>
+        {positiveCount > 0 && (
+          <span className="badge badge-red">{positiveCount} positive</span>
+        )}
+      </div>
+      {content}
+    </div>
+  );
+}
@@ -0,0 +1,119 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import { FiAlertTriangle, FiCheckCircle, FiEdit3 } from 'react-icons/fi';
+import visitService, { IVisitAddendum, IVisitResponse } from '@/services/visitService';
+import { useCan } from '@/contexts/AuthContext';
+
+interface VisitSignatureCardProps {
+  visit: IVisitResponse;
+  // Offer the addendum form; the report shows the signature read-only
+  editable?: boolean;
+  onAddendumAdded?: (addendum: IVisitAddendum) => void;
+}
+
+const formatDateTime = (value: string) => new Date(value).toLocaleString();
+
+/**
+ * The provider's signature on a signed visit and the addenda added after it,
+ * oldest first. The signed content is read-only, so addenda are the only way
+ * to correct or add to it.
+ */
+export default function VisitSignatureCard({ visit, editable = false, onAddendumAdded }: VisitSignatureCardProps) {
+  const [text, setText] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const can = useCan();
+
+  if (!visit.signature) {
+    return null;
+  }
+
+  const addenda = visit.addenda || [];
+  const canAdd = editable && visit.status === 'signed' && can('visits:complete');
+
+  const handleSubmit = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!text.trim()) return;
+
+    try {
+      setIsSaving(true);
+      setError(null);
+
+      const addendum = await visitService.addAddendum(visit._id, text);
+      setText('');
+      onAddendumAdded?.(addendum);
+    } catch (err: any) {
+      setError(err.message || 'Failed to add the addendum');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <FiEdit3 className="mr-2" /> Signature
+        </h2>
+        {visit.signatureValid === false ? (
+          <span className="badge badge-red flex items-center">
+            <FiAlertTriangle className="mr-1" /> Changed after signing
+          </span>
+        ) : visit.signatureValid && (
+          <span className="badge badge-green flex items-center">
+            <FiCheckCircle className="mr-1" /> Verified
+          </span>
+        )}
+      </div>
+
+      <p className="text-sm text-gray-700">
+        Electronically signed by {visit.signature.signedByName} (NPI {visit.signature.npiNumber}) on {formatDateTime(visit.signature.signedAt)}.
+      </p>
+      <p className="text-xs text-gray-500 mt-1 break-all">Content hash (SHA-256): {visit.signature.contentHash}</p>
+
+      {addenda.length > 0 && (
+        <div className="border-t mt-4 pt-3">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">Addenda</h3>
+          <ol className="space-y-3">
+            {addenda.map(addendum => (
+              <li key={addendum.version} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">Addendum {addendum.version}</span>
+                  <span className="text-gray-500">{formatDateTime(addendum.createdAt)}</span>
+                </div>
+                <p className="text-gray-700 whitespace-pre-wrap mt-1">{addendum.text}</p>
+                <p className="text-xs text-gray-500 mt-1">
+                  {addendum.authorName}{addendum.authorNpi ? ` (NPI ${addendum.authorNpi})` : ''}
+                </p>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+
+      {canAdd && (
+        <form onSubmit={handleSubmit} className="border-t mt-4 pt-3 space-y-2">
+          <label htmlFor="addendumText" className="block text-sm font-medium text-gray-700">
+            Add an addendum
+          </label>
+          {error && (
+            <div className="bg-red-50 text-red-700 p-3 rounded text-sm">{error}</div>
+          )}
+          <textarea
+            id="addendumText"
+            rows={3}
+            className="form-input"
+            placeholder="Correction or late entry; the signed documentation above stays unchanged"
+            value={text}
+            onChange={e => setText(e.target.value)}
+            maxLength={10000}
+          />
+          <button type="submit" className="btn-primary" disabled={isSaving || !text.trim()}>
+            {isSaving ? 'Saving...' : 'Add Addendum'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+'use client';
+
+import { FormEvent, useState } from 'react';
+import Link from 'next/link';
+import { format } from 'date-fns';
+import { FiActivity, FiArrowRight } from 'react-icons/fi';
+import visitService, { ApiError, ISchedulingConflict, IVisitResponse } from '@/services/visitService';
+import { useCan } from '@/contexts/AuthContext';
+import {
+  REASON_REQUIRED_STATUSES,
+  STATUS_REASON_SUGGESTIONS,
+  VISIT_STATUS_BADGES,
+  VISIT_STATUS_LABELS,
+  VISIT_TRANSITIONS,
+  VisitStatus,
+} from '@/lib/visitLifecycle';
+
+interface VisitStatusCardProps {
+  visit: IVisitResponse;
+  // Called with the reloaded visit after its status changed
+  onChanged: (visit: IVisitResponse) => void;
+}
+
+interface StatusAction {
+  to: VisitStatus;
+  label: string;
+  className: string;
+}
+
+// The buttons for the transitions out of a status. Starting and completing a
+// visit happen on the conduct page, so they are not offered here.
+function statusActions(from: VisitStatus): StatusAction[] {
+  return VISIT_TRANSITIONS[from].flatMap((to): StatusAction[] => {
+    switch (to) {
+      case 'checked-in':
+        return [{ to, label: 'Check In', className: 'btn-primary' }];
+      case 'scheduled':
+        return [{ to, label: from === 'cancelled' ? 'Reinstate' : 'Undo Check-in', className: 'btn-secondary' }];
+      case 'in-progress':
+        return from === 'completed' ? [{ to, label: 'Reopen', className: 'btn-secondary' }] : [];
+      case 'signed':
+        return [{ to, label: 'Sign', className: 'btn-primary' }];
+      case 'rescheduled':
+        return [{ to, label: 'Reschedule', className: 'btn-secondary' }];
+      case 'no-show':
+        return [{ to, label: 'Mark No-show', className: 'btn-secondary' }];
+      case 'cancelled':
+        return [{ to, label: 'Cancel Visit', className: 'btn-danger' }];
+      default:
+        return [];
+    }
+  });
+}
+
+const CONFIRM_MESSAGES: Partial<Record<VisitStatus, string>> = {
+  'in-progress': 'Reopen this completed visit for corrections? It will need to be completed again.',
+  scheduled: 'Move this visit back to scheduled?',
+};
+
+const toLocalInput = (date: string | Date) => format(new Date(date), "yyyy-MM-dd'T'HH:mm");
+
+/**
+ * The visit's status with the changes allowed from it, and its status
+ * history. Cancelling, marking a no-show and rescheduling ask for a reason
+ * first; rescheduling also asks for the new time and links to the new visit.
+ * Signing asks for the provider's NPI if none is on their profile yet.
+ */
+export default function VisitStatusCard({ visit, onChanged }: VisitStatusCardProps) {
+  const [pending, setPending] = useState<VisitStatus | null>(null);
+  const [reason, setReason] = useState('');
+  const [newDate, setNewDate] = useState('');
+  const [npiNumber, setNpiNumber] = useState('');
+  const [isBusy, setIsBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [conflicts, setConflicts] = useState<ISchedulingConflict[]>([]);
+  const can = useCan();
+
+  const actions = statusActions(visit.status).filter(action =>
+    action.to === 'signed' || (action.to === 'in-progress' && visit.status === 'completed')
+      ? can('visits:complete')
+      : can('visits:write')
+  );
+
+  const changeStatus = async (to: VisitStatus, details: { reason?: string; scheduledDate?: Date; npiNumber?: string } = {}) => {
+    try {
+      setIsBusy(true);
+      setError(null);
+      setConflicts([]);
+
+      await visitService.updateVisit(visit._id, {
+        status: to,
+        reason: details.reason || undefined,
+        scheduledDate: details.scheduledDate,
+        npiNumber: details.npiNumber || undefined,
+        revision: visit.revision,
+      });
+      onChanged(await visitService.getVisitById(visit._id));
+      setPending(null);
+      setReason('');
+      setNpiNumber('');
+    } catch (err: any) {
+      setError(err.message || 'Failed to change the visit status');
+      if (err instanceof ApiError && err.status === 409 && Array.isArray(err.details)) {
+        setConflicts(err.details);
+      }
+    } finally {
+      setIsBusy(false);
+    }
+  };
+
+  const handleAction = (action: StatusAction) => {
+    if (action.to === 'cancelled' || action.to === 'no-show' || action.to === 'rescheduled' || action.to === 'signed') {
+      setPending(action.to);
+      setReason('');
+      setNewDate(toLocalInput(visit.scheduledDate));
+      setError(null);
+      setConflicts([]);
+      return;
+    }
+    const message = CONFIRM_MESSAGES[action.to];
+    if (message && !window.confirm(message)) {
+      return;
+    }
+    changeStatus(action.to);
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    if (!pending) return;
+    changeStatus(pending, {
+      reason: reason.trim(),
+      scheduledDate: pending === 'rescheduled' ? new Date(newDate) : undefined,
+      npiNumber: pending === 'signed' ? npiNumber.trim() : undefined,
+    });
+  };
+
+  const history = [...(visit.statusHistory || [])].reverse();
+  const suggestions = pending ? STATUS_REASON_SUGGESTIONS[pending] || [] : [];
+
+  return (
+    <div className="card mb-6">
+      <div className="flex justify-between items-center mb-4">
+        <h2 className="text-lg font-semibold flex items-center">
+          <FiActivity className="mr-2" /> Status
+        </h2>
+        <span className={VISIT_STATUS_BADGES[visit.status] || 'badge badge-gray'}>
+          {VISIT_STATUS_LABELS[visit.status] || visit.status}
+        </span>
+      </div>
+
+      {visit.statusReason && (
+        <p className="text-sm text-gray-700 mb-3">Reason: {visit.statusReason}</p>
+      )}
+
+      {visit.rescheduledTo && (
+        <Link href={`/dashboard/visits/${visit.rescheduledTo}`} className="text-sm text-primary-600 hover:underline flex items-center mb-3">
+          Rescheduled to a new visit <FiArrowRight className="ml-1" />
+        </Link>
+      )}
+      {visit.rescheduledFrom && (
+        <Link href={`/dashboard/visits/${visit.rescheduledFrom}`} className="text-sm text-primary-600 hover:underline flex items-center mb-3">
+          Replaces a rescheduled visit <FiArrowRight className="ml-1" />
+        </Link>
+      )}
+
+      {error && (
+        <div className="bg-red-50 text-red-700 p-3 rounded text-sm mb-4">
+          <p>{error}</p>
+          {conflicts.length > 0 && (
+            <ul className="list-disc list-inside mt-1">
+              {conflicts.map(conflict => (
+                <li key={conflict.visitId}>
+                  {conflict.patientName || 'Another visit'}: {visitService.formatDate(conflict.scheduledDate)} ({conflict.durationMinutes} min)
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      )}
+
+      {pending ? (
+        <form onSubmit={handleSubmit} className="space-y-3 mb-4">
+          {pending === 'rescheduled' && (
+            <div>
+              <label htmlFor="rescheduleDate" className="block text-sm font-medium text-gray-700 mb-1">
+                New date and time <span className="text-red-500">*</span>
+              </label>
+              <input
+                type="datetime-local"
+                id="rescheduleDate"
+                className="form-input"
+                value={newDate}
+                onChange={e => setNewDate(e.target.value)}
+                required
+              />
+            </div>
+          )}
+          {pending === 'signed' ? (
+            <>
+              <p className="text-sm text-gray-700">
+                By signing you attest that this documentation is accurate and complete. The visit becomes read-only;
+                later changes can only be added as addenda.
+              </p>
+              <div>
+                <label htmlFor="signerNpi" className="block text-sm font-medium text-gray-700 mb-1">
+                  NPI number
+                </label>
+                <input
+                  id="signerNpi"
+                  className="form-input"
+                  inputMode="numeric"
+                  pattern="\d{10}"
+                  maxLength={10}
+                  placeholder="Leave blank to use the NPI on your profile"
+                  value={npiNumber}
+                  onChange={e => setNpiNumber(e.target.value)}
+                />
+              </div>
+            </>
+          ) : (
+            <div>
+              <label htmlFor="statusReason" className="block text-sm font-medium text-gray-700 mb-1">
+                Reason {REASON_REQUIRED_STATUSES.includes(pending) && <span className="text-red-500">*</span>}
+              </label>
+              <input
+                id="statusReason"
+                className="form-input"
+                list="statusReasonSuggestions"
+                maxLength={500}
+                value={reason}
+                onChange={e => setReason(e.target.value)}
+                required={REASON_REQUIRED_STATUSES.includes(pending)}
+              />
+              <datalist id="statusReasonSuggestions">
+                {suggestions.map(suggestion => <option key={suggestion} value={suggestion} />)}
+              </datalist>
+            </div>
+          )}
+          <div className="flex gap-2">
+            <button type="submit" className={pending === 'cancelled' ? 'btn-danger' : 'btn-primary'} disabled={isBusy}>
+              {isBusy ? 'Saving...'
+                : pending === 'rescheduled' ? 'Reschedule'
+                : pending === 'signed' ? 'Sign Visit'
+                : `Mark ${VISIT_STATUS_LABELS[pending].toLowerCase()}`}
+            </button>
+            <button type="button" className="btn-secondary" onClick={() => setPending(null)} disabled={isBusy}>
+              Back
+            </button>
+          </div>
+        </form>
+      ) : actions.length > 0 && (
+        <div className="flex flex-wrap gap-2 mb-4">
+          {actions.map(action => (
+            <button
+              key={action.to}
+              type="button"
+              className={action.className}
+              onClick={() => handleAction(action)}
+              disabled={isBusy}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      )}
+
+      {history.length > 0 && (
+        <div className="border-t pt-3">
+          <h3 className="text-sm font-medium text-gray-700 mb-2">History</h3>
+          <ol className="space-y-2">
+            {history.map((change, index) => (
+              <li key={index} className="text-sm">
+                <div className="flex justify-between gap-2">
+                  <span className="font-medium">{VISIT_STATUS_LABELS[change.to] || change.to}</span>
+                  <span className="text-gray-500">{visitService.formatDate(String(change.at))}</span>
+                </div>
+                <div className="text-gray-600">
+                  {change.changedByEmail && <span>by {change.changedByEmail}</span>}
+                  {change.reason && <span>{change.changedByEmail ? ' - ' : ''}{change.reason}</span>}
+                </div>
+              </li>
+            ))}
+          </ol>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -4,9 +4,15 @@ import React, { createContext, useContext, useEffect, useState } from 'react';
 import { User } from 'firebase/auth';
 import { onAuthChange } from '@/lib/firebase';
 import { useRouter, usePathname } from 'next/navigation';
+import userService from '@/services/userService';
+import { hasPermission, normalizeRole, Permission, Role } from '@/lib/permissions';
+import { clearDrafts } from '@/lib/offlineDrafts';
+import { syncPendingDrafts } from '@/lib/draftSync';
 
 interface AuthContextType {
   user: User | null;
+  // Role of the signed-in user, null until it has been loaded
+  role: Role | null;
   loading: boolean;
   error: string | null;
   logout: () => Promise<void>;
@@ -14,6 +20,7 @@ interface AuthContextType {
 
 const AuthContext = createContext<AuthContextType>({
   user: null,
+  role: null,
   loading: true,
   error: null,
   logout: async () => {},
@@ -21,6 +28,7 @@ const AuthContext = createContext<AuthContextType>({
 
 export function AuthProvider({ children }: { children: React.ReactNode }) {
   const [user, setUser] = useState<User | null>(null);
+  const [role, setRole] = useState<Role | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const router = useRouter();
@@ -51,13 +59,33 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  // Load the role used to decide which actions to show
+  useEffect(() => {
+    if (!user) {
+      setRole(null);
+      return;
+    }
+
+    let cancelled = false;
+    userService.getUserRole(user.uid).then(({ role }) => {
+      if (!cancelled) {
+        setRole(normalizeRole(role));
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [user]);
+
   // Protected routes logic
   useEffect(() => {
     // Only run on client side
     if (typeof window === 'undefined') return;
     
     if (!loading) {
-      const publicPaths = ['/', '/login', '/register'];
+      // The pre-visit questionnaire is opened by patients, who have no account
+      const publicPaths = ['/', '/login', '/register', '/intake'];
       const isPublicPath = publicPaths.includes(pathname);
 
       // If there's an auth error, we should still allow access to public paths
@@ -78,6 +106,12 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
 
   const logout = async () => {
     try {
+      // Visit drafts must not outlive the session on a shared workstation: push what can be pushed, then discard them
+      if (user) {
+        await syncPendingDrafts(user.uid).catch(error => console.error('Error syncing offline drafts:', error));
+      }
+      await clearDrafts().catch(error => console.error('Error clearing offline drafts:', error));
+
       // Import dynamically to avoid SSR issues
       const { logout: firebaseLogout } = await import('@/lib/firebase');
       await firebaseLogout();
@@ -89,10 +123,22 @@ export function AuthProvider({ children }: { children: React.ReactNode }) {
   };
 
   return (
-    <AuthContext.Provider value={{ user, loading, error, logout }}>
+    <AuthContext.Provider value={{ user, role, loading, error, logout }}>
       {children}
     </AuthContext.Provider>
   );
 }
 
-export const useAuth = () => useContext(AuthContext); 
\ No newline at end of file
+export const useAuth = () => useContext(AuthContext);
+
+/**
+ * Check permissions of the signed-in user for hiding UI, using the same
+ * matrix the API enforces:
+ *
+ *   const can = useCan();
+ *   {can('templates:publish') && <button>Publish</button>}
+ */
+export const useCan = () => {
+  const { role } = useAuth();
+  return (permission: Permission) => hasPermission(role, permission);
+}; 
\ No newline at end of file
@@ -0,0 +1,155 @@
+import { NextResponse } from 'next/server';
+import jwt from 'jsonwebtoken';
+import connectToDatabase from '@/lib/mongodb';
+import User from '@/models/User';
+import { hasPermission, normalizeRole, Permission, Role } from '@/lib/permissions';
+
+/**
+ * Server-side authentication for API routes.
+ *
+ * Requests are authenticated with either the JWT issued by /api/auth/login
+ * (the `auth_token` cookie or a bearer token) or a Firebase ID token sent
+ * as a bearer token by the client services.
+ */
+
+/**
+ * The secret shared with /api/auth/login, which signs the tokens verified
+ * here. Only development falls back to a fixed secret: anywhere else anyone
+ * could sign a token with it, so JWT auth is refused until NEXTAUTH_SECRET
+ * is set.
+ */
+export function getJwtSecret(): string | null {
+  if (process.env.NEXTAUTH_SECRET) return process.env.NEXTAUTH_SECRET;
+  return process.env.NODE_ENV === 'development' ? 'development-only-nextauth-secret-key' : null;
+}
+
+export interface RequestUser {
+  id: string;
+  email: string;
+  name?: string;
+  role: Role;
+}
+
+// Firebase Admin is loaded lazily and only when a service account is configured
+let firebaseAdmin: any = null;
+export const getFirebaseAdmin = async () => {
+  if (firebaseAdmin) return firebaseAdmin;
+
+  const serviceAccount = process.env.FIREBASE_SERVICE_ACCOUNT;
+  if (!serviceAccount) return null;
+
+  try {
+    const admin = (await import('firebase-admin')).default;
+    if (!admin.apps.length) {
+      admin.initializeApp({
+        credential: admin.credential.cert(JSON.parse(serviceAccount)),
+        databaseURL: process.env.FIREBASE_DATABASE_URL
+      });
+    }
+    firebaseAdmin = admin;
+    return admin;
+  } catch (error) {
+    console.error('Error initializing Firebase Admin SDK:', error);
+    return null;
+  }
+};
+
+const getToken = (request: Request): string | null => {
+  const authorization = request.headers.get('authorization');
+  if (authorization?.startsWith('Bearer ')) {
+    return authorization.substring(7).trim() || null;
+  }
+
+  const cookie = request.headers.get('cookie') || '';
+  const match = cookie.match(/(?:^|;\s*)auth_token=([^;]+)/);
+  return match ? decodeURIComponent(match[1]) : null;
+};
+
+const verifyFirebaseToken = async (token: string) => {
+  const admin = await getFirebaseAdmin();
+  if (!admin) return null;
+
+  try {
+    return await admin.auth().verifyIdToken(token);
+  } catch (error) {
+    return null;
+  }
+};
+
+// Resolve the signed-in user for a request, or null when it is unauthenticated
+export async function getRequestUser(request: Request): Promise<RequestUser | null> {
+  const token = getToken(request);
+  if (!token) return null;
+
+  let claims: { email?: string; name?: string } | null = null;
+
+  const secret = getJwtSecret();
+  if (secret) {
+    try {
+      const decoded = jwt.verify(token, secret) as jwt.JwtPayload;
+      claims = { email: decoded.email, name: decoded.name };
+    } catch (error) {
+      claims = null;
+    }
+  }
+
+  if (!claims) {
+    const decoded = await verifyFirebaseToken(token);
+    if (decoded) {
+      claims = { email: decoded.email, name: decoded.name };
+    }
+  }
+
+  if (!claims?.email) return null;
+
+  // The stored user is the source of truth for the role and whether the account is active;
+  // a token alone never grants a role
+  await connectToDatabase();
+  const user: any = await User.findOne({ email: claims.email.toLowerCase() })
+    .select('name email role isActive')
+    .lean();
+
+  if (!user || user.isActive === false) return null;
+
+  const role = normalizeRole(user.role);
+  if (!role) return null;
+
+  return {
+    id: String(user._id),
+    email: claims.email,
+    name: user.name || claims.name,
+    role,
+  };
+}
+
+type PermissionResult =
+  | { user: RequestUser; response?: undefined }
+  | { user?: undefined; response: NextResponse };
+
+/**
+ * Check that the request comes from a user with the given permission.
+ * Returns the user, or a 401/403 response the route should return as is:
+ *
+ *   const auth = await requirePermission(request, 'patients:read');
+ *   if (auth.response) return auth.response;
+ */
+export async function requirePermission(request: Request, permission: Permission): Promise<PermissionResult> {
+  const user = await getRequestUser(request);
+
+  if (!user) {
+    return {
+      response: NextResponse.json({ success: false, error: 'Authentication required' }, { status: 401 })
+    };
+  }
+
+  if (!hasPermission(user.role, permission)) {
+    return {
+      response: NextResponse.json(
+        { success: false, error: `You do not have permission to perform this action (${permission})` },
+        { status: 403 }
+      )
+    };
+  }
+
+  return { user };
+}
@@ -0,0 +1,18 @@
+import { getIdToken } from '@/lib/firebase';
+
+/**
+ * fetch() for the app's API. Attaches the signed-in user's Firebase ID token
+ * so API routes can check the user's permissions.
+ */
+export async function apiFetch(input: RequestInfo | URL, init: RequestInit = {}): Promise<Response> {
+  const headers = new Headers(init.headers);
+
+  if (!headers.has('Authorization')) {
+    const token = await getIdToken();
+    if (token) {
+      headers.set('Authorization', `Bearer ${token}`);
+    }
+  }
+
+  return fetch(input, { ...init, headers });
+}
@@ -0,0 +1,119 @@
+import AuditEvent, { AuditAction, AuditResourceType, IAuditChange, IAuditEventBase } from '@/models/AuditEvent';
+import type { RequestUser } from '@/lib/apiAuth';
+import { csvCell } from '@/lib/csv';
+
+/**
+ * Audit logging for reads and changes of patients, visits and templates.
+ *
+ * API routes call recordAuditEvent after a successful operation. Failures to
+ * write the audit event are logged and never fail the request itself.
+ */
+
+// Bookkeeping fields that change on every save and say nothing about the record
+const IGNORED_FIELDS = ['_id', '__v', 'createdAt', 'updatedAt'];
+
+interface AuditEventInput {
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  resourceId?: string;
+  // Record state before and after a write, used for the field-level diff
+  before?: unknown;
+  after?: unknown;
+  details?: Record<string, unknown>;
+}
+
+// Mongoose documents, ObjectIds and dates become plain JSON values
+const toPlain = (value: unknown): any => {
+  if (value === undefined || value === null) return undefined;
+  const plain = typeof (value as any).toObject === 'function' ? (value as any).toObject() : value;
+  return JSON.parse(JSON.stringify(plain));
+};
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// List the fields that differ between two records, using dot paths for nested objects.
+// Arrays are compared as a whole value.
+export function diffFields(before: unknown, after: unknown, prefix = ''): IAuditChange[] {
+  const a = isPlainObject(before) ? before : {};
+  const b = isPlainObject(after) ? after : {};
+  const changes: IAuditChange[] = [];
+
+  const keys = Array.from(new Set([...Object.keys(a), ...Object.keys(b)]));
+  keys.forEach((key) => {
+    if (!prefix && IGNORED_FIELDS.includes(key)) return;
+
+    const field = prefix ? `${prefix}.${key}` : key;
+    const oldValue = a[key];
+    const newValue = b[key];
+
+    if (isPlainObject(oldValue) && isPlainObject(newValue)) {
+      changes.push(...diffFields(oldValue, newValue, field));
+      return;
+    }
+
+    if (JSON.stringify(oldValue) !== JSON.stringify(newValue)) {
+      changes.push({ field, before: oldValue, after: newValue });
+    }
+  });
+
+  return changes;
+}
+
+const getClientIp = (request: Request): string | undefined => {
+  const forwarded = request.headers.get('x-forwarded-for');
+  if (forwarded) return forwarded.split(',')[0].trim();
+  return request.headers.get('x-nf-client-connection-ip') || request.headers.get('x-real-ip') || undefined;
+};
+
+// Usually the signed-in user; patients submitting a pre-visit questionnaire are recorded with role 'patient'
+type AuditActor = Pick<RequestUser, 'id' | 'email'> & { role: string };
+
+export async function recordAuditEvent(request: Request, actor: AuditActor, event: AuditEventInput): Promise<void> {
+  try {
+    const changes = event.action === 'read' || event.action === 'export'
+      ? []
+      : diffFields(toPlain(event.before), toPlain(event.after));
+
+    await AuditEvent.create({
+      actor: { id: actor.id, email: actor.email, role: actor.role },
+      action: event.action,
+      resourceType: event.resourceType,
+      resourceId: event.resourceId,
+      changes,
+      details: event.details,
+      ipAddress: getClientIp(request),
+      userAgent: request.headers.get('user-agent') || undefined,
+      timestamp: new Date()
+    });
+  } catch (error) {
+    console.error('Error recording audit event:', error);
+  }
+}
+
+// Ids of the records returned by a list read, stored in the event details
+export const listedIds = (records: { _id?: unknown }[]): string[] =>
+  records.map((record) => String(record._id));
+
+export const AUDIT_CSV_COLUMNS = [
+  'timestamp', 'actorEmail', 'actorRole', 'action', 'resourceType', 'resourceId',
+  'changedFields', 'changes', 'details', 'ipAddress', 'userAgent'
+];
+
+export function auditEventsToCsv(events: IAuditEventBase[]): string {
+  const rows = events.map((event) => [
+    new Date(event.timestamp).toISOString(),
+    event.actor?.email,
+    event.actor?.role,
+    event.action,
+    event.resourceType,
+    event.resourceId,
+    (event.changes || []).map((change) => change.field).join('; '),
+    event.changes && event.changes.length > 0 ? event.changes : undefined,
+    event.details,
+    event.ipAddress,
+    event.userAgent
+  ].map(csvCell).join(','));
+
+  return [AUDIT_CSV_COLUMNS.join(','), ...rows].join('\r\n') + '\r\n';
+}
@@ -0,0 +1,106 @@
+import { nextAwvEligibleDate } from '@/lib/billing';
+import { isCompletedStatus, isOpenStatus } from '@/lib/visitLifecycle';
+
+/**
+ * When a patient can next have an Annual Wellness Visit. Medicare covers one
+ * AWV every 12 months, counted from the first of the month a year after the
+ * last completed one (see nextAwvEligibleDate). Statuses are relative to the
+ * current month so the worklist reads like a monthly recall list.
+ */
+
+export const AWV_STATUSES = ['never', 'overdue', 'due', 'not-due'] as const;
+
+export type AwvStatus = typeof AWV_STATUSES[number];
+
+export const AWV_STATUS_LABELS: Record<AwvStatus, string> = {
+  never: 'Never had AWV',
+  overdue: 'Overdue',
+  due: 'Due this month',
+  'not-due': 'Not yet due',
+};
+
+export interface AwvHistory {
+  // Date of the last completed AWV
+  lastAwvDate?: string | Date | null;
+  // Earliest open visit from today on, so staff can see it is already booked
+  nextScheduledDate?: string | Date | null;
+}
+
+export interface AwvEligibility {
+  status: AwvStatus;
+  lastAwvDate: string | null;
+  nextEligibleDate: string | null;
+  nextScheduledDate: string | null;
+}
+
+export interface AwvVisitInput {
+  status?: string;
+  scheduledDate?: string | Date;
+  completedAt?: string | Date | null;
+}
+
+const toDate = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const isoDate = (date: Date | null) => (date ? date.toISOString().slice(0, 10) : null);
+
+const startOfMonth = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), 1));
+
+const startOfDay = (date: Date) => new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth(), date.getUTCDate()));
+
+// The last completed AWV and next booked visit from a patient's visits
+export function summarizeAwvVisits(visits: AwvVisitInput[], today: Date = new Date()): AwvHistory {
+  const todayStart = startOfDay(today);
+  let lastAwvDate: Date | null = null;
+  let nextScheduledDate: Date | null = null;
+
+  visits.forEach(visit => {
+    if (isCompletedStatus(visit.status)) {
+      const date = toDate(visit.completedAt) || toDate(visit.scheduledDate);
+      if (date && (!lastAwvDate || date > lastAwvDate)) lastAwvDate = date;
+    } else if (isOpenStatus(visit.status)) {
+      const date = toDate(visit.scheduledDate);
+      if (date && date >= todayStart && (!nextScheduledDate || date < nextScheduledDate)) nextScheduledDate = date;
+    }
+  });
+
+  return { lastAwvDate, nextScheduledDate };
+}
+
+export function awvEligibility(history: AwvHistory, today: Date = new Date()): AwvEligibility {
+  const lastAwv = toDate(history.lastAwvDate);
+  const nextScheduledDate = isoDate(toDate(history.nextScheduledDate));
+
+  if (!lastAwv) {
+    return { status: 'never', lastAwvDate: null, nextEligibleDate: null, nextScheduledDate };
+  }
+
+  const eligible = nextAwvEligibleDate(lastAwv);
+  const thisMonth = startOfMonth(today);
+  const nextMonth = new Date(Date.UTC(thisMonth.getUTCFullYear(), thisMonth.getUTCMonth() + 1, 1));
+
+  let status: AwvStatus = 'not-due';
+  if (eligible < thisMonth) {
+    status = 'overdue';
+  } else if (eligible < nextMonth) {
+    status = 'due';
+  }
+
+  return { status, lastAwvDate: isoDate(lastAwv), nextEligibleDate: isoDate(eligible), nextScheduledDate };
+}
+
+// The first day a new AWV can be booked: today, or the eligible date when that is later
+export function suggestedAwvDate(eligibility: AwvEligibility, today: Date = new Date()): string {
+  const todayIso = isoDate(startOfDay(today))!;
+  return eligibility.nextEligibleDate && eligibility.nextEligibleDate > todayIso ? eligibility.nextEligibleDate : todayIso;
+}
+
+// Dates here are calendar days in UTC; formatting them in local time could show the day before
+export const formatAwvDate = (date: string) => new Date(date).toLocaleDateString(undefined, { timeZone: 'UTC' });
+
+// Link to the new visit form with the patient and date filled in
+export const scheduleAwvHref = (patientId: string, eligibility: AwvEligibility, today: Date = new Date()) =>
+  `/dashboard/visits/new?patientId=${encodeURIComponent(patientId)}&date=${suggestedAwvDate(eligibility, today)}`;
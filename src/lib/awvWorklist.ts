@@ -0,0 +1,145 @@
+import Patient from '@/models/Patient';
+import Visit from '@/models/Visit';
+import { AWV_STATUSES, awvEligibility, AwvEligibility, AwvStatus } from '@/lib/awvEligibility';
+import { COMPLETED_VISIT_STATUSES, OPEN_VISIT_STATUSES } from '@/lib/visitLifecycle';
+
+/**
+ * The AWV recall worklist: every patient with their last completed AWV, next
+ * eligible date and status. Eligibility is computed from the visits on each
+ * request rather than stored on the patient, so completing, deleting or
+ * merging visits is reflected immediately. Filtering, ordering and paging run
+ * in a single aggregation so only the requested page leaves the database.
+ */
+
+export interface AwvWorklistParams {
+  status?: AwvStatus | 'all';
+  search?: string;
+  page?: number;
+  limit?: number;
+  today?: Date;
+}
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const isMissing = (field: string) => ({ $eq: [{ $ifNull: [field, null] }, null] });
+
+export async function getAwvWorklist({ status = 'all', search = '', page = 1, limit = 20, today = new Date() }: AwvWorklistParams) {
+  const todayStart = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), today.getUTCDate()));
+  const thisMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth(), 1));
+  const nextMonth = new Date(Date.UTC(today.getUTCFullYear(), today.getUTCMonth() + 1, 1));
+
+  const query: any = {};
+  if (search) {
+    const pattern = { $regex: escapeRegex(search), $options: 'i' };
+    query.$or = [{ firstName: pattern }, { lastName: pattern }, { email: pattern }, { medicalRecordNumber: pattern }];
+  }
+
+  const statusFilter = status === 'all' ? [] : [{ $match: { awvStatus: status } }];
+  const skip = (page - 1) * limit;
+
+  const [result]: any[] = await Patient.aggregate([
+    { $match: query },
+    { $project: { firstName: 1, lastName: 1, dateOfBirth: 1, gender: 1, email: 1, phoneNumber: 1, medicalRecordNumber: 1 } },
+    {
+      $lookup: {
+        from: Visit.collection.name,
+        let: { patientId: '$_id' },
+        pipeline: [
+          {
+            $match: {
+              $expr: { $eq: ['$patient', '$$patientId'] },
+              status: { $in: [...COMPLETED_VISIT_STATUSES, ...OPEN_VISIT_STATUSES] }
+            }
+          },
+          {
+            $group: {
+              _id: null,
+              // $max and $min skip the nulls of visits that do not count
+              lastAwvDate: {
+                $max: { $cond: [{ $in: ['$status', COMPLETED_VISIT_STATUSES] }, { $ifNull: ['$completedAt', '$scheduledDate'] }, null] }
+              },
+              nextScheduledDate: {
+                $min: {
+                  $cond: [
+                    { $and: [{ $in: ['$status', OPEN_VISIT_STATUSES] }, { $gte: ['$scheduledDate', todayStart] }] },
+                    '$scheduledDate',
+                    null
+                  ]
+                }
+              }
+            }
+          }
+        ],
+        as: 'history'
+      }
+    },
+    {
+      $addFields: {
+        lastAwvDate: { $arrayElemAt: ['$history.lastAwvDate', 0] },
+        nextScheduledDate: { $arrayElemAt: ['$history.nextScheduledDate', 0] }
+      }
+    },
+    // The first of the same month a year after the last AWV, as in nextAwvEligibleDate
+    {
+      $addFields: {
+        nextEligibleDate: {
+          $cond: [
+            isMissing('$lastAwvDate'),
+            null,
+            { $dateFromParts: { year: { $add: [{ $year: '$lastAwvDate' }, 1] }, month: { $month: '$lastAwvDate' }, day: 1 } }
+          ]
+        }
+      }
+    },
+    // The same statuses as awvEligibility, which formats the returned page
+    {
+      $addFields: {
+        awvStatus: {
+          $switch: {
+            branches: [
+              { case: isMissing('$nextEligibleDate'), then: 'never' },
+              { case: { $lt: ['$nextEligibleDate', thisMonth] }, then: 'overdue' },
+              { case: { $lt: ['$nextEligibleDate', nextMonth] }, then: 'due' }
+            ],
+            default: 'not-due'
+          }
+        }
+      }
+    },
+    {
+      $facet: {
+        counts: [{ $group: { _id: '$awvStatus', count: { $sum: 1 } } }],
+        total: [...statusFilter, { $count: 'count' }],
+        // Most urgent first: the longest overdue, then by eligible date, then patients never seen by name
+        patients: [
+          ...statusFilter,
+          { $addFields: { neverSeen: { $cond: [isMissing('$nextEligibleDate'), 1, 0] } } },
+          { $sort: { neverSeen: 1, nextEligibleDate: 1, lastName: 1, firstName: 1, _id: 1 } },
+          { $skip: skip },
+          { $limit: limit },
+          { $project: { history: 0, neverSeen: 0, nextEligibleDate: 0, awvStatus: 0 } }
+        ]
+      }
+    }
+  ]).allowDiskUse(true);
+
+  const counts = Object.fromEntries(AWV_STATUSES.map(key => [key, 0])) as Record<AwvStatus, number>;
+  result.counts.forEach((row: any) => { counts[row._id as AwvStatus] = row.count; });
+
+  const total: number = result.total[0]?.count || 0;
+  const patients = result.patients.map(({ lastAwvDate, nextScheduledDate, ...patient }: any) => {
+    const awv: AwvEligibility = awvEligibility({ lastAwvDate, nextScheduledDate }, today);
+    return { ...patient, _id: String(patient._id), awv };
+  });
+
+  return {
+    patients,
+    counts,
+    pagination: {
+      total,
+      page,
+      limit,
+      pages: Math.ceil(total / limit)
+    }
+  };
+}
@@ -0,0 +1,247 @@
+import type { IQuestion, ISection } from '@/models/Template';
+import type { IInstrumentScore } from '@/models/Visit';
+import { formatScore, scoreVisit } from '@/lib/scoring';
+import { flattenResponses, formatAnswer, getSelectedValues, isAnswered, ResponseValue } from '@/lib/visitResponses';
+import { isCompletedStatus } from '@/lib/visitLifecycle';
+
+/**
+ * Medicare billing code suggestions for a completed Annual Wellness Visit.
+ *
+ * The AWV itself is G0438 the first time a patient has one and G0439 after
+ * that. Add-on codes are suggested only when the visit documents the service,
+ * and every suggestion lists the documentation that supports it. These are
+ * suggestions for the biller, not a coding decision.
+ */
+
+export interface BillingVisitInput {
+  _id?: string;
+  id?: string;
+  status?: string;
+  scheduledDate?: string | Date;
+  completedAt?: string | Date | null;
+}
+
+export interface BillingInput {
+  visit: BillingVisitInput & {
+    responses?: unknown;
+    scores?: IInstrumentScore[];
+    healthPlan?: { recommendations?: { domain: string; text: string }[] } | null;
+  };
+  // The template version the visit was conducted with
+  template?: { sections?: ISection[] } | null;
+  // The patient's other visits; only completed ones before this visit count as prior AWVs
+  history: BillingVisitInput[];
+}
+
+export interface BillingCodeSuggestion {
+  code: string;
+  description: string;
+  modifier?: string;
+  kind: 'awv' | 'add-on';
+  // What in the visit record justifies the code
+  documentation: string[];
+  // What the biller still has to confirm before submitting
+  requirements: string[];
+}
+
+export interface BillingWarning {
+  severity: 'warning' | 'info';
+  code?: string;
+  message: string;
+}
+
+export interface BillingSummary {
+  suggestions: BillingCodeSuggestion[];
+  warnings: BillingWarning[];
+  lastAwv: { id: string; date: string } | null;
+}
+
+export const BILLING_CODES = {
+  initialAwv: { code: 'G0438', description: 'Annual wellness visit, initial' },
+  subsequentAwv: { code: 'G0439', description: 'Annual wellness visit, subsequent' },
+  depressionScreening: { code: 'G0444', description: 'Annual depression screening, 5 to 15 minutes' },
+  alcoholScreening: { code: 'G0442', description: 'Annual alcohol misuse screening, 5 to 15 minutes' },
+  alcoholCounseling: { code: 'G0443', description: 'Brief face-to-face behavioral counseling for alcohol misuse, 15 minutes' },
+  advanceCarePlanning: { code: '99497', description: 'Advance care planning, first 30 minutes' },
+} as const;
+
+// Modifier 33 waives the deductible and coinsurance for ACP furnished with an AWV
+const ACP_MODIFIER = '33';
+
+const ACP_PATTERN = /advance(d)?[\s_-]*(care|directive)|living[\s_-]*will|health[\s_-]*care[\s_-]*(proxy|surrogate)|power[\s_-]*of[\s_-]*attorney|\b(polst|molst)\b|end[\s_-]*of[\s_-]*life/i;
+
+const NEGATIVE_ANSWERS = new Set(['no', 'none', 'n/a', 'na', 'false', 'declined']);
+
+const toDate = (value: string | Date | null | undefined): Date | null => {
+  if (!value) return null;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? null : date;
+};
+
+const visitDate = (visit: BillingVisitInput): Date | null =>
+  toDate(visit.completedAt) || toDate(visit.scheduledDate);
+
+const visitId = (visit: BillingVisitInput): string => String(visit._id || visit.id || '');
+
+const formatDate = (date: Date): string => date.toISOString().slice(0, 10);
+
+const monthsBetween = (from: Date, to: Date): number =>
+  (to.getUTCFullYear() - from.getUTCFullYear()) * 12 + to.getUTCMonth() - from.getUTCMonth();
+
+/**
+ * Medicare pays a subsequent AWV once at least 11 full months have passed
+ * after the month of the last one, i.e. from the first of the same month a year later.
+ */
+export function nextAwvEligibleDate(lastAwv: Date): Date {
+  return new Date(Date.UTC(lastAwv.getUTCFullYear() + 1, lastAwv.getUTCMonth(), 1));
+}
+
+// An answer that records something other than a plain "no"
+const isAffirmative = (value: ResponseValue): boolean => {
+  if (!isAnswered(value)) return false;
+  const selected = getSelectedValues(value);
+  return selected.length === 0 || selected.some(item => !NEGATIVE_ANSWERS.has(item.trim().toLowerCase()));
+};
+
+const findScore = (scores: IInstrumentScore[], instrument: IInstrumentScore['instrument']) =>
+  scores.find(score => score.instrument === instrument && score.complete);
+
+const describeScore = (score: IInstrumentScore) =>
+  `${score.label}: ${formatScore(score)} - ${score.interpretation}`;
+
+export function suggestBillingCodes({ visit, template, history }: BillingInput): BillingSummary {
+  const suggestions: BillingCodeSuggestion[] = [];
+  const warnings: BillingWarning[] = [];
+
+  const currentId = visitId(visit);
+  const currentDate = visitDate(visit) || new Date();
+
+  const priorAwvs = history
+    .filter(item => isCompletedStatus(item.status) && visitId(item) !== currentId)
+    .map(item => ({ id: visitId(item), date: visitDate(item) }))
+    .filter((item): item is { id: string; date: Date } => !!item.date && item.date < currentDate)
+    .sort((a, b) => b.date.getTime() - a.date.getTime());
+  const lastAwv = priorAwvs[0] || null;
+
+  // The AWV code itself
+  if (!lastAwv) {
+    suggestions.push({
+      ...BILLING_CODES.initialAwv,
+      kind: 'awv',
+      documentation: ['No prior completed Annual Wellness Visit on record for this patient'],
+      requirements: [
+        'Confirm the patient has not had an AWV with another provider',
+        'Not payable within 12 months of Part B enrollment or of a Welcome to Medicare visit (G0402)',
+      ],
+    });
+  } else {
+    const months = monthsBetween(lastAwv.date, currentDate);
+    suggestions.push({
+      ...BILLING_CODES.subsequentAwv,
+      kind: 'awv',
+      documentation: [
+        `Prior AWV completed on ${formatDate(lastAwv.date)}`,
+        `${priorAwvs.length} prior completed AWV${priorAwvs.length === 1 ? '' : 's'} on record`,
+      ],
+      requirements: [],
+    });
+
+    const eligibleFrom = nextAwvEligibleDate(lastAwv.date);
+    if (currentDate < eligibleFrom) {
+      warnings.push({
+        severity: 'warning',
+        code: BILLING_CODES.subsequentAwv.code,
+        message: `The last AWV was on ${formatDate(lastAwv.date)}, ${months} month${months === 1 ? '' : 's'} before this visit. ` +
+          `Medicare covers a subsequent AWV once 11 full months have passed, so this claim is likely to be denied before ${formatDate(eligibleFrom)}.`,
+      });
+    } else if (currentDate.getTime() - lastAwv.date.getTime() < 365 * 24 * 60 * 60 * 1000) {
+      warnings.push({
+        severity: 'info',
+        code: BILLING_CODES.subsequentAwv.code,
+        message: `The last AWV was on ${formatDate(lastAwv.date)}, less than 12 months ago, but 11 full months have passed since that month.`,
+      });
+    }
+  }
+
+  const isInitial = !lastAwv;
+
+  // Visits saved before scoring was added have no stored scores
+  const scores = visit.scores && visit.scores.length > 0
+    ? visit.scores
+    : scoreVisit(template, visit.responses);
+
+  const depression = findScore(scores, 'phq2');
+  if (depression) {
+    if (isInitial) {
+      // Depression screening is a required element of the initial AWV
+      warnings.push({
+        severity: 'info',
+        code: BILLING_CODES.depressionScreening.code,
+        message: `${BILLING_CODES.depressionScreening.code} is not separately payable with the initial AWV; the depression screen is part of ${BILLING_CODES.initialAwv.code}.`,
+      });
+    } else {
+      suggestions.push({
+        ...BILLING_CODES.depressionScreening,
+        kind: 'add-on',
+        documentation: [describeScore(depression)],
+        requirements: [
+          'Screening was performed in a primary care setting with staff-assisted depression care supports in place',
+          'Not billed in the previous 11 full months',
+        ],
+      });
+    }
+  }
+
+  const alcohol = findScore(scores, 'cageScreening');
+  if (alcohol) {
+    suggestions.push({
+      ...BILLING_CODES.alcoholScreening,
+      kind: 'add-on',
+      documentation: [describeScore(alcohol)],
+      requirements: ['Not billed in the previous 11 full months'],
+    });
+    if (alcohol.positive) {
+      suggestions.push({
+        ...BILLING_CODES.alcoholCounseling,
+        kind: 'add-on',
+        documentation: [describeScore(alcohol)],
+        requirements: ['Bill only if brief counseling was provided and its time is documented in the visit notes'],
+      });
+    }
+  }
+
+  // Advance care planning documented in the responses or the health plan
+  const responseMap = flattenResponses(visit.responses);
+  const acpAnswers = (template?.sections || [])
+    .flatMap(section => section.questions || [])
+    .filter((question: IQuestion) => ACP_PATTERN.test(`${question.id} ${question.text}`) && isAnswered(responseMap[question.id]));
+  const acpRecommendations = (visit.healthPlan?.recommendations || [])
+    .filter(rec => ACP_PATTERN.test(`${rec.domain} ${rec.text}`));
+
+  if (acpRecommendations.length > 0 || acpAnswers.some(question => isAffirmative(responseMap[question.id]))) {
+    suggestions.push({
+      ...BILLING_CODES.advanceCarePlanning,
+      modifier: ACP_MODIFIER,
+      kind: 'add-on',
+      documentation: [
+        ...acpAnswers.map(question => `${question.text}: ${formatAnswer(question, responseMap[question.id])}`),
+        ...acpRecommendations.map(rec => `Health plan: ${rec.text}`),
+      ],
+      requirements: [
+        'At least 16 minutes of face-to-face advance care planning discussion, with the time documented',
+        'Patient was told the service is voluntary and agreed to it',
+      ],
+    });
+  }
+
+  return {
+    suggestions,
+    warnings,
+    lastAwv: lastAwv ? { id: lastAwv.id, date: lastAwv.date.toISOString() } : null,
+  };
+}
+
+// Code with its modifier as it goes on the claim, e.g. "99497-33"
+export function formatBillingCode(suggestion: Pick<BillingCodeSuggestion, 'code' | 'modifier'>): string {
+  return suggestion.modifier ? `${suggestion.code}-${suggestion.modifier}` : suggestion.code;
+}
@@ -0,0 +1,258 @@
+import type {
+  ICondition,
+  IConditionGroup,
+  IConditionalLogic,
+  IQuestion,
+  ISection,
+} from '@/models/Template';
+import { flattenResponses, getSelectedValues, isAnswered, ResponseMap, ResponseValue } from '@/lib/visitResponses';
+
+/**
+ * Conditional visibility for template questions and sections.
+ *
+ * Rules are nested AND/OR groups of conditions. A condition's field is either
+ * a question id (from any section), a sub-field of a composite answer such as
+ * `vitals.systolic`, or a patient field such as `patient.age`. This module has
+ * no browser or database dependencies so the conduct page and the visit API
+ * evaluate the same rules.
+ */
+
+export interface ConditionContext {
+  responses: ResponseMap;
+  patient?: {
+    age?: number | null;
+    gender?: string;
+    [key: string]: any;
+  };
+  // Reference date for age and relative date conditions
+  now?: Date;
+}
+
+export interface VisibilityResult {
+  hiddenSections: Set<string>;
+  hiddenQuestions: Set<string>;
+}
+
+export function calculateAge(dateOfBirth: string | Date | null | undefined, asOf: Date = new Date()): number | null {
+  if (!dateOfBirth) return null;
+
+  const birthDate = new Date(dateOfBirth);
+  if (Number.isNaN(birthDate.getTime())) return null;
+
+  let age = asOf.getFullYear() - birthDate.getFullYear();
+  const monthDiff = asOf.getMonth() - birthDate.getMonth();
+  if (monthDiff < 0 || (monthDiff === 0 && asOf.getDate() < birthDate.getDate())) {
+    age--;
+  }
+
+  return age;
+}
+
+export function isConditionGroup(value: unknown): value is IConditionGroup {
+  return !!value
+    && typeof value === 'object'
+    && ((value as any).combinator === 'and' || (value as any).combinator === 'or')
+    && Array.isArray((value as any).conditions);
+}
+
+// Normalize either rule format to a condition group, or null when there is no rule
+export function toConditionGroup(logic: IConditionalLogic | null | undefined): IConditionGroup | null {
+  if (!logic) return null;
+
+  if (isConditionGroup(logic.expression)) {
+    return logic.expression;
+  }
+
+  if (logic.dependsOn && logic.showWhen) {
+    return {
+      combinator: 'and',
+      conditions: [{
+        field: logic.dependsOn,
+        operator: logic.showWhen.operator || 'equals',
+        value: logic.showWhen.value,
+      }],
+    };
+  }
+
+  return null;
+}
+
+const resolveField = (field: string, context: ConditionContext): ResponseValue => {
+  if (field.startsWith('patient.')) {
+    const key = field.substring('patient.'.length);
+    if (key === 'age' && context.patient?.age === undefined && context.patient?.dateOfBirth) {
+      return calculateAge(context.patient.dateOfBirth, context.now);
+    }
+    return context.patient ? context.patient[key] : undefined;
+  }
+
+  if (field in context.responses) {
+    return context.responses[field];
+  }
+
+  // Sub-field of a composite answer, e.g. vitals.systolic or bmi.bmi
+  const dot = field.indexOf('.');
+  if (dot > 0) {
+    const parent = context.responses[field.substring(0, dot)];
+    if (parent && typeof parent === 'object' && !Array.isArray(parent)) {
+      return (parent as Record<string, any>)[field.substring(dot + 1)];
+    }
+  }
+
+  return undefined;
+};
+
+// Accepts ISO dates, 'today', or offsets from today such as '-1y', '-6m', '+30d'
+export function resolveDate(value: unknown, now: Date = new Date()): Date | null {
+  if (value instanceof Date) return value;
+  if (value === null || value === undefined || value === '') return null;
+
+  const text = String(value).trim();
+  if (text === 'today') {
+    return new Date(now.getFullYear(), now.getMonth(), now.getDate());
+  }
+
+  const relative = text.match(/^([+-]\d+)([dmy])$/);
+  if (relative) {
+    const amount = parseInt(relative[1], 10);
+    const date = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    if (relative[2] === 'd') date.setDate(date.getDate() + amount);
+    if (relative[2] === 'm') date.setMonth(date.getMonth() + amount);
+    if (relative[2] === 'y') date.setFullYear(date.getFullYear() + amount);
+    return date;
+  }
+
+  const date = new Date(text);
+  return Number.isNaN(date.getTime()) ? null : date;
+}
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '' || typeof value === 'boolean') return null;
+  const number = Number(value);
+  return Number.isNaN(number) ? null : number;
+};
+
+const normalize = (value: unknown) => String(value).trim().toLowerCase();
+
+const valuesEqual = (actual: ResponseValue, expected: unknown): boolean => {
+  if (typeof actual === 'boolean' || typeof expected === 'boolean') {
+    return normalize(actual) === normalize(expected);
+  }
+
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  if (actualNumber !== null && expectedNumber !== null && !Array.isArray(actual)) {
+    return actualNumber === expectedNumber;
+  }
+
+  return getSelectedValues(actual).some(v => normalize(v) === normalize(expected));
+};
+
+const compareNumbers = (actual: ResponseValue, expected: unknown, compare: (a: number, b: number) => boolean): boolean => {
+  const actualNumber = toNumber(actual);
+  const expectedNumber = toNumber(expected);
+  return actualNumber !== null && expectedNumber !== null && compare(actualNumber, expectedNumber);
+};
+
+const compareDates = (actual: ResponseValue, expected: unknown, now: Date | undefined, compare: (a: number, b: number) => boolean): boolean => {
+  const actualDate = resolveDate(actual, now);
+  const expectedDate = resolveDate(expected, now);
+  return !!actualDate && !!expectedDate && compare(actualDate.getTime(), expectedDate.getTime());
+};
+
+export function evaluateCondition(condition: ICondition, context: ConditionContext): boolean {
+  const actual = resolveField(condition.field, context);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'isAnswered':
+      return isAnswered(actual);
+    case 'isNotAnswered':
+      return !isAnswered(actual);
+    case 'equals':
+      return isAnswered(actual) && valuesEqual(actual, expected);
+    case 'notEquals':
+      return !isAnswered(actual) || !valuesEqual(actual, expected);
+    case 'greaterThan':
+      return compareNumbers(actual, expected, (a, b) => a > b);
+    case 'lessThan':
+      return compareNumbers(actual, expected, (a, b) => a < b);
+    case 'greaterThanOrEqual':
+      return compareNumbers(actual, expected, (a, b) => a >= b);
+    case 'lessThanOrEqual':
+      return compareNumbers(actual, expected, (a, b) => a <= b);
+    case 'in':
+    case 'notIn': {
+      const candidates = Array.isArray(expected) ? expected : [expected];
+      const found = isAnswered(actual) && candidates.some(candidate => valuesEqual(actual, candidate));
+      return condition.operator === 'in' ? found : !found;
+    }
+    case 'contains':
+      if (typeof actual === 'string') {
+        return normalize(actual).includes(normalize(expected));
+      }
+      return getSelectedValues(actual).some(v => normalize(v) === normalize(expected));
+    case 'before':
+      return compareDates(actual, expected, context.now, (a, b) => a < b);
+    case 'after':
+      return compareDates(actual, expected, context.now, (a, b) => a > b);
+    default:
+      return false;
+  }
+}
+
+export function evaluateConditionGroup(group: IConditionGroup, context: ConditionContext): boolean {
+  // An empty group places no restriction
+  if (group.conditions.length === 0) return true;
+
+  const results = group.conditions.map(item =>
+    isConditionGroup(item) ? evaluateConditionGroup(item, context) : evaluateCondition(item, context)
+  );
+
+  return group.combinator === 'or' ? results.some(Boolean) : results.every(Boolean);
+}
+
+export function isVisible(logic: IConditionalLogic | null | undefined, context: ConditionContext): boolean {
+  const group = toConditionGroup(logic);
+  return group ? evaluateConditionGroup(group, context) : true;
+}
+
+/**
+ * Work out which sections and questions are hidden for the given answers.
+ *
+ * Questions are evaluated in template order and the answers of hidden
+ * questions are ignored, so a question that depends on a hidden question is
+ * hidden as well.
+ */
+export function getVisibility(
+  template: { sections?: ISection[] } | null | undefined,
+  responses: unknown,
+  patient?: ConditionContext['patient'],
+  now?: Date
+): VisibilityResult {
+  const hiddenSections = new Set<string>();
+  const hiddenQuestions = new Set<string>();
+  const visibleResponses: ResponseMap = { ...flattenResponses(responses) };
+  const context: ConditionContext = { responses: visibleResponses, patient, now };
+
+  const hide = (question: IQuestion) => {
+    hiddenQuestions.add(question.id);
+    delete visibleResponses[question.id];
+  };
+
+  (template?.sections || []).forEach(section => {
+    if (!isVisible(section.conditionalLogic, context)) {
+      hiddenSections.add(section.id);
+      (section.questions || []).forEach(hide);
+      return;
+    }
+
+    (section.questions || []).forEach(question => {
+      if (!isVisible(question.conditionalLogic, context)) {
+        hide(question);
+      }
+    });
+  });
+
+  return { hiddenSections, hiddenQuestions };
+}
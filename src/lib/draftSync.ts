@@ -0,0 +1,125 @@
+import visitService from '@/services/visitService';
+import { applyAnswers, deleteDraft, getDraft, isOfflineError, listDrafts, saveDraft } from '@/lib/offlineDrafts';
+import { ConflictResolution, mergeResponses, resolveConflicts, ResponseConflict } from '@/lib/responseMerge';
+import { flattenResponses, ResponseMap } from '@/lib/visitResponses';
+import { isOpenStatus } from '@/lib/visitLifecycle';
+
+/**
+ * Pushes pending visit drafts to the server. When the visit's revision no
+ * longer matches the one the draft started from, someone else saved it in the
+ * meantime: the draft is merged question by question, and questions changed on
+ * both sides are left for the user to resolve before anything is written. The
+ * write carries the visit revision it was merged against, so it cannot
+ * overwrite a save that happened during the merge. Once the answers are on the
+ * server the draft is removed.
+ */
+
+export type DraftSyncResult =
+  | { status: 'none' }
+  | { status: 'offline' }
+  | { status: 'synced'; responses: ResponseMap; visit: any }
+  | { status: 'conflict'; conflicts: ResponseConflict[]; visit: any }
+  // The visit was completed, cancelled or rescheduled elsewhere, so the draft was discarded
+  | { status: 'closed'; visit: any };
+
+// One sync per visit at a time, shared by the conduct page and the background sync
+const inFlight = new Map<string, Promise<DraftSyncResult>>();
+
+// Another save can land between reading the server copy and writing the draft;
+// the write then fails the revision check and the merge is retried
+const MAX_ATTEMPTS = 3;
+
+async function pushDraft(
+  userId: string,
+  visitId: string,
+  resolutions: Record<string, ConflictResolution>,
+  attempt = 1
+): Promise<DraftSyncResult> {
+  const draft = await getDraft(userId, visitId);
+  if (!draft) {
+    return { status: 'none' };
+  }
+
+  let serverVisit: any;
+  try {
+    serverVisit = await visitService.getVisitById(visitId);
+  } catch (error) {
+    if (isOfflineError(error)) return { status: 'offline' };
+    throw error;
+  }
+
+  if (!isOpenStatus(serverVisit.status)) {
+    await deleteDraft(userId, visitId);
+    return { status: 'closed', visit: serverVisit };
+  }
+
+  const serverResponses = flattenResponses(serverVisit.responses);
+  let responses = applyAnswers(serverResponses, draft.answers);
+  if ((serverVisit.revision ?? 0) !== draft.baseRevision) {
+    // Questions the draft did not touch are unchanged from the base, so the server copy stands in for them
+    const result = resolveConflicts(
+      mergeResponses(applyAnswers(serverResponses, draft.baseAnswers), responses, serverResponses),
+      resolutions
+    );
+
+    if (result.conflicts.length > 0) {
+      await saveDraft({ ...draft, conflicts: result.conflicts });
+      return { status: 'conflict', conflicts: result.conflicts, visit: serverVisit };
+    }
+
+    responses = result.merged;
+  }
+
+  const completedSections = Array.from(
+    new Set([...(draft.completedSections || []), ...(serverVisit.completedSections || [])])
+  ).sort((a, b) => a - b);
+
+  let saved: any;
+  try {
+    const result: any = await visitService.updateVisit(visitId, {
+      responses,
+      completedSections,
+      status: 'in-progress',
+      revision: serverVisit.revision ?? 0
+    });
+    saved = result?.data || result;
+  } catch (error: any) {
+    if (isOfflineError(error)) return { status: 'offline' };
+    if (error?.status === 409 && attempt < MAX_ATTEMPTS) {
+      return pushDraft(userId, visitId, resolutions, attempt + 1);
+    }
+    throw error;
+  }
+
+  await deleteDraft(userId, visitId);
+  return { status: 'synced', responses, visit: saved };
+}
+
+export function syncVisitDraft(
+  userId: string,
+  visitId: string,
+  resolutions: Record<string, ConflictResolution> = {}
+): Promise<DraftSyncResult> {
+  const key = `${userId}:${visitId}`;
+  const running = inFlight.get(key);
+  if (running) return running;
+
+  const sync = pushDraft(userId, visitId, resolutions).finally(() => inFlight.delete(key));
+  inFlight.set(key, sync);
+  return sync;
+}
+
+// Push every pending draft of the signed-in user, e.g. when the connection returns
+export async function syncPendingDrafts(userId: string): Promise<Record<string, DraftSyncResult>> {
+  const results: Record<string, DraftSyncResult> = {};
+
+  for (const draft of await listDrafts(userId)) {
+    try {
+      results[draft.visitId] = await syncVisitDraft(userId, draft.visitId);
+    } catch (error) {
+      console.error(`Error syncing offline draft for visit ${draft.visitId}:`, error);
+    }
+  }
+
+  return results;
+}
@@ -0,0 +1,463 @@
+import crypto from 'crypto';
+import type { ICoding, IQuestion, ISection } from '@/models/Template';
+import type { IInstrumentScore, IVisit } from '@/models/Visit';
+import { getInstrumentItems, isScoredQuestion, scoreVisit, ScoredQuestionType } from '@/lib/scoring';
+import { flattenResponses, getSelectedValues, isAnswered, ResponseValue } from '@/lib/visitResponses';
+
+/**
+ * Export of a completed visit as a FHIR R4 Bundle of type 'collection'.
+ *
+ * Every answer goes into a QuestionnaireResponse. Vital signs, BMI and the
+ * screening instrument scores are also exported as Observations with their
+ * LOINC codes, as is any other question that carries a code mapping. Health
+ * plan recommendations become the activities of a CarePlan.
+ *
+ * Resources keep their database id and are referenced by a urn:uuid derived
+ * from it, so exporting the same visit twice yields the same references.
+ */
+
+export const LOINC_SYSTEM = 'http://loinc.org';
+const UCUM_SYSTEM = 'http://unitsofmeasure.org';
+const OBSERVATION_CATEGORY_SYSTEM = 'http://terminology.hl7.org/CodeSystem/observation-category';
+const INTERPRETATION_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ObservationInterpretation';
+const ACT_CODE_SYSTEM = 'http://terminology.hl7.org/CodeSystem/v3-ActCode';
+
+export type FhirResource = { resourceType: string; id?: string } & Record<string, any>;
+
+export interface FhirBundle {
+  resourceType: 'Bundle';
+  id: string;
+  type: 'collection';
+  timestamp: string;
+  entry: { fullUrl: string; resource: FhirResource }[];
+}
+
+const loinc = (code: string, display: string): ICoding => ({ system: LOINC_SYSTEM, code, display });
+
+// Total score codes for the built-in instruments; CAGE has no LOINC total score
+export const INSTRUMENT_CODES: Record<ScoredQuestionType, ICoding | null> = {
+  phq2: loinc('55758-7', 'Patient Health Questionnaire 2 item (PHQ-2) total score [Reported]'),
+  cognitiveAssessment: loinc('72233-0', 'Total score [Mini-Cog]'),
+  cageScreening: null,
+};
+
+// Item codes for the default instrument items, keyed by instrument and item id
+export const INSTRUMENT_ITEM_CODES: Partial<Record<ScoredQuestionType, Record<string, ICoding>>> = {
+  phq2: {
+    interest: loinc('44250-9', 'Little interest or pleasure in doing things in last 2 weeks'),
+    mood: loinc('44255-8', 'Feeling down, depressed, or hopeless in last 2 weeks'),
+  },
+};
+
+export const VITAL_SIGNS: Record<string, { coding: ICoding; unit: string; ucum: string }> = {
+  heartRate: { coding: loinc('8867-4', 'Heart rate'), unit: 'beats/minute', ucum: '/min' },
+  respiratoryRate: { coding: loinc('9279-1', 'Respiratory rate'), unit: 'breaths/minute', ucum: '/min' },
+  temperature: { coding: loinc('8310-5', 'Body temperature'), unit: '°F', ucum: '[degF]' },
+  oxygenSaturation: { coding: loinc('2708-6', 'Oxygen saturation in Arterial blood'), unit: '%', ucum: '%' },
+};
+
+export const BLOOD_PRESSURE = {
+  panel: loinc('85354-9', 'Blood pressure panel with all children optional'),
+  systolic: loinc('8480-6', 'Systolic blood pressure'),
+  diastolic: loinc('8462-4', 'Diastolic blood pressure'),
+};
+
+export const BODY_MEASURES = {
+  bmi: loinc('39156-5', 'Body mass index (BMI) [Ratio]'),
+  height: loinc('8302-2', 'Body height'),
+  weight: loinc('29463-7', 'Body weight'),
+};
+
+export interface FhirPatientInput {
+  _id: any;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: Date | string;
+  gender?: string;
+  email?: string;
+  // Patients saved through the patients API use phoneNumber
+  phone?: string;
+  phoneNumber?: string;
+  medicalRecordNumber?: string;
+  address?: { street?: string; city?: string; state?: string; zipCode?: string };
+}
+
+export interface FhirVisitInput {
+  _id: any;
+  template?: any;
+  templateVersion?: number;
+  scheduledDate: Date | string;
+  completedAt?: Date | string;
+  visitType?: string;
+  location?: string;
+  responses: unknown;
+  scores?: IInstrumentScore[];
+  healthPlan?: IVisit['healthPlan'];
+}
+
+export interface VisitBundleInput {
+  visit: FhirVisitInput;
+  patient: FhirPatientInput;
+  provider?: { _id: any; name?: string; email?: string } | null;
+  // The template version the visit was conducted with
+  template?: { name?: string; sections?: ISection[] } | null;
+}
+
+// Name-based UUID so a resource is always referenced by the same urn:uuid
+export const stableUuid = (name: string) => {
+  const hex = crypto.createHash('sha1').update(name).digest('hex');
+  const variant = ((parseInt(hex.slice(16, 18), 16) & 0x3f) | 0x80).toString(16);
+  return `${hex.slice(0, 8)}-${hex.slice(8, 12)}-5${hex.slice(13, 16)}-${variant}${hex.slice(18, 20)}-${hex.slice(20, 32)}`;
+};
+
+// Canonical URL of the Questionnaire exported for a template
+export const questionnaireUrl = (templateId: string) => `urn:uuid:${stableUuid(`Questionnaire/${templateId}`)}`;
+
+const toDateTime = (date: Date | string | undefined) => {
+  if (!date) return undefined;
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+};
+
+const toDate = (date: Date | string | undefined) => toDateTime(date)?.slice(0, 10);
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const concept = (coding: ICoding | null | undefined, text: string) =>
+  coding ? { coding: [coding], text } : { text };
+
+const quantity = (value: number, unit: string, ucum?: string) =>
+  ucum ? { value, unit, system: UCUM_SYSTEM, code: ucum } : { value, unit };
+
+const category = (code: 'vital-signs' | 'survey') => [{
+  coding: [{
+    system: OBSERVATION_CATEGORY_SYSTEM,
+    code,
+    display: code === 'vital-signs' ? 'Vital Signs' : 'Survey',
+  }],
+}];
+
+const optionLabel = (question: Pick<IQuestion, 'options'>, value: string) =>
+  question.options?.find(option => option.value === value)?.label || value;
+
+// Answers for a question with a single (or multiple choice) value
+function toAnswers(question: IQuestion, value: ResponseValue): Record<string, any>[] {
+  if (question.type === 'multipleChoice' || (question.options && question.options.length > 0)) {
+    return getSelectedValues(value).map(selected => ({
+      valueCoding: { code: selected, display: optionLabel(question, selected) },
+    }));
+  }
+  if (question.type === 'boolean') {
+    return [{ valueBoolean: value === true || value === 'true' }];
+  }
+  if (question.type === 'date' && toDate(value as string)) {
+    return [{ valueDate: toDate(value as string) }];
+  }
+
+  const number = question.type === 'numeric' || isScoredQuestion(question) ? toNumber(value) : null;
+  if (number !== null) {
+    return [Number.isInteger(number) ? { valueInteger: number } : { valueDecimal: number }];
+  }
+
+  return [{ valueString: Array.isArray(value) ? value.join(', ') : String(value) }];
+}
+
+function toQuestionnaireItem(question: IQuestion, value: ResponseValue): Record<string, any> {
+  const isComposite = value !== null && typeof value === 'object' && !Array.isArray(value);
+  if (!isComposite) {
+    return { linkId: question.id, text: question.text, answer: toAnswers(question, value) };
+  }
+
+  const entries = Object.entries(value as Record<string, any>).filter(([, item]) => isAnswered(item));
+
+  // Instrument items are answered with one of the item's options
+  if (isScoredQuestion(question)) {
+    const items = getInstrumentItems(question);
+    return {
+      linkId: question.id,
+      text: question.text,
+      item: items
+        .filter(item => isAnswered((value as Record<string, any>)[item.id]))
+        .map(item => {
+          const selected = String((value as Record<string, any>)[item.id]);
+          return {
+            linkId: `${question.id}.${item.id}`,
+            text: item.text,
+            answer: [{ valueCoding: { code: selected, display: optionLabel(item, selected) } }],
+          };
+        }),
+    };
+  }
+
+  // BMI and vital signs store one number per measurement
+  return {
+    linkId: question.id,
+    text: question.text,
+    item: entries.map(([key, item]) => {
+      const number = toNumber(item);
+      return {
+        linkId: `${question.id}.${key}`,
+        text: key,
+        answer: [number === null
+          ? { valueString: String(item) }
+          : Number.isInteger(number) ? { valueInteger: number } : { valueDecimal: number }],
+      };
+    }),
+  };
+}
+
+// Observation value for a coded question that is not a built-in measurement
+function toObservationValue(question: IQuestion, value: ResponseValue): Record<string, any> {
+  const [answer] = toAnswers(question, value);
+  if ('valueCoding' in answer) {
+    const labels = getSelectedValues(value).map(selected => optionLabel(question, selected));
+    return { valueCodeableConcept: { text: labels.join(', ') } };
+  }
+  if ('valueInteger' in answer || 'valueDecimal' in answer) {
+    return { valueQuantity: { value: answer.valueInteger ?? answer.valueDecimal } };
+  }
+  if ('valueDate' in answer) {
+    return { valueDateTime: answer.valueDate };
+  }
+  return answer;
+}
+
+export function buildVisitBundle({ visit, patient, provider, template }: VisitBundleInput): FhirBundle {
+  const entries: { fullUrl: string; resource: FhirResource }[] = [];
+  const reference = (resourceType: string, id: string) => `urn:uuid:${stableUuid(`${resourceType}/${id}`)}`;
+  const add = (resource: FhirResource) => {
+    const fullUrl = reference(resource.resourceType, resource.id!);
+    entries.push({ fullUrl, resource });
+    return { reference: fullUrl };
+  };
+
+  const visitId = String(visit._id);
+  const effective = toDateTime(visit.completedAt) || toDateTime(visit.scheduledDate);
+  const responses = flattenResponses(visit.responses);
+  const sections = template?.sections || [];
+
+  const patientRef = add({
+    resourceType: 'Patient',
+    id: String(patient._id),
+    ...(patient.medicalRecordNumber && {
+      identifier: [{
+        type: { coding: [{ system: 'http://terminology.hl7.org/CodeSystem/v2-0203', code: 'MR' }], text: 'MRN' },
+        value: patient.medicalRecordNumber,
+      }],
+    }),
+    name: [{ family: patient.lastName, given: [patient.firstName] }],
+    gender: ['male', 'female', 'other'].includes(patient.gender || '') ? patient.gender : 'unknown',
+    birthDate: toDate(patient.dateOfBirth),
+    telecom: [
+      ...(patient.phone || patient.phoneNumber ? [{ system: 'phone', value: patient.phone || patient.phoneNumber }] : []),
+      ...(patient.email ? [{ system: 'email', value: patient.email }] : []),
+    ],
+    ...(patient.address?.street && {
+      address: [{
+        line: [patient.address.street],
+        city: patient.address.city,
+        state: patient.address.state,
+        postalCode: patient.address.zipCode,
+      }],
+    }),
+  });
+
+  const practitionerRef = provider
+    ? add({
+      resourceType: 'Practitioner',
+      id: String(provider._id),
+      name: [{ text: provider.name || provider.email }],
+      ...(provider.email && { telecom: [{ system: 'email', value: provider.email }] }),
+    })
+    : null;
+
+  const encounterRef = add({
+    resourceType: 'Encounter',
+    id: visitId,
+    status: 'finished',
+    class: { system: ACT_CODE_SYSTEM, code: 'AMB', display: 'ambulatory' },
+    type: [{ text: visit.visitType || 'Annual Wellness Visit' }],
+    subject: patientRef,
+    ...(practitionerRef && { participant: [{ individual: practitionerRef }] }),
+    period: { start: toDateTime(visit.scheduledDate), ...(visit.completedAt && { end: toDateTime(visit.completedAt) }) },
+    ...(visit.location && { location: [{ location: { display: visit.location } }] }),
+  });
+
+  // Answers grouped by template section; answers to questions the template no longer has are left out
+  const questionnaireItems = sections
+    .map(section => ({
+      linkId: section.id,
+      text: section.title,
+      item: (section.questions || [])
+        .filter(question => isAnswered(responses[question.id]))
+        .map(question => toQuestionnaireItem(question, responses[question.id])),
+    }))
+    .filter(section => section.item.length > 0);
+
+  const questionnaireResponseRef = add({
+    resourceType: 'QuestionnaireResponse',
+    id: visitId,
+    status: 'completed',
+    subject: patientRef,
+    encounter: encounterRef,
+    ...(visit.template && {
+      questionnaire: `${questionnaireUrl(String(visit.template))}${visit.templateVersion ? `|${visit.templateVersion}` : ''}`,
+    }),
+    authored: effective,
+    ...(practitionerRef && { author: practitionerRef }),
+    item: questionnaireItems,
+  });
+
+  const observation = (id: string, fields: Record<string, any>) => add({
+    resourceType: 'Observation',
+    id: `${visitId}-${id}`.replace(/[^A-Za-z0-9\-.]/g, '-').slice(0, 64),
+    status: 'final',
+    subject: patientRef,
+    encounter: encounterRef,
+    effectiveDateTime: effective,
+    derivedFrom: [questionnaireResponseRef],
+    ...fields,
+  });
+
+  const scores = visit.scores && visit.scores.length > 0 ? visit.scores : scoreVisit(template, visit.responses);
+
+  sections.forEach(section => {
+    (section.questions || []).forEach(question => {
+      const value = responses[question.id];
+      if (!isAnswered(value)) return;
+
+      if (question.type === 'vitalSigns' && typeof value === 'object') {
+        const vitals = value as Record<string, any>;
+        const systolic = toNumber(vitals.systolic);
+        const diastolic = toNumber(vitals.diastolic);
+        if (systolic !== null || diastolic !== null) {
+          observation(`${question.id}-bp`, {
+            category: category('vital-signs'),
+            code: concept(BLOOD_PRESSURE.panel, 'Blood pressure'),
+            component: [
+              ...(systolic !== null ? [{ code: concept(BLOOD_PRESSURE.systolic, 'Systolic'), valueQuantity: quantity(systolic, 'mmHg', 'mm[Hg]') }] : []),
+              ...(diastolic !== null ? [{ code: concept(BLOOD_PRESSURE.diastolic, 'Diastolic'), valueQuantity: quantity(diastolic, 'mmHg', 'mm[Hg]') }] : []),
+            ],
+          });
+        }
+        Object.entries(VITAL_SIGNS).forEach(([key, definition]) => {
+          const measurement = toNumber(vitals[key]);
+          if (measurement === null) return;
+          observation(`${question.id}-${key}`, {
+            category: category('vital-signs'),
+            code: concept(definition.coding, definition.coding.display!),
+            valueQuantity: quantity(measurement, definition.unit, definition.ucum),
+          });
+        });
+        return;
+      }
+
+      if (question.type === 'bmi' && typeof value === 'object') {
+        const metric = question.config?.units === 'metric';
+        const measures = value as Record<string, any>;
+        const bmi = toNumber(measures.bmi);
+        const height = toNumber(measures.height);
+        const weight = toNumber(measures.weight);
+        if (height !== null) {
+          observation(`${question.id}-height`, {
+            category: category('vital-signs'),
+            code: concept(BODY_MEASURES.height, 'Body height'),
+            valueQuantity: metric ? quantity(height, 'cm', 'cm') : quantity(height, 'in', '[in_i]'),
+          });
+        }
+        if (weight !== null) {
+          observation(`${question.id}-weight`, {
+            category: category('vital-signs'),
+            code: concept(BODY_MEASURES.weight, 'Body weight'),
+            valueQuantity: metric ? quantity(weight, 'kg', 'kg') : quantity(weight, 'lb', '[lb_av]'),
+          });
+        }
+        if (bmi !== null) {
+          observation(`${question.id}-bmi`, {
+            category: category('vital-signs'),
+            code: concept(question.code || BODY_MEASURES.bmi, 'BMI'),
+            valueQuantity: quantity(bmi, 'kg/m2', 'kg/m2'),
+          });
+        }
+        return;
+      }
+
+      if (isScoredQuestion(question)) {
+        const score = scores.find(item => item.questionId === question.id);
+        if (!score) return;
+
+        const itemCodes = question.options && question.options.length > 0 ? {} : INSTRUMENT_ITEM_CODES[question.type] || {};
+        const components = typeof value === 'object' && !Array.isArray(value)
+          ? getInstrumentItems(question)
+            .filter(item => itemCodes[item.id] && isAnswered((value as Record<string, any>)[item.id]))
+            .map(item => {
+              const selected = String((value as Record<string, any>)[item.id]);
+              const option = item.options.find(candidate => candidate.value === selected);
+              return {
+                code: concept(itemCodes[item.id], item.text),
+                valueCodeableConcept: { text: option?.label || selected },
+              };
+            })
+          : [];
+
+        observation(question.id, {
+          category: category('survey'),
+          code: concept(question.code || INSTRUMENT_CODES[question.type], score.label),
+          valueInteger: score.score,
+          interpretation: [{
+            // An unfinished screen is neither positive nor negative yet
+            ...((score.complete || score.positive) && {
+              coding: [{ system: INTERPRETATION_SYSTEM, code: score.positive ? 'POS' : 'NEG', display: score.positive ? 'Positive' : 'Negative' }],
+            }),
+            text: score.interpretation,
+          }],
+          ...(components.length > 0 && { component: components }),
+        });
+        return;
+      }
+
+      if (question.code) {
+        observation(question.id, {
+          category: category('survey'),
+          code: concept(question.code, question.text),
+          ...toObservationValue(question, value),
+        });
+      }
+    });
+  });
+
+  const recommendations = visit.healthPlan?.recommendations || [];
+  if (recommendations.length > 0 || visit.healthPlan?.summary) {
+    add({
+      resourceType: 'CarePlan',
+      id: visitId,
+      status: 'active',
+      intent: 'plan',
+      title: 'Personalized Prevention Plan',
+      ...(visit.healthPlan?.summary && { description: visit.healthPlan.summary }),
+      subject: patientRef,
+      encounter: encounterRef,
+      created: effective,
+      ...(practitionerRef && { author: practitionerRef }),
+      activity: recommendations.map(recommendation => ({
+        detail: {
+          code: { text: recommendation.domain },
+          status: 'not-started',
+          description: recommendation.text,
+        },
+      })),
+    });
+  }
+
+  return {
+    resourceType: 'Bundle',
+    id: stableUuid(`Bundle/${visitId}`),
+    type: 'collection',
+    timestamp: new Date().toISOString(),
+    entry: entries,
+  };
+}
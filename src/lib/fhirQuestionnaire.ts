@@ -0,0 +1,744 @@
+import type {
+  ICoding,
+  ICondition,
+  IConditionGroup,
+  IConditionalLogic,
+  IOption,
+  IQuestion,
+  ISection,
+} from '@/models/Template';
+import { isConditionGroup, toConditionGroup } from '@/lib/conditionalLogic';
+import { INSTRUMENTS, isScoredQuestion } from '@/lib/scoring';
+import {
+  BLOOD_PRESSURE,
+  BODY_MEASURES,
+  INSTRUMENT_CODES,
+  INSTRUMENT_ITEM_CODES,
+  questionnaireUrl,
+  VITAL_SIGNS,
+} from '@/lib/fhir';
+
+/**
+ * Conversion between templates and FHIR R4 Questionnaires.
+ *
+ * Sections become top-level group items and questions their children, keyed
+ * by the section and question ids. BMI, vital signs and the scored
+ * instruments are groups with one child per measurement or instrument item,
+ * linked as `<questionId>.<key>` like the answers in visit exports.
+ *
+ * Settings FHIR has no element for (question types, config, health plan
+ * recommendations, and conditions enableWhen cannot express) are kept in
+ * extensions so a template survives the round trip. Other tools ignore
+ * those extensions, so both directions report what they could not map.
+ */
+
+export const AWV_EXTENSION_BASE = 'http://annualwellnessvisit.app/fhir/StructureDefinition';
+
+const EXTENSIONS = {
+  questionType: `${AWV_EXTENSION_BASE}/question-type`,
+  questionConfig: `${AWV_EXTENSION_BASE}/question-config`,
+  includeRecommendation: `${AWV_EXTENSION_BASE}/include-recommendation`,
+  defaultRecommendation: `${AWV_EXTENSION_BASE}/default-recommendation`,
+  optionRecommendation: `${AWV_EXTENSION_BASE}/option-recommendation`,
+  conditionalLogic: `${AWV_EXTENSION_BASE}/conditional-logic`,
+  patientCompletable: `${AWV_EXTENSION_BASE}/patient-completable`,
+  ordinalValue: 'http://hl7.org/fhir/StructureDefinition/ordinalValue',
+};
+
+export interface QuestionnaireIssue {
+  severity: 'warning' | 'info';
+  // linkId of the item the issue is about, empty for the whole questionnaire
+  linkId: string;
+  message: string;
+}
+
+export class QuestionnaireError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'QuestionnaireError';
+    this.status = status;
+  }
+}
+
+type Extension = { url: string } & Record<string, any>;
+type QuestionnaireItem = Record<string, any>;
+
+export interface FhirQuestionnaire {
+  resourceType: 'Questionnaire';
+  id?: string;
+  url?: string;
+  version?: string;
+  name?: string;
+  title?: string;
+  status: 'draft' | 'active' | 'retired' | 'unknown';
+  date?: string;
+  description?: string;
+  item: QuestionnaireItem[];
+  [key: string]: any;
+}
+
+export interface ImportedTemplate {
+  name: string;
+  description?: string;
+  sections: ISection[];
+}
+
+type AnswerKind = 'coding' | 'boolean' | 'number' | 'date' | 'string';
+
+interface CompositeChild {
+  key: string;
+  text: string;
+  code?: ICoding;
+  readOnly?: boolean;
+}
+
+const compositeChildren = (question: IQuestion): CompositeChild[] => {
+  if (question.type === 'bmi') {
+    const metric = question.config?.units === 'metric';
+    return [
+      { key: 'height', text: `Height (${metric ? 'cm' : 'in'})`, code: BODY_MEASURES.height },
+      { key: 'weight', text: `Weight (${metric ? 'kg' : 'lb'})`, code: BODY_MEASURES.weight },
+      { key: 'bmi', text: 'BMI', code: BODY_MEASURES.bmi, readOnly: true },
+    ];
+  }
+  if (question.type === 'vitalSigns') {
+    return [
+      { key: 'systolic', text: 'Systolic BP (mmHg)', code: BLOOD_PRESSURE.systolic },
+      { key: 'diastolic', text: 'Diastolic BP (mmHg)', code: BLOOD_PRESSURE.diastolic },
+      ...Object.entries(VITAL_SIGNS).map(([key, definition]) => ({
+        key,
+        text: `${definition.coding.display} (${definition.unit})`,
+        code: definition.coding,
+      })),
+    ];
+  }
+  return [];
+};
+
+// Instruments with their own options are a single choice; otherwise one choice per instrument item
+const usesInstrumentItems = (question: IQuestion) =>
+  isScoredQuestion(question) && !(question.options && question.options.length > 0);
+
+const defaultCode = (question: IQuestion): ICoding | null => {
+  if (isScoredQuestion(question)) return INSTRUMENT_CODES[question.type];
+  if (question.type === 'bmi') return BODY_MEASURES.bmi;
+  if (question.type === 'vitalSigns') return BLOOD_PRESSURE.panel;
+  return null;
+};
+
+const sameCoding = (a?: ICoding | null, b?: ICoding | null) =>
+  !!a && !!b && a.system === b.system && a.code === b.code;
+
+const stringExtension = (url: string, value: string | undefined): Extension[] =>
+  value ? [{ url, valueString: value }] : [];
+
+const findExtension = (element: any, url: string): Extension | undefined =>
+  Array.isArray(element?.extension) ? element.extension.find((extension: Extension) => extension?.url === url) : undefined;
+
+const toFhirName = (name: string) =>
+  name.replace(/[^A-Za-z0-9 ]+/g, ' ').trim().split(/\s+/)
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+    .replace(/^[^A-Z]+/, '') || 'Template';
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+const toAnswerOption = (option: IOption) => ({
+  valueCoding: { code: option.value, display: option.label },
+  extension: [
+    ...(typeof option.score === 'number' ? [{ url: EXTENSIONS.ordinalValue, valueDecimal: option.score }] : []),
+    ...stringExtension(EXTENSIONS.optionRecommendation, option.recommendation),
+  ],
+});
+
+// Drop empty extension arrays so exported items stay readable
+const compact = (item: QuestionnaireItem): QuestionnaireItem => {
+  if (Array.isArray(item.extension) && item.extension.length === 0) delete item.extension;
+  if (Array.isArray(item.answerOption)) {
+    item.answerOption.forEach((option: QuestionnaireItem) => compact(option));
+  }
+  return item;
+};
+
+const answerValue = (kind: AnswerKind, value: unknown): Record<string, any> | null => {
+  switch (kind) {
+    case 'coding':
+      return { answerCoding: { code: String(value) } };
+    case 'boolean':
+      return { answerBoolean: value === true || value === 'true' };
+    case 'number': {
+      const number = Number(value);
+      if (value === '' || value === null || !Number.isFinite(number)) return null;
+      return Number.isInteger(number) ? { answerInteger: number } : { answerDecimal: number };
+    }
+    case 'date':
+      return /^\d{4}-\d{2}-\d{2}/.test(String(value)) ? { answerDate: String(value).slice(0, 10) } : null;
+    default:
+      return { answerString: String(value) };
+  }
+};
+
+const OPERATORS: Partial<Record<ICondition['operator'], string>> = {
+  equals: '=',
+  notEquals: '!=',
+  greaterThan: '>',
+  lessThan: '<',
+  greaterThanOrEqual: '>=',
+  lessThanOrEqual: '<=',
+  before: '<',
+  after: '>',
+};
+
+/**
+ * Express a rule as enableWhen. Returns null when it cannot be expressed:
+ * nested groups, patient fields, relative dates, text 'contains', and lists
+ * combined the opposite way to their group.
+ */
+function toEnableWhen(
+  logic: IConditionalLogic | undefined,
+  answerKinds: Map<string, AnswerKind>
+): { enableWhen: Record<string, any>[]; enableBehavior?: 'all' | 'any' } | null {
+  const group = toConditionGroup(logic);
+  if (!group || group.conditions.length === 0) return { enableWhen: [] };
+
+  let behavior: 'all' | 'any' = group.combinator === 'or' ? 'any' : 'all';
+  const enableWhen: Record<string, any>[] = [];
+
+  for (const entry of group.conditions) {
+    if (isConditionGroup(entry)) return null;
+
+    const condition = entry as ICondition;
+    const kind = answerKinds.get(condition.field);
+    if (!kind) return null;
+
+    if (condition.operator === 'isAnswered' || condition.operator === 'isNotAnswered') {
+      enableWhen.push({ question: condition.field, operator: 'exists', answerBoolean: condition.operator === 'isAnswered' });
+      continue;
+    }
+
+    if (condition.operator === 'in' || condition.operator === 'notIn') {
+      // A list becomes one enableWhen per value, which needs a matching combinator
+      const listBehavior = condition.operator === 'in' ? 'any' : 'all';
+      if (group.conditions.length === 1) behavior = listBehavior;
+      if (behavior !== listBehavior) return null;
+
+      const values = Array.isArray(condition.value) ? condition.value : [condition.value];
+      for (const value of values) {
+        const answer = answerValue(kind, value);
+        if (!answer) return null;
+        enableWhen.push({ question: condition.field, operator: condition.operator === 'in' ? '=' : '!=', ...answer });
+      }
+      continue;
+    }
+
+    // For a multiple choice question '=' matches any selected option, like 'contains'
+    const operator = condition.operator === 'contains' && kind === 'coding' ? '=' : OPERATORS[condition.operator];
+    if (!operator) return null;
+    if ((condition.operator === 'before' || condition.operator === 'after') && kind !== 'date') return null;
+
+    const answer = answerValue(condition.operator === 'before' || condition.operator === 'after' ? 'date' : kind, condition.value);
+    if (!answer) return null;
+    enableWhen.push({ question: condition.field, operator, ...answer });
+  }
+
+  return enableWhen.length > 1 ? { enableWhen, enableBehavior: behavior } : { enableWhen };
+}
+
+const answerKindOf = (question: IQuestion): AnswerKind => {
+  if (question.type === 'multipleChoice' || (question.options && question.options.length > 0)) return 'coding';
+  if (question.type === 'boolean') return 'boolean';
+  if (question.type === 'numeric' || isScoredQuestion(question)) return 'number';
+  if (question.type === 'date') return 'date';
+  return 'string';
+};
+
+// Answer kinds of every linkId a condition can refer to, including composite children
+function collectAnswerKinds(sections: ISection[]): Map<string, AnswerKind> {
+  const kinds = new Map<string, AnswerKind>();
+  sections.forEach(section => {
+    (section.questions || []).forEach(question => {
+      kinds.set(question.id, answerKindOf(question));
+      compositeChildren(question).forEach(child => kinds.set(`${question.id}.${child.key}`, 'number'));
+      if (usesInstrumentItems(question)) {
+        INSTRUMENTS[question.type as keyof typeof INSTRUMENTS].items
+          .forEach(item => kinds.set(`${question.id}.${item.id}`, 'coding'));
+      }
+    });
+  });
+  return kinds;
+}
+
+function conditionExtensions(
+  logic: IConditionalLogic | undefined,
+  answerKinds: Map<string, AnswerKind>,
+  linkId: string,
+  issues: QuestionnaireIssue[]
+): QuestionnaireItem {
+  if (!toConditionGroup(logic)) return {};
+
+  const converted = toEnableWhen(logic, answerKinds);
+  if (converted) return converted;
+
+  issues.push({
+    severity: 'warning',
+    linkId,
+    message: 'Its display condition cannot be expressed as enableWhen and is only kept in an AWV extension; other tools will always show it',
+  });
+  return { extension: [{ url: EXTENSIONS.conditionalLogic, valueString: JSON.stringify(logic) }] };
+}
+
+function questionToItem(
+  question: IQuestion,
+  answerKinds: Map<string, AnswerKind>,
+  issues: QuestionnaireIssue[]
+): QuestionnaireItem {
+  const code = question.code || defaultCode(question);
+  const { multiline, multiple, ...otherConfig } = question.config || {};
+  const condition = conditionExtensions(question.conditionalLogic, answerKinds, question.id, issues);
+
+  const item: QuestionnaireItem = {
+    linkId: question.id,
+    text: question.text,
+    ...(code && { code: [code] }),
+    ...(condition.enableWhen?.length && { enableWhen: condition.enableWhen }),
+    ...(condition.enableBehavior && { enableBehavior: condition.enableBehavior }),
+    extension: [
+      { url: EXTENSIONS.questionType, valueCode: question.type },
+      ...stringExtension(EXTENSIONS.questionConfig, Object.keys(otherConfig).length > 0 ? JSON.stringify(otherConfig) : undefined),
+      ...(question.includeRecommendation ? [{ url: EXTENSIONS.includeRecommendation, valueBoolean: true }] : []),
+      ...stringExtension(EXTENSIONS.defaultRecommendation, question.defaultRecommendation),
+      ...(condition.extension || []),
+    ],
+  };
+
+  const children = compositeChildren(question);
+  if (children.length > 0) {
+    return compact({
+      ...item,
+      type: 'group',
+      required: question.required,
+      item: children.map(child => ({
+        linkId: `${question.id}.${child.key}`,
+        text: child.text,
+        type: 'decimal',
+        ...(child.code && { code: [child.code] }),
+        ...(child.readOnly && { readOnly: true }),
+      })),
+    });
+  }
+
+  if (usesInstrumentItems(question)) {
+    const instrument = question.type as keyof typeof INSTRUMENTS;
+    const itemCodes = INSTRUMENT_ITEM_CODES[instrument] || {};
+    return compact({
+      ...item,
+      type: 'group',
+      required: question.required,
+      item: INSTRUMENTS[instrument].items.map(instrumentItem => compact({
+        linkId: `${question.id}.${instrumentItem.id}`,
+        text: instrumentItem.text,
+        type: 'choice',
+        required: question.required,
+        ...(itemCodes[instrumentItem.id] && { code: [itemCodes[instrumentItem.id]] }),
+        answerOption: instrumentItem.options.map(toAnswerOption),
+      })),
+    });
+  }
+
+  const type = {
+    text: multiline ? 'text' : 'string',
+    numeric: 'decimal',
+    date: 'date',
+    boolean: 'boolean',
+  }[question.type as string] || 'choice';
+
+  return compact({
+    ...item,
+    type,
+    required: question.required,
+    ...(multiple && type === 'choice' && { repeats: true }),
+    ...(question.options && question.options.length > 0 && { answerOption: question.options.map(toAnswerOption) }),
+  });
+}
+
+export function templateToQuestionnaire(template: {
+  _id?: any;
+  name: string;
+  description?: string;
+  sections?: ISection[];
+  updatedAt?: Date | string;
+  // Set when exporting a published version; the working copy is exported as a draft
+  version?: number;
+}): { questionnaire: FhirQuestionnaire; issues: QuestionnaireIssue[] } {
+  const issues: QuestionnaireIssue[] = [];
+  const sections = template.sections || [];
+  const answerKinds = collectAnswerKinds(sections);
+
+  const item = sections.map(section => {
+    const condition = conditionExtensions(section.conditionalLogic, answerKinds, section.id, issues);
+    return compact({
+      linkId: section.id,
+      text: section.title,
+      type: 'group',
+      ...(condition.enableWhen?.length && { enableWhen: condition.enableWhen }),
+      ...(condition.enableBehavior && { enableBehavior: condition.enableBehavior }),
+      extension: [
+        ...(condition.extension || []),
+        ...(section.patientCompletable ? [{ url: EXTENSIONS.patientCompletable, valueBoolean: true }] : []),
+      ],
+      item: [
+        // Section descriptions are shown as display text in other tools
+        ...(section.description
+          ? [{ linkId: `${section.id}.description`, text: section.description, type: 'display' }]
+          : []),
+        ...(section.questions || []).map(question => questionToItem(question, answerKinds, issues)),
+      ],
+    });
+  });
+
+  const questions = sections.flatMap(section => section.questions || []);
+  const withRecommendations = questions.filter(question =>
+    question.includeRecommendation || question.defaultRecommendation || question.options?.some(option => option.recommendation)
+  ).length;
+  if (withRecommendations > 0) {
+    issues.push({
+      severity: 'info',
+      linkId: '',
+      message: `Health plan recommendations of ${withRecommendations} question(s) are kept in AWV extensions that other tools ignore`,
+    });
+  }
+  const scored = questions.filter(question => isScoredQuestion(question) || question.type === 'bmi').length;
+  if (scored > 0) {
+    issues.push({
+      severity: 'info',
+      linkId: '',
+      message: `${scored} question(s) are scored or calculated (instrument scores, BMI) by this app; other tools only collect the answers`,
+    });
+  }
+
+  const id = template._id ? String(template._id) : undefined;
+  const published = typeof template.version === 'number' && template.version > 0;
+
+  return {
+    questionnaire: {
+      resourceType: 'Questionnaire',
+      ...(id && { id, url: questionnaireUrl(id) }),
+      ...(published && { version: String(template.version) }),
+      name: toFhirName(template.name),
+      title: template.name,
+      status: published ? 'active' : 'draft',
+      ...(template.updatedAt && { date: new Date(template.updatedAt).toISOString() }),
+      ...(template.description && { description: template.description }),
+      item,
+    },
+    issues,
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const AWV_TYPES: IQuestion['type'][] = [
+  'text', 'multipleChoice', 'numeric', 'date', 'boolean',
+  'bmi', 'vitalSigns', 'phq2', 'cognitiveAssessment', 'cageScreening',
+];
+
+// FHIR item types and the question type they import as, with a note when the mapping loses something
+const ITEM_TYPES: Record<string, { type: IQuestion['type']; note?: string; multiline?: boolean }> = {
+  string: { type: 'text' },
+  text: { type: 'text', multiline: true },
+  integer: { type: 'numeric' },
+  decimal: { type: 'numeric' },
+  quantity: { type: 'numeric', note: 'Quantity units are not kept; imported as a number' },
+  date: { type: 'date' },
+  dateTime: { type: 'date', note: 'Imported as a date without a time' },
+  time: { type: 'text', note: 'Time items are imported as text' },
+  url: { type: 'text', note: 'URL items are imported as text' },
+  boolean: { type: 'boolean' },
+  choice: { type: 'multipleChoice' },
+  'open-choice': { type: 'multipleChoice', note: 'Free-text answers to open-choice items are not supported; only the listed options can be chosen' },
+};
+
+const parseJsonExtension = (element: any, url: string, linkId: string, issues: QuestionnaireIssue[]) => {
+  const extension = findExtension(element, url);
+  if (!extension?.valueString) return undefined;
+  try {
+    return JSON.parse(extension.valueString);
+  } catch {
+    issues.push({ severity: 'warning', linkId, message: `Ignored an unreadable ${url.split('/').pop()} extension` });
+    return undefined;
+  }
+};
+
+function toOption(answerOption: any): IOption | null {
+  const coding = answerOption?.valueCoding;
+  const value = coding
+    ? coding.code ?? coding.display
+    : answerOption?.valueString ?? answerOption?.valueInteger ?? answerOption?.valueDate;
+  if (value === undefined || value === null || value === '') return null;
+
+  const ordinal = findExtension(answerOption, EXTENSIONS.ordinalValue) || findExtension(coding, EXTENSIONS.ordinalValue);
+  const recommendation = findExtension(answerOption, EXTENSIONS.optionRecommendation)?.valueString;
+
+  return {
+    value: String(value),
+    label: String(coding?.display ?? value),
+    ...(typeof ordinal?.valueDecimal === 'number' && { score: ordinal.valueDecimal }),
+    ...(recommendation && { recommendation }),
+  };
+}
+
+const CONDITION_OPERATORS: Record<string, ICondition['operator']> = {
+  '=': 'equals',
+  '!=': 'notEquals',
+  '>': 'greaterThan',
+  '<': 'lessThan',
+  '>=': 'greaterThanOrEqual',
+  '<=': 'lessThanOrEqual',
+};
+
+const enableWhenValue = (enableWhen: any): ICondition['value'] | undefined => {
+  if (enableWhen.answerCoding) return enableWhen.answerCoding.code ?? enableWhen.answerCoding.display;
+  if (enableWhen.answerQuantity) return enableWhen.answerQuantity.value;
+  for (const key of ['answerBoolean', 'answerInteger', 'answerDecimal', 'answerDate', 'answerDateTime', 'answerTime', 'answerString']) {
+    if (enableWhen[key] !== undefined) return enableWhen[key];
+  }
+  return undefined;
+};
+
+interface ImportContext {
+  issues: QuestionnaireIssue[];
+  usedIds: Set<string>;
+  // enableWhen is resolved after every item is imported, since it may refer to later items
+  pendingConditions: { target: { conditionalLogic?: IConditionalLogic }; item: any; linkId: string }[];
+}
+
+const uniqueId = (linkId: unknown, fallback: string, context: ImportContext) => {
+  let id = typeof linkId === 'string' && linkId.trim() ? linkId.trim() : fallback;
+  if (context.usedIds.has(id)) {
+    const base = id;
+    let suffix = 2;
+    while (context.usedIds.has(`${base}-${suffix}`)) suffix++;
+    id = `${base}-${suffix}`;
+    context.issues.push({ severity: 'warning', linkId: base, message: `Duplicate linkId renamed to ${id}; conditions refer to the first item` });
+  }
+  context.usedIds.add(id);
+  return id;
+};
+
+function readConditions(target: { conditionalLogic?: IConditionalLogic }, item: any, linkId: string, context: ImportContext) {
+  const stored = parseJsonExtension(item, EXTENSIONS.conditionalLogic, linkId, context.issues);
+  if (stored) {
+    target.conditionalLogic = stored;
+    return;
+  }
+  if (Array.isArray(item.enableWhen) && item.enableWhen.length > 0) {
+    context.pendingConditions.push({ target, item, linkId });
+  }
+}
+
+function resolveConditions(context: ImportContext, knownFields: Set<string>) {
+  context.pendingConditions.forEach(({ target, item, linkId }) => {
+    const conditions: ICondition[] = [];
+
+    item.enableWhen.forEach((enableWhen: any) => {
+      if (!knownFields.has(enableWhen?.question)) {
+        context.issues.push({ severity: 'warning', linkId, message: `Dropped a condition on unknown item "${enableWhen?.question}"` });
+        return;
+      }
+      if (enableWhen.operator === 'exists') {
+        conditions.push({ field: enableWhen.question, operator: enableWhen.answerBoolean === false ? 'isNotAnswered' : 'isAnswered' });
+        return;
+      }
+
+      const operator = CONDITION_OPERATORS[enableWhen.operator];
+      const value = enableWhenValue(enableWhen);
+      if (!operator || value === undefined) {
+        context.issues.push({ severity: 'warning', linkId, message: `Dropped an unsupported condition (${enableWhen.operator}) on "${enableWhen.question}"` });
+        return;
+      }
+      conditions.push({ field: enableWhen.question, operator, value: value as ICondition['value'] });
+    });
+
+    if (conditions.length > 0) {
+      const expression: IConditionGroup = { combinator: item.enableBehavior === 'any' ? 'or' : 'and', conditions };
+      target.conditionalLogic = { expression };
+    }
+  });
+}
+
+const UNSUPPORTED_ITEM_FIELDS: [string, string][] = [
+  ['initial', 'Initial values are not supported'],
+  ['answerValueSet', 'Answer value sets are not supported; add the options to the template'],
+  ['maxLength', 'Maximum answer length is not supported'],
+  ['readOnly', 'Read-only items are imported as normal questions'],
+];
+
+function itemToQuestion(item: any, context: ImportContext, knownFields: Set<string>): IQuestion | null {
+  const { issues } = context;
+  const id = uniqueId(item.linkId, `question-${context.usedIds.size + 1}`, context);
+  const text = typeof item.text === 'string' && item.text.trim() ? item.text.trim() : id;
+  if (text === id) {
+    issues.push({ severity: 'warning', linkId: id, message: 'Item has no text; its linkId is used as the question text' });
+  }
+  knownFields.add(id);
+
+  const awvType = findExtension(item, EXTENSIONS.questionType)?.valueCode;
+  const config = parseJsonExtension(item, EXTENSIONS.questionConfig, id, issues) || {};
+  const mapping = ITEM_TYPES[item.type];
+
+  let type: IQuestion['type'];
+  if (AWV_TYPES.includes(awvType)) {
+    type = awvType;
+  } else if (mapping) {
+    type = mapping.type;
+    if (mapping.note) issues.push({ severity: 'warning', linkId: id, message: mapping.note });
+  } else {
+    issues.push({ severity: 'warning', linkId: id, message: `Item type "${item.type}" is not supported; the item was skipped` });
+    return null;
+  }
+
+  const question: IQuestion = {
+    id,
+    text,
+    type,
+    required: item.required === true,
+  };
+
+  const codings: ICoding[] = (Array.isArray(item.code) ? item.code : []).filter((coding: any) => coding?.system && coding?.code);
+  if (codings.length > 0 && !sameCoding(codings[0], defaultCode(question))) {
+    question.code = { system: codings[0].system, code: codings[0].code, ...(codings[0].display && { display: codings[0].display }) };
+  }
+  if (codings.length > 1) {
+    issues.push({ severity: 'info', linkId: id, message: 'Only the first code of the item is kept' });
+  }
+
+  const options = (Array.isArray(item.answerOption) ? item.answerOption : [])
+    .map(toOption)
+    .filter((option: IOption | null): option is IOption => option !== null);
+
+  if (item.type === 'group') {
+    // Composite questions and default instruments rebuild their children from the question type
+    (item.item || []).forEach((child: any) => {
+      if (typeof child?.linkId === 'string') knownFields.add(child.linkId);
+    });
+  } else if (options.length > 0 && (type === 'multipleChoice' || isScoredQuestion(question))) {
+    question.options = options;
+  } else if (type === 'multipleChoice') {
+    issues.push({ severity: 'warning', linkId: id, message: 'Choice item has no answer options' });
+  }
+
+  if (item.type === 'text' || mapping?.multiline) config.multiline = true;
+  if (item.repeats === true) {
+    if (type === 'multipleChoice') {
+      config.multiple = true;
+    } else {
+      issues.push({ severity: 'warning', linkId: id, message: 'Repeating answers are only supported for choice items' });
+    }
+  }
+  if (Object.keys(config).length > 0) question.config = config;
+
+  if (findExtension(item, EXTENSIONS.includeRecommendation)?.valueBoolean) question.includeRecommendation = true;
+  const defaultRecommendation = findExtension(item, EXTENSIONS.defaultRecommendation)?.valueString;
+  if (defaultRecommendation) question.defaultRecommendation = defaultRecommendation;
+
+  UNSUPPORTED_ITEM_FIELDS.forEach(([field, message]) => {
+    if (item[field] !== undefined && !(field === 'readOnly' && item[field] === false)) {
+      issues.push({ severity: 'warning', linkId: id, message });
+    }
+  });
+
+  readConditions(question, item, id, context);
+  return question;
+}
+
+// Questions of a section, flattening plain nested groups that templates cannot represent
+function collectQuestions(items: any[], context: ImportContext, knownFields: Set<string>, section: ISection) {
+  items.forEach((item, index) => {
+    if (!item || typeof item !== 'object') return;
+
+    if (item.type === 'display') {
+      if (index === 0 && !section.description && typeof item.text === 'string') {
+        section.description = item.text;
+      } else {
+        context.issues.push({ severity: 'warning', linkId: item.linkId || section.id, message: 'Display text is not supported and was skipped' });
+      }
+      return;
+    }
+
+    if (item.type === 'group' && !findExtension(item, EXTENSIONS.questionType)) {
+      context.issues.push({
+        severity: 'warning',
+        linkId: item.linkId || section.id,
+        message: `Nested group "${item.text || item.linkId}" was flattened into section "${section.title}"${item.enableWhen ? ' and its display condition dropped' : ''}`,
+      });
+      collectQuestions(Array.isArray(item.item) ? item.item : [], context, knownFields, section);
+      return;
+    }
+
+    const question = itemToQuestion(item, context, knownFields);
+    if (question) section.questions.push(question);
+  });
+}
+
+export function questionnaireToTemplate(resource: unknown): { template: ImportedTemplate; issues: QuestionnaireIssue[] } {
+  const questionnaire = resource as any;
+  if (!questionnaire || typeof questionnaire !== 'object' || questionnaire.resourceType !== 'Questionnaire') {
+    throw new QuestionnaireError('Expected a FHIR Questionnaire resource');
+  }
+  if (!Array.isArray(questionnaire.item) || questionnaire.item.length === 0) {
+    throw new QuestionnaireError('The questionnaire has no items');
+  }
+
+  const context: ImportContext = { issues: [], usedIds: new Set(), pendingConditions: [] };
+  const knownFields = new Set<string>();
+  const sections: ISection[] = [];
+  let looseSection: ISection | null = null;
+
+  questionnaire.item.forEach((item: any) => {
+    if (item?.type === 'group' && !findExtension(item, EXTENSIONS.questionType)) {
+      const section: ISection = {
+        id: uniqueId(item.linkId, `section-${sections.length + 1}`, context),
+        title: typeof item.text === 'string' && item.text.trim() ? item.text.trim() : `Section ${sections.length + 1}`,
+        questions: [],
+        ...(findExtension(item, EXTENSIONS.patientCompletable)?.valueBoolean === true && { patientCompletable: true }),
+      };
+      collectQuestions(Array.isArray(item.item) ? item.item : [], context, knownFields, section);
+      readConditions(section, item, section.id, context);
+      sections.push(section);
+      return;
+    }
+
+    // Templates only hold questions inside sections
+    if (!looseSection) {
+      looseSection = { id: uniqueId('general', 'general', context), title: 'General', questions: [] };
+      sections.push(looseSection);
+      context.issues.push({ severity: 'info', linkId: '', message: 'Items outside a group were placed in a "General" section' });
+    }
+    collectQuestions([item], context, knownFields, looseSection);
+  });
+
+  resolveConditions(context, knownFields);
+
+  const nonEmpty = sections.filter(section => section.questions.length > 0);
+  if (nonEmpty.length === 0) {
+    throw new QuestionnaireError('The questionnaire has no questions that can be imported');
+  }
+  sections
+    .filter(section => section.questions.length === 0)
+    .forEach(section => context.issues.push({ severity: 'warning', linkId: section.id, message: `Section "${section.title}" has no importable questions and was skipped` }));
+
+  return {
+    template: {
+      name: String(questionnaire.title || questionnaire.name || 'Imported questionnaire'),
+      ...(questionnaire.description && { description: String(questionnaire.description) }),
+      sections: nonEmpty,
+    },
+    issues: context.issues,
+  };
+}
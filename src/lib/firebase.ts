@@ -229,6 +229,24 @@ export async function logout() {
   }
 }
 
+/**
+ * Get an ID token for the signed-in user to authenticate API requests
+ * @returns The ID token, or null when nobody is signed in
+ */
+export async function getIdToken(): Promise<string | null> {
+  const authInstance = getFirebaseAuth();
+  if (!authInstance) return null;
+  
+  try {
+    // Wait for the persisted session to be restored on page load
+    await authInstance.authStateReady();
+    return authInstance.currentUser ? await authInstance.currentUser.getIdToken() : null;
+  } catch (error) {
+    console.error('Error getting ID token:', error);
+    return null;
+  }
+}
+
 /**
  * Subscribe to auth state changes
  * @param callback Function to call when auth state changes
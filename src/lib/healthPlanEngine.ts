@@ -0,0 +1,295 @@
+import type { ICondition, IConditionGroup, ITemplateBase, IQuestion } from '@/models/Template';
+import type { IRecommendation } from '@/models/Recommendation';
+import { flattenResponses, getSelectedValues, isAnswered } from '@/lib/visitResponses';
+import { formatScore, scoreQuestion } from '@/lib/scoring';
+import { ConditionContext, evaluateConditionGroup, isConditionGroup } from '@/lib/conditionalLogic';
+
+export type RecommendationPriority = 'high' | 'medium' | 'low';
+
+export interface HealthPlanItem {
+  domain: string;
+  text: string;
+  priority: RecommendationPriority;
+  source?: {
+    question: string;
+    response?: string;
+  };
+  // When a screening or immunization is next due (YYYY-MM-DD), for the patient's schedule
+  dueDate?: string;
+}
+
+export interface GeneratedHealthPlan {
+  recommendations: HealthPlanItem[];
+  summary: string;
+}
+
+type LibraryRecommendation = Pick<IRecommendation, 'text' | 'domain' | 'priority' | 'condition' | 'tags'>;
+
+interface GenerateHealthPlanParams {
+  template: Pick<ITemplateBase, 'sections'>;
+  responses: unknown;
+  library?: LibraryRecommendation[];
+  // For library conditions on patient fields such as patient.age
+  patient?: ConditionContext['patient'];
+  now?: Date;
+}
+
+const PRIORITY_RANK: Record<RecommendationPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// Normalize recommendation text so the same advice from two sources is only listed once
+export const normalizeText = (text: string) =>
+  text.toLowerCase().replace(/\s+/g, ' ').replace(/[.\s]+$/, '').trim();
+
+const formatResponse = (question: IQuestion, value: any): string => {
+  if (question.options && question.options.length > 0) {
+    const labels = getSelectedValues(value).map(selected => {
+      const option = question.options!.find(o => o.value === selected);
+      return option ? option.label : selected;
+    });
+    if (labels.length > 0) return labels.join(', ');
+  }
+
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (value && typeof value === 'object') return JSON.stringify(value);
+
+  return String(value);
+};
+
+// A default recommendation only applies when the answer is affirmative
+const isAffirmative = (question: IQuestion, value: any): boolean => {
+  if (question.type === 'boolean') {
+    return value === true || value === 'true' || value === 'yes';
+  }
+
+  return isAnswered(value);
+};
+
+const LEGACY_OPERATORS: Record<string, ICondition['operator']> = {
+  '=': 'equals',
+  '==': 'equals',
+  '!=': 'notEquals',
+  '>': 'greaterThan',
+  '>=': 'greaterThanOrEqual',
+  '<': 'lessThan',
+  '<=': 'lessThanOrEqual',
+};
+
+const parseLegacyClause = (clause: string): IConditionGroup | null => {
+  if (!clause) return null;
+
+  const match = clause.match(/^([\w.:-]+)\s*(==|=|!=|>=|<=|>|<)\s*(.+)$/);
+
+  // A bare question id is true when the question has an affirmative answer
+  if (!match) {
+    if (!/^[\w.:-]+$/.test(clause)) return null;
+    return {
+      combinator: 'and',
+      conditions: [
+        { field: clause, operator: 'isAnswered' },
+        { field: clause, operator: 'notIn', value: ['false', 'no'] },
+      ],
+    };
+  }
+
+  const [, field, operator, rawValue] = match;
+  const value = rawValue.trim().replace(/^['"]|['"]$/g, '');
+
+  // `!=` never matched an unanswered question
+  return {
+    combinator: 'and',
+    conditions: [
+      { field, operator: 'isAnswered' },
+      { field, operator: LEGACY_OPERATORS[operator], value },
+    ],
+  };
+};
+
+/**
+ * Convert a condition saved before conditions were condition groups: clauses
+ * of the form `questionId <op> value` or a bare `questionId`, joined by AND/OR
+ * with AND binding tighter. Returns null when any clause cannot be read.
+ */
+export function parseLegacyRecommendationCondition(condition: string): IConditionGroup | null {
+  const alternatives = condition.trim().split(/\s+OR\s+/i).map(alternative => {
+    const clauses = alternative.split(/\s+AND\s+/i).map(clause => parseLegacyClause(clause.trim()));
+    return clauses.every(Boolean) ? { combinator: 'and' as const, conditions: clauses as IConditionGroup[] } : null;
+  });
+
+  return alternatives.every(Boolean) ? { combinator: 'or', conditions: alternatives as IConditionGroup[] } : null;
+}
+
+/**
+ * Evaluate a library recommendation condition against the visit responses.
+ *
+ * Conditions are condition groups evaluated exactly like template conditional
+ * logic, so they can use sub-fields such as `vitals.systolic`, patient fields
+ * such as `patient.age` and nested AND/OR groups. Legacy string conditions are
+ * converted first; anything else never matches.
+ */
+export function evaluateRecommendationCondition(condition: unknown, context: ConditionContext): boolean {
+  const group = typeof condition === 'string' ? parseLegacyRecommendationCondition(condition) : condition;
+  return isConditionGroup(group) && group.conditions.length > 0 && evaluateConditionGroup(group, context);
+}
+
+/**
+ * Build a health plan from a visit's responses.
+ *
+ * Recommendations come from four places: the recommendation attached to each
+ * selected option, a question's default recommendation, the follow-up for a
+ * positive, fully answered screening instrument (always high priority), and library entries
+ * whose condition matches or whose tags name a triggered question/option.
+ * A positive screen can be matched by tag as `questionId:positive`.
+ * The result is deduplicated by text, keeping the highest priority, and
+ * ordered so that recommendations are grouped by domain.
+ */
+export function generateHealthPlan({ template, responses, library = [], patient, now }: GenerateHealthPlanParams): GeneratedHealthPlan {
+  const responseMap = flattenResponses(responses);
+  const conditionContext: ConditionContext = { responses: responseMap, patient, now };
+  const candidates: HealthPlanItem[] = [];
+  const triggers = new Set<string>();
+  const domainOrder: string[] = [];
+
+  (template.sections || []).forEach(section => {
+    (section.questions || []).forEach(question => {
+      const value = responseMap[question.id];
+      if (!isAnswered(value)) return;
+
+      // Scored instruments recommend follow-up based on the total, not individual answers
+      const instrumentScore = scoreQuestion(question, value);
+      if (instrumentScore) {
+        // Like billing and the patient handout, only act on fully answered screenings
+        if (instrumentScore.complete && instrumentScore.positive) {
+          triggers.add(`${question.id}:positive`);
+
+          if (instrumentScore.followUp) {
+            candidates.push({
+              domain: section.title,
+              text: instrumentScore.followUp,
+              priority: 'high',
+              source: {
+                question: instrumentScore.label,
+                response: `${instrumentScore.interpretation} (score ${formatScore(instrumentScore)})`,
+              },
+            });
+          }
+        }
+        return;
+      }
+
+      let optionRecommendationFound = false;
+
+      getSelectedValues(value).forEach(selected => {
+        const option = question.options?.find(o => o.value === selected);
+        if (!option) return;
+
+        triggers.add(`${question.id}:${option.value}`);
+
+        if (option.recommendation) {
+          optionRecommendationFound = true;
+          candidates.push({
+            domain: section.title,
+            text: option.recommendation,
+            priority: 'medium',
+            source: { question: question.text, response: option.label },
+          });
+        }
+      });
+
+      if (isAffirmative(question, value)) {
+        triggers.add(question.id);
+
+        if (question.includeRecommendation && question.defaultRecommendation && !optionRecommendationFound) {
+          candidates.push({
+            domain: section.title,
+            text: question.defaultRecommendation,
+            priority: 'medium',
+            source: { question: question.text, response: formatResponse(question, value) },
+          });
+        }
+      }
+    });
+
+    if (!domainOrder.includes(section.title)) {
+      domainOrder.push(section.title);
+    }
+  });
+
+  library.forEach(recommendation => {
+    const matchesCondition = evaluateRecommendationCondition(recommendation.condition, conditionContext);
+    const matchesTag = (recommendation.tags || []).some(tag => triggers.has(tag));
+
+    if (matchesCondition || matchesTag) {
+      candidates.push({
+        domain: recommendation.domain,
+        text: recommendation.text,
+        priority: recommendation.priority || 'medium',
+      });
+    }
+  });
+
+  // Deduplicate, keeping the highest priority version of each recommendation
+  const byText = new Map<string, HealthPlanItem>();
+  candidates.forEach(candidate => {
+    const key = normalizeText(candidate.text);
+    const existing = byText.get(key);
+
+    if (!existing) {
+      byText.set(key, candidate);
+    } else if (PRIORITY_RANK[candidate.priority] < PRIORITY_RANK[existing.priority]) {
+      byText.set(key, { ...candidate, source: candidate.source || existing.source });
+    }
+  });
+
+  const items = Array.from(byText.values());
+
+  // Domains with high priority items come first, then template section order
+  const domainRank = (domain: string) => {
+    const best = Math.min(...items.filter(item => item.domain === domain).map(item => PRIORITY_RANK[item.priority]));
+    const position = domainOrder.indexOf(domain);
+    return best * 1000 + (position === -1 ? domainOrder.length : position);
+  };
+
+  items.sort((a, b) => {
+    if (a.domain !== b.domain) {
+      return domainRank(a.domain) - domainRank(b.domain) || a.domain.localeCompare(b.domain);
+    }
+    return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority];
+  });
+
+  return {
+    recommendations: items,
+    summary: summarizeHealthPlan(items),
+  };
+}
+
+// Group recommendations by domain, preserving their order
+export function groupRecommendationsByDomain<T extends { domain: string }>(items: T[]): { domain: string; items: T[] }[] {
+  const groups: { domain: string; items: T[] }[] = [];
+
+  items.forEach(item => {
+    let group = groups.find(g => g.domain === item.domain);
+    if (!group) {
+      group = { domain: item.domain, items: [] };
+      groups.push(group);
+    }
+    group.items.push(item);
+  });
+
+  return groups;
+}
+
+export function summarizeHealthPlan(items: HealthPlanItem[]): string {
+  if (items.length === 0) {
+    return 'No recommendations were triggered by this visit.';
+  }
+
+  const domains = new Set(items.map(item => item.domain)).size;
+  const highPriority = items.filter(item => item.priority === 'high').length;
+
+  return `${items.length} recommendation${items.length === 1 ? '' : 's'} across ${domains} domain${domains === 1 ? '' : 's'}` +
+    (highPriority > 0 ? `, ${highPriority} high priority.` : '.');
+}
@@ -0,0 +1,302 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Invitation from '@/models/Invitation';
+import User from '@/models/User';
+import { getFirebaseAdmin } from '@/lib/apiAuth';
+import { checkMailConfiguration, getAppUrl, MailConfigurationError, sendMail } from '@/lib/mailer';
+import { normalizeRole, Role } from '@/lib/permissions';
+
+/**
+ * Server helpers for user invitations.
+ *
+ * An invitation emails a random single-use token. Only its SHA-256 hash is
+ * stored, so a leaked database cannot be used to accept invitations. Resending
+ * rotates the token, which invalidates any earlier link for the invitation.
+ */
+
+export const INVITATION_TTL_DAYS = 7;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+export class InvitationError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'InvitationError';
+    this.status = status;
+  }
+}
+
+export const hashInvitationToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const createToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashInvitationToken(token) };
+};
+
+const expiryFromNow = () => new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+// Invitations that are pending past their expiry are reported as expired
+export const toInvitationRecord = (invitation: any) => {
+  const expired = invitation.status === 'pending' && new Date(invitation.expiresAt) <= new Date();
+
+  return {
+    id: String(invitation._id),
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    status: expired ? 'expired' : invitation.status,
+    invitedBy: invitation.invitedBy && typeof invitation.invitedBy === 'object' && 'email' in invitation.invitedBy
+      ? { name: invitation.invitedBy.name, email: invitation.invitedBy.email }
+      : undefined,
+    expiresAt: invitation.expiresAt,
+    lastSentAt: invitation.lastSentAt,
+    sendCount: invitation.sendCount,
+    acceptedAt: invitation.acceptedAt,
+    revokedAt: invitation.revokedAt,
+    createdAt: invitation.createdAt,
+  };
+};
+
+export const invitationLink = (token: string, email: string, origin?: string) =>
+  `${getAppUrl(origin)}/register?token=${encodeURIComponent(token)}&email=${encodeURIComponent(email)}`;
+
+const ROLE_LABELS: Record<Role, string> = {
+  admin: 'Administrator',
+  provider: 'Provider',
+  staff: 'Staff',
+};
+
+// An invitation nobody can receive should not be created or reissued
+const requireMail = (origin?: string) => {
+  try {
+    checkMailConfiguration(origin);
+  } catch (error) {
+    if (error instanceof MailConfigurationError) {
+      throw new InvitationError(error.message, 503);
+    }
+    throw error;
+  }
+};
+
+async function sendInvitationEmail(invitation: any, token: string, origin?: string) {
+  const link = invitationLink(token, invitation.email, origin);
+  const expires = new Date(invitation.expiresAt).toUTCString();
+
+  await sendMail({
+    to: invitation.email,
+    subject: 'You have been invited to Annual Wellness Visit',
+    text: [
+      `Hello${invitation.name ? ` ${invitation.name}` : ''},`,
+      '',
+      `You have been invited to join Annual Wellness Visit as ${ROLE_LABELS[invitation.role as Role] || invitation.role}.`,
+      'Open the link below to create your account:',
+      '',
+      link,
+      '',
+      `This link can be used once and expires on ${expires}.`,
+      'If you were not expecting this invitation you can ignore this email.'
+    ].join('\n'),
+  });
+}
+
+export async function createInvitation(
+  { email, name, role, invitedBy }: { email: string; name?: string; role: string; invitedBy?: string | null },
+  origin?: string
+) {
+  const normalizedEmail = typeof email === 'string' ? email.trim().toLowerCase() : '';
+  if (!EMAIL_PATTERN.test(normalizedEmail)) {
+    throw new InvitationError('A valid email address is required');
+  }
+
+  const normalizedRole = normalizeRole(role);
+  if (!normalizedRole) {
+    throw new InvitationError('Invalid role. Must be admin, provider, or staff.');
+  }
+
+  requireMail(origin);
+
+  if (await User.exists({ email: normalizedEmail })) {
+    throw new InvitationError('User with this email already exists', 409);
+  }
+
+  const pending = await Invitation.exists({
+    email: normalizedEmail,
+    status: 'pending',
+    expiresAt: { $gt: new Date() },
+  });
+  if (pending) {
+    throw new InvitationError('An invitation is already pending for this email. Resend it instead.', 409);
+  }
+
+  const { token, tokenHash } = createToken();
+  const invitation = await Invitation.create({
+    email: normalizedEmail,
+    name: name?.trim() || undefined,
+    role: normalizedRole,
+    tokenHash,
+    invitedBy: invitedBy && mongoose.Types.ObjectId.isValid(invitedBy) ? invitedBy : undefined,
+    expiresAt: expiryFromNow(),
+    lastSentAt: new Date(),
+    sendCount: 1,
+  });
+
+  await sendInvitationEmail(invitation, token, origin);
+
+  return toInvitationRecord(invitation.toObject());
+}
+
+// Send a fresh link with a new token and expiry; the previous link stops working
+export async function resendInvitation(id: string, origin?: string) {
+  const invitation = await Invitation.findById(id);
+  if (!invitation) {
+    throw new InvitationError('Invitation not found', 404);
+  }
+  if (invitation.status !== 'pending') {
+    throw new InvitationError(`This invitation has already been ${invitation.status}`, 409);
+  }
+
+  requireMail(origin);
+
+  const { token, tokenHash } = createToken();
+  invitation.tokenHash = tokenHash;
+  invitation.expiresAt = expiryFromNow();
+  invitation.lastSentAt = new Date();
+  invitation.sendCount = (invitation.sendCount || 0) + 1;
+  await invitation.save();
+
+  await sendInvitationEmail(invitation, token, origin);
+
+  return toInvitationRecord(invitation.toObject());
+}
+
+export async function revokeInvitation(id: string) {
+  const invitation = await Invitation.findOneAndUpdate(
+    { _id: id, status: 'pending' },
+    { $set: { status: 'revoked', revokedAt: new Date() } },
+    { new: true }
+  ).lean();
+
+  if (!invitation) {
+    const exists = await Invitation.exists({ _id: id });
+    throw exists
+      ? new InvitationError('Only pending invitations can be revoked', 409)
+      : new InvitationError('Invitation not found', 404);
+  }
+
+  return toInvitationRecord(invitation);
+}
+
+// Find the pending invitation for a token, rejecting used, revoked and expired ones
+async function findUsableInvitation(token: string, email: string) {
+  if (!token || !email) {
+    throw new InvitationError('Invitation token and email are required');
+  }
+
+  const invitation: any = await Invitation.findOne({ tokenHash: hashInvitationToken(token) }).lean();
+  if (!invitation || invitation.email !== email.trim().toLowerCase()) {
+    throw new InvitationError('Invalid invitation link', 404);
+  }
+  if (invitation.status === 'accepted') {
+    throw new InvitationError('This invitation has already been used', 410);
+  }
+  if (invitation.status === 'revoked') {
+    throw new InvitationError('This invitation has been revoked', 410);
+  }
+  if (new Date(invitation.expiresAt) <= new Date()) {
+    throw new InvitationError('This invitation has expired', 410);
+  }
+
+  return invitation;
+}
+
+export async function verifyInvitation(token: string, email: string) {
+  const invitation = await findUsableInvitation(token, email);
+  return {
+    email: invitation.email,
+    name: invitation.name,
+    role: invitation.role,
+    expiresAt: invitation.expiresAt,
+  };
+}
+
+/**
+ * Accept an invitation and create the user with the invited role. The
+ * invitation is claimed atomically first so a token can only be used once,
+ * and released again if the account cannot be created.
+ */
+export async function acceptInvitation(
+  { token, email, name, password }: { token: string; email: string; name: string; password: string }
+) {
+  const invitation = await findUsableInvitation(token, email);
+
+  const displayName = typeof name === 'string' && name.trim() ? name.trim() : invitation.name;
+  if (!displayName) {
+    throw new InvitationError('Name is required');
+  }
+  if (typeof password !== 'string' || password.length < MIN_PASSWORD_LENGTH) {
+    throw new InvitationError(`Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+  if (await User.exists({ email: invitation.email })) {
+    throw new InvitationError('User with this email already exists', 409);
+  }
+
+  const claimed = await Invitation.findOneAndUpdate(
+    { _id: invitation._id, status: 'pending', expiresAt: { $gt: new Date() } },
+    { $set: { status: 'accepted', acceptedAt: new Date() } },
+    { new: true }
+  );
+  if (!claimed) {
+    throw new InvitationError('This invitation has already been used', 410);
+  }
+
+  let user: any = null;
+  try {
+    user = await User.create({
+      name: displayName,
+      email: invitation.email,
+      password,
+      role: invitation.role,
+      isActive: true,
+    });
+
+    // Users sign in with Firebase, so the account is created there as well when it is configured
+    const admin = await getFirebaseAdmin();
+    if (admin) {
+      const firebaseUser = await admin.auth().createUser({
+        email: invitation.email,
+        password,
+        displayName,
+      });
+      await admin.auth().setCustomUserClaims(firebaseUser.uid, { role: invitation.role });
+    } else {
+      console.warn(`Firebase Admin is not configured; ${invitation.email} can only sign in with /api/auth/login`);
+    }
+
+    claimed.acceptedUser = user._id;
+    await claimed.save();
+  } catch (error: any) {
+    if (user) {
+      await User.deleteOne({ _id: user._id }).catch(() => undefined);
+    }
+    await Invitation.updateOne(
+      { _id: invitation._id },
+      { $set: { status: 'pending' }, $unset: { acceptedAt: '', acceptedUser: '' } }
+    );
+
+    if (error?.code === 'auth/email-already-exists' || error?.code === 11000) {
+      throw new InvitationError('User with this email already exists', 409);
+    }
+    throw error;
+  }
+
+  return {
+    id: String(user._id),
+    name: user.name,
+    email: user.email,
+    role: user.role,
+  };
+}
@@ -0,0 +1,186 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import nodemailer from 'nodemailer';
+
+/**
+ * Outgoing email with a pluggable transport.
+ *
+ * MAIL_TRANSPORT selects the transport. 'smtp' delivers real email through
+ * SMTP_HOST and works everywhere. In development (NODE_ENV=development)
+ * 'console' (the default) logs messages and 'file' writes each message to
+ * MAIL_FILE_DIR. Everywhere else sending fails until SMTP is configured or a
+ * transport is registered with setMailTransport().
+ */
+
+// Email cannot be sent, or its links built, with the current configuration
+export class MailConfigurationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'MailConfigurationError';
+  }
+}
+
+const isDevelopment = () => process.env.NODE_ENV === 'development';
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+}
+
+export interface MailTransport {
+  name: string;
+  send(message: MailMessage & { from: string }): Promise<void>;
+}
+
+export const consoleTransport: MailTransport = {
+  name: 'console',
+  async send(message) {
+    console.log([
+      '--- Outgoing email ---',
+      `From: ${message.from}`,
+      `To: ${message.to}`,
+      `Subject: ${message.subject}`,
+      '',
+      message.text,
+      '----------------------'
+    ].join('\n'));
+  }
+};
+
+// Writes each message to its own .eml file so links can be opened from disk
+export function createFileTransport(directory: string): MailTransport {
+  return {
+    name: 'file',
+    async send(message) {
+      await fs.mkdir(directory, { recursive: true });
+
+      const recipient = message.to.replace(/[^a-z0-9]+/gi, '_');
+      const fileName = `${new Date().toISOString().replace(/[:.]/g, '-')}-${recipient}.eml`;
+      const content = [
+        `From: ${message.from}`,
+        `To: ${message.to}`,
+        `Subject: ${message.subject}`,
+        `Date: ${new Date().toUTCString()}`,
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        message.text
+      ].join('\r\n');
+
+      await fs.writeFile(path.join(directory, fileName), content, 'utf8');
+      console.log(`Email to ${message.to} written to ${path.join(directory, fileName)}`);
+    }
+  };
+}
+
+export interface SmtpOptions {
+  host: string;
+  port: number;
+  secure: boolean;
+  user?: string;
+  password?: string;
+}
+
+export function createSmtpTransport(options: SmtpOptions): MailTransport {
+  const transporter = nodemailer.createTransport({
+    host: options.host,
+    port: options.port,
+    secure: options.secure,
+    auth: options.user ? { user: options.user, pass: options.password } : undefined
+  });
+
+  return {
+    name: 'smtp',
+    async send(message) {
+      await transporter.sendMail({
+        from: message.from,
+        to: message.to,
+        subject: message.subject,
+        text: message.text,
+        html: message.html
+      });
+    }
+  };
+}
+
+function smtpOptionsFromEnv(): SmtpOptions {
+  const host = process.env.SMTP_HOST;
+  if (!host) {
+    throw new MailConfigurationError('Email is not configured: MAIL_TRANSPORT=smtp requires SMTP_HOST');
+  }
+
+  const port = parseInt(process.env.SMTP_PORT || '', 10) || 587;
+  return {
+    host,
+    port,
+    // Port 465 speaks TLS from the start; other ports upgrade with STARTTLS
+    secure: process.env.SMTP_SECURE ? process.env.SMTP_SECURE === 'true' : port === 465,
+    user: process.env.SMTP_USER || undefined,
+    password: process.env.SMTP_PASSWORD || undefined
+  };
+}
+
+let transport: MailTransport | null = null;
+
+export function setMailTransport(mailTransport: MailTransport | null) {
+  transport = mailTransport;
+}
+
+/**
+ * Registers the transport named by MAIL_TRANSPORT unless one is already set.
+ * Called at startup so a misconfigured deployment is reported before the
+ * first email is due; getMailTransport() falls back to it as well.
+ */
+export function initMailTransport(): MailTransport {
+  if (transport) return transport;
+
+  if (process.env.MAIL_TRANSPORT === 'smtp') {
+    transport = createSmtpTransport(smtpOptionsFromEnv());
+    return transport;
+  }
+
+  // Logging or writing messages to disk would silently drop real patients' and users' email
+  if (!isDevelopment()) {
+    throw new MailConfigurationError('Email is not configured: set MAIL_TRANSPORT=smtp and SMTP_HOST');
+  }
+
+  if (process.env.MAIL_TRANSPORT === 'file') {
+    transport = createFileTransport(process.env.MAIL_FILE_DIR || path.join(process.cwd(), '.mail'));
+  } else {
+    transport = consoleTransport;
+  }
+  return transport;
+}
+
+export function getMailTransport(): MailTransport {
+  return transport ?? initMailTransport();
+}
+
+/**
+ * The site URL that emailed links point to. Outside development it must be
+ * configured: the request's Origin and Host headers are supplied by the client
+ * and could send a link to someone else's site.
+ */
+export function getAppUrl(origin?: string): string {
+  const configured = process.env.APP_URL || process.env.URL || process.env.NEXTAUTH_URL;
+
+  if (!configured && !isDevelopment()) {
+    throw new MailConfigurationError('Email links are not configured: set APP_URL to the site URL');
+  }
+
+  return (configured || origin || 'http://localhost:3000').replace(/\/$/, '');
+}
+
+// Fail before anything is saved when an email with a link could not be sent
+export function checkMailConfiguration(origin?: string) {
+  getMailTransport();
+  getAppUrl(origin);
+}
+
+export async function sendMail(message: MailMessage): Promise<void> {
+  await getMailTransport().send({
+    ...message,
+    from: process.env.MAIL_FROM || 'Annual Wellness Visit <no-reply@localhost>'
+  });
+}
@@ -0,0 +1,119 @@
+import type { ResponseMap } from '@/lib/visitResponses';
+import type { ResponseConflict } from '@/lib/responseMerge';
+
+/**
+ * Unsynced visit answers kept in IndexedDB, so they survive a dropped
+ * connection or a closed tab. A draft only holds the answers changed on this
+ * device and the server revision they were made against, never the visit or
+ * the patient, and only exists while those answers are waiting to be pushed;
+ * see draftSync for how that happens. Drafts belong to the user who made them,
+ * so another user signing in on the same workstation never syncs them, and
+ * the store is emptied on sign-out.
+ */
+
+export interface VisitDraft {
+  userId: string;
+  visitId: string;
+  // Answers changed here since the base; null clears an answer
+  answers: ResponseMap;
+  // The same questions as they were on the server at the base, for the three-way merge
+  baseAnswers: ResponseMap;
+  completedSections: number[];
+  // Visit revision the changes are based on
+  baseRevision: number;
+  // Questions edited both here and on the server since the base, waiting for the user
+  conflicts?: ResponseConflict[];
+  savedAt: string;
+}
+
+const DB_NAME = 'awv-offline';
+// Version 1 kept whole visits, including patient details, keyed by visit only
+const DB_VERSION = 2;
+const DRAFT_STORE = 'visitDrafts';
+const USER_INDEX = 'userId';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export function isOfflineStorageAvailable(): boolean {
+  return typeof window !== 'undefined' && typeof window.indexedDB !== 'undefined';
+}
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = window.indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (db.objectStoreNames.contains(DRAFT_STORE)) {
+          db.deleteObjectStore(DRAFT_STORE);
+        }
+        db.createObjectStore(DRAFT_STORE, { keyPath: ['userId', 'visitId'] })
+          .createIndex(USER_INDEX, 'userId');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const runRequest = async <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const request = operation(db.transaction(DRAFT_STORE, mode).objectStore(DRAFT_STORE));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+export async function getDraft(userId: string, visitId: string): Promise<VisitDraft | null> {
+  if (!isOfflineStorageAvailable()) return null;
+  const draft = await runRequest<VisitDraft | undefined>('readonly', store => store.get([userId, visitId]));
+  return draft || null;
+}
+
+export async function saveDraft(draft: Omit<VisitDraft, 'savedAt'>): Promise<VisitDraft | null> {
+  if (!isOfflineStorageAvailable()) return null;
+  // Strip anything IndexedDB cannot clone, such as class instances from the API layer
+  const record: VisitDraft = JSON.parse(JSON.stringify({ ...draft, savedAt: new Date().toISOString() }));
+  await runRequest('readwrite', store => store.put(record));
+  return record;
+}
+
+export async function deleteDraft(userId: string, visitId: string): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await runRequest('readwrite', store => store.delete([userId, visitId]));
+}
+
+export async function listDrafts(userId: string): Promise<VisitDraft[]> {
+  if (!isOfflineStorageAvailable()) return [];
+  return runRequest<VisitDraft[]>('readonly', store => store.index(USER_INDEX).getAll(userId));
+}
+
+// Remove every draft on this device, e.g. on sign-out
+export async function clearDrafts(): Promise<void> {
+  if (!isOfflineStorageAvailable()) return;
+  await runRequest('readwrite', store => store.clear());
+}
+
+// Apply draft answers to a set of responses; null answers are removed
+export function applyAnswers(responses: ResponseMap, answers: ResponseMap): ResponseMap {
+  const result: ResponseMap = { ...responses };
+  Object.entries(answers).forEach(([questionId, value]) => {
+    if (value === null || value === undefined) {
+      delete result[questionId];
+    } else {
+      result[questionId] = value;
+    }
+  });
+  return result;
+}
+
+// A request failed because the server could not be reached, rather than being rejected by it
+export function isOfflineError(error: any): boolean {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) return true;
+  return error instanceof TypeError || error?.status === 0 || error?.status === 408;
+}
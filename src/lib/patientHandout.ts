@@ -0,0 +1,162 @@
+import { TDocumentDefinitions, Content } from 'pdfmake/interfaces';
+import type { IInstrumentScore } from '@/models/Visit';
+import { nextAwvEligibleDate } from '@/lib/billing';
+import { scoreVisit } from '@/lib/scoring';
+import { formatDueDate, isPreventionDomain } from '@/lib/preventiveServices';
+import { contentDate, letterhead, VisitPdfParams } from '@/lib/visitPdf';
+
+export type PatientHandoutParams = Omit<VisitPdfParams, 'billing' | 'signatureValid'>;
+
+// The screenings scored during the visit, in words a patient would use
+const INSTRUMENT_NAMES: Record<IInstrumentScore['instrument'], string> = {
+  phq2: 'Depression screening',
+  cognitiveAssessment: 'Memory check',
+  cageScreening: 'Alcohol use screening',
+};
+
+interface ScheduleRow {
+  what: string;
+  // YYYY-MM-DD, or null when the provider did not set a date
+  due: string | null;
+}
+
+const toIsoDate = (value: string | Date) => new Date(value).toISOString().slice(0, 10);
+
+/**
+ * The patient's written screening schedule and personalized prevention plan
+ * that the AWV hands out: large type and plain language, built from the saved
+ * health plan and the visit's scored screenings. Like the visit report it only
+ * depends on its parameters.
+ */
+export function buildPatientHandoutDefinition(params: PatientHandoutParams): TDocumentDefinitions {
+  const { visit, patient, template, provider, practice, logo, timeZone } = params;
+  const visitDate = new Date(visit.completedAt || visit.scheduledDate);
+  const nextAwv = toIsoDate(nextAwvEligibleDate(visitDate));
+  const recommendations = visit.healthPlan?.recommendations || [];
+
+  // Visits saved before scoring was added have no stored scores
+  const scores = (visit.scores && visit.scores.length > 0 ? visit.scores : scoreVisit(template, visit.responses))
+    .filter(score => score.complete);
+
+  const schedule: ScheduleRow[] = [
+    ...recommendations
+      .filter(rec => rec.dueDate || isPreventionDomain(rec.domain))
+      .map(rec => ({ what: rec.text, due: rec.dueDate ? toIsoDate(rec.dueDate) : null })),
+    // The AWV screenings are repeated at every wellness visit
+    ...scores.map(score => ({ what: INSTRUMENT_NAMES[score.instrument] || score.label, due: nextAwv })),
+    { what: 'Your next Annual Wellness Visit', due: nextAwv },
+  ].sort((a, b) => (a.due || '9999').localeCompare(b.due || '9999'));
+
+  const discussed = recommendations
+    .filter(rec => !rec.dueDate && !isPreventionDomain(rec.domain))
+    .sort((a, b) => Number(b.priority === 'high') - Number(a.priority === 'high'));
+
+  const content: Content[] = [
+    ...letterhead(practice, logo),
+    { text: 'Your Personalized Prevention Plan', style: 'title' },
+    {
+      text: `For ${patient.firstName} ${patient.lastName}, from your Annual Wellness Visit with ${provider.name} on ` +
+        `${new Date(visit.scheduledDate).toLocaleDateString('en-US', { timeZone, month: 'long', day: 'numeric', year: 'numeric' })}.`,
+      margin: [0, 0, 0, 10],
+    },
+    { text: 'Your screening and shot schedule', style: 'heading' },
+    { text: 'Bring this page to your next visit. Tell us if you have already had any of these.', margin: [0, 0, 0, 8] },
+    {
+      table: {
+        headerRows: 1,
+        widths: ['*', 'auto'],
+        body: [
+          [{ text: 'What', style: 'tableHeader' }, { text: 'When', style: 'tableHeader' }],
+          ...schedule.map(row => [row.what, row.due ? formatDueDate(row.due) : 'Ask us']),
+        ],
+      },
+      layout: {
+        fillColor: function(rowIndex: number) {
+          return rowIndex === 0 ? '#e5e7eb' : null;
+        },
+        paddingTop: () => 6,
+        paddingBottom: () => 6,
+      },
+      margin: [0, 0, 0, 10],
+    },
+  ];
+
+  if (scores.length > 0) {
+    content.push({ text: 'Your screening results', style: 'heading' });
+    scores.forEach(score => {
+      content.push({
+        text: [
+          { text: `${INSTRUMENT_NAMES[score.instrument] || score.label}: `, bold: true },
+          score.positive
+            ? `we want to follow up on this. ${score.followUp || score.interpretation}`
+            : 'no concerns found.',
+        ],
+        margin: [0, 0, 0, 6],
+      });
+    });
+  }
+
+  content.push({ text: 'What we discussed', style: 'heading' });
+  if (discussed.length > 0) {
+    content.push({
+      ul: discussed.map(rec => (rec.priority === 'high' ? { text: [{ text: 'Most important: ', bold: true }, rec.text] } : rec.text)),
+      margin: [0, 0, 0, 10],
+    });
+  } else {
+    content.push({ text: 'Keep doing what you are doing, and keep up with the schedule above.', margin: [0, 0, 0, 10] });
+  }
+
+  content.push({ text: 'Questions? Contact us', style: 'heading' });
+  if (practice) {
+    content.push({
+      stack: [
+        { text: practice.name, bold: true },
+        ...(practice.phone ? [`Phone: ${practice.phone}`] : []),
+        [practice.address, practice.city, [practice.state, practice.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+        ...(practice.email ? [`Email: ${practice.email}`] : []),
+        ...(practice.website ? [`Website: ${practice.website}`] : []),
+      ],
+    });
+  } else {
+    content.push({ text: 'Call your care team with any questions about this plan.' });
+  }
+
+  return {
+    info: {
+      title: `Your Personalized Prevention Plan - ${patient.firstName} ${patient.lastName}`,
+      author: practice?.name || provider.name,
+      subject: 'Annual Wellness Visit Prevention Plan',
+      creationDate: contentDate(visit),
+      modDate: contentDate(visit),
+    },
+    pageMargins: [50, 50, 50, 60],
+    footer: function(currentPage: number, pageCount: number) {
+      return {
+        text: `Page ${currentPage} of ${pageCount}`,
+        alignment: 'center',
+        fontSize: 12,
+        margin: [0, 20, 0, 0],
+      };
+    },
+    content,
+    defaultStyle: {
+      fontSize: 16,
+      lineHeight: 1.25,
+    },
+    styles: {
+      title: {
+        fontSize: 26,
+        bold: true,
+        margin: [0, 0, 0, 10],
+      },
+      heading: {
+        fontSize: 20,
+        bold: true,
+        margin: [0, 16, 0, 8],
+      },
+      tableHeader: {
+        bold: true,
+      },
+    },
+  };
+}
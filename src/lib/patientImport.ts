@@ -0,0 +1,139 @@
+import { PatientField, PatientFieldError, PatientInput, validatePatient } from '@/lib/patientValidation';
+
+/**
+ * Column mapping and validation for CSV patient imports. Runs in the browser
+ * for the preview and again on the server for every row the import job
+ * creates, so both apply the same rules.
+ */
+
+// Largest file accepted in one import
+export const MAX_IMPORT_ROWS = 10000;
+
+export interface ImportFieldDefinition {
+  field: PatientField;
+  label: string;
+  required?: boolean;
+  // Lowercase header names, without spaces or punctuation, that map to this field automatically
+  aliases: string[];
+}
+
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { field: 'firstName', label: 'First name', required: true, aliases: ['firstname', 'first', 'givenname', 'fname'] },
+  { field: 'lastName', label: 'Last name', required: true, aliases: ['lastname', 'last', 'surname', 'familyname', 'lname'] },
+  { field: 'dateOfBirth', label: 'Date of birth', required: true, aliases: ['dateofbirth', 'dob', 'birthdate', 'birthday'] },
+  { field: 'gender', label: 'Gender', required: true, aliases: ['gender', 'sex'] },
+  { field: 'medicalRecordNumber', label: 'Medical record number', aliases: ['medicalrecordnumber', 'mrn', 'recordnumber', 'chartnumber', 'patientid'] },
+  { field: 'email', label: 'Email', aliases: ['email', 'emailaddress', 'mail'] },
+  { field: 'phoneNumber', label: 'Phone', aliases: ['phone', 'phonenumber', 'telephone', 'mobile', 'cell'] },
+  { field: 'street', label: 'Street', aliases: ['street', 'address', 'address1', 'streetaddress'] },
+  { field: 'city', label: 'City', aliases: ['city', 'town'] },
+  { field: 'state', label: 'State', aliases: ['state', 'province', 'region'] },
+  { field: 'zipCode', label: 'ZIP code', aliases: ['zip', 'zipcode', 'postalcode', 'postcode'] },
+  { field: 'insuranceProvider', label: 'Insurance provider', aliases: ['insurance', 'insuranceprovider', 'payer', 'insurer'] },
+  { field: 'policyNumber', label: 'Policy number', aliases: ['policynumber', 'policy', 'memberid', 'medicareid', 'mbi'] },
+  { field: 'groupNumber', label: 'Group number', aliases: ['groupnumber', 'group'] },
+];
+
+// Column index of the CSV for each mapped field
+export type ColumnMapping = Partial<Record<PatientField, number>>;
+
+export interface ImportRow {
+  // Line of the CSV file, counting the header as line 1
+  line: number;
+  input: PatientInput;
+}
+
+export type ImportRowStatus = 'valid' | 'invalid' | 'duplicate';
+
+export interface ImportPreviewRow extends ImportRow {
+  status: ImportRowStatus;
+  errors: PatientFieldError[];
+  // Earlier line of the same file with the same patient
+  duplicateOfLine?: number;
+}
+
+const headerKey = (header: string) => header.toLowerCase().replace(/[^a-z0-9]/g, '');
+
+// Map each field to the first column whose header is one of its aliases
+export function suggestMapping(headers: string[]): ColumnMapping {
+  const mapping: ColumnMapping = {};
+  const keys = headers.map(headerKey);
+
+  IMPORT_FIELDS.forEach(definition => {
+    const index = keys.findIndex((key, column) =>
+      definition.aliases.includes(key) && !Object.values(mapping).includes(column)
+    );
+    if (index !== -1) mapping[definition.field] = index;
+  });
+
+  return mapping;
+}
+
+export const missingRequiredFields = (mapping: ColumnMapping): ImportFieldDefinition[] =>
+  IMPORT_FIELDS.filter(definition => definition.required && mapping[definition.field] === undefined);
+
+// Turn the data rows of a parsed CSV (header excluded) into patient input
+export function mapRows(rows: string[][], mapping: ColumnMapping): ImportRow[] {
+  return rows.map((row, index) => {
+    const input: PatientInput = {};
+    (Object.entries(mapping) as [PatientField, number][]).forEach(([field, column]) => {
+      if (row[column] !== undefined) input[field] = row[column];
+    });
+    return { line: index + 2, input };
+  });
+}
+
+/**
+ * Keys that identify the same patient: the medical record number when there
+ * is one, and always the name with the date of birth. Expects validated input.
+ */
+export function duplicateKeys(patient: PatientInput): string[] {
+  const keys: string[] = [];
+  if (patient.medicalRecordNumber) {
+    keys.push(`mrn:${patient.medicalRecordNumber.toLowerCase()}`);
+  }
+  if (patient.firstName && patient.lastName && patient.dateOfBirth) {
+    keys.push(`name:${patient.firstName.toLowerCase()}|${patient.lastName.toLowerCase()}|${patient.dateOfBirth}`);
+  }
+  return keys;
+}
+
+// Validate every row and flag rows that repeat an earlier patient of the same file
+export function previewImport(rows: ImportRow[], today?: Date): ImportPreviewRow[] {
+  const seen = new Map<string, number>();
+
+  return rows.map(row => {
+    const result = validatePatient(row.input, today);
+    if (!result.valid) {
+      return { ...row, status: 'invalid', errors: result.errors };
+    }
+
+    const keys = duplicateKeys(result.patient);
+    const earlier = keys.map(key => seen.get(key)).find(line => line !== undefined);
+    if (earlier !== undefined) {
+      return { ...row, status: 'duplicate', errors: [], duplicateOfLine: earlier };
+    }
+
+    keys.forEach(key => seen.set(key, row.line));
+    return { ...row, status: 'valid', errors: [] };
+  });
+}
+
+// Nested document for the Patient model from validated input
+export function toPatientDocument(patient: PatientInput) {
+  const address = { street: patient.street, city: patient.city, state: patient.state, zipCode: patient.zipCode };
+  const insurance = { provider: patient.insuranceProvider, policyNumber: patient.policyNumber, groupNumber: patient.groupNumber };
+  const hasAny = (value: Record<string, string | undefined>) => Object.values(value).some(Boolean);
+
+  return {
+    firstName: patient.firstName,
+    lastName: patient.lastName,
+    dateOfBirth: patient.dateOfBirth,
+    gender: patient.gender,
+    email: patient.email,
+    phoneNumber: patient.phoneNumber,
+    medicalRecordNumber: patient.medicalRecordNumber,
+    ...(hasAny(address) && { address }),
+    ...(hasAny(insurance) && { insurance }),
+  };
+}
@@ -0,0 +1,284 @@
+import mongoose from 'mongoose';
+import Patient from '@/models/Patient';
+import PatientImportJob, { IPatientImportIssue } from '@/models/PatientImportJob';
+import { toCsv } from '@/lib/csv';
+import { duplicateKeys, IMPORT_FIELDS, ImportRow, MAX_IMPORT_ROWS, toPatientDocument } from '@/lib/patientImport';
+import { parseDateOfBirth, PatientField, PatientInput, validatePatient } from '@/lib/patientValidation';
+
+/**
+ * Server side of CSV patient imports. The browser uploads the mapped rows
+ * once, then calls runImportBatch until the job completes. Each call
+ * processes rows from the job's cursor for a few seconds, so no request runs
+ * into the function timeout and an interrupted import can be resumed.
+ */
+
+const BATCH_SIZE = 250;
+// Stay well below the 10 second limit of a Netlify function
+const BATCH_TIME_BUDGET_MS = 6000;
+// A batch that crashed releases its lock after this long
+const LOCK_MS = 30000;
+
+const IMPORT_FIELD_NAMES = new Set<string>(IMPORT_FIELDS.map(definition => definition.field));
+
+export class PatientImportError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PatientImportError';
+    this.status = status;
+  }
+}
+
+export const toImportJobRecord = (job: any) => ({
+  id: String(job._id),
+  fileName: job.fileName,
+  status: job.status,
+  total: job.total,
+  processed: job.cursor,
+  created: job.created,
+  duplicates: job.duplicates,
+  invalid: job.invalid,
+  failed: job.failed,
+  startedAt: job.startedAt,
+  completedAt: job.completedAt,
+  createdAt: job.createdAt,
+});
+
+// Keep only known fields with string values from an uploaded row
+const sanitizeRow = (row: any, index: number): ImportRow => {
+  const input: PatientInput = {};
+  Object.entries(row?.input && typeof row.input === 'object' ? row.input : {}).forEach(([field, value]) => {
+    if (IMPORT_FIELD_NAMES.has(field) && typeof value === 'string') {
+      input[field as PatientField] = value;
+    }
+  });
+  return { line: Number.isInteger(row?.line) ? row.line : index + 2, input };
+};
+
+export async function createImportJob(
+  { fileName, rows, createdBy }: { fileName?: string; rows: unknown; createdBy?: string | null }
+) {
+  if (!Array.isArray(rows) || rows.length === 0) {
+    throw new PatientImportError('The import has no rows');
+  }
+  if (rows.length > MAX_IMPORT_ROWS) {
+    throw new PatientImportError(`An import can have at most ${MAX_IMPORT_ROWS} rows; split the file`);
+  }
+
+  const job = await PatientImportJob.create({
+    fileName: typeof fileName === 'string' ? fileName.slice(0, 200) : undefined,
+    createdBy: createdBy && mongoose.Types.ObjectId.isValid(createdBy) ? createdBy : undefined,
+    rows: rows.map(sanitizeRow),
+    total: rows.length,
+  });
+
+  return toImportJobRecord(job.toObject());
+}
+
+// Recent imports, newest first, so an unfinished one can be resumed
+export async function listImportJobs(limit = 10) {
+  const jobs = await PatientImportJob.find().select('-rows -issues').sort({ createdAt: -1 }).limit(limit).lean();
+  return jobs.map(toImportJobRecord);
+}
+
+export async function getImportJob(id: string) {
+  const job = await PatientImportJob.findById(id).select('-rows -issues').lean();
+  if (!job) {
+    throw new PatientImportError('Import not found', 404);
+  }
+  return toImportJobRecord(job);
+}
+
+// Stop an import; patients created so far are kept
+export async function cancelImportJob(id: string) {
+  const job = await PatientImportJob.findOneAndUpdate(
+    { _id: id, status: { $in: ['pending', 'running'] } },
+    { $set: { status: 'cancelled', completedAt: new Date() }, $unset: { lockedUntil: '' } },
+    { new: true, projection: '-rows -issues' }
+  ).lean();
+
+  if (!job) {
+    await getImportJob(id);
+    throw new PatientImportError('Only pending or running imports can be cancelled', 409);
+  }
+
+  return toImportJobRecord(job);
+}
+
+// Dates of birth are Dates in the Patient model but YYYY-MM-DD strings in records saved by older versions
+const storedDateOfBirth = (value: unknown): string | undefined => {
+  if (value instanceof Date) return value.toISOString().slice(0, 10);
+  if (typeof value === 'string') return parseDateOfBirth(value) || value;
+  return undefined;
+};
+
+// Duplicate keys of existing patients that could match the given rows
+async function findExistingPatients(patients: PatientInput[]): Promise<Map<string, string>> {
+  const known = new Map<string, string>();
+  if (patients.length === 0) return known;
+
+  const medicalRecordNumbers = Array.from(new Set(patients.map(patient => patient.medicalRecordNumber).filter(Boolean)));
+  const datesOfBirth = Array.from(new Set(patients.map(patient => patient.dateOfBirth!)));
+
+  // Query the collection directly so string dates are not cast to Dates and missed
+  const existing = await Patient.collection.find(
+    {
+      $or: [
+        ...(medicalRecordNumbers.length > 0 ? [{ medicalRecordNumber: { $in: medicalRecordNumbers } }] : []),
+        { dateOfBirth: { $in: [...datesOfBirth, ...datesOfBirth.map(date => new Date(`${date}T00:00:00.000Z`))] } },
+      ],
+    },
+    { projection: { firstName: 1, lastName: 1, dateOfBirth: 1, medicalRecordNumber: 1 } }
+  ).toArray();
+
+  existing.forEach((patient: any) => {
+    duplicateKeys({
+      firstName: patient.firstName,
+      lastName: patient.lastName,
+      dateOfBirth: storedDateOfBirth(patient.dateOfBirth),
+      medicalRecordNumber: patient.medicalRecordNumber,
+    }).forEach(key => known.set(key, String(patient._id)));
+  });
+
+  return known;
+}
+
+/**
+ * Process the next rows of an import. Returns the updated job and the ids of
+ * the patients created by this batch. Calling it on a finished import is a
+ * no-op, so the browser can retry safely.
+ */
+export async function runImportBatch(id: string) {
+  const now = new Date();
+  const claimed: any = await PatientImportJob.findOneAndUpdate(
+    {
+      _id: id,
+      status: { $in: ['pending', 'running'] },
+      $or: [{ lockedUntil: { $exists: false } }, { lockedUntil: null }, { lockedUntil: { $lte: now } }],
+    },
+    {
+      $set: { status: 'running', lockedUntil: new Date(now.getTime() + LOCK_MS) },
+      $min: { startedAt: now },
+    },
+    { new: true, projection: '-rows -issues' }
+  ).lean();
+
+  if (!claimed) {
+    const job = await getImportJob(id);
+    if (job.status === 'completed' || job.status === 'cancelled') {
+      return { job, createdIds: [] as string[] };
+    }
+    throw new PatientImportError('This import is already running in another window', 409);
+  }
+
+  const batch: any = await PatientImportJob.findById(id, { rows: { $slice: [claimed.cursor, BATCH_SIZE] } }).lean();
+  const rows: ImportRow[] = batch?.rows || [];
+
+  const validated = rows.map(row => ({ row, result: validatePatient(row.input) }));
+  const known = await findExistingPatients(validated.filter(item => item.result.valid).map(item => item.result.patient));
+
+  const deadline = now.getTime() + BATCH_TIME_BUDGET_MS;
+  const issues: IPatientImportIssue[] = [];
+  const counts = { created: 0, duplicates: 0, invalid: 0, failed: 0 };
+  const createdIds: string[] = [];
+  let processed = 0;
+
+  for (const { row, result } of validated) {
+    if (Date.now() > deadline) break;
+    processed++;
+
+    if (!result.valid) {
+      counts.invalid++;
+      result.errors.forEach(error => issues.push({ line: row.line, outcome: 'invalid', field: error.field, message: error.message }));
+      continue;
+    }
+
+    const keys = duplicateKeys(result.patient);
+    const matchedKey = keys.find(key => known.has(key));
+    if (matchedKey) {
+      counts.duplicates++;
+      issues.push({
+        line: row.line,
+        outcome: 'duplicate',
+        duplicateOf: known.get(matchedKey),
+        message: matchedKey.startsWith('mrn:')
+          ? 'A patient with this medical record number already exists'
+          : 'A patient with this name and date of birth already exists',
+      });
+      continue;
+    }
+
+    try {
+      const patient = await Patient.create(toPatientDocument(result.patient));
+      counts.created++;
+      createdIds.push(String(patient._id));
+      // Later rows of the same file are checked against this patient too
+      keys.forEach(key => known.set(key, String(patient._id)));
+    } catch (error: any) {
+      if (error?.code === 11000) {
+        counts.duplicates++;
+        issues.push({ line: row.line, outcome: 'duplicate', message: 'A patient with this medical record number already exists' });
+      } else {
+        counts.failed++;
+        issues.push({ line: row.line, outcome: 'failed', message: error?.message || 'The patient could not be saved' });
+      }
+    }
+  }
+
+  const cursor = claimed.cursor + processed;
+  const progress = {
+    $inc: counts,
+    $push: { issues: { $each: issues } },
+    $unset: { lockedUntil: '' },
+  };
+  const done = cursor >= claimed.total;
+
+  let job: any = await PatientImportJob.findOneAndUpdate(
+    { _id: id, status: 'running' },
+    {
+      ...progress,
+      $set: { cursor, status: done ? 'completed' : 'running', ...(done && { completedAt: new Date() }) },
+    },
+    { new: true, projection: '-rows -issues' }
+  ).lean();
+
+  // Cancelled while this batch ran: record what was done without reopening it
+  if (!job) {
+    job = await PatientImportJob.findByIdAndUpdate(
+      id,
+      { ...progress, $set: { cursor } },
+      { new: true, projection: '-rows -issues' }
+    ).lean();
+  }
+
+  return { job: toImportJobRecord(job), createdIds };
+}
+
+export const IMPORT_REPORT_COLUMNS = ['line', 'outcome', 'field', 'message', 'existingPatientId'];
+
+// Every row that was not imported, with its original values so it can be fixed and imported again
+export async function importErrorReport(id: string) {
+  const job: any = await PatientImportJob.findById(id).lean();
+  if (!job) {
+    throw new PatientImportError('Import not found', 404);
+  }
+
+  const rowsByLine = new Map<number, PatientInput>(job.rows.map((row: ImportRow) => [row.line, row.input]));
+  const csv = toCsv(
+    [...IMPORT_REPORT_COLUMNS, ...IMPORT_FIELDS.map(definition => definition.field)],
+    job.issues.map((issue: IPatientImportIssue) => {
+      const input = rowsByLine.get(issue.line) || {};
+      return [
+        issue.line,
+        issue.outcome,
+        issue.field,
+        issue.message,
+        issue.duplicateOf ? String(issue.duplicateOf) : undefined,
+        ...IMPORT_FIELDS.map(definition => input[definition.field]),
+      ];
+    })
+  );
+
+  return { fileName: job.fileName, csv };
+}
@@ -0,0 +1,437 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import PatientIntake, { IIntakeConflict, IntakeConflictResolution } from '@/models/PatientIntake';
+import Visit from '@/models/Visit';
+import type { ISection } from '@/models/Template';
+import { getAppUrl, getMailTransport, MailConfigurationError, sendMail } from '@/lib/mailer';
+import { calculateAge } from '@/lib/conditionalLogic';
+import { getVisitTemplate, pinTemplateVersion } from '@/lib/templateVersions';
+import { flattenResponses, groupResponsesBySection, isAnswered, patientReportedQuestionIds, ResponseValue } from '@/lib/visitResponses';
+import { validateVisitResponses, ResponseValidationError } from '@/lib/visitValidation';
+import { scoreVisit } from '@/lib/scoring';
+import { isOpenStatus } from '@/lib/visitLifecycle';
+
+/**
+ * Pre-visit questionnaires the patient fills in from a link.
+ *
+ * Like invitations, the link carries a random single-use token and only its
+ * SHA-256 hash is stored. Sending a new link for a visit revokes the previous
+ * one. The patient only sees the template sections marked patient-completable,
+ * and their answers are saved on the visit with source 'patient' so the
+ * provider can review them while conducting the visit. Questions staff have
+ * already answered keep the staff answer; a different patient answer is kept
+ * on the intake as a conflict for staff to resolve.
+ */
+
+export const INTAKE_TTL_DAYS = 14;
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+// A submission can race with staff saving the visit; the write is retried against the newer revision
+const MAX_ATTEMPTS = 3;
+
+export class PatientIntakeError extends Error {
+  status: number;
+  details?: ResponseValidationError[];
+
+  constructor(message: string, status: number = 400, details?: ResponseValidationError[]) {
+    super(message);
+    this.name = 'PatientIntakeError';
+    this.status = status;
+    this.details = details;
+  }
+}
+
+export const hashIntakeToken = (token: string) =>
+  crypto.createHash('sha256').update(token).digest('hex');
+
+const createToken = () => {
+  const token = crypto.randomBytes(32).toString('base64url');
+  return { token, tokenHash: hashIntakeToken(token) };
+};
+
+const expiryFromNow = () => new Date(Date.now() + INTAKE_TTL_DAYS * 24 * 60 * 60 * 1000);
+
+export const intakeLink = (token: string, origin?: string) =>
+  `${getAppUrl(origin)}/intake?token=${encodeURIComponent(token)}`;
+
+// Validation coerces numbers and booleans, so compare plain values as text
+const sameAnswer = (a: ResponseValue, b: ResponseValue) =>
+  typeof a === 'object' || typeof b === 'object'
+    ? JSON.stringify(a) === JSON.stringify(b)
+    : String(a) === String(b);
+
+export const patientSections = (template: { sections?: ISection[] } | null | undefined): ISection[] =>
+  (template?.sections || []).filter(section => section.patientCompletable);
+
+// Links that are pending past their expiry are reported as expired
+export const toIntakeRecord = (intake: any) => {
+  const expired = intake.status === 'pending' && new Date(intake.expiresAt) <= new Date();
+
+  return {
+    id: String(intake._id),
+    visit: String(intake.visit),
+    status: expired ? 'expired' : intake.status,
+    sentTo: intake.sentTo,
+    expiresAt: intake.expiresAt,
+    lastSentAt: intake.lastSentAt,
+    sendCount: intake.sendCount,
+    submittedAt: intake.submittedAt,
+    questionIds: intake.questionIds || [],
+    conflicts: (intake.conflicts || []).map((conflict: IIntakeConflict) => ({
+      questionId: conflict.questionId,
+      question: conflict.question,
+      staffValue: conflict.staffValue,
+      patientValue: conflict.patientValue,
+      resolution: conflict.resolution,
+      resolvedAt: conflict.resolvedAt,
+    })),
+    revokedAt: intake.revokedAt,
+    createdAt: intake.createdAt,
+  };
+};
+
+// The most recent link sent for a visit
+export async function getVisitIntake(visitId: string) {
+  const intake = await PatientIntake.findOne({ visit: visitId }).sort({ createdAt: -1 }).lean();
+  return intake ? toIntakeRecord(intake) : null;
+}
+
+async function sendIntakeEmail(to: string, patient: any, visit: any, link: string, expiresAt: Date) {
+  await sendMail({
+    to,
+    subject: 'Please complete your Annual Wellness Visit questionnaire',
+    text: [
+      `Hello${patient?.firstName ? ` ${patient.firstName}` : ''},`,
+      '',
+      `Before your Annual Wellness Visit on ${new Date(visit.scheduledDate).toDateString()}, please answer a few questions about your health.`,
+      'Your care team will review your answers with you during the visit.',
+      '',
+      link,
+      '',
+      `This link can be used once and expires on ${expiresAt.toUTCString()}.`,
+      'If you were not expecting this message, please contact your care team.'
+    ].join('\n'),
+  });
+}
+
+/**
+ * Create a link for the visit, revoking any earlier one, and email it to the
+ * patient unless sendEmail is false. The link is returned so staff can also
+ * share it another way; it cannot be looked up again later.
+ */
+export async function createIntakeLink(
+  visitId: string,
+  { email, sendEmail = true, createdBy }: { email?: string; sendEmail?: boolean; createdBy?: string | null },
+  origin?: string
+) {
+  const visit: any = await Visit.findById(visitId)
+    .select('patient template templateVersion status scheduledDate')
+    .populate('patient', 'firstName lastName email')
+    .lean();
+  if (!visit) {
+    throw new PatientIntakeError('Visit not found', 404);
+  }
+  if (!isOpenStatus(visit.status)) {
+    throw new PatientIntakeError(`A pre-visit questionnaire cannot be sent for a ${visit.status} visit`, 409);
+  }
+
+  const template = await getVisitTemplate(visit);
+  if (patientSections(template).length === 0) {
+    throw new PatientIntakeError('The visit template has no sections the patient can complete', 422);
+  }
+
+  const recipient = (typeof email === 'string' && email.trim() ? email : visit.patient?.email || '').trim().toLowerCase();
+  if (sendEmail && !EMAIL_PATTERN.test(recipient)) {
+    throw new PatientIntakeError('A valid email address is required to email the link');
+  }
+
+  // Check the link can be built and sent before the previous link is revoked
+  try {
+    getAppUrl(origin);
+    if (sendEmail) getMailTransport();
+  } catch (error) {
+    if (error instanceof MailConfigurationError) {
+      throw new PatientIntakeError(error.message, 503);
+    }
+    throw error;
+  }
+
+  await PatientIntake.updateMany(
+    { visit: visit._id, status: 'pending' },
+    { $set: { status: 'revoked', revokedAt: new Date() } }
+  );
+
+  const { token, tokenHash } = createToken();
+  const intake = await PatientIntake.create({
+    visit: visit._id,
+    patient: visit.patient?._id || visit.patient,
+    tokenHash,
+    sentTo: sendEmail ? recipient : undefined,
+    createdBy: createdBy && mongoose.Types.ObjectId.isValid(createdBy) ? createdBy : undefined,
+    expiresAt: expiryFromNow(),
+    lastSentAt: new Date(),
+    sendCount: 1,
+  });
+
+  const link = intakeLink(token, origin);
+  if (sendEmail) {
+    await sendIntakeEmail(recipient, visit.patient, visit, link, intake.expiresAt);
+  }
+
+  return { intake: toIntakeRecord(intake.toObject()), link };
+}
+
+export async function revokeIntakeLink(visitId: string) {
+  const intake = await PatientIntake.findOneAndUpdate(
+    { visit: visitId, status: 'pending' },
+    { $set: { status: 'revoked', revokedAt: new Date() } },
+    { new: true }
+  ).lean();
+
+  if (!intake) {
+    throw new PatientIntakeError('This visit has no pending pre-visit questionnaire link', 404);
+  }
+
+  return toIntakeRecord(intake);
+}
+
+// Find the pending link for a token and its visit, rejecting used, revoked and expired links
+async function findUsableIntake(token: string) {
+  if (!token) {
+    throw new PatientIntakeError('A questionnaire token is required');
+  }
+
+  const intake: any = await PatientIntake.findOne({ tokenHash: hashIntakeToken(token) }).lean();
+  if (!intake) {
+    throw new PatientIntakeError('Invalid questionnaire link', 404);
+  }
+  if (intake.status === 'submitted') {
+    throw new PatientIntakeError('This questionnaire has already been submitted. Thank you!', 410);
+  }
+  if (intake.status === 'revoked') {
+    throw new PatientIntakeError('This link is no longer valid. Please use the most recent link from your care team.', 410);
+  }
+  if (new Date(intake.expiresAt) <= new Date()) {
+    throw new PatientIntakeError('This link has expired. Please contact your care team for a new one.', 410);
+  }
+
+  const visit: any = await Visit.findById(intake.visit)
+    .populate('patient', 'firstName dateOfBirth gender')
+    .lean();
+  if (!visit || !isOpenStatus(visit.status)) {
+    throw new PatientIntakeError('This questionnaire is no longer accepting answers', 410);
+  }
+
+  return { intake, visit };
+}
+
+// What the patient's form needs: their first name, the visit date and the sections they can answer
+export async function getIntakeForm(token: string) {
+  const { intake, visit } = await findUsableIntake(token);
+  const template: any = await getVisitTemplate(visit);
+
+  return {
+    firstName: visit.patient?.firstName,
+    scheduledDate: visit.scheduledDate,
+    expiresAt: intake.expiresAt,
+    // Age and gender are enough to evaluate display conditions on the patient's device
+    patient: {
+      age: calculateAge(visit.patient?.dateOfBirth),
+      gender: visit.patient?.gender,
+    },
+    sections: patientSections(template),
+  };
+}
+
+/**
+ * Save the patient's answers on the visit and use up the link. Only questions
+ * in patient-completable sections are taken, and they are validated like a
+ * completed visit limited to those sections. Answers never replace one staff
+ * entered; those that differ are recorded as conflicts on the intake.
+ */
+export async function submitIntake(token: string, answers: Record<string, unknown>) {
+  const { intake, visit } = await findUsableIntake(token);
+
+  const template: any = await getVisitTemplate(visit);
+  const form = { sections: patientSections(template) };
+  const questionText = new Map(form.sections.flatMap(section => (section.questions || []).map(question => [question.id, question.text] as const)));
+  const questionIds = new Set(questionText.keys());
+
+  const submitted = Object.fromEntries(
+    Object.entries(answers && typeof answers === 'object' ? answers : {})
+      .filter(([questionId, value]) => questionIds.has(questionId) && isAnswered(value as any))
+  );
+  const validation = validateVisitResponses(form, submitted, {
+    dateOfBirth: visit.patient?.dateOfBirth,
+    gender: visit.patient?.gender
+  });
+  if (!validation.valid) {
+    throw new PatientIntakeError('Some answers are missing or invalid', 422, validation.errors);
+  }
+
+  const answered = Object.keys(validation.responses).filter(questionId => isAnswered(validation.responses[questionId]));
+
+  // Claim the link first so it can only be used once
+  const claimed = await PatientIntake.findOneAndUpdate(
+    { _id: intake._id, status: 'pending', expiresAt: { $gt: new Date() } },
+    { $set: { status: 'submitted', submittedAt: new Date(), questionIds: answered } },
+    { new: true }
+  ).lean();
+  if (!claimed) {
+    throw new PatientIntakeError('This questionnaire has already been submitted. Thank you!', 410);
+  }
+
+  try {
+    for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+      const existing: any = attempt === 1 ? visit : await Visit.findById(visit._id).lean();
+      if (!existing || !isOpenStatus(existing.status)) {
+        throw new PatientIntakeError('This questionnaire is no longer accepting answers', 410);
+      }
+
+      const responses = { ...flattenResponses(existing.responses) };
+      const patientReported = patientReportedQuestionIds(existing.responses);
+      const written: string[] = [];
+      const conflicts: IIntakeConflict[] = [];
+      answered.forEach(questionId => {
+        const current = responses[questionId];
+        const value = validation.responses[questionId];
+
+        if (isAnswered(current) && !patientReported.has(questionId)) {
+          if (!sameAnswer(current, value)) {
+            conflicts.push({ questionId, question: questionText.get(questionId), staffValue: current, patientValue: value });
+          }
+          return;
+        }
+
+        responses[questionId] = value;
+        written.push(questionId);
+      });
+
+      const update: Record<string, any> = {};
+      let templateVersion = existing.templateVersion;
+      if (existing.template && !templateVersion) {
+        templateVersion = await pinTemplateVersion(String(existing.template));
+        update.templateVersion = templateVersion;
+      }
+      const visitTemplate = await getVisitTemplate({ template: existing.template, templateVersion });
+      if (visitTemplate) {
+        update.scores = scoreVisit(visitTemplate, responses);
+      }
+
+      update.responses = groupResponsesBySection(responses, visitTemplate, existing.responses);
+      update.responses.forEach((section: any) => {
+        section.answers.forEach((answer: any) => {
+          if (written.includes(answer.questionId)) answer.source = 'patient';
+        });
+      });
+
+      const revision = existing.revision ?? 0;
+      const saved = await Visit.findOneAndUpdate(
+        {
+          _id: existing._id,
+          ...(revision === 0 ? { $or: [{ revision: 0 }, { revision: { $exists: false } }] } : { revision })
+        },
+        { ...update, updatedAt: new Date(), $inc: { revision: 1 } },
+        { new: true, runValidators: true }
+      );
+
+      if (saved) {
+        if (conflicts.length > 0) {
+          await PatientIntake.updateOne({ _id: intake._id }, { $set: { conflicts } });
+        }
+        return { intake: toIntakeRecord({ ...claimed, conflicts }), before: existing, after: saved };
+      }
+    }
+
+    throw new PatientIntakeError('Your answers could not be saved. Please try again.', 409);
+  } catch (error) {
+    // Give the link back so the patient can try again
+    await PatientIntake.updateOne(
+      { _id: intake._id },
+      { $set: { status: 'pending' }, $unset: { submittedAt: '', questionIds: '' } }
+    );
+    throw error;
+  }
+}
+
+/**
+ * Settle a conflict from the visit's latest submitted questionnaire: keep the
+ * staff answer, or replace it with the patient's, marked patient-reported.
+ * Signed and closed visits can no longer be changed.
+ */
+export async function resolveIntakeConflict(
+  visitId: string,
+  { questionId, keep, resolvedBy }: { questionId: string; keep: IntakeConflictResolution; resolvedBy?: string | null }
+) {
+  const intake: any = await PatientIntake.findOne({ visit: visitId, status: 'submitted' }).sort({ createdAt: -1 }).lean();
+  const conflict: IIntakeConflict | undefined = (intake?.conflicts || [])
+    .find((item: IIntakeConflict) => item.questionId === questionId && !item.resolution);
+  if (!conflict) {
+    throw new PatientIntakeError('This question has no patient answer waiting for review', 404);
+  }
+
+  const visit: any = await Visit.findById(visitId).populate('patient', 'dateOfBirth gender').lean();
+  if (!visit) {
+    throw new PatientIntakeError('Visit not found', 404);
+  }
+  if (!isOpenStatus(visit.status) && visit.status !== 'completed') {
+    throw new PatientIntakeError(`Answers cannot be changed on a ${visit.status} visit`, 409);
+  }
+
+  let saved: any = null;
+  if (keep === 'patient') {
+    const responses = { ...flattenResponses(visit.responses), [questionId]: conflict.patientValue };
+    const visitTemplate = await getVisitTemplate(visit);
+
+    // A completed visit's answers must still satisfy the template
+    if (visit.status === 'completed' && visitTemplate) {
+      const validation = validateVisitResponses(visitTemplate, responses, {
+        dateOfBirth: visit.patient?.dateOfBirth,
+        gender: visit.patient?.gender
+      });
+      if (!validation.valid) {
+        throw new PatientIntakeError('The patient\'s answer is not valid for this completed visit', 422, validation.errors);
+      }
+    }
+
+    const grouped = groupResponsesBySection(responses, visitTemplate, visit.responses);
+    grouped.forEach(section => {
+      section.answers.forEach(answer => {
+        if (answer.questionId === questionId) answer.source = 'patient';
+      });
+    });
+
+    const revision = visit.revision ?? 0;
+    saved = await Visit.findOneAndUpdate(
+      {
+        _id: visit._id,
+        ...(revision === 0 ? { $or: [{ revision: 0 }, { revision: { $exists: false } }] } : { revision })
+      },
+      {
+        responses: grouped,
+        ...(visitTemplate && { scores: scoreVisit(visitTemplate, responses) }),
+        updatedAt: new Date(),
+        $inc: { revision: 1 }
+      },
+      { new: true, runValidators: true }
+    );
+    if (!saved) {
+      throw new PatientIntakeError('The visit was changed by someone else. Reload it and try again.', 409);
+    }
+  }
+
+  const updated = await PatientIntake.findOneAndUpdate(
+    { _id: intake._id, conflicts: { $elemMatch: { questionId, resolution: { $exists: false } } } },
+    {
+      $set: {
+        'conflicts.$.resolution': keep,
+        'conflicts.$.resolvedAt': new Date(),
+        ...(resolvedBy && mongoose.Types.ObjectId.isValid(resolvedBy) && { 'conflicts.$.resolvedBy': resolvedBy })
+      }
+    },
+    { new: true }
+  ).lean();
+
+  return { intake: toIntakeRecord(updated || intake), conflict, visit: saved };
+}
@@ -0,0 +1,224 @@
+/**
+ * Fuzzy matching of patient records that may be the same person, and the
+ * fields a merge chooses between. Shared by the duplicate finder on the
+ * server and the merge review screen.
+ */
+
+export interface MatchablePatient {
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: string | Date;
+  phoneNumber?: string;
+  email?: string;
+  medicalRecordNumber?: string;
+}
+
+export interface PatientMatch {
+  // 0 to 1; pairs at or above DUPLICATE_THRESHOLD are reported as possible duplicates
+  score: number;
+  reasons: string[];
+}
+
+export const DUPLICATE_THRESHOLD = 0.75;
+
+// Weight of each signal. Phone and email only count when both records have one,
+// so a record with fewer details is not penalized for it.
+const WEIGHTS = { name: 0.4, dateOfBirth: 0.3, phone: 0.15, email: 0.15 };
+
+const normalizeName = (value: string | undefined) => (value || '').toLowerCase().replace(/[^a-z]/g, '');
+
+export const normalizePhone = (value: string | undefined) => (value || '').replace(/\D/g, '').slice(-10);
+
+export const normalizeEmail = (value: string | undefined) => (value || '').trim().toLowerCase();
+
+export const isoDateOfBirth = (value: string | Date | undefined): string => {
+  if (!value) return '';
+  if (value instanceof Date) return isNaN(value.getTime()) ? '' : value.toISOString().slice(0, 10);
+  return value.slice(0, 10);
+};
+
+// Jaro-Winkler similarity: 1 for equal strings, tolerant of typos and transposed letters
+export function nameSimilarity(first: string, second: string): number {
+  const a = normalizeName(first);
+  const b = normalizeName(second);
+  if (!a || !b) return 0;
+  if (a === b) return 1;
+
+  const window = Math.max(Math.floor(Math.max(a.length, b.length) / 2) - 1, 0);
+  const aMatched = new Array(a.length).fill(false);
+  const bMatched = new Array(b.length).fill(false);
+  let matches = 0;
+
+  for (let i = 0; i < a.length; i++) {
+    const start = Math.max(0, i - window);
+    const end = Math.min(i + window + 1, b.length);
+    for (let j = start; j < end; j++) {
+      if (!bMatched[j] && a[i] === b[j]) {
+        aMatched[i] = true;
+        bMatched[j] = true;
+        matches++;
+        break;
+      }
+    }
+  }
+  if (matches === 0) return 0;
+
+  let transpositions = 0;
+  let k = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (!aMatched[i]) continue;
+    while (!bMatched[k]) k++;
+    if (a[i] !== b[k]) transpositions++;
+    k++;
+  }
+
+  const jaro = (matches / a.length + matches / b.length + (matches - transpositions / 2) / matches) / 3;
+
+  let prefix = 0;
+  while (prefix < Math.min(4, a.length, b.length) && a[prefix] === b[prefix]) prefix++;
+
+  return jaro + prefix * 0.1 * (1 - jaro);
+}
+
+// Dates that differ only by a swapped day and month or a single mistyped digit
+const similarDates = (a: string, b: string): boolean => {
+  const [yearA, monthA, dayA] = a.split('-');
+  const [yearB, monthB, dayB] = b.split('-');
+  if (yearA === yearB && monthA === dayB && dayA === monthB) return true;
+
+  let differences = 0;
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) differences++;
+  }
+  return a.length === b.length && differences === 1;
+};
+
+export function matchPatients(a: MatchablePatient, b: MatchablePatient): PatientMatch {
+  const reasons: string[] = [];
+  let total = 0;
+  let weight = 0;
+
+  const direct = (nameSimilarity(a.firstName || '', b.firstName || '') + nameSimilarity(a.lastName || '', b.lastName || '')) / 2;
+  const swapped = (nameSimilarity(a.firstName || '', b.lastName || '') + nameSimilarity(a.lastName || '', b.firstName || '')) / 2;
+  const name = Math.max(direct, swapped);
+  total += WEIGHTS.name * name;
+  weight += WEIGHTS.name;
+  if (name === 1) {
+    reasons.push(swapped > direct ? 'Same name with first and last name swapped' : 'Same name');
+  } else if (name >= 0.85) {
+    reasons.push(swapped > direct ? 'Similar name with first and last name swapped' : 'Similar name');
+  }
+
+  const dateA = isoDateOfBirth(a.dateOfBirth);
+  const dateB = isoDateOfBirth(b.dateOfBirth);
+  weight += WEIGHTS.dateOfBirth;
+  if (dateA && dateA === dateB) {
+    total += WEIGHTS.dateOfBirth;
+    reasons.push('Same date of birth');
+  } else if (dateA && dateB && similarDates(dateA, dateB)) {
+    total += WEIGHTS.dateOfBirth / 2;
+    reasons.push('Date of birth differs by a likely typo');
+  }
+
+  const phoneA = normalizePhone(a.phoneNumber);
+  const phoneB = normalizePhone(b.phoneNumber);
+  if (phoneA && phoneB) {
+    weight += WEIGHTS.phone;
+    if (phoneA === phoneB) {
+      total += WEIGHTS.phone;
+      reasons.push('Same phone number');
+    }
+  }
+
+  const emailA = normalizeEmail(a.email);
+  const emailB = normalizeEmail(b.email);
+  if (emailA && emailB) {
+    weight += WEIGHTS.email;
+    if (emailA === emailB) {
+      total += WEIGHTS.email;
+      reasons.push('Same email');
+    }
+  }
+
+  let score = total / weight;
+
+  // Two different record numbers usually mean two people, but records from
+  // different systems can disagree, so this lowers the score instead of ruling the pair out
+  if (a.medicalRecordNumber && b.medicalRecordNumber) {
+    if (a.medicalRecordNumber.toLowerCase() === b.medicalRecordNumber.toLowerCase()) {
+      score = 1;
+      reasons.unshift('Same medical record number');
+    } else {
+      score *= 0.85;
+      reasons.push('Different medical record numbers');
+    }
+  }
+
+  return { score: Math.round(score * 100) / 100, reasons };
+}
+
+/**
+ * Keys that put records which could match into the same comparison group,
+ * so the finder does not compare every pair of patients.
+ */
+export function blockingKeys(patient: MatchablePatient): string[] {
+  const keys: string[] = [];
+  const dateOfBirth = isoDateOfBirth(patient.dateOfBirth);
+  const lastName = normalizeName(patient.lastName);
+  const firstName = normalizeName(patient.firstName);
+
+  if (dateOfBirth) {
+    keys.push(`dob:${dateOfBirth}`);
+    // Catches typos in the date when a name agrees. Both names share one key
+    // space so records with first and last name swapped still meet.
+    Array.from(new Set([firstName, lastName].filter(Boolean))).forEach(name => {
+      keys.push(`name:${name.slice(0, 3)}|${dateOfBirth.slice(0, 4)}`);
+    });
+  }
+
+  const phone = normalizePhone(patient.phoneNumber);
+  if (phone.length === 10) keys.push(`phone:${phone}`);
+
+  const email = normalizeEmail(patient.email);
+  if (email) keys.push(`email:${email}`);
+
+  if (patient.medicalRecordNumber) keys.push(`mrn:${patient.medicalRecordNumber.toLowerCase()}`);
+
+  return keys;
+}
+
+// Fields of the surviving record that a merge can take from either patient
+export const MERGE_FIELDS = [
+  { field: 'firstName', label: 'First name' },
+  { field: 'lastName', label: 'Last name' },
+  { field: 'dateOfBirth', label: 'Date of birth' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'email', label: 'Email' },
+  { field: 'phoneNumber', label: 'Phone' },
+  { field: 'medicalRecordNumber', label: 'Medical record number' },
+  { field: 'address', label: 'Address' },
+  { field: 'insurance', label: 'Insurance' },
+  { field: 'medicalHistory', label: 'Medical history' },
+  { field: 'primaryCareProvider', label: 'Primary care provider' },
+] as const;
+
+export type MergeField = typeof MERGE_FIELDS[number]['field'];
+
+// For each field, whether the merged record keeps the survivor's value or takes the duplicate's
+export type MergeChoices = Partial<Record<MergeField, 'survivor' | 'duplicate'>>;
+
+const isEmptyValue = (value: unknown): boolean => {
+  if (value === undefined || value === null || value === '') return true;
+  if (Array.isArray(value)) return value.length === 0;
+  if (typeof value === 'object' && !(value instanceof Date)) return Object.values(value as object).every(isEmptyValue);
+  return false;
+};
+
+// Keep the survivor's values, filling the fields it is missing from the duplicate
+export function defaultMergeChoices(survivor: Record<string, any>, duplicate: Record<string, any>): MergeChoices {
+  const choices: MergeChoices = {};
+  MERGE_FIELDS.forEach(({ field }) => {
+    choices[field] = isEmptyValue(survivor[field]) && !isEmptyValue(duplicate[field]) ? 'duplicate' : 'survivor';
+  });
+  return choices;
+}
@@ -0,0 +1,301 @@
+import mongoose from 'mongoose';
+import Patient from '@/models/Patient';
+import PatientIntake from '@/models/PatientIntake';
+import PatientMerge from '@/models/PatientMerge';
+import Visit from '@/models/Visit';
+import {
+  blockingKeys,
+  DUPLICATE_THRESHOLD,
+  matchPatients,
+  MERGE_FIELDS,
+  MergeChoices,
+} from '@/lib/patientMatching';
+
+/**
+ * Finding and merging duplicate patient records. A merge keeps one record
+ * (the survivor), copies the chosen field values from the other, moves its
+ * visits and pre-visit links over and removes it. Everything needed to undo
+ * the merge is stored in a PatientMerge record.
+ */
+
+// Groups larger than this (a shared clinic phone number, say) say little about duplicates
+const MAX_BLOCK_SIZE = 50;
+
+const SUMMARY_FIELDS = 'firstName lastName dateOfBirth gender email phoneNumber medicalRecordNumber';
+
+export class PatientMergeError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'PatientMergeError';
+    this.status = status;
+  }
+}
+
+interface MergeActor {
+  id: string;
+  email: string;
+}
+
+const toPatientSummary = (patient: any, visitCount: number) => ({
+  _id: String(patient._id),
+  firstName: patient.firstName,
+  lastName: patient.lastName,
+  dateOfBirth: patient.dateOfBirth,
+  gender: patient.gender,
+  email: patient.email,
+  phoneNumber: patient.phoneNumber,
+  medicalRecordNumber: patient.medicalRecordNumber,
+  visitCount,
+});
+
+async function countVisits(patientIds: string[]): Promise<Map<string, number>> {
+  const counts = await Visit.aggregate([
+    { $match: { patient: { $in: patientIds.map(id => new mongoose.Types.ObjectId(id)) } } },
+    { $group: { _id: '$patient', count: { $sum: 1 } } },
+  ]);
+  return new Map(counts.map((row: any) => [String(row._id), row.count]));
+}
+
+/**
+ * Pairs of patients that may be the same person, best matches first. With a
+ * patientId only the pairs involving that patient are returned.
+ */
+export async function findDuplicatePatients(
+  { patientId, threshold = DUPLICATE_THRESHOLD, limit = 100 }: { patientId?: string; threshold?: number; limit?: number } = {}
+) {
+  const patients: any[] = await Patient.find().select(SUMMARY_FIELDS).lean();
+
+  const blocks = new Map<string, number[]>();
+  patients.forEach((patient, index) => {
+    blockingKeys(patient).forEach(key => {
+      const block = blocks.get(key) || [];
+      block.push(index);
+      blocks.set(key, block);
+    });
+  });
+
+  const compared = new Set<string>();
+  const pairs: { a: any; b: any; score: number; reasons: string[] }[] = [];
+
+  blocks.forEach(block => {
+    const involvesPatient = patientId && block.some(index => String(patients[index]._id) === patientId);
+    if (block.length < 2 || (patientId && !involvesPatient) || (block.length > MAX_BLOCK_SIZE && !involvesPatient)) {
+      return;
+    }
+
+    for (let i = 0; i < block.length; i++) {
+      for (let j = i + 1; j < block.length; j++) {
+        const a = patients[block[i]];
+        const b = patients[block[j]];
+        if (patientId && String(a._id) !== patientId && String(b._id) !== patientId) continue;
+
+        const pairKey = block[i] < block[j] ? `${block[i]}:${block[j]}` : `${block[j]}:${block[i]}`;
+        if (compared.has(pairKey)) continue;
+        compared.add(pairKey);
+
+        const match = matchPatients(a, b);
+        if (match.score >= threshold) {
+          pairs.push({ a, b, ...match });
+        }
+      }
+    }
+  });
+
+  pairs.sort((x, y) => y.score - x.score);
+  const top = pairs.slice(0, limit);
+
+  const ids = Array.from(new Set(top.flatMap(pair => [String(pair.a._id), String(pair.b._id)])));
+  const visitCounts = await countVisits(ids);
+
+  return top.map(pair => ({
+    patients: [
+      toPatientSummary(pair.a, visitCounts.get(String(pair.a._id)) || 0),
+      toPatientSummary(pair.b, visitCounts.get(String(pair.b._id)) || 0),
+    ],
+    score: pair.score,
+    reasons: pair.reasons,
+  }));
+}
+
+export const toMergeRecord = (merge: any) => ({
+  id: String(merge._id),
+  survivor: {
+    _id: String(merge.survivor),
+    firstName: merge.survivorBefore?.firstName,
+    lastName: merge.survivorBefore?.lastName,
+  },
+  merged: {
+    _id: String(merge.merged),
+    firstName: merge.mergedPatient?.firstName,
+    lastName: merge.mergedPatient?.lastName,
+    dateOfBirth: merge.mergedPatient?.dateOfBirth,
+  },
+  choices: merge.choices || {},
+  visitCount: (merge.visits || []).length,
+  status: merge.status,
+  mergedAt: merge.createdAt,
+  mergedByEmail: merge.mergedByEmail,
+  undoneAt: merge.undoneAt,
+  undoneByEmail: merge.undoneByEmail,
+});
+
+// Merge history, newest first, optionally for one patient on either side of a merge
+export async function listPatientMerges({ patientId, limit = 50 }: { patientId?: string; limit?: number } = {}) {
+  const query = patientId ? { $or: [{ survivor: patientId }, { merged: patientId }] } : {};
+  const merges = await PatientMerge.find(query).sort({ createdAt: -1 }).limit(limit).lean();
+  return merges.map(toMergeRecord);
+}
+
+const sameTime = (a: unknown, b: unknown) =>
+  (a ? new Date(a as string).getTime() : null) === (b ? new Date(b as string).getTime() : null);
+
+/**
+ * Merge the duplicate into the survivor. Fields not listed in `choices`, or
+ * listed as 'survivor', keep the survivor's value.
+ */
+export async function mergePatients(
+  { survivorId, duplicateId, choices }: { survivorId: string; duplicateId: string; choices?: MergeChoices },
+  actor: MergeActor
+) {
+  if (!mongoose.Types.ObjectId.isValid(survivorId) || !mongoose.Types.ObjectId.isValid(duplicateId)) {
+    throw new PatientMergeError('Invalid patient ID');
+  }
+  if (survivorId === duplicateId) {
+    throw new PatientMergeError('A patient cannot be merged into itself');
+  }
+
+  const [survivor, duplicate]: any[] = await Promise.all([
+    Patient.findById(survivorId).lean(),
+    Patient.findById(duplicateId).lean(),
+  ]);
+  if (!survivor || !duplicate) {
+    throw new PatientMergeError('Patient not found', 404);
+  }
+
+  const accepted: MergeChoices = {};
+  const $set: Record<string, unknown> = {};
+  const $unset: Record<string, ''> = {};
+  MERGE_FIELDS.forEach(({ field }) => {
+    if (choices?.[field] !== 'duplicate') return;
+    accepted[field] = 'duplicate';
+    if (duplicate[field] === undefined || duplicate[field] === null) {
+      $unset[field] = '';
+    } else {
+      $set[field] = duplicate[field];
+    }
+  });
+
+  const [visits, intakes] = await Promise.all([
+    Visit.find({ patient: duplicateId }).distinct('_id'),
+    PatientIntake.find({ patient: duplicateId }).distinct('_id'),
+  ]);
+
+  // The survivor's updatedAt after the merge is fixed up front, so the record
+  // written before any change is enough to undo a merge that was interrupted
+  const survivorUpdatedAt = new Date();
+  const merge = await PatientMerge.create({
+    survivor: survivorId,
+    merged: duplicateId,
+    mergedPatient: duplicate,
+    survivorBefore: survivor,
+    survivorUpdatedAt,
+    choices: accepted,
+    visits,
+    intakes,
+    status: 'merging',
+    mergedBy: mongoose.Types.ObjectId.isValid(actor.id) ? actor.id : undefined,
+    mergedByEmail: actor.email,
+  });
+
+  // Removed before the survivor is updated so it can take over a unique medical record number
+  await Patient.deleteOne({ _id: duplicateId });
+  const updated: any = await Patient.findByIdAndUpdate(
+    survivorId,
+    { $set: { ...$set, updatedAt: survivorUpdatedAt }, ...(Object.keys($unset).length > 0 && { $unset }) },
+    { new: true, timestamps: false }
+  ).lean();
+
+  // The visits' answers are untouched, so their revision stays and open autosaves keep working
+  await Promise.all([
+    Visit.updateMany({ _id: { $in: visits } }, { $set: { patient: survivorId } }, { timestamps: false }),
+    PatientIntake.updateMany({ _id: { $in: intakes } }, { $set: { patient: survivorId } }),
+  ]);
+
+  // Left as it is if the merge was undone while it ran
+  const saved = await PatientMerge.findOneAndUpdate(
+    { _id: merge._id, status: 'merging' },
+    { $set: { status: 'merged' } },
+    { new: true }
+  ).lean() || await PatientMerge.findById(merge._id).lean();
+
+  return { merge: toMergeRecord(saved), before: survivor, after: updated, removed: duplicate };
+}
+
+/**
+ * Restore both patients as they were before the merge and move the merged
+ * visits back. Refused when the survivor changed after the merge, which also
+ * means later merges into it have to be undone first. A merge interrupted
+ * partway can be undone too: the survivor may not have been updated yet, the
+ * duplicate may still exist and only some visits may have moved.
+ */
+export async function undoPatientMerge(id: string, actor: MergeActor) {
+  const merge: any = await PatientMerge.findById(id).lean();
+  if (!merge) {
+    throw new PatientMergeError('Merge not found', 404);
+  }
+  if (merge.status === 'undone') {
+    throw new PatientMergeError('This merge has already been undone', 409);
+  }
+
+  const current: any = await Patient.findById(merge.survivor).lean();
+  if (!current) {
+    throw new PatientMergeError('The surviving patient no longer exists, so the merge cannot be undone', 409);
+  }
+  const survivorUnchanged = sameTime(current.updatedAt, merge.survivorUpdatedAt)
+    || (merge.status === 'merging' && sameTime(current.updatedAt, merge.survivorBefore.updatedAt));
+  if (!survivorUnchanged) {
+    throw new PatientMergeError('The surviving patient was changed after the merge; undoing it would lose those changes', 409);
+  }
+
+  const recordNumber = merge.mergedPatient.medicalRecordNumber;
+  if (recordNumber && await Patient.exists({ medicalRecordNumber: recordNumber, _id: { $nin: [merge.survivor, merge.merged] } })) {
+    throw new PatientMergeError(`Another patient now has medical record number ${recordNumber}`, 409);
+  }
+
+  const claimed = await PatientMerge.findOneAndUpdate(
+    { _id: id, status: { $in: ['merging', 'merged'] } },
+    {
+      $set: {
+        status: 'undone',
+        undoneAt: new Date(),
+        undoneBy: mongoose.Types.ObjectId.isValid(actor.id) ? actor.id : undefined,
+        undoneByEmail: actor.email,
+      },
+    },
+    { new: true }
+  ).lean();
+  if (!claimed) {
+    throw new PatientMergeError('This merge has already been undone', 409);
+  }
+
+  // Written through the driver so the stored documents come back exactly, timestamps included
+  await Patient.collection.replaceOne({ _id: merge.survivor }, merge.survivorBefore);
+  await Patient.collection.replaceOne({ _id: merge.merged }, merge.mergedPatient, { upsert: true });
+
+  // Visits created for the survivor after the merge stay with it
+  await Promise.all([
+    Visit.updateMany(
+      { _id: { $in: merge.visits }, patient: merge.survivor },
+      { $set: { patient: merge.merged } },
+      { timestamps: false }
+    ),
+    PatientIntake.updateMany(
+      { _id: { $in: merge.intakes }, patient: merge.survivor },
+      { $set: { patient: merge.merged } }
+    ),
+  ]);
+
+  return { merge: toMergeRecord(claimed), before: current, after: merge.survivorBefore, restored: merge.mergedPatient };
+}
@@ -0,0 +1,296 @@
+import type { IQuestion, ISection } from '@/models/Template';
+import type { IInstrumentScore } from '@/models/Visit';
+import { normalizeText } from '@/lib/healthPlanEngine';
+import { formatScore, isScoredQuestion, scoreQuestion, scoreVisit } from '@/lib/scoring';
+import { flattenResponses, formatAnswer, isAnswered, ResponseMap } from '@/lib/visitResponses';
+
+/**
+ * Longitudinal view of a patient's completed wellness visits. Answers are
+ * aligned by question id, so a question keeps its row across template
+ * versions even when its wording changes. Visits are compared in date order,
+ * each against the visit before it.
+ */
+
+export interface TimelineRecommendation {
+  domain: string;
+  text: string;
+  priority?: 'high' | 'medium' | 'low';
+}
+
+export interface TimelineVisitInput {
+  id: string;
+  date: string | Date;
+  responses: unknown;
+  scores?: IInstrumentScore[];
+  recommendations?: TimelineRecommendation[];
+  // The template version the visit was conducted with
+  template?: { sections?: ISection[] } | null;
+}
+
+export interface TimelineVisit {
+  id: string;
+  date: string;
+}
+
+export interface TimelineRow {
+  questionId: string;
+  text: string;
+  section: string;
+  // One formatted answer per timeline visit, null when it was not answered
+  values: (string | null)[];
+  // The answer differs between at least two consecutive answered visits
+  changed: boolean;
+}
+
+export interface TrendPoint {
+  visitId: string;
+  date: string;
+  value: number;
+}
+
+export interface TrendLine {
+  key: string;
+  label: string;
+  points: TrendPoint[];
+}
+
+export interface Trend {
+  id: 'bmi' | 'bloodPressure' | 'phq2' | 'cognitive';
+  title: string;
+  unit?: string;
+  lines: TrendLine[];
+  // Fixed axis bounds and screening cut-off for scored instruments
+  min?: number;
+  max?: number;
+  threshold?: number;
+}
+
+export interface RecommendationChanges {
+  visitId: string;
+  date: string;
+  previousVisitId: string;
+  previousDate: string;
+  recurring: TimelineRecommendation[];
+  resolved: TimelineRecommendation[];
+  added: TimelineRecommendation[];
+}
+
+export interface PatientTimeline {
+  visits: TimelineVisit[];
+  rows: TimelineRow[];
+  trends: Trend[];
+  // Newest first; the first visit has nothing to compare against
+  recommendationChanges: RecommendationChanges[];
+}
+
+interface PreparedVisit {
+  id: string;
+  date: string;
+  responses: ResponseMap;
+  questions: Map<string, { question: IQuestion; section: string }>;
+  scores: IInstrumentScore[];
+  recommendations: TimelineRecommendation[];
+}
+
+const toIsoDate = (date: string | Date) => {
+  const parsed = new Date(date);
+  return Number.isNaN(parsed.getTime()) ? String(date) : parsed.toISOString();
+};
+
+const toNumber = (value: unknown): number | null => {
+  if (value === null || value === undefined || value === '') return null;
+  const number = Number(value);
+  return Number.isFinite(number) ? number : null;
+};
+
+const recommendationKey = (recommendation: TimelineRecommendation) =>
+  `${normalizeText(recommendation.domain || '')}|${normalizeText(recommendation.text || '')}`;
+
+function prepareVisit(visit: TimelineVisitInput): PreparedVisit {
+  const questions = new Map<string, { question: IQuestion; section: string }>();
+  (visit.template?.sections || []).forEach(section => {
+    (section.questions || []).forEach(question => {
+      questions.set(question.id, { question, section: section.title });
+    });
+  });
+
+  // Visits saved before scoring was added have no stored scores
+  const scores = visit.scores && visit.scores.length > 0
+    ? visit.scores
+    : scoreVisit(visit.template, visit.responses);
+
+  return {
+    id: visit.id,
+    date: toIsoDate(visit.date),
+    responses: flattenResponses(visit.responses),
+    questions,
+    scores,
+    recommendations: visit.recommendations || [],
+  };
+}
+
+const formatTimelineAnswer = (question: IQuestion, value: unknown): string | null => {
+  if (!isAnswered(value as any)) return null;
+
+  if (isScoredQuestion(question)) {
+    const score = scoreQuestion(question, value as any);
+    if (score) return formatScore(score);
+  }
+  if (question.type === 'bmi') {
+    const bmi = toNumber((value as any)?.bmi);
+    if (bmi !== null) return String(bmi);
+  }
+
+  return formatAnswer(question, value as any) || null;
+};
+
+/**
+ * Rows follow the question order of the most recent template, followed by
+ * questions that only older templates asked. Question text comes from the
+ * newest visit that asked it.
+ */
+function buildRows(visits: PreparedVisit[]): TimelineRow[] {
+  const order: string[] = [];
+  const definitions = new Map<string, { question: IQuestion; section: string }>();
+
+  [...visits].reverse().forEach(visit => {
+    visit.questions.forEach((definition, questionId) => {
+      if (!definitions.has(questionId)) {
+        definitions.set(questionId, definition);
+        order.push(questionId);
+      }
+    });
+    Object.keys(visit.responses).forEach(questionId => {
+      if (!definitions.has(questionId)) {
+        definitions.set(questionId, {
+          question: { id: questionId, text: questionId, type: 'text', required: false },
+          section: 'Other',
+        });
+        order.push(questionId);
+      }
+    });
+  });
+
+  return order.flatMap(questionId => {
+    const definition = definitions.get(questionId)!;
+    const values = visits.map(visit => {
+      const question = visit.questions.get(questionId)?.question || definition.question;
+      return formatTimelineAnswer(question, visit.responses[questionId]);
+    });
+
+    const answered = values.filter((value): value is string => value !== null);
+    if (answered.length === 0) return [];
+
+    return [{
+      questionId,
+      text: definition.question.text,
+      section: definition.section,
+      values,
+      changed: answered.some((value, index) => index > 0 && value !== answered[index - 1]),
+    }];
+  });
+}
+
+// The first question of the given type answered at the visit, in template order
+function findAnswer(visit: PreparedVisit, type: IQuestion['type']): any {
+  for (const [questionId, { question }] of Array.from(visit.questions)) {
+    if (question.type === type && isAnswered(visit.responses[questionId])) {
+      return visit.responses[questionId];
+    }
+  }
+  return null;
+}
+
+function collectPoints(visits: PreparedVisit[], read: (visit: PreparedVisit) => unknown): TrendPoint[] {
+  return visits.flatMap(visit => {
+    const value = toNumber(read(visit));
+    return value === null ? [] : [{ visitId: visit.id, date: visit.date, value }];
+  });
+}
+
+function buildScoreTrend(
+  visits: PreparedVisit[],
+  id: Trend['id'],
+  instrument: IInstrumentScore['instrument']
+): Trend | null {
+  const latest = [...visits].reverse()
+    .map(visit => visit.scores.find(score => score.instrument === instrument))
+    .find(Boolean);
+  if (!latest) return null;
+
+  return {
+    id,
+    title: latest.label,
+    unit: 'points',
+    min: 0,
+    max: latest.maxScore,
+    threshold: latest.threshold,
+    lines: [{
+      key: instrument,
+      label: latest.label,
+      points: collectPoints(visits, visit => {
+        const score = visit.scores.find(item => item.instrument === instrument);
+        return score && score.complete ? score.score : null;
+      }),
+    }],
+  };
+}
+
+function buildTrends(visits: PreparedVisit[]): Trend[] {
+  const trends: (Trend | null)[] = [
+    {
+      id: 'bmi',
+      title: 'BMI',
+      unit: 'kg/m²',
+      lines: [{ key: 'bmi', label: 'BMI', points: collectPoints(visits, visit => findAnswer(visit, 'bmi')?.bmi) }],
+    },
+    {
+      id: 'bloodPressure',
+      title: 'Blood Pressure',
+      unit: 'mmHg',
+      lines: [
+        { key: 'systolic', label: 'Systolic', points: collectPoints(visits, visit => findAnswer(visit, 'vitalSigns')?.systolic) },
+        { key: 'diastolic', label: 'Diastolic', points: collectPoints(visits, visit => findAnswer(visit, 'vitalSigns')?.diastolic) },
+      ],
+    },
+    buildScoreTrend(visits, 'phq2', 'phq2'),
+    buildScoreTrend(visits, 'cognitive', 'cognitiveAssessment'),
+  ];
+
+  return trends.filter((trend): trend is Trend =>
+    trend !== null && trend.lines.some(line => line.points.length > 0)
+  );
+}
+
+function compareRecommendations(previous: PreparedVisit, current: PreparedVisit): RecommendationChanges {
+  const previousKeys = new Set(previous.recommendations.map(recommendationKey));
+  const currentKeys = new Set(current.recommendations.map(recommendationKey));
+
+  return {
+    visitId: current.id,
+    date: current.date,
+    previousVisitId: previous.id,
+    previousDate: previous.date,
+    recurring: current.recommendations.filter(item => previousKeys.has(recommendationKey(item))),
+    added: current.recommendations.filter(item => !previousKeys.has(recommendationKey(item))),
+    resolved: previous.recommendations.filter(item => !currentKeys.has(recommendationKey(item))),
+  };
+}
+
+export function buildPatientTimeline(input: TimelineVisitInput[]): PatientTimeline {
+  const visits = input
+    .map(prepareVisit)
+    .sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+
+  const recommendationChanges = visits
+    .slice(1)
+    .map((visit, index) => compareRecommendations(visits[index], visit))
+    .reverse();
+
+  return {
+    visits: visits.map(visit => ({ id: visit.id, date: visit.date })),
+    rows: buildRows(visits),
+    trends: buildTrends(visits),
+    recommendationChanges,
+  };
+}
@@ -0,0 +1,134 @@
+/**
+ * Field rules of the Patient model, shared with the browser so imported rows
+ * can be checked before anything is sent to the server.
+ */
+
+export const PATIENT_GENDERS = ['male', 'female', 'other'] as const;
+
+export type PatientGender = typeof PATIENT_GENDERS[number];
+
+export const PATIENT_EMAIL_PATTERN =
+  /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/;
+
+// Oldest date of birth accepted, in years before today
+const MAX_AGE_YEARS = 130;
+
+export interface PatientInput {
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: string;
+  gender?: string;
+  email?: string;
+  phoneNumber?: string;
+  medicalRecordNumber?: string;
+  street?: string;
+  city?: string;
+  state?: string;
+  zipCode?: string;
+  insuranceProvider?: string;
+  policyNumber?: string;
+  groupNumber?: string;
+}
+
+export type PatientField = keyof PatientInput;
+
+export interface PatientFieldError {
+  field: PatientField;
+  message: string;
+}
+
+export interface PatientValidationResult {
+  valid: boolean;
+  errors: PatientFieldError[];
+  // Trimmed input with gender and date of birth in their stored form
+  patient: PatientInput;
+}
+
+const GENDER_ALIASES: Record<string, PatientGender> = {
+  m: 'male',
+  male: 'male',
+  man: 'male',
+  f: 'female',
+  female: 'female',
+  woman: 'female',
+  o: 'other',
+  other: 'other',
+  x: 'other',
+};
+
+export function normalizeGender(value: string | undefined): PatientGender | null {
+  return GENDER_ALIASES[(value || '').trim().toLowerCase()] || null;
+}
+
+const isoDate = (year: number, month: number, day: number): string | null => {
+  const date = new Date(Date.UTC(year, month - 1, day));
+  if (date.getUTCFullYear() !== year || date.getUTCMonth() !== month - 1 || date.getUTCDate() !== day) {
+    return null;
+  }
+  return date.toISOString().slice(0, 10);
+};
+
+/**
+ * Read a date of birth written as YYYY-MM-DD or the US style M/D/YYYY and
+ * return it as YYYY-MM-DD, or null when it is not a real date.
+ */
+export function parseDateOfBirth(value: string | undefined): string | null {
+  const text = (value || '').trim();
+
+  let match = text.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(T.*)?$/);
+  if (match) return isoDate(Number(match[1]), Number(match[2]), Number(match[3]));
+
+  match = text.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (match) return isoDate(Number(match[3]), Number(match[1]), Number(match[2]));
+
+  return null;
+}
+
+export function validatePatient(input: PatientInput, today: Date = new Date()): PatientValidationResult {
+  const patient: PatientInput = {};
+  (Object.keys(input) as PatientField[]).forEach(field => {
+    const value = typeof input[field] === 'string' ? input[field]!.trim() : '';
+    if (value) patient[field] = value;
+  });
+
+  const errors: PatientFieldError[] = [];
+  const addError = (field: PatientField, message: string) => errors.push({ field, message });
+
+  if (!patient.firstName) addError('firstName', 'First name is required');
+  if (!patient.lastName) addError('lastName', 'Last name is required');
+
+  if (!patient.dateOfBirth) {
+    addError('dateOfBirth', 'Date of birth is required');
+  } else {
+    const dateOfBirth = parseDateOfBirth(patient.dateOfBirth);
+    const earliest = new Date(today);
+    earliest.setFullYear(earliest.getFullYear() - MAX_AGE_YEARS);
+
+    if (!dateOfBirth) {
+      addError('dateOfBirth', `"${patient.dateOfBirth}" is not a date; use YYYY-MM-DD or MM/DD/YYYY`);
+    } else if (dateOfBirth > today.toISOString().slice(0, 10)) {
+      addError('dateOfBirth', 'Date of birth is in the future');
+    } else if (dateOfBirth < earliest.toISOString().slice(0, 10)) {
+      addError('dateOfBirth', `Date of birth is more than ${MAX_AGE_YEARS} years ago`);
+    } else {
+      patient.dateOfBirth = dateOfBirth;
+    }
+  }
+
+  if (!patient.gender) {
+    addError('gender', 'Gender is required');
+  } else {
+    const gender = normalizeGender(patient.gender);
+    if (gender) {
+      patient.gender = gender;
+    } else {
+      addError('gender', `"${patient.gender}" is not a valid gender; use ${PATIENT_GENDERS.join(', ')}`);
+    }
+  }
+
+  if (patient.email && !PATIENT_EMAIL_PATTERN.test(patient.email)) {
+    addError('email', `"${patient.email}" is not a valid email`);
+  }
+
+  return { valid: errors.length === 0, errors, patient };
+}
@@ -0,0 +1,69 @@
+import PdfPrinter from 'pdfmake';
+import vfs from 'pdfmake/build/vfs_fonts';
+import { TDocumentDefinitions } from 'pdfmake/interfaces';
+
+/**
+ * Server-side PDF rendering with pdfmake's Node printer, using the same
+ * Roboto fonts as the browser build so both produce the same layout.
+ */
+
+const LOGO_TYPES = ['image/png', 'image/jpeg'];
+const LOGO_TIMEOUT_MS = 5000;
+const MAX_LOGO_BYTES = 2 * 1024 * 1024;
+
+const font = (file: string) => Buffer.from(vfs[file], 'base64');
+
+let printer: PdfPrinter | null = null;
+
+function getPrinter(): PdfPrinter {
+  if (!printer) {
+    printer = new PdfPrinter({
+      Roboto: {
+        normal: font('Roboto-Regular.ttf'),
+        bold: font('Roboto-Medium.ttf'),
+        italics: font('Roboto-Italic.ttf'),
+        bolditalics: font('Roboto-MediumItalic.ttf'),
+      },
+    });
+  }
+  return printer;
+}
+
+// Render a document to a PDF. Set info.creationDate so the output does not depend on when it was rendered.
+export function renderPdf(docDefinition: TDocumentDefinitions): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const doc = getPrinter().createPdfKitDocument(docDefinition);
+    const chunks: Buffer[] = [];
+    doc.on('data', (chunk: Buffer) => chunks.push(chunk));
+    doc.on('end', () => resolve(Buffer.concat(chunks)));
+    doc.on('error', reject);
+    doc.end();
+  });
+}
+
+// The practice logo as a data URL pdfmake can embed. Logos that cannot be
+// fetched or are not PNG or JPEG are left out rather than failing the PDF.
+export async function loadLogoDataUrl(logo?: string | null): Promise<string | null> {
+  if (!logo) return null;
+  if (/^data:image\/(png|jpeg);base64,/.test(logo)) return logo;
+  if (!/^https?:\/\//.test(logo)) return null;
+
+  try {
+    const response = await fetch(logo, { signal: AbortSignal.timeout(LOGO_TIMEOUT_MS) });
+    const contentType = (response.headers.get('Content-Type') || '').split(';')[0].trim();
+    if (!response.ok || !LOGO_TYPES.includes(contentType)) {
+      console.warn(`Practice logo ${logo} skipped: ${response.status} ${contentType}`);
+      return null;
+    }
+
+    const data = Buffer.from(await response.arrayBuffer());
+    if (data.length > MAX_LOGO_BYTES) {
+      console.warn(`Practice logo ${logo} skipped: larger than ${MAX_LOGO_BYTES} bytes`);
+      return null;
+    }
+    return `data:${contentType};base64,${data.toString('base64')}`;
+  } catch (error) {
+    console.warn(`Practice logo ${logo} could not be loaded:`, error);
+    return null;
+  }
+}
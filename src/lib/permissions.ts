@@ -0,0 +1,97 @@
+/**
+ * Central role -> permission matrix. API routes enforce these permissions
+ * server-side and the `useCan()` hook uses the same matrix to hide UI the
+ * signed-in user is not allowed to use.
+ */
+
+export const ROLES = ['admin', 'provider', 'staff'] as const;
+
+export type Role = typeof ROLES[number];
+
+export type Permission =
+  | 'patients:read'
+  | 'patients:write'
+  | 'patients:delete'
+  | 'patients:merge'
+  | 'visits:read'
+  | 'visits:write'
+  | 'visits:complete'
+  | 'visits:delete'
+  | 'templates:read'
+  | 'templates:write'
+  | 'templates:publish'
+  | 'templates:delete'
+  | 'users:read'
+  | 'users:manage'
+  | 'practice:read'
+  | 'practice:manage'
+  | 'analytics:read'
+  | 'audit:read'
+  | 'system:debug';
+
+export const PERMISSIONS: Record<Role, readonly Permission[]> = {
+  admin: [
+    'patients:read',
+    'patients:write',
+    'patients:delete',
+    'patients:merge',
+    'visits:read',
+    'visits:write',
+    'visits:complete',
+    'visits:delete',
+    'templates:read',
+    'templates:write',
+    'templates:publish',
+    'templates:delete',
+    'users:read',
+    'users:manage',
+    'practice:read',
+    'practice:manage',
+    'analytics:read',
+    'audit:read',
+    'system:debug',
+  ],
+  provider: [
+    'patients:read',
+    'patients:write',
+    'patients:merge',
+    'visits:read',
+    'visits:write',
+    'visits:complete',
+    'templates:read',
+    'templates:write',
+    'users:read',
+    'practice:read',
+    'practice:manage',
+    'analytics:read',
+  ],
+  staff: [
+    'patients:read',
+    'patients:write',
+    'visits:read',
+    'visits:write',
+    'templates:read',
+    'practice:read',
+  ],
+};
+
+// Older user records use the clinical role names from the Netlify function
+const ROLE_ALIASES: Record<string, Role> = {
+  doctor: 'provider',
+  nurse: 'staff',
+};
+
+// Map a stored role to one of the known roles, or null when it is not recognized
+export function normalizeRole(role: unknown): Role | null {
+  if (typeof role !== 'string') return null;
+
+  const value = role.trim().toLowerCase();
+  if ((ROLES as readonly string[]).includes(value)) return value as Role;
+
+  return ROLE_ALIASES[value] || null;
+}
+
+export function hasPermission(role: unknown, permission: Permission): boolean {
+  const normalized = normalizeRole(role);
+  return normalized ? PERMISSIONS[normalized].includes(permission) : false;
+}
@@ -0,0 +1,81 @@
+import type { HealthPlanItem } from '@/lib/healthPlanEngine';
+
+/**
+ * Medicare-covered screenings and immunizations suggested by age and sex, for
+ * the written screening schedule the AWV gives the patient. The app does not
+ * know what the patient has already had, so each one is suggested as due at
+ * the visit (flu shots at the next flu season) for the provider to adjust or
+ * remove when reviewing the health plan.
+ */
+
+export const SCREENINGS_DOMAIN = 'Screenings';
+export const IMMUNIZATIONS_DOMAIN = 'Immunizations';
+
+interface PreventiveService {
+  domain: typeof SCREENINGS_DOMAIN | typeof IMMUNIZATIONS_DOMAIN;
+  // Plain language, as it appears on the patient handout
+  text: string;
+  minAge?: number;
+  maxAge?: number;
+  sex?: 'female' | 'male';
+  // Flu shots are given from September on each year
+  seasonal?: boolean;
+}
+
+const PREVENTIVE_SERVICES: PreventiveService[] = [
+  { domain: IMMUNIZATIONS_DOMAIN, text: 'Flu shot, every fall', seasonal: true },
+  { domain: IMMUNIZATIONS_DOMAIN, text: 'Pneumonia vaccine', minAge: 50 },
+  { domain: IMMUNIZATIONS_DOMAIN, text: 'Shingles vaccine (2 doses, 2 to 6 months apart)', minAge: 50 },
+  { domain: IMMUNIZATIONS_DOMAIN, text: 'RSV vaccine (one dose)', minAge: 75 },
+  { domain: IMMUNIZATIONS_DOMAIN, text: 'Tetanus and diphtheria (Td or Tdap) booster, every 10 years' },
+  { domain: SCREENINGS_DOMAIN, text: 'Colon cancer screening', minAge: 45, maxAge: 75 },
+  { domain: SCREENINGS_DOMAIN, text: 'Mammogram to check for breast cancer, every 2 years', minAge: 40, maxAge: 74, sex: 'female' },
+  { domain: SCREENINGS_DOMAIN, text: 'Bone density test to check for osteoporosis', minAge: 65, sex: 'female' },
+  { domain: SCREENINGS_DOMAIN, text: 'Cholesterol blood test, every 5 years', minAge: 40 },
+  { domain: SCREENINGS_DOMAIN, text: 'Hepatitis C blood test (once)', maxAge: 79 },
+];
+
+const isoDate = (date: Date) => date.toISOString().slice(0, 10);
+
+// Age in whole years on the given date; dates of birth are stored as midnight UTC
+export function ageOn(dateOfBirth: string | Date, date: Date): number {
+  const birth = new Date(dateOfBirth);
+  const age = date.getUTCFullYear() - birth.getUTCFullYear();
+  const hadBirthday = date.getUTCMonth() > birth.getUTCMonth() ||
+    (date.getUTCMonth() === birth.getUTCMonth() && date.getUTCDate() >= birth.getUTCDate());
+  return hadBirthday ? age : age - 1;
+}
+
+// The visit date during flu season (September to March), otherwise the next September 1
+function nextFluShotDate(date: Date): Date {
+  const month = date.getUTCMonth();
+  if (month >= 8 || month <= 2) return date;
+  return new Date(Date.UTC(date.getUTCFullYear(), 8, 1));
+}
+
+export function suggestPreventiveServices(
+  patient: { dateOfBirth: string | Date; gender?: string },
+  visitDate: Date
+): HealthPlanItem[] {
+  const age = ageOn(patient.dateOfBirth, visitDate);
+
+  return PREVENTIVE_SERVICES
+    .filter(service =>
+      (service.minAge === undefined || age >= service.minAge) &&
+      (service.maxAge === undefined || age <= service.maxAge) &&
+      (!service.sex || service.sex === patient.gender)
+    )
+    .map(service => ({
+      domain: service.domain,
+      text: service.text,
+      priority: 'medium',
+      dueDate: isoDate(service.seasonal ? nextFluShotDate(visitDate) : visitDate),
+    }));
+}
+
+export const isPreventionDomain = (domain: string) =>
+  domain === SCREENINGS_DOMAIN || domain === IMMUNIZATIONS_DOMAIN;
+
+// Due dates are calendar dates stored as midnight UTC
+export const formatDueDate = (date: string | Date) =>
+  new Date(date).toLocaleDateString('en-US', { timeZone: 'UTC', month: 'long', day: 'numeric', year: 'numeric' });
@@ -0,0 +1,94 @@
+import { isAnswered, ResponseMap, ResponseValue } from '@/lib/visitResponses';
+
+/**
+ * Per-question three-way merge of visit responses, used when a draft edited
+ * offline is synced after someone else saved the same visit. Each question is
+ * merged on its own: a side that left the answer as it was in the base loses
+ * to the side that changed it, and only questions changed differently on both
+ * sides are conflicts.
+ */
+
+export interface ResponseConflict {
+  questionId: string;
+  local: ResponseValue;
+  remote: ResponseValue;
+}
+
+export interface ResponseMergeResult {
+  // Local answers win for conflicting questions until they are resolved
+  merged: ResponseMap;
+  conflicts: ResponseConflict[];
+}
+
+export type ConflictResolution = 'local' | 'remote';
+
+// Key order independent, so stored composite answers compare equal after a round trip
+const canonical = (value: ResponseValue): string => {
+  if (!isAnswered(value)) return '';
+  return JSON.stringify(value, (_key, item) => {
+    if (item && typeof item === 'object' && !Array.isArray(item)) {
+      return Object.keys(item).sort().reduce<Record<string, unknown>>((sorted, key) => {
+        sorted[key] = item[key];
+        return sorted;
+      }, {});
+    }
+    return item;
+  });
+};
+
+export function sameResponse(a: ResponseValue, b: ResponseValue): boolean {
+  return canonical(a) === canonical(b);
+}
+
+export function mergeResponses(base: ResponseMap, local: ResponseMap, remote: ResponseMap): ResponseMergeResult {
+  const merged: ResponseMap = {};
+  const conflicts: ResponseConflict[] = [];
+  const questionIds = new Set([...Object.keys(base), ...Object.keys(local), ...Object.keys(remote)]);
+
+  questionIds.forEach(questionId => {
+    const localValue = local[questionId];
+    const remoteValue = remote[questionId];
+
+    let value: ResponseValue;
+    if (sameResponse(localValue, remoteValue) || sameResponse(remoteValue, base[questionId])) {
+      value = localValue;
+    } else if (sameResponse(localValue, base[questionId])) {
+      value = remoteValue;
+    } else {
+      conflicts.push({ questionId, local: localValue, remote: remoteValue });
+      value = localValue;
+    }
+
+    if (isAnswered(value)) {
+      merged[questionId] = value;
+    }
+  });
+
+  return { merged, conflicts };
+}
+
+// Apply the user's choice for each conflicting question to a merge result
+export function resolveConflicts(
+  result: ResponseMergeResult,
+  resolutions: Record<string, ConflictResolution>
+): ResponseMergeResult {
+  const merged = { ...result.merged };
+  const conflicts: ResponseConflict[] = [];
+
+  result.conflicts.forEach(conflict => {
+    const resolution = resolutions[conflict.questionId];
+    if (!resolution) {
+      conflicts.push(conflict);
+      return;
+    }
+
+    const value = resolution === 'local' ? conflict.local : conflict.remote;
+    if (isAnswered(value)) {
+      merged[conflict.questionId] = value;
+    } else {
+      delete merged[conflict.questionId];
+    }
+  });
+
+  return { merged, conflicts };
+}
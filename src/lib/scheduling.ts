@@ -0,0 +1,107 @@
+import { COMPLETED_VISIT_STATUSES, OPEN_VISIT_STATUSES, VisitStatus } from '@/lib/visitLifecycle';
+
+/**
+ * Appointment times for the scheduling calendar. Shared by the visits API,
+ * which rejects overlapping bookings, and the calendar, which lays visits out
+ * and shows each provider's working hours.
+ */
+
+export const DEFAULT_VISIT_MINUTES = 30;
+export const MIN_VISIT_MINUTES = 5;
+export const MAX_VISIT_MINUTES = 480;
+
+// Granularity of the calendar grid and of drag-to-reschedule
+export const SLOT_MINUTES = 15;
+
+// Visits in these statuses occupy their time slot; cancelled, no-show and rescheduled visits free it
+export const BOOKED_VISIT_STATUSES: readonly VisitStatus[] = [...OPEN_VISIT_STATUSES, ...COMPLETED_VISIT_STATUSES];
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * One block of working time in the practice's local time. A provider can
+ * have several blocks on the same day, e.g. around a lunch break.
+ */
+export interface WorkingHours {
+  // 0 is Sunday, as in Date.getDay()
+  day: number;
+  // HH:MM, 24-hour
+  start: string;
+  end: string;
+}
+
+export const DEFAULT_WORKING_HOURS: WorkingHours[] = [1, 2, 3, 4, 5].map(day => ({ day, start: '08:00', end: '17:00' }));
+
+export interface SchedulableVisit {
+  scheduledDate: string | Date;
+  durationMinutes?: number | null;
+}
+
+export const visitDuration = (visit: { durationMinutes?: number | null }) =>
+  visit.durationMinutes && visit.durationMinutes > 0 ? visit.durationMinutes : DEFAULT_VISIT_MINUTES;
+
+export const visitEnd = (visit: SchedulableVisit): Date =>
+  new Date(new Date(visit.scheduledDate).getTime() + visitDuration(visit) * 60000);
+
+export const rangesOverlap = (startA: Date, endA: Date, startB: Date, endB: Date) =>
+  startA < endB && startB < endA;
+
+export const isValidDuration = (minutes: unknown): minutes is number =>
+  typeof minutes === 'number' && Number.isInteger(minutes) && minutes >= MIN_VISIT_MINUTES && minutes <= MAX_VISIT_MINUTES;
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/;
+
+// Minutes after midnight of an HH:MM time
+export const timeToMinutes = (time: string): number => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const minutesToTime = (minutes: number): string =>
+  `${String(Math.floor(minutes / 60)).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+
+// Check working hours sent by a client; returns the blocks sorted by day and start
+export function validateWorkingHours(input: unknown): { hours: WorkingHours[]; errors: string[] } {
+  const errors: string[] = [];
+  if (!Array.isArray(input)) {
+    return { hours: [], errors: ['Working hours must be a list'] };
+  }
+
+  const hours: WorkingHours[] = [];
+  input.forEach((block: any, index) => {
+    const label = `Block ${index + 1}`;
+    if (!Number.isInteger(block?.day) || block.day < 0 || block.day > 6) {
+      errors.push(`${label}: day must be 0 (Sunday) to 6 (Saturday)`);
+    } else if (!TIME_PATTERN.test(block.start || '') || !TIME_PATTERN.test(block.end || '')) {
+      errors.push(`${label}: times must be HH:MM`);
+    } else if (timeToMinutes(block.start) >= timeToMinutes(block.end)) {
+      errors.push(`${WEEKDAY_NAMES[block.day]} ${block.start}-${block.end}: the end must be after the start`);
+    } else {
+      hours.push({ day: block.day, start: block.start, end: block.end });
+    }
+  });
+
+  hours.sort((a, b) => a.day - b.day || timeToMinutes(a.start) - timeToMinutes(b.start));
+  hours.forEach((block, index) => {
+    const next = hours[index + 1];
+    if (next && next.day === block.day && timeToMinutes(next.start) < timeToMinutes(block.end)) {
+      errors.push(`${WEEKDAY_NAMES[block.day]}: ${block.start}-${block.end} overlaps ${next.start}-${next.end}`);
+    }
+  });
+
+  return { hours, errors };
+}
+
+/**
+ * Whether a visit fits inside one working block, read in the local time of
+ * the browser, which is at the practice.
+ */
+export function isWithinWorkingHours(start: Date, durationMinutes: number, hours: WorkingHours[]): boolean {
+  const startMinutes = start.getHours() * 60 + start.getMinutes();
+  const endMinutes = startMinutes + durationMinutes;
+  return hours.some(block =>
+    block.day === start.getDay() &&
+    timeToMinutes(block.start) <= startMinutes &&
+    endMinutes <= timeToMinutes(block.end)
+  );
+}
@@ -0,0 +1,227 @@
+import type { IOption, IQuestion, ISection } from '@/models/Template';
+import type { IInstrumentScore } from '@/models/Visit';
+import { flattenResponses, getSelectedValues, isAnswered, ResponseValue } from '@/lib/visitResponses';
+
+/**
+ * Scoring for the standardized screening instruments (PHQ-2, CAGE, Mini-Cog).
+ *
+ * Instrument questions are answered item by item and stored as an
+ * itemId -> option value map. A template may replace the default items with
+ * its own options, in which case the selected option scores are summed.
+ */
+
+export type ScoredQuestionType = IInstrumentScore['instrument'];
+
+export interface InstrumentItem {
+  id: string;
+  text: string;
+  options: IOption[];
+}
+
+export interface InstrumentDefinition {
+  label: string;
+  items: InstrumentItem[];
+  maxScore: number;
+  // Default cut-off, overridden by config.thresholds.warningThreshold
+  threshold: number;
+  // 'high' screens positive at or above the threshold, 'low' below it
+  direction: 'high' | 'low';
+  positiveInterpretation: string;
+  negativeInterpretation: string;
+  followUp: string;
+}
+
+export type InstrumentScore = IInstrumentScore;
+
+const PHQ_OPTIONS: IOption[] = [
+  { value: '0', label: 'Not at all', score: 0 },
+  { value: '1', label: 'Several days', score: 1 },
+  { value: '2', label: 'More than half the days', score: 2 },
+  { value: '3', label: 'Nearly every day', score: 3 },
+];
+
+const YES_NO_OPTIONS: IOption[] = [
+  { value: 'no', label: 'No', score: 0 },
+  { value: 'yes', label: 'Yes', score: 1 },
+];
+
+export const INSTRUMENTS: Record<ScoredQuestionType, InstrumentDefinition> = {
+  phq2: {
+    label: 'PHQ-2 Depression Screen',
+    items: [
+      { id: 'interest', text: 'Little interest or pleasure in doing things', options: PHQ_OPTIONS },
+      { id: 'mood', text: 'Feeling down, depressed, or hopeless', options: PHQ_OPTIONS },
+    ],
+    maxScore: 6,
+    threshold: 3,
+    direction: 'high',
+    positiveInterpretation: 'Positive depression screen',
+    negativeInterpretation: 'Negative depression screen',
+    followUp: 'Administer PHQ-9 to assess depression severity.',
+  },
+  cageScreening: {
+    label: 'CAGE Alcohol Screen',
+    items: [
+      { id: 'cutDown', text: 'Have you ever felt you should cut down on your drinking?', options: YES_NO_OPTIONS },
+      { id: 'annoyed', text: 'Have people annoyed you by criticizing your drinking?', options: YES_NO_OPTIONS },
+      { id: 'guilty', text: 'Have you ever felt bad or guilty about your drinking?', options: YES_NO_OPTIONS },
+      { id: 'eyeOpener', text: 'Have you ever had a drink first thing in the morning to steady your nerves or get rid of a hangover?', options: YES_NO_OPTIONS },
+    ],
+    maxScore: 4,
+    threshold: 2,
+    direction: 'high',
+    positiveInterpretation: 'Clinically significant alcohol use',
+    negativeInterpretation: 'No clinically significant alcohol use',
+    followUp: 'Further assessment for alcohol use disorder (e.g. AUDIT) and brief intervention.',
+  },
+  cognitiveAssessment: {
+    label: 'Mini-Cog Cognitive Assessment',
+    items: [
+      {
+        id: 'recall',
+        text: 'Three-word recall (1 point per word recalled)',
+        options: [
+          { value: '0', label: '0 words', score: 0 },
+          { value: '1', label: '1 word', score: 1 },
+          { value: '2', label: '2 words', score: 2 },
+          { value: '3', label: '3 words', score: 3 },
+        ],
+      },
+      {
+        id: 'clock',
+        text: 'Clock drawing',
+        options: [
+          { value: 'abnormal', label: 'Abnormal', score: 0 },
+          { value: 'normal', label: 'Normal', score: 2 },
+        ],
+      },
+    ],
+    maxScore: 5,
+    threshold: 3,
+    direction: 'low',
+    positiveInterpretation: 'Possible cognitive impairment',
+    negativeInterpretation: 'No cognitive impairment detected',
+    followUp: 'Refer for comprehensive cognitive evaluation.',
+  },
+};
+
+export function isScoredQuestion(question: Pick<IQuestion, 'type'>): question is IQuestion & { type: ScoredQuestionType } {
+  return question.type in INSTRUMENTS;
+}
+
+// The items to present for an instrument question, honoring template-defined options
+export function getInstrumentItems(question: IQuestion): InstrumentItem[] {
+  if (!isScoredQuestion(question)) return [];
+
+  if (question.options && question.options.length > 0) {
+    return [{ id: question.id, text: question.text, options: question.options }];
+  }
+
+  return INSTRUMENTS[question.type].items;
+}
+
+const optionScore = (options: IOption[], selected: string): number | null => {
+  const option = options.find(o => o.value === selected);
+  if (!option) return null;
+
+  if (typeof option.score === 'number') return option.score;
+
+  const numeric = Number(option.value);
+  return Number.isNaN(numeric) ? null : numeric;
+};
+
+export const INCOMPLETE_INTERPRETATION = 'Incomplete - answer every item to interpret';
+
+/**
+ * Score a single instrument question. Returns null for questions that are not
+ * scored instruments or have not been answered. A partially answered
+ * instrument is only interpreted (positive, follow-up) when the answered items
+ * already decide the result.
+ */
+export function scoreQuestion(question: IQuestion, value: ResponseValue): InstrumentScore | null {
+  if (!isScoredQuestion(question) || !isAnswered(value)) return null;
+
+  const definition = INSTRUMENTS[question.type];
+  const items = getInstrumentItems(question);
+  const customOptions = !!(question.options && question.options.length > 0);
+
+  let score = 0;
+  let answeredItems = 0;
+
+  if (customOptions) {
+    getSelectedValues(value).forEach(selected => {
+      const points = optionScore(items[0].options, selected);
+      if (points !== null) {
+        score += points;
+        answeredItems = 1;
+      }
+    });
+  } else if (typeof value === 'object' && !Array.isArray(value)) {
+    items.forEach(item => {
+      const selected = (value as Record<string, any>)[item.id];
+      if (selected === undefined || selected === null || selected === '') return;
+
+      const points = optionScore(item.options, String(selected));
+      if (points !== null) {
+        score += points;
+        answeredItems++;
+      }
+    });
+  } else if (!Number.isNaN(Number(value))) {
+    // A total score entered directly
+    score = Number(value);
+    answeredItems = items.length;
+  }
+
+  if (answeredItems === 0) return null;
+
+  const maxScore = customOptions
+    ? items.reduce((total, item) => total + Math.max(0, ...item.options.map(o => o.score || 0)), 0) || definition.maxScore
+    : definition.maxScore;
+  const threshold = question.config?.thresholds?.warningThreshold ?? definition.threshold;
+  const complete = answeredItems >= items.length;
+  const meetsThreshold = definition.direction === 'high' ? score >= threshold : score < threshold;
+  // A partial score can only go up, so it is already conclusive once a 'high'
+  // instrument reaches its threshold; anything else waits for the remaining items
+  const conclusive = complete || (definition.direction === 'high' && meetsThreshold);
+  const positive = conclusive && meetsThreshold;
+
+  let interpretation = INCOMPLETE_INTERPRETATION;
+  if (conclusive) {
+    interpretation = positive ? definition.positiveInterpretation : definition.negativeInterpretation;
+  }
+
+  return {
+    questionId: question.id,
+    instrument: question.type,
+    label: definition.label,
+    score,
+    maxScore,
+    threshold,
+    positive,
+    interpretation,
+    followUp: positive ? definition.followUp : undefined,
+    complete,
+  };
+}
+
+// Score every instrument question in a template against the visit responses
+export function scoreVisit(template: { sections?: ISection[] } | null | undefined, responses: unknown): InstrumentScore[] {
+  if (!template || !template.sections) return [];
+
+  const responseMap = flattenResponses(responses);
+  const scores: InstrumentScore[] = [];
+
+  template.sections.forEach(section => {
+    (section.questions || []).forEach(question => {
+      const result = scoreQuestion(question, responseMap[question.id]);
+      if (result) scores.push(result);
+    });
+  });
+
+  return scores;
+}
+
+export function formatScore(score: Pick<InstrumentScore, 'score' | 'maxScore'>): string {
+  return `${score.score}/${score.maxScore}`;
+}
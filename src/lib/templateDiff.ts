@@ -0,0 +1,165 @@
+import type { IQuestion, ISection } from '@/models/Template';
+
+/**
+ * Structural diff between two versions of a template. Sections and
+ * questions are matched by id, so renames show up as changes rather than as
+ * a removal plus an addition.
+ */
+
+export type ChangeKind = 'added' | 'removed' | 'changed';
+
+export interface FieldChange {
+  field: string;
+  before: any;
+  after: any;
+}
+
+export interface QuestionDiff {
+  kind: ChangeKind;
+  questionId: string;
+  text: string;
+  changes: FieldChange[];
+}
+
+export interface SectionDiff {
+  kind: ChangeKind;
+  sectionId: string;
+  title: string;
+  changes: FieldChange[];
+  questions: QuestionDiff[];
+}
+
+export interface TemplateDiff {
+  changes: FieldChange[];
+  sections: SectionDiff[];
+  hasChanges: boolean;
+}
+
+interface DiffableTemplate {
+  name?: string;
+  description?: string;
+  sections?: ISection[];
+}
+
+const QUESTION_FIELDS: (keyof IQuestion)[] = [
+  'text',
+  'type',
+  'required',
+  'options',
+  'includeRecommendation',
+  'defaultRecommendation',
+  'conditionalLogic',
+  'code',
+  'config',
+];
+
+// Compare values structurally, ignoring key order and unset optional fields
+const normalize = (value: any): any => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value)
+      .filter(key => value[key] !== undefined && value[key] !== null && key !== '_id')
+      .sort()
+      .reduce((result: Record<string, any>, key) => {
+        result[key] = normalize(value[key]);
+        return result;
+      }, {});
+  }
+  return value;
+};
+
+const isEqual = (a: any, b: any) => JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+const diffFields = <T extends Record<string, any>>(before: T, after: T, fields: (keyof T)[]): FieldChange[] =>
+  fields
+    .filter(field => !isEqual(before[field] ?? null, after[field] ?? null))
+    .map(field => ({ field: String(field), before: before[field], after: after[field] }));
+
+const diffQuestions = (before: IQuestion[], after: IQuestion[]): QuestionDiff[] => {
+  const diffs: QuestionDiff[] = [];
+  const beforeById = new Map(before.map(question => [question.id, question]));
+  const afterIds = new Set(after.map(question => question.id));
+
+  after.forEach(question => {
+    const previous = beforeById.get(question.id);
+    if (!previous) {
+      diffs.push({ kind: 'added', questionId: question.id, text: question.text, changes: [] });
+      return;
+    }
+
+    const changes = diffFields(previous, question, QUESTION_FIELDS);
+    if (changes.length > 0) {
+      diffs.push({ kind: 'changed', questionId: question.id, text: question.text, changes });
+    }
+  });
+
+  before
+    .filter(question => !afterIds.has(question.id))
+    .forEach(question => {
+      diffs.push({ kind: 'removed', questionId: question.id, text: question.text, changes: [] });
+    });
+
+  return diffs;
+};
+
+export function diffTemplates(before: DiffableTemplate, after: DiffableTemplate): TemplateDiff {
+  const changes = diffFields(before, after, ['name', 'description']);
+  const sections: SectionDiff[] = [];
+  const beforeSections = before.sections || [];
+  const afterSections = after.sections || [];
+  const beforeById = new Map(beforeSections.map(section => [section.id, section]));
+  const afterIds = new Set(afterSections.map(section => section.id));
+
+  afterSections.forEach((section, index) => {
+    const previous = beforeById.get(section.id);
+    if (!previous) {
+      sections.push({
+        kind: 'added',
+        sectionId: section.id,
+        title: section.title,
+        changes: [],
+        questions: diffQuestions([], section.questions || []),
+      });
+      return;
+    }
+
+    const sectionChanges = diffFields(previous, section, ['title', 'description', 'conditionalLogic', 'patientCompletable']);
+    if (beforeSections.indexOf(previous) !== index) {
+      sectionChanges.push({ field: 'position', before: beforeSections.indexOf(previous) + 1, after: index + 1 });
+    }
+
+    const questions = diffQuestions(previous.questions || [], section.questions || []);
+    if (sectionChanges.length > 0 || questions.length > 0) {
+      sections.push({ kind: 'changed', sectionId: section.id, title: section.title, changes: sectionChanges, questions });
+    }
+  });
+
+  beforeSections
+    .filter(section => !afterIds.has(section.id))
+    .forEach(section => {
+      sections.push({
+        kind: 'removed',
+        sectionId: section.id,
+        title: section.title,
+        changes: [],
+        questions: diffQuestions(section.questions || [], []),
+      });
+    });
+
+  return {
+    changes,
+    sections,
+    hasChanges: changes.length > 0 || sections.length > 0,
+  };
+}
+
+// Short, human readable form of a changed value
+export function describeValue(value: any): string {
+  if (value === undefined || value === null || value === '') return '(none)';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  if (Array.isArray(value) && value.every(item => item && typeof item === 'object' && 'label' in item)) {
+    return value.map(item => item.label).join(', ');
+  }
+  if (typeof value === 'object') return JSON.stringify(normalize(value));
+  return String(value);
+}
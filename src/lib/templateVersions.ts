@@ -0,0 +1,150 @@
+import mongoose from 'mongoose';
+import TemplateModel from '@/models/Template';
+import TemplateVersion from '@/models/TemplateVersion';
+
+/**
+ * Server helpers for published template versions.
+ *
+ * The template document is the editable draft. Publishing copies it into an
+ * immutable TemplateVersion, and visits pin the version number they were
+ * conducted with so later edits never change how a past visit renders.
+ */
+
+// Snapshots are returned in the same shape as a template so callers can use either
+const toTemplateShape = (snapshot: any) => ({
+  _id: String(snapshot.template),
+  name: snapshot.name,
+  description: snapshot.description,
+  sections: snapshot.sections || [],
+  version: snapshot.version,
+  status: 'published' as const,
+  publishedAt: snapshot.publishedAt,
+  isSnapshot: true,
+});
+
+// Templates saved before versioning have no status and were live as their
+// stored version, which defaulted to 1
+const currentVersion = (template: any): number =>
+  template.version || (template.status ? 0 : 1);
+
+export class TemplatePublishError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 400) {
+    super(message);
+    this.name = 'TemplatePublishError';
+    this.status = status;
+  }
+}
+
+// Publish the current draft as the next immutable version
+export async function publishTemplate(
+  templateId: string,
+  { publishedBy, notes }: { publishedBy?: string | null; notes?: string } = {}
+) {
+  const template: any = await TemplateModel.findById(templateId).lean();
+  if (!template) {
+    throw new TemplatePublishError('Template not found', 404);
+  }
+
+  if (!template.sections || template.sections.length === 0) {
+    throw new TemplatePublishError('A template needs at least one section before it can be published');
+  }
+
+  // A template from before versioning keeps its live content as the version
+  // visits already used, so publishing continues its numbering without a gap
+  if (!template.status) {
+    await pinTemplateVersion(templateId);
+  }
+
+  const latest: any = await TemplateVersion.findOne({ template: templateId })
+    .sort({ version: -1 })
+    .select('version')
+    .lean();
+  const nextVersion = Math.max(latest?.version || 0, currentVersion(template)) + 1;
+  const publishedAt = new Date();
+
+  let snapshot;
+  try {
+    snapshot = await TemplateVersion.create({
+      template: templateId,
+      version: nextVersion,
+      name: template.name,
+      description: template.description,
+      sections: template.sections,
+      notes,
+      publishedBy: publishedBy && mongoose.Types.ObjectId.isValid(publishedBy) ? publishedBy : undefined,
+      publishedAt,
+    });
+  } catch (error: any) {
+    // Someone else published the same version number at the same time
+    if (error.code === 11000) {
+      throw new TemplatePublishError(`Version ${nextVersion} has already been published; reload the template and try again`, 409);
+    }
+    throw error;
+  }
+
+  await TemplateModel.findByIdAndUpdate(templateId, {
+    version: nextVersion,
+    status: 'published',
+    publishedAt,
+  });
+
+  return snapshot.toObject();
+}
+
+/**
+ * Return the version number a new visit should pin, or null when the template
+ * has never been published. Templates published before versioning existed
+ * get a snapshot of their current content the first time they are pinned.
+ */
+export async function pinTemplateVersion(templateId: string): Promise<number | null> {
+  if (!mongoose.Types.ObjectId.isValid(templateId)) return null;
+
+  const template: any = await TemplateModel.findById(templateId).lean();
+  const version = template ? currentVersion(template) : 0;
+  if (!version) return null;
+
+  const existing = await TemplateVersion.exists({ template: templateId, version });
+  if (existing) return version;
+
+  // Legacy templates have no status and were always live
+  if (template.status === 'draft') return null;
+
+  try {
+    await TemplateVersion.create({
+      template: templateId,
+      version,
+      name: template.name,
+      description: template.description,
+      sections: template.sections || [],
+      notes: 'Snapshot of a template published before versioning',
+      publishedAt: template.updatedAt || new Date(),
+    });
+  } catch (error: any) {
+    // Another request created the same snapshot first
+    if (error.code !== 11000) throw error;
+  }
+
+  return version;
+}
+
+export async function getTemplateVersion(templateId: string, version: number) {
+  if (!mongoose.Types.ObjectId.isValid(templateId)) return null;
+
+  const snapshot = await TemplateVersion.findOne({ template: templateId, version }).lean();
+  return snapshot ? toTemplateShape(snapshot) : null;
+}
+
+// Load the template a visit was conducted with, falling back to the live template for unpinned visits
+export async function getVisitTemplate(visit: { templateId?: any; template?: any; templateVersion?: number | null }) {
+  const templateId = visit.template || visit.templateId;
+  if (!templateId || !mongoose.Types.ObjectId.isValid(String(templateId))) return null;
+
+  if (visit.templateVersion) {
+    const snapshot = await getTemplateVersion(String(templateId), visit.templateVersion);
+    if (snapshot) return snapshot;
+  }
+
+  return TemplateModel.findById(templateId).lean();
+}
@@ -0,0 +1,112 @@
+/**
+ * The visit lifecycle. A visit is booked, the patient checks in, the visit is
+ * conducted and completed, and the provider signs it. Cancelled, no-show and
+ * rescheduled visits end the booking instead; a rescheduled visit points to
+ * the visit that replaced it. Every status change is checked against
+ * VISIT_TRANSITIONS and recorded in the visit's status history.
+ */
+
+export const VISIT_STATUSES = [
+  'scheduled',
+  'checked-in',
+  'in-progress',
+  'completed',
+  'signed',
+  'cancelled',
+  'no-show',
+  'rescheduled',
+] as const;
+
+export type VisitStatus = typeof VISIT_STATUSES[number];
+
+export const VISIT_STATUS_LABELS: Record<VisitStatus, string> = {
+  scheduled: 'Scheduled',
+  'checked-in': 'Checked in',
+  'in-progress': 'In progress',
+  completed: 'Completed',
+  signed: 'Signed',
+  cancelled: 'Cancelled',
+  'no-show': 'No-show',
+  rescheduled: 'Rescheduled',
+};
+
+export const VISIT_STATUS_BADGES: Record<VisitStatus, string> = {
+  scheduled: 'badge badge-blue',
+  'checked-in': 'badge badge-blue',
+  'in-progress': 'badge badge-yellow',
+  completed: 'badge badge-green',
+  signed: 'badge badge-green',
+  cancelled: 'badge badge-red',
+  'no-show': 'badge badge-red',
+  rescheduled: 'badge badge-gray',
+};
+
+// Statuses a visit can move to from each status
+export const VISIT_TRANSITIONS: Record<VisitStatus, readonly VisitStatus[]> = {
+  scheduled: ['checked-in', 'in-progress', 'cancelled', 'no-show', 'rescheduled'],
+  // Back to scheduled undoes a check-in made by mistake
+  'checked-in': ['scheduled', 'in-progress', 'cancelled', 'rescheduled'],
+  'in-progress': ['completed', 'cancelled'],
+  // Back to in-progress reopens a completed visit for corrections before it is signed
+  completed: ['signed', 'in-progress'],
+  signed: [],
+  // A cancelled visit can be reinstated if its slot is still free
+  cancelled: ['scheduled'],
+  'no-show': ['rescheduled'],
+  rescheduled: [],
+};
+
+// Statuses a new visit can be created with; walk-ins are created checked in
+export const INITIAL_VISIT_STATUSES: readonly VisitStatus[] = ['scheduled', 'checked-in'];
+
+// Visits that still have to happen or are happening
+export const OPEN_VISIT_STATUSES: readonly VisitStatus[] = ['scheduled', 'checked-in', 'in-progress'];
+
+// Visits whose documentation is finished; they count as the patient's AWV
+export const COMPLETED_VISIT_STATUSES: readonly VisitStatus[] = ['completed', 'signed'];
+
+// Visits that did not take place
+export const MISSED_VISIT_STATUSES: readonly VisitStatus[] = ['cancelled', 'no-show', 'rescheduled'];
+
+// Changing to these statuses needs a reason
+export const REASON_REQUIRED_STATUSES: readonly VisitStatus[] = ['cancelled', 'no-show'];
+
+// Suggested reasons shown when cancelling or marking a no-show; any text is accepted
+export const STATUS_REASON_SUGGESTIONS: Partial<Record<VisitStatus, string[]>> = {
+  cancelled: ['Patient request', 'Provider unavailable', 'Patient hospitalized', 'Insurance or eligibility issue', 'Booked in error'],
+  'no-show': ['Did not arrive', 'Arrived too late to be seen', 'Could not be reached for telehealth'],
+  rescheduled: ['Patient request', 'Provider unavailable', 'Patient did not arrive'],
+};
+
+export interface VisitStatusChange {
+  from?: VisitStatus | null;
+  to: VisitStatus;
+  at: string | Date;
+  changedBy?: string;
+  changedByEmail?: string;
+  reason?: string;
+}
+
+export const isVisitStatus = (status: unknown): status is VisitStatus =>
+  VISIT_STATUSES.includes(status as VisitStatus);
+
+export const isCompletedStatus = (status?: string) => COMPLETED_VISIT_STATUSES.includes(status as VisitStatus);
+
+export const isOpenStatus = (status?: string) => OPEN_VISIT_STATUSES.includes(status as VisitStatus);
+
+// Total of the per-status counts returned by /api/visits/stats over a group of statuses
+export const sumStatusCounts = (counts: Partial<Record<VisitStatus, number>>, statuses: readonly VisitStatus[]) =>
+  statuses.reduce((sum, status) => sum + (counts[status] || 0), 0);
+
+export const canTransition = (from: VisitStatus, to: VisitStatus) => VISIT_TRANSITIONS[from]?.includes(to) ?? false;
+
+// Why a status change is not allowed, or null when it is
+export function transitionError(from: VisitStatus, to: VisitStatus, reason?: string): string | null {
+  if (!canTransition(from, to)) {
+    return `A ${VISIT_STATUS_LABELS[from].toLowerCase()} visit cannot be marked ${VISIT_STATUS_LABELS[to].toLowerCase()}`;
+  }
+  if (REASON_REQUIRED_STATUSES.includes(to) && !reason?.trim()) {
+    return `A reason is required to mark a visit ${VISIT_STATUS_LABELS[to].toLowerCase()}`;
+  }
+  return null;
+}
@@ -0,0 +1,544 @@
+import { TDocumentDefinitions, Content } from 'pdfmake/interfaces';
+import type { IInstrumentScore, IVisit } from '@/models/Visit';
+import type { IPatient } from '@/models/Patient';
+import type { ITemplateResponse } from '@/models/Template';
+import type { IPracticeSettings } from '@/services/practiceService';
+import { BillingSummary, formatBillingCode, nextAwvEligibleDate } from '@/lib/billing';
+import { formatScore, isScoredQuestion, scoreVisit } from '@/lib/scoring';
+import { formatAnswer } from '@/lib/visitResponses';
+import { formatDueDate } from '@/lib/preventiveServices';
+import { VISIT_STATUS_LABELS, VisitStatus } from '@/lib/visitLifecycle';
+
+// Bump when the document layout changes so cached server PDFs are rendered again
+export const VISIT_PDF_LAYOUT_VERSION = 2;
+
+export interface VisitPdfParams {
+  visit: IVisit;
+  patient: IPatient;
+  template: ITemplateResponse;
+  provider: {
+    name: string;
+    email: string;
+  };
+  // Suggested Medicare codes, see suggestBillingCodes
+  billing?: BillingSummary | null;
+  // Letterhead; the logo must be a PNG or JPEG data URL, see loadLogoDataUrl
+  practice?: Pick<IPracticeSettings, 'name' | 'address' | 'city' | 'state' | 'zipCode' | 'phone' | 'email' | 'website'> | null;
+  logo?: string | null;
+  // Whether the signed content still matches its hashes, see verifyVisitSignature
+  signatureValid?: boolean;
+  // Time zone for visit and signature times; the browser's own when not given
+  timeZone?: string;
+}
+
+// Dates of birth are stored as midnight UTC, so callers pass 'UTC' for them
+const formatDate = (value: string | Date, timeZone?: string) =>
+  new Date(value).toLocaleDateString('en-US', { timeZone });
+
+const formatDateTime = (value: string | Date, timeZone?: string) =>
+  new Date(value).toLocaleString('en-US', { timeZone, dateStyle: 'medium', timeStyle: 'short' } as Intl.DateTimeFormatOptions);
+
+// The last time the visit's content could have changed, used as the PDF's creation date
+export function contentDate(visit: IVisit): Date {
+  const addenda = visit.addenda || [];
+  const value = addenda.length > 0
+    ? addenda[addenda.length - 1].createdAt
+    : visit.signature?.signedAt || visit.updatedAt || visit.completedAt || visit.scheduledDate;
+  return new Date(value);
+}
+
+// The practice's logo, name, address and contact details at the top of the first page
+export function letterhead(practice: VisitPdfParams['practice'], logo?: string | null): Content[] {
+  if (!practice && !logo) return [];
+
+  const lines = practice
+    ? [
+        practice.address,
+        [practice.city, [practice.state, practice.zipCode].filter(Boolean).join(' ')].filter(Boolean).join(', '),
+        [practice.phone, practice.email, practice.website].filter(Boolean).join('  |  '),
+      ].filter(Boolean)
+    : [];
+
+  return [{
+    columns: [
+      ...(logo ? [{ image: logo, fit: [120, 60], width: 130 }] : []),
+      {
+        width: '*',
+        stack: [
+          ...(practice?.name ? [{ text: practice.name, fontSize: 14, bold: true }] : []),
+          ...lines.map(line => ({ text: line, fontSize: 10, color: '#4b5563' })),
+        ],
+      },
+    ],
+    columnGap: 10,
+    margin: [0, 0, 0, 15],
+  }];
+}
+
+function signatureBlock(visit: IVisit, signatureValid: boolean | undefined, timeZone?: string): Content[] {
+  const content: Content[] = [{ text: 'Provider Signature', style: 'sectionHeader' }];
+
+  if (!visit.signature) {
+    content.push({
+      text: 'Not signed. This report can still change until the provider signs the visit.',
+      style: { fontSize: 11, italic: true },
+      margin: [0, 0, 0, 15],
+    });
+    return content;
+  }
+
+  const { signature } = visit;
+  content.push({
+    text: `Electronically signed by ${signature.signedByName} (NPI ${signature.npiNumber}) on ${formatDateTime(signature.signedAt, timeZone)}.`,
+    style: { fontSize: 11 },
+  });
+  content.push({
+    text: `Content hash (SHA-256): ${signature.contentHash}`,
+    style: { fontSize: 9, color: '#4b5563' },
+    margin: [0, 2, 0, 5],
+  });
+  if (signatureValid === false) {
+    content.push({
+      text: 'The visit has been changed since it was signed; the content no longer matches the signature.',
+      style: { fontSize: 11, bold: true, color: '#b91c1c' },
+      margin: [0, 0, 0, 5],
+    });
+  }
+
+  (visit.addenda || []).forEach((addendum) => {
+    content.push({
+      text: `Addendum ${addendum.version} - ${addendum.authorName}${addendum.authorNpi ? ` (NPI ${addendum.authorNpi})` : ''}, ${formatDateTime(addendum.createdAt, timeZone)}`,
+      style: { fontSize: 11, bold: true },
+      margin: [0, 8, 0, 2],
+    });
+    content.push({ text: addendum.text, style: { fontSize: 11 } });
+  });
+
+  content.push({ text: '', margin: [0, 0, 0, 15] });
+  return content;
+}
+
+// A short plain-language summary for the patient on its own page
+function patientSummary({ visit, patient, provider, practice, timeZone }: VisitPdfParams, scores: IInstrumentScore[]): Content[] {
+  const content: Content[] = [
+    { text: 'Your Visit Summary', style: 'sectionHeader', pageBreak: 'before' },
+    {
+      text: `${patient.firstName}, thank you for coming in for your Annual Wellness Visit with ${provider.name} on ${formatDate(visit.scheduledDate, timeZone)}.`,
+      style: { fontSize: 12 },
+      margin: [0, 0, 0, 10],
+    },
+  ];
+
+  if (visit.healthPlan?.summary) {
+    content.push({ text: visit.healthPlan.summary, style: { fontSize: 12 }, margin: [0, 0, 0, 10] });
+  }
+
+  const followUps = scores.filter(score => score.positive);
+  if (followUps.length > 0) {
+    content.push({ text: 'Things to follow up on', style: { fontSize: 13, bold: true }, margin: [0, 5, 0, 5] });
+    content.push({
+      ul: followUps.map(score => ({ text: score.followUp || `${score.label}: ${score.interpretation}`, style: { fontSize: 12 } })),
+      margin: [10, 0, 0, 10],
+    });
+  }
+
+  const steps = (visit.healthPlan?.recommendations || []).filter(rec => rec.priority === 'high');
+  if (steps.length > 0) {
+    content.push({ text: 'Your most important next steps', style: { fontSize: 13, bold: true }, margin: [0, 5, 0, 5] });
+    content.push({
+      ul: steps.map(rec => ({ text: rec.text, style: { fontSize: 12 } })),
+      margin: [10, 0, 0, 10],
+    });
+  }
+
+  const visitDate = new Date(visit.completedAt || visit.scheduledDate);
+  content.push({
+    text: `You can have your next Annual Wellness Visit on or after ${formatDate(nextAwvEligibleDate(visitDate), 'UTC')}.`,
+    style: { fontSize: 12 },
+    margin: [0, 5, 0, 5],
+  });
+
+  if (practice?.phone) {
+    content.push({
+      text: `Questions? Call ${practice.name || 'us'} at ${practice.phone}.`,
+      style: { fontSize: 12 },
+      margin: [0, 5, 0, 0],
+    });
+  }
+
+  return content;
+}
+
+/**
+ * The pdfmake document for a completed Annual Wellness Visit. It only depends
+ * on its parameters, so the same visit revision always gives the same PDF; the
+ * browser and the server render it the same way.
+ */
+export function buildVisitPdfDefinition(params: VisitPdfParams): TDocumentDefinitions {
+  const { visit, patient, template, provider, billing, practice, logo, signatureValid, timeZone } = params;
+
+  // Define document content
+  const docDefinition: TDocumentDefinitions = {
+    info: {
+      title: `Annual Wellness Visit - ${patient.firstName} ${patient.lastName}`,
+      author: provider.name,
+      subject: 'Annual Wellness Visit Report',
+      keywords: 'AWV, wellness, healthcare',
+      creationDate: contentDate(visit),
+      modDate: contentDate(visit),
+    },
+    header: {
+      text: 'Annual Wellness Visit Report',
+      alignment: 'center',
+      margin: [0, 10, 0, 20],
+      fontSize: 16,
+      bold: true,
+    },
+    footer: function(currentPage: number, pageCount: number) {
+      return {
+        text: `Page ${currentPage} of ${pageCount}`,
+        alignment: 'center',
+        margin: [0, 10, 0, 10],
+      };
+    },
+    content: [
+      ...letterhead(practice, logo),
+      {
+        text: 'Patient Information',
+        style: 'sectionHeader',
+      },
+      {
+        columns: [
+          {
+            width: '50%',
+            text: [
+              { text: 'Name: ', bold: true },
+              `${patient.firstName} ${patient.lastName}\n`,
+              { text: 'Date of Birth: ', bold: true },
+              `${formatDate(patient.dateOfBirth, 'UTC')}\n`,
+              { text: 'Gender: ', bold: true },
+              `${patient.gender}\n`,
+            ],
+          },
+          {
+            width: '50%',
+            text: [
+              { text: 'Medical Record #: ', bold: true },
+              `${patient.medicalRecordNumber || 'N/A'}\n`,
+              { text: 'Phone: ', bold: true },
+              `${patient.phoneNumber || 'N/A'}\n`,
+              { text: 'Email: ', bold: true },
+              `${patient.email || 'N/A'}\n`,
+            ],
+          },
+        ],
+        margin: [0, 5, 0, 15],
+      },
+      {
+        text: 'Visit Information',
+        style: 'sectionHeader',
+      },
+      {
+        columns: [
+          {
+            width: '50%',
+            text: [
+              { text: 'Visit Date: ', bold: true },
+              `${formatDate(visit.scheduledDate, timeZone)}\n`,
+              { text: 'Provider: ', bold: true },
+              `${provider.name}\n`,
+              { text: 'Template: ', bold: true },
+              `${template.name}${template.version ? ` (Version ${template.version})` : ''}\n`,
+            ],
+          },
+          {
+            width: '50%',
+            text: [
+              { text: 'Status: ', bold: true },
+              `${VISIT_STATUS_LABELS[visit.status as VisitStatus] || visit.status}\n`,
+              { text: 'Completed Date: ', bold: true },
+              `${visit.completedAt ? formatDate(visit.completedAt, timeZone) : 'N/A'}\n`,
+            ],
+          },
+        ],
+        margin: [0, 5, 0, 15],
+      },
+      {
+        text: 'Assessment Results',
+        style: 'sectionHeader',
+      },
+    ],
+    styles: {
+      sectionHeader: {
+        fontSize: 14,
+        bold: true,
+        margin: [0, 15, 0, 10],
+        decoration: 'underline',
+      },
+      tableHeader: {
+        bold: true,
+        fontSize: 12,
+        color: 'black',
+        fillColor: '#f2f2f2',
+      },
+    },
+  };
+
+  // Visits saved before scoring was added have no stored scores
+  const scores = visit.scores && visit.scores.length > 0
+    ? visit.scores
+    : scoreVisit(template, visit.responses);
+
+  // Add assessment results
+  const assessmentContent: Content[] = [];
+
+  if (visit.responses && visit.responses.length > 0) {
+    template.sections.forEach((section) => {
+      const sectionResponse = visit.responses.find(r => r.sectionId === section.id);
+
+      if (sectionResponse) {
+        // Add section title
+        assessmentContent.push({
+          text: section.title,
+          style: { fontSize: 13, bold: true, margin: [0, 10, 0, 5] },
+        });
+
+        if (section.description) {
+          assessmentContent.push({
+            text: section.description,
+            style: { fontSize: 11, italic: true, margin: [0, 0, 0, 5] },
+          });
+        }
+
+        // Create a table for the questions and answers
+        const tableBody: any[] = [
+          [
+            { text: 'Question', style: 'tableHeader' },
+            { text: 'Response', style: 'tableHeader' },
+          ],
+        ];
+
+        section.questions.forEach((question) => {
+          const answer = sectionResponse.answers.find(a => a.questionId === question.id);
+          if (answer) {
+            let displayValue = '';
+
+            const instrumentScore = scores.find(score => score.questionId === question.id);
+
+            // Format the answer value based on the question type
+            if (isScoredQuestion(question)) {
+              displayValue = instrumentScore
+                ? `${formatScore(instrumentScore)} - ${instrumentScore.interpretation}`
+                : 'Not scored';
+            } else {
+              displayValue = formatAnswer(question, answer.value);
+            }
+
+            tableBody.push([
+              { text: question.text, style: { fontSize: 11 } },
+              { text: displayValue, style: { fontSize: 11 } },
+            ]);
+          }
+        });
+
+        // Add the table to the content
+        if (tableBody.length > 1) {
+          assessmentContent.push({
+            table: {
+              headerRows: 1,
+              widths: ['60%', '40%'],
+              body: tableBody,
+            },
+            layout: {
+              fillColor: function(rowIndex: number) {
+                return rowIndex === 0 ? '#f2f2f2' : null;
+              },
+            },
+            margin: [0, 5, 0, 15],
+          });
+        } else {
+          assessmentContent.push({
+            text: 'No responses recorded for this section.',
+            style: { fontSize: 11, italic: true },
+            margin: [0, 0, 0, 10],
+          });
+        }
+      }
+    });
+  } else {
+    assessmentContent.push({
+      text: 'No assessment responses recorded.',
+      style: { fontSize: 11, italic: true },
+    });
+  }
+
+  // Add the assessment content to the document
+  docDefinition.content = [...docDefinition.content as Content[], ...assessmentContent];
+
+  // Add screening results, flagging positive screens
+  if (scores.length > 0) {
+    const scoreTableBody: any[] = [
+      [
+        { text: 'Screening', style: 'tableHeader' },
+        { text: 'Score', style: 'tableHeader' },
+        { text: 'Result', style: 'tableHeader' },
+      ],
+    ];
+
+    scores.forEach((score) => {
+      scoreTableBody.push([
+        { text: score.label, style: { fontSize: 11 } },
+        { text: formatScore(score), style: { fontSize: 11 } },
+        {
+          text: score.followUp
+            ? `${score.interpretation}\nFollow-up: ${score.followUp}`
+            : score.interpretation,
+          style: { fontSize: 11, bold: score.positive, color: score.positive ? '#b91c1c' : 'black' },
+        },
+      ]);
+    });
+
+    docDefinition.content.push({
+      text: 'Screening Results',
+      style: 'sectionHeader',
+    });
+
+    docDefinition.content.push({
+      table: {
+        headerRows: 1,
+        widths: ['35%', '15%', '50%'],
+        body: scoreTableBody,
+      },
+      layout: {
+        fillColor: function(rowIndex: number) {
+          return rowIndex === 0 ? '#f2f2f2' : null;
+        },
+      },
+      margin: [0, 5, 0, 15],
+    });
+  }
+
+  // Add health plan if available
+  if (visit.healthPlan && visit.healthPlan.recommendations.length > 0) {
+    docDefinition.content.push({
+      text: 'Health Plan Recommendations',
+      style: 'sectionHeader',
+    });
+
+    const healthPlanContent: Content[] = [];
+
+    // Group recommendations by domain
+    const domainGroups: { [key: string]: typeof visit.healthPlan.recommendations } = {};
+
+    visit.healthPlan.recommendations.forEach((rec) => {
+      if (!domainGroups[rec.domain]) {
+        domainGroups[rec.domain] = [];
+      }
+      domainGroups[rec.domain].push(rec);
+    });
+
+    // Add each domain and its recommendations
+    Object.keys(domainGroups).forEach((domain) => {
+      healthPlanContent.push({
+        text: domain,
+        style: { fontSize: 13, bold: true, margin: [0, 10, 0, 5] },
+      });
+
+      const items = domainGroups[domain].map(rec => ({
+        text: rec.dueDate ? `${rec.text} (due ${formatDueDate(rec.dueDate)})` : rec.text,
+        style: { fontSize: 11 },
+        margin: [0, 2, 0, 2],
+      }));
+
+      healthPlanContent.push({
+        ul: items,
+        margin: [10, 0, 0, 10],
+      });
+    });
+
+    // Add summary if available
+    if (visit.healthPlan.summary) {
+      healthPlanContent.push({
+        text: 'Summary',
+        style: { fontSize: 13, bold: true, margin: [0, 10, 0, 5] },
+      });
+
+      healthPlanContent.push({
+        text: visit.healthPlan.summary,
+        style: { fontSize: 11 },
+        margin: [0, 0, 0, 10],
+      });
+    }
+
+    // Add health plan content to the document
+    docDefinition.content = [...docDefinition.content as Content[], ...healthPlanContent];
+  }
+
+  // Add provider notes if available
+  if (visit.notes) {
+    docDefinition.content.push({
+      text: 'Provider Notes',
+      style: 'sectionHeader',
+    });
+
+    docDefinition.content.push({
+      text: visit.notes,
+      style: { fontSize: 11 },
+      margin: [0, 5, 0, 15],
+    });
+  }
+
+  // Add suggested billing codes with the documentation behind each one
+  if (billing && billing.suggestions.length > 0) {
+    const billingTableBody: any[] = [
+      [
+        { text: 'Code', style: 'tableHeader' },
+        { text: 'Description', style: 'tableHeader' },
+        { text: 'Documentation', style: 'tableHeader' },
+      ],
+    ];
+
+    billing.suggestions.forEach((suggestion) => {
+      billingTableBody.push([
+        { text: formatBillingCode(suggestion), style: { fontSize: 11, bold: true } },
+        { text: suggestion.description, style: { fontSize: 11 } },
+        { text: suggestion.documentation.join('\n'), style: { fontSize: 10 } },
+      ]);
+    });
+
+    docDefinition.content.push({
+      text: 'Suggested Billing Codes',
+      style: 'sectionHeader',
+    });
+
+    billing.warnings.forEach((warning) => {
+      docDefinition.content.push({
+        text: warning.message,
+        style: { fontSize: 10, bold: warning.severity === 'warning', color: warning.severity === 'warning' ? '#b45309' : 'black' },
+        margin: [0, 0, 0, 5],
+      });
+    });
+
+    docDefinition.content.push({
+      table: {
+        headerRows: 1,
+        widths: ['15%', '35%', '50%'],
+        body: billingTableBody,
+      },
+      layout: {
+        fillColor: function(rowIndex: number) {
+          return rowIndex === 0 ? '#f2f2f2' : null;
+        },
+      },
+      margin: [0, 5, 0, 15],
+    });
+  }
+
+  docDefinition.content = [
+    ...docDefinition.content as Content[],
+    ...signatureBlock(visit, signatureValid, timeZone),
+    ...patientSummary(params, scores),
+  ];
+
+  return docDefinition;
+}
@@ -0,0 +1,14 @@
+/**
+ * Visits are stored with a `template` reference, while the client pages and
+ * services read `templateId`. API routes pass visits through here so both
+ * names are present in every response.
+ */
+export function toVisitRecord<T extends Record<string, any>>(visit: T | null): (T & { templateId?: string }) | null {
+  if (!visit) return null;
+
+  const record: Record<string, any> = typeof visit.toObject === 'function' ? visit.toObject() : { ...visit };
+  const template = record.template;
+  record.templateId = template ? String(template._id || template) : undefined;
+
+  return record as T & { templateId?: string };
+}
@@ -0,0 +1,183 @@
+import type { IQuestion, ISection } from '@/models/Template';
+import type { IResponse } from '@/models/Visit';
+
+/**
+ * Helpers for reading visit responses regardless of how they were stored.
+ * Visits saved through the conduct page keep a flat questionId -> value map,
+ * while the canonical model groups answers by section.
+ */
+
+export type ResponseValue = IResponse['value'] | Record<string, any> | null | undefined;
+
+export type ResponseMap = Record<string, ResponseValue>;
+
+export interface SectionResponses {
+  sectionId: string;
+  answers: IResponse[];
+}
+
+// Flatten either response shape into a questionId -> value map
+export function flattenResponses(responses: unknown): ResponseMap {
+  const map: ResponseMap = {};
+
+  if (!responses) {
+    return map;
+  }
+
+  if (Array.isArray(responses)) {
+    responses.forEach((section: any) => {
+      if (!section || !Array.isArray(section.answers)) return;
+
+      section.answers.forEach((answer: any) => {
+        if (answer && answer.questionId) {
+          map[answer.questionId] = answer.value;
+        }
+      });
+    });
+
+    return map;
+  }
+
+  if (typeof responses === 'object') {
+    Object.entries(responses as Record<string, any>).forEach(([questionId, value]) => {
+      map[questionId] = value;
+    });
+  }
+
+  return map;
+}
+
+// Answers to questions that are not in the template are kept under this section
+export const UNASSIGNED_SECTION_ID = 'unassigned';
+
+// Stored answers with a source, by question id
+const answerSources = (responses: unknown): Map<string, IResponse> => {
+  const sources = new Map<string, IResponse>();
+  if (!Array.isArray(responses)) return sources;
+
+  responses.forEach((section: any) => {
+    (section?.answers || []).forEach((answer: any) => {
+      if (answer?.questionId && answer.source) {
+        sources.set(answer.questionId, answer);
+      }
+    });
+  });
+
+  return sources;
+};
+
+// Questions whose stored answer the patient entered on the pre-visit questionnaire
+export function patientReportedQuestionIds(responses: unknown): Set<string> {
+  const ids = new Set<string>();
+  answerSources(responses).forEach((answer, questionId) => {
+    if (answer.source === 'patient') ids.add(questionId);
+  });
+  return ids;
+}
+
+/**
+ * Convert either response shape into the section grouped form stored on the
+ * Visit model. Section ids come from the template when given, otherwise from
+ * the incoming array; empty answers are dropped. Answers that are unchanged
+ * from `previous`, the stored responses being replaced, keep their source.
+ */
+export function groupResponsesBySection(
+  responses: unknown,
+  template?: { sections?: ISection[] } | null,
+  previous?: unknown
+): SectionResponses[] {
+  const sources = answerSources(previous);
+  answerSources(responses).forEach((answer, questionId) => sources.set(questionId, answer));
+
+  const sectionByQuestion = new Map<string, string>();
+
+  if (Array.isArray(responses)) {
+    responses.forEach((section: any) => {
+      (section?.answers || []).forEach((answer: any) => {
+        if (answer?.questionId && section.sectionId) {
+          sectionByQuestion.set(answer.questionId, section.sectionId);
+        }
+      });
+    });
+  }
+
+  const sectionOrder = (template?.sections || []).map(section => section.id);
+  (template?.sections || []).forEach(section => {
+    (section.questions || []).forEach(question => sectionByQuestion.set(question.id, section.id));
+  });
+
+  const groups: SectionResponses[] = [];
+  Object.entries(flattenResponses(responses)).forEach(([questionId, value]) => {
+    if (value === null || value === undefined) return;
+
+    const sectionId = sectionByQuestion.get(questionId) || UNASSIGNED_SECTION_ID;
+    let group = groups.find(g => g.sectionId === sectionId);
+    if (!group) {
+      group = { sectionId, answers: [] };
+      groups.push(group);
+    }
+    const answer: IResponse = { questionId, value: value as IResponse['value'] };
+    const sourced = sources.get(questionId);
+    if (sourced && JSON.stringify(sourced.value) === JSON.stringify(value)) {
+      answer.source = sourced.source;
+    }
+    group.answers.push(answer);
+  });
+
+  // Keep template order, with sections the template does not know about last
+  const position = (sectionId: string) => {
+    const index = sectionOrder.indexOf(sectionId);
+    return index === -1 ? sectionOrder.length : index;
+  };
+
+  return groups.sort((a, b) => position(a.sectionId) - position(b.sectionId));
+}
+
+// Check whether a response value counts as answered
+export function isAnswered(value: ResponseValue): boolean {
+  if (value === null || value === undefined) return false;
+  if (typeof value === 'string') return value.trim() !== '';
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'number') return !Number.isNaN(value);
+  if (typeof value === 'object') {
+    return Object.values(value).some(v => v !== null && v !== undefined && v !== '');
+  }
+
+  return true;
+}
+
+// Normalize a response value to the list of selected option values
+export function getSelectedValues(value: ResponseValue): string[] {
+  if (value === null || value === undefined) return [];
+  if (Array.isArray(value)) return value.map(v => String(v));
+  if (typeof value === 'object') return [];
+
+  return [String(value)];
+}
+
+// Human readable form of an answer, used by the visit report and PDF
+export function formatAnswer(question: IQuestion, value: ResponseValue): string {
+  if (!isAnswered(value)) return '';
+
+  if (question.type === 'multipleChoice' && question.options) {
+    return getSelectedValues(value)
+      .map(selected => question.options?.find(option => option.value === selected)?.label || selected)
+      .join(', ');
+  }
+  if (question.type === 'boolean') {
+    return value === true || value === 'true' ? 'Yes' : 'No';
+  }
+  if (question.type === 'date') {
+    const date = new Date(value as string);
+    return Number.isNaN(date.getTime()) ? String(value) : date.toLocaleDateString();
+  }
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'object') {
+    return Object.entries(value as Record<string, any>)
+      .filter(([, item]) => item !== null && item !== undefined && item !== '')
+      .map(([key, item]) => `${key}: ${item}`)
+      .join(', ');
+  }
+
+  return String(value);
+}
@@ -0,0 +1,167 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Visit from '@/models/Visit';
+import ScheduleLock from '@/models/ScheduleLock';
+import TemplateModel from '@/models/Template';
+import {
+  BOOKED_VISIT_STATUSES,
+  DEFAULT_VISIT_MINUTES,
+  MAX_VISIT_MINUTES,
+  rangesOverlap,
+  visitDuration,
+  visitEnd,
+} from '@/lib/scheduling';
+import { VisitStatus } from '@/lib/visitLifecycle';
+
+/**
+ * Double-booking checks for the visits API. A provider cannot see two
+ * patients at once and a patient cannot be in two visits at once, so a
+ * booked visit may not overlap another booked visit sharing either.
+ * Cancelled, no-show and rescheduled visits do not hold their slot.
+ * Bookings go through bookWithoutConflicts, which holds a lock on the
+ * provider's and patient's schedules from the check until the visit is saved.
+ */
+
+export interface SchedulingConflict {
+  visitId: string;
+  // Whether the other visit shares the provider, the patient or both
+  reason: 'provider' | 'patient' | 'both';
+  scheduledDate: string;
+  durationMinutes: number;
+  patientName?: string;
+}
+
+export class SchedulingConflictError extends Error {
+  status = 409;
+
+  constructor(public conflicts: SchedulingConflict[], message?: string) {
+    super(message || (conflicts.some(conflict => conflict.reason !== 'patient')
+      ? 'The provider is already booked for an overlapping visit'
+      : 'The patient already has an overlapping visit'));
+    this.name = 'SchedulingConflictError';
+  }
+}
+
+export interface ScheduleInput {
+  patient: string;
+  provider?: string | null;
+  scheduledDate: Date;
+  durationMinutes?: number | null;
+  // The visit being rescheduled, which cannot conflict with itself
+  visitId?: string;
+}
+
+export const isBookedStatus = (status?: string) =>
+  BOOKED_VISIT_STATUSES.includes((status || 'scheduled') as VisitStatus);
+
+// Appointment length for a new visit: the template's visit duration, or the default
+export async function templateVisitDuration(templateId: string): Promise<number> {
+  const template: any = await TemplateModel.findById(templateId).select('visitDurationMinutes').lean();
+  return template?.visitDurationMinutes || DEFAULT_VISIT_MINUTES;
+}
+
+export async function findSchedulingConflicts(input: ScheduleInput): Promise<SchedulingConflict[]> {
+  const start = input.scheduledDate;
+  const end = visitEnd(input);
+  const participants: any[] = [{ patient: input.patient }];
+  if (input.provider) {
+    participants.push({ provider: input.provider });
+  }
+
+  // No visit is longer than MAX_VISIT_MINUTES, which bounds how early an overlapping one can start
+  const query: any = {
+    status: { $in: BOOKED_VISIT_STATUSES },
+    scheduledDate: { $lt: end, $gt: new Date(start.getTime() - MAX_VISIT_MINUTES * 60000) },
+    $or: participants,
+  };
+  if (input.visitId) {
+    query._id = { $ne: new mongoose.Types.ObjectId(input.visitId) };
+  }
+
+  const candidates: any[] = await Visit.find(query)
+    .select('patient provider scheduledDate durationMinutes')
+    .populate('patient', 'firstName lastName')
+    .lean();
+
+  return candidates
+    .filter(visit => rangesOverlap(start, end, new Date(visit.scheduledDate), visitEnd(visit)))
+    .map(visit => {
+      const samePatient = String(visit.patient?._id || visit.patient) === String(input.patient);
+      const sameProvider = !!input.provider && String(visit.provider) === String(input.provider);
+      return {
+        visitId: String(visit._id),
+        reason: samePatient && sameProvider ? 'both' : samePatient ? 'patient' : 'provider',
+        scheduledDate: new Date(visit.scheduledDate).toISOString(),
+        durationMinutes: visitDuration(visit),
+        patientName: visit.patient?.firstName ? `${visit.patient.firstName} ${visit.patient.lastName}` : undefined,
+      } as SchedulingConflict;
+    });
+}
+
+export async function assertNoSchedulingConflicts(input: ScheduleInput): Promise<void> {
+  const conflicts = await findSchedulingConflicts(input);
+  if (conflicts.length > 0) {
+    throw new SchedulingConflictError(conflicts);
+  }
+}
+
+// Long enough for a check and a write; a lock left behind by a failed request expires after this
+const LOCK_LEASE_MS = 15000;
+const LOCK_WAIT_MS = 5000;
+const LOCK_RETRY_MS = 50;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+async function tryLock(key: string, owner: string): Promise<boolean> {
+  try {
+    const lock = await ScheduleLock.findOneAndUpdate(
+      { key, lockedUntil: { $lte: new Date() } },
+      { $set: { owner, lockedUntil: new Date(Date.now() + LOCK_LEASE_MS) } },
+      { upsert: true, new: true }
+    ).lean();
+    return !!lock;
+  } catch (error: any) {
+    // Someone else holds it, so the upsert tried to insert a second lock with the same key
+    if (error?.code === 11000) return false;
+    throw error;
+  }
+}
+
+async function releaseLocks(keys: string[], owner: string) {
+  await ScheduleLock.updateMany({ key: { $in: keys }, owner }, { $set: { lockedUntil: new Date(0) } });
+}
+
+/**
+ * Check the booking for conflicts and save it with `write` while the
+ * provider's and patient's schedule locks are held, so two requests booking
+ * the same slot at once cannot both pass the check.
+ */
+export async function bookWithoutConflicts<T>(input: ScheduleInput, write: () => Promise<T>): Promise<T> {
+  // Always taken in the same order, so two bookings never wait on each other's second lock
+  const keys = [`patient:${input.patient}`, ...(input.provider ? [`provider:${input.provider}`] : [])].sort();
+  const owner = crypto.randomUUID();
+  const held: string[] = [];
+
+  await ScheduleLock.init();
+
+  try {
+    const deadline = Date.now() + LOCK_WAIT_MS;
+    for (const key of keys) {
+      while (!(await tryLock(key, owner))) {
+        if (Date.now() > deadline) {
+          throw new SchedulingConflictError([], 'Another booking for this schedule is being saved; try again');
+        }
+        await sleep(LOCK_RETRY_MS);
+      }
+      held.push(key);
+    }
+
+    await assertNoSchedulingConflicts(input);
+    return await write();
+  } finally {
+    if (held.length > 0) {
+      // The lease frees them anyway, so a failed release does not fail the booking
+      await releaseLocks(held, owner).catch(error => console.error('Error releasing schedule locks:', error));
+    }
+  }
+}
@@ -0,0 +1,139 @@
+import crypto from 'crypto';
+import User from '@/models/User';
+import type { IVisitAddendum, IVisitSignature } from '@/models/Visit';
+import type { RequestUser } from '@/lib/apiAuth';
+import { flattenResponses } from '@/lib/visitResponses';
+import { VisitTransitionError } from '@/lib/visitTransitions';
+
+/**
+ * Provider signatures. Signing records the provider, their NPI, the time and
+ * a SHA-256 hash of the visit's documentation; the visit is read-only from
+ * then on. Later changes are added as addenda, each hashed together with the
+ * hash before it, so any edit to the signed content or an earlier addendum
+ * shows up as a signature mismatch.
+ */
+
+const refId = (value: any) => (value ? String(value._id || value) : null);
+
+// JSON with object keys sorted, so the same content always hashes the same
+function canonicalJson(value: any): string {
+  if (Array.isArray(value)) {
+    return `[${value.map(canonicalJson).join(',')}]`;
+  }
+  if (value && typeof value === 'object') {
+    const entries = Object.keys(value)
+      .filter(key => value[key] !== undefined)
+      .sort()
+      .map(key => `${JSON.stringify(key)}:${canonicalJson(value[key])}`);
+    return `{${entries.join(',')}}`;
+  }
+  return JSON.stringify(value ?? null);
+}
+
+// Dates, ObjectIds and mongoose documents become the JSON the API returns
+const hash = (value: unknown) =>
+  crypto.createHash('sha256').update(canonicalJson(JSON.parse(JSON.stringify(value ?? null)))).digest('hex');
+
+// The documentation covered by a signature. The patient reference is left
+// out so merging duplicate patients does not invalidate signed visits.
+export function visitContentHash(visit: any): string {
+  return hash({
+    visit: refId(visit._id),
+    template: refId(visit.template),
+    templateVersion: visit.templateVersion ?? null,
+    scheduledDate: visit.scheduledDate,
+    completedAt: visit.completedAt ?? null,
+    responses: flattenResponses(visit.responses),
+    scores: visit.scores || [],
+    healthPlan: visit.healthPlan || null,
+    notes: visit.notes || '',
+  });
+}
+
+export function addendumHash(previousHash: string, addendum: Omit<IVisitAddendum, 'contentHash'>): string {
+  return hash({
+    previousHash,
+    version: addendum.version,
+    text: addendum.text,
+    author: refId(addendum.author),
+    createdAt: addendum.createdAt,
+  });
+}
+
+// National Provider Identifier: 10 digits whose last is a Luhn check digit over the 80840 prefix
+export function isValidNpi(npi: string): boolean {
+  if (!/^\d{10}$/.test(npi)) return false;
+
+  const digits = `80840${npi}`.split('').map(Number).reverse();
+  const sum = digits.reduce((total, digit, index) => {
+    if (index % 2 === 0) return total + digit;
+    const doubled = digit * 2;
+    return total + (doubled > 9 ? doubled - 9 : doubled);
+  }, 0);
+  return sum % 10 === 0;
+}
+
+// The signer's name and NPI. A provider without an NPI on file can give one
+// when signing; it is checked and saved to their user record.
+async function loadSigner(user: RequestUser, npiNumber?: string) {
+  const signer: any = await User.findById(user.id).select('name npiNumber').lean();
+  if (!signer) {
+    throw new VisitTransitionError('Your user record could not be found', 403);
+  }
+
+  const given = npiNumber?.trim();
+  if (given && !isValidNpi(given)) {
+    throw new VisitTransitionError('The NPI number is not valid', 400);
+  }
+  if (signer.npiNumber && given && given !== signer.npiNumber) {
+    throw new VisitTransitionError('The NPI number does not match the one on your profile', 400);
+  }
+  if (!signer.npiNumber && !given) {
+    throw new VisitTransitionError('An NPI number is required to sign visits', 400);
+  }
+  if (!signer.npiNumber) {
+    await User.updateOne({ _id: user.id }, { npiNumber: given });
+  }
+
+  return { id: String(signer._id), name: signer.name || user.name || user.email, npiNumber: (signer.npiNumber || given) as string };
+}
+
+export async function signVisit(visit: any, user: RequestUser, npiNumber?: string): Promise<IVisitSignature> {
+  const signer = await loadSigner(user, npiNumber);
+  return {
+    signedBy: signer.id as any,
+    signedByName: signer.name,
+    npiNumber: signer.npiNumber,
+    signedAt: new Date(),
+    contentHash: visitContentHash(visit),
+  };
+}
+
+export async function createAddendum(visit: any, text: string, user: RequestUser): Promise<IVisitAddendum> {
+  const addenda: IVisitAddendum[] = visit.addenda || [];
+  const previousHash = addenda.length > 0 ? addenda[addenda.length - 1].contentHash : visit.signature.contentHash;
+  const signer: any = await User.findById(user.id).select('name npiNumber').lean();
+
+  const addendum = {
+    version: addenda.length + 1,
+    text: text.trim(),
+    author: user.id as any,
+    authorName: signer?.name || user.name || user.email,
+    authorNpi: signer?.npiNumber || undefined,
+    createdAt: new Date(),
+  };
+  return { ...addendum, contentHash: addendumHash(previousHash, addendum) };
+}
+
+// Whether the signed content and every addendum are unchanged since they were recorded
+export function verifyVisitSignature(visit: any): boolean {
+  if (!visit.signature) return false;
+  if (visitContentHash(visit) !== visit.signature.contentHash) return false;
+
+  let previousHash = visit.signature.contentHash;
+  for (const addendum of (visit.addenda || []) as IVisitAddendum[]) {
+    if (addendumHash(previousHash, addendum) !== addendum.contentHash) return false;
+    previousHash = addendum.contentHash;
+  }
+  return true;
+}
@@ -0,0 +1,151 @@
+import Visit, { IVisitStatusChange } from '@/models/Visit';
+import PatientIntake from '@/models/PatientIntake';
+import { RequestUser } from '@/lib/apiAuth';
+import { hasPermission } from '@/lib/permissions';
+import { canTransition, transitionError, VisitStatus } from '@/lib/visitLifecycle';
+import { bookWithoutConflicts } from '@/lib/visitScheduling';
+
+/**
+ * Applies visit status changes for the visits API: checks them against the
+ * lifecycle, records them in the status history and creates the replacement
+ * visit when a visit is rescheduled.
+ */
+
+export class VisitTransitionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number = 409) {
+    super(message);
+    this.name = 'VisitTransitionError';
+    this.status = status;
+  }
+}
+
+export const statusChange = (
+  from: VisitStatus | null | undefined,
+  to: VisitStatus,
+  user: RequestUser,
+  reason?: string
+): IVisitStatusChange => ({
+  from: from || null,
+  to,
+  at: new Date(),
+  changedBy: user.id,
+  changedByEmail: user.email,
+  reason: reason?.trim() || undefined,
+});
+
+/**
+ * The statuses a visit passes through to reach `to`. Completing a visit that
+ * was never started, e.g. one transcribed from paper, passes through
+ * in-progress so the history shows both steps.
+ */
+export function transitionPath(from: VisitStatus, to: VisitStatus, user: RequestUser, reason?: string): VisitStatus[] {
+  // Finishing, signing and reopening visits is clinical work
+  const reopening = from === 'completed' && to === 'in-progress';
+  if ((to === 'completed' || to === 'signed' || reopening) && !hasPermission(user.role, 'visits:complete')) {
+    throw new VisitTransitionError(`You do not have permission to mark visits ${to === 'in-progress' ? 'in progress again' : to}`, 403);
+  }
+
+  if (to === 'completed' && !canTransition(from, to) && canTransition(from, 'in-progress')) {
+    return ['in-progress', 'completed'];
+  }
+
+  const error = transitionError(from, to, reason);
+  if (error) {
+    throw new VisitTransitionError(error, canTransition(from, to) ? 400 : 409);
+  }
+  return [to];
+}
+
+// Update that moves a visit along a transition path, for findOneAndUpdate
+export function transitionUpdate(from: VisitStatus, path: VisitStatus[], user: RequestUser, reason?: string) {
+  const changes = path.map((to, index) => statusChange(index === 0 ? from : path[index - 1], to, user, reason));
+  const to = path[path.length - 1];
+  const update: Record<string, any> = {
+    status: to,
+    $push: { statusHistory: { $each: changes } },
+  };
+
+  if (reason?.trim() && (to === 'cancelled' || to === 'no-show' || to === 'rescheduled')) {
+    update.statusReason = reason.trim();
+  } else {
+    update.$unset = { statusReason: 1 };
+  }
+  if (to === 'completed') {
+    update.completedAt = new Date();
+  }
+  if (from === 'completed' && to === 'in-progress') {
+    update.$unset = { ...update.$unset, completedAt: 1 };
+  }
+  return update;
+}
+
+export interface RescheduleInput {
+  scheduledDate?: string | Date;
+  provider?: string;
+  durationMinutes?: number;
+  reason?: string;
+}
+
+/**
+ * Reschedule a visit: a new scheduled visit is booked at the new time with
+ * the answers collected so far, pending pre-visit links move to it, and the
+ * original is marked rescheduled and points to it.
+ */
+export async function rescheduleVisit(visit: any, input: RescheduleInput, user: RequestUser) {
+  transitionPath(visit.status, 'rescheduled', user, input.reason);
+
+  const scheduledDate = input.scheduledDate ? new Date(input.scheduledDate) : null;
+  if (!scheduledDate || isNaN(scheduledDate.getTime())) {
+    throw new VisitTransitionError('A new date and time are required to reschedule a visit', 400);
+  }
+
+  const provider = input.provider ?? (visit.provider ? String(visit.provider) : undefined);
+  const durationMinutes = input.durationMinutes ?? visit.durationMinutes;
+
+  const replacement = await bookWithoutConflicts({
+    visitId: String(visit._id),
+    patient: String(visit.patient),
+    provider,
+    scheduledDate,
+    durationMinutes,
+  }, () => Visit.create({
+    patient: visit.patient,
+    provider,
+    template: visit.template,
+    templateVersion: visit.templateVersion,
+    scheduledDate,
+    durationMinutes,
+    visitType: visit.visitType,
+    location: visit.location,
+    responses: visit.responses,
+    completedSections: visit.completedSections,
+    scores: visit.scores,
+    notes: visit.notes,
+    status: 'scheduled',
+    statusHistory: [statusChange(null, 'scheduled', user, input.reason)],
+    rescheduledFrom: visit._id,
+  }));
+
+  // Only mark the original if nobody changed its status in the meantime
+  const original = await Visit.findOneAndUpdate(
+    { _id: visit._id, status: visit.status },
+    {
+      ...transitionUpdate(visit.status, ['rescheduled'], user, input.reason),
+      rescheduledTo: replacement._id,
+      updatedAt: new Date(),
+      $inc: { revision: 1 },
+    },
+    { new: true }
+  );
+
+  if (!original) {
+    await Visit.deleteOne({ _id: replacement._id });
+    throw new VisitTransitionError('This visit was changed by someone else since it was loaded');
+  }
+
+  await PatientIntake.updateMany({ visit: visit._id, status: 'pending' }, { visit: replacement._id });
+
+  return { original, replacement };
+}
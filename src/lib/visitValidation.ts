@@ -0,0 +1,186 @@
+import type { IQuestion, ISection } from '@/models/Template';
+import { flattenResponses, getSelectedValues, isAnswered, ResponseMap, ResponseValue } from '@/lib/visitResponses';
+import { ConditionContext, getVisibility } from '@/lib/conditionalLogic';
+import { getInstrumentItems, isScoredQuestion } from '@/lib/scoring';
+
+export type ResponseErrorCode = 'required' | 'invalidType' | 'invalidOption';
+
+export interface ResponseValidationError {
+  questionId: string;
+  sectionId: string;
+  sectionTitle: string;
+  question: string;
+  code: ResponseErrorCode;
+  message: string;
+}
+
+export interface ResponseValidationResult {
+  valid: boolean;
+  errors: ResponseValidationError[];
+  // Responses with numeric, date and boolean answers coerced to their proper types
+  responses: ResponseMap;
+}
+
+interface CoercionResult {
+  value?: ResponseValue;
+  code?: ResponseErrorCode;
+  message?: string;
+}
+
+const coerceBoolean = (value: ResponseValue): boolean | null => {
+  if (typeof value === 'boolean') return value;
+
+  const text = String(value).trim().toLowerCase();
+  if (['true', 'yes', 'y', '1'].includes(text)) return true;
+  if (['false', 'no', 'n', '0'].includes(text)) return false;
+
+  return null;
+};
+
+// Check an answered value against the question type, returning the coerced value or an error
+const coerceValue = (question: IQuestion, value: ResponseValue): CoercionResult => {
+  switch (question.type) {
+    case 'numeric': {
+      const number = typeof value === 'number' ? value : Number(String(value).trim());
+      if (typeof value === 'boolean' || Array.isArray(value) || Number.isNaN(number)) {
+        return { code: 'invalidType', message: 'Must be a number' };
+      }
+
+      const { min, max } = question.config?.thresholds || {};
+      if (typeof min === 'number' && number < min) {
+        return { code: 'invalidType', message: `Must be at least ${min}` };
+      }
+      if (typeof max === 'number' && number > max) {
+        return { code: 'invalidType', message: `Must be at most ${max}` };
+      }
+
+      return { value: number };
+    }
+
+    case 'date': {
+      const date = typeof value === 'string' || value instanceof Date ? new Date(value as any) : null;
+      if (!date || Number.isNaN(date.getTime())) {
+        return { code: 'invalidType', message: 'Must be a valid date' };
+      }
+
+      return { value: date.toISOString().substring(0, 10) };
+    }
+
+    case 'boolean': {
+      const bool = coerceBoolean(value);
+      if (bool === null) {
+        return { code: 'invalidType', message: 'Must be yes or no' };
+      }
+
+      return { value: bool };
+    }
+
+    case 'multipleChoice': {
+      const allowed = (question.options || []).map(option => option.value);
+      const selected = getSelectedValues(value);
+
+      if (Array.isArray(value) && !question.config?.multiple) {
+        return { code: 'invalidOption', message: 'Only one option may be selected' };
+      }
+      if (value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        return { code: 'invalidType', message: 'Must be one of the listed options' };
+      }
+
+      const invalid = selected.filter(option => !allowed.includes(option));
+      if (invalid.length > 0) {
+        return { code: 'invalidOption', message: `Not a valid option: ${invalid.join(', ')}` };
+      }
+
+      return { value };
+    }
+
+    default:
+      if (isScoredQuestion(question) && value !== null && typeof value === 'object' && !Array.isArray(value)) {
+        // Every answered instrument item must use one of that item's options
+        const invalidItem = getInstrumentItems(question).find(item => {
+          const selected = (value as Record<string, any>)[item.id];
+          return selected !== undefined && selected !== null && selected !== ''
+            && !item.options.some(option => option.value === String(selected));
+        });
+
+        if (invalidItem) {
+          return { code: 'invalidOption', message: `Not a valid answer for "${invalidItem.text}"` };
+        }
+      }
+
+      return { value };
+  }
+};
+
+// Instruments must have every item answered to count as complete
+const isQuestionAnswered = (question: IQuestion, value: ResponseValue): boolean => {
+  if (!isAnswered(value)) return false;
+
+  if (isScoredQuestion(question) && value !== null && typeof value === 'object' && !Array.isArray(value)) {
+    return getInstrumentItems(question).every(item => isAnswered((value as Record<string, any>)[item.id]));
+  }
+
+  return true;
+};
+
+/**
+ * Validate visit responses against the template before a visit is completed.
+ *
+ * Questions hidden by conditional logic are skipped, required questions must
+ * be answered, and answered values must match the question type. The result
+ * lists every problem so the conduct page can highlight each question.
+ */
+export function validateVisitResponses(
+  template: { sections?: ISection[] } | null | undefined,
+  responses: unknown,
+  patient?: ConditionContext['patient']
+): ResponseValidationResult {
+  const responseMap = flattenResponses(responses);
+  const coerced: ResponseMap = { ...responseMap };
+  const errors: ResponseValidationError[] = [];
+  const visibility = getVisibility(template, responseMap, patient);
+
+  (template?.sections || []).forEach(section => {
+    if (visibility.hiddenSections.has(section.id)) return;
+
+    (section.questions || []).forEach(question => {
+      if (visibility.hiddenQuestions.has(question.id)) return;
+
+      const value = responseMap[question.id];
+      const addError = (code: ResponseErrorCode, message: string) => {
+        errors.push({
+          questionId: question.id,
+          sectionId: section.id,
+          sectionTitle: section.title,
+          question: question.text,
+          code,
+          message,
+        });
+      };
+
+      if (!isQuestionAnswered(question, value)) {
+        if (!isAnswered(value)) {
+          if (question.required) addError('required', 'This question is required');
+          return;
+        }
+        if (question.required) {
+          addError('required', 'All items must be answered');
+          return;
+        }
+      }
+
+      const result = coerceValue(question, value);
+      if (result.code) {
+        addError(result.code, result.message || 'Invalid answer');
+      } else {
+        coerced[question.id] = result.value;
+      }
+    });
+  });
+
+  return {
+    valid: errors.length === 0,
+    errors,
+    responses: coerced,
+  };
+}
@@ -0,0 +1,85 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+
+export const AUDIT_ACTIONS = ['read', 'create', 'update', 'delete', 'export'] as const;
+export const AUDIT_RESOURCE_TYPES = ['Patient', 'Visit', 'Template'] as const;
+
+export type AuditAction = typeof AUDIT_ACTIONS[number];
+export type AuditResourceType = typeof AUDIT_RESOURCE_TYPES[number];
+
+export interface IAuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// Append-only record of who read or changed protected health information
+export interface IAuditEventBase {
+  actor: {
+    id: string;
+    email: string;
+    role: string;
+  };
+  action: AuditAction;
+  resourceType: AuditResourceType;
+  // Empty for list reads, which record the returned ids in details instead
+  resourceId?: string;
+  changes: IAuditChange[];
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: Date;
+}
+
+export interface IAuditEvent extends IAuditEventBase, Document {}
+
+const AuditChangeSchema = new Schema({
+  field: { type: String, required: true },
+  before: Schema.Types.Mixed,
+  after: Schema.Types.Mixed
+}, { _id: false });
+
+const AuditEventSchema = new Schema<IAuditEvent>({
+  actor: {
+    id: { type: String, required: true },
+    email: { type: String, required: true },
+    role: { type: String, required: true }
+  },
+  action: { type: String, enum: AUDIT_ACTIONS, required: true },
+  resourceType: { type: String, enum: AUDIT_RESOURCE_TYPES, required: true },
+  resourceId: String,
+  changes: { type: [AuditChangeSchema], default: [] },
+  details: Schema.Types.Mixed,
+  ipAddress: String,
+  userAgent: String,
+  timestamp: { type: Date, default: Date.now }
+}, {
+  versionKey: false,
+  collection: 'auditevents'
+});
+
+AuditEventSchema.index({ timestamp: -1 });
+AuditEventSchema.index({ resourceType: 1, resourceId: 1, timestamp: -1 });
+AuditEventSchema.index({ 'actor.email': 1, timestamp: -1 });
+
+// Audit events must never change once saved
+const rejectChanges = function(next: (err?: Error) => void) {
+  next(new Error('Audit events cannot be modified'));
+};
+
+AuditEventSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectChanges(next);
+  }
+  next();
+});
+AuditEventSchema.pre('findOneAndUpdate', rejectChanges);
+AuditEventSchema.pre('updateOne', rejectChanges);
+AuditEventSchema.pre('updateMany', rejectChanges);
+AuditEventSchema.pre('replaceOne', rejectChanges);
+
+export type AuditEventModel = Model<IAuditEvent>;
+
+const AuditEvent = (mongoose.models.AuditEvent as AuditEventModel) ||
+  model<IAuditEvent>('AuditEvent', AuditEventSchema);
+
+export default AuditEvent;
@@ -0,0 +1,55 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+import { ROLES, Role } from '@/lib/permissions';
+
+export const INVITATION_STATUSES = ['pending', 'accepted', 'revoked'] as const;
+
+export type InvitationStatus = typeof INVITATION_STATUSES[number];
+
+// An invitation to create an account with a preassigned role.
+// Only a SHA-256 hash of the emailed token is stored.
+export interface IInvitationBase {
+  email: string;
+  name?: string;
+  role: Role;
+  tokenHash: string;
+  status: InvitationStatus;
+  invitedBy?: mongoose.Types.ObjectId | string | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  sendCount: number;
+  acceptedAt?: Date;
+  acceptedUser?: mongoose.Types.ObjectId | string;
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IInvitation extends IInvitationBase, Document {}
+
+const InvitationSchema = new Schema<IInvitation>({
+  email: { type: String, required: true, trim: true, lowercase: true },
+  name: String,
+  role: { type: String, enum: ROLES, default: 'staff' },
+  tokenHash: { type: String, required: true, select: false },
+  status: { type: String, enum: INVITATION_STATUSES, default: 'pending' },
+  invitedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  expiresAt: { type: Date, required: true },
+  lastSentAt: { type: Date, default: Date.now },
+  sendCount: { type: Number, default: 1 },
+  acceptedAt: Date,
+  acceptedUser: { type: Schema.Types.ObjectId, ref: 'User' },
+  revokedAt: Date
+}, {
+  timestamps: true,
+  collection: 'invitations'
+});
+
+InvitationSchema.index({ tokenHash: 1 }, { unique: true });
+InvitationSchema.index({ email: 1, status: 1 });
+
+export type InvitationModel = Model<IInvitation>;
+
+const Invitation = (mongoose.models.Invitation as InvitationModel) ||
+  model<IInvitation>('Invitation', InvitationSchema);
+
+export default Invitation;
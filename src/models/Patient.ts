@@ -1,12 +1,13 @@
 import mongoose from 'mongoose';
+import { PATIENT_EMAIL_PATTERN, PATIENT_GENDERS, PatientGender } from '@/lib/patientValidation';
 
 export interface IPatient {
   firstName: string;
   lastName: string;
   dateOfBirth: Date;
-  gender: 'male' | 'female' | 'other';
+  gender: PatientGender;
   email?: string;
-  phone?: string;
+  phoneNumber?: string;
   address?: {
     street?: string;
     city?: string;
@@ -14,16 +15,28 @@ export interface IPatient {
     zipCode?: string;
   };
   medicalRecordNumber?: string;
-  insuranceInfo?: {
+  insurance?: {
     provider?: string;
     policyNumber?: string;
     groupNumber?: string;
   };
+  medicalHistory?: {
+    conditions?: string[];
+    medications?: string[];
+    allergies?: string[];
+    surgeries?: string[];
+    notes?: string;
+  };
   primaryCareProvider?: mongoose.Types.ObjectId;
   createdAt: Date;
   updatedAt: Date;
 }
 
+/**
+ * The single Patient model. API routes must import this instead of declaring
+ * their own schema, since whichever schema registers the 'Patient' model
+ * first is the one mongoose uses everywhere.
+ */
 const PatientSchema = new mongoose.Schema<IPatient>(
   {
     firstName: {
@@ -42,17 +55,14 @@ const PatientSchema = new mongoose.Schema<IPatient>(
     },
     gender: {
       type: String,
-      enum: ['male', 'female', 'other'],
+      enum: PATIENT_GENDERS,
       required: [true, 'Please specify gender'],
     },
     email: {
       type: String,
-      match: [
-        /^(([^<>()[\]\\.,;:\s@"]+(\.[^<>()[\]\\.,;:\s@"]+)*)|(".+"))@((\[[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\.[0-9]{1,3}\])|(([a-zA-Z\-0-9]+\.)+[a-zA-Z]{2,}))$/,
-        'Please provide a valid email',
-      ],
+      match: [PATIENT_EMAIL_PATTERN, 'Please provide a valid email'],
     },
-    phone: {
+    phoneNumber: {
       type: String,
     },
     address: {
@@ -66,11 +76,18 @@ const PatientSchema = new mongoose.Schema<IPatient>(
       unique: true,
       sparse: true,
     },
-    insuranceInfo: {
+    insurance: {
       provider: String,
       policyNumber: String,
       groupNumber: String,
     },
+    medicalHistory: {
+      conditions: [String],
+      medications: [String],
+      allergies: [String],
+      surgeries: [String],
+      notes: String,
+    },
     primaryCareProvider: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
@@ -0,0 +1,90 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+import type { PatientInput } from '@/lib/patientValidation';
+
+export const PATIENT_IMPORT_STATUSES = ['pending', 'running', 'completed', 'cancelled'] as const;
+
+export type PatientImportStatus = typeof PATIENT_IMPORT_STATUSES[number];
+
+export const PATIENT_IMPORT_OUTCOMES = ['invalid', 'duplicate', 'failed'] as const;
+
+export type PatientImportOutcome = typeof PATIENT_IMPORT_OUTCOMES[number];
+
+// A row that was not imported, for the error report
+export interface IPatientImportIssue {
+  line: number;
+  outcome: PatientImportOutcome;
+  field?: string;
+  message: string;
+  // Existing patient the row matched
+  duplicateOf?: mongoose.Types.ObjectId | string;
+}
+
+/**
+ * A CSV patient import. Rows are processed in batches from `cursor`, so an
+ * import interrupted by a closed tab or a function timeout continues where it
+ * stopped. The rows are large, so status reads leave them out.
+ */
+export interface IPatientImportJobBase {
+  fileName?: string;
+  status: PatientImportStatus;
+  createdBy?: mongoose.Types.ObjectId | string | null;
+  rows: { line: number; input: PatientInput }[];
+  total: number;
+  // Number of rows processed so far
+  cursor: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  failed: number;
+  issues: IPatientImportIssue[];
+  // Set while a batch runs so two browser tabs do not process the same rows
+  lockedUntil?: Date;
+  startedAt?: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPatientImportJob extends IPatientImportJobBase, Document {}
+
+const ImportRowSchema = new Schema({
+  line: { type: Number, required: true },
+  input: { type: Schema.Types.Mixed, default: {} }
+}, { _id: false });
+
+const ImportIssueSchema = new Schema<IPatientImportIssue>({
+  line: { type: Number, required: true },
+  outcome: { type: String, enum: PATIENT_IMPORT_OUTCOMES, required: true },
+  field: String,
+  message: { type: String, required: true },
+  duplicateOf: { type: Schema.Types.ObjectId, ref: 'Patient' }
+}, { _id: false });
+
+const PatientImportJobSchema = new Schema<IPatientImportJob>({
+  fileName: String,
+  status: { type: String, enum: PATIENT_IMPORT_STATUSES, default: 'pending' },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  rows: { type: [ImportRowSchema], default: [] },
+  total: { type: Number, default: 0 },
+  cursor: { type: Number, default: 0 },
+  created: { type: Number, default: 0 },
+  duplicates: { type: Number, default: 0 },
+  invalid: { type: Number, default: 0 },
+  failed: { type: Number, default: 0 },
+  issues: { type: [ImportIssueSchema], default: [] },
+  lockedUntil: Date,
+  startedAt: Date,
+  completedAt: Date
+}, {
+  timestamps: true,
+  collection: 'patientimportjobs'
+});
+
+PatientImportJobSchema.index({ createdAt: -1 });
+
+export type PatientImportJobModel = Model<IPatientImportJob>;
+
+const PatientImportJob = (mongoose.models.PatientImportJob as PatientImportJobModel) ||
+  model<IPatientImportJob>('PatientImportJob', PatientImportJobSchema);
+
+export default PatientImportJob;
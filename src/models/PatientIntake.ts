@@ -0,0 +1,83 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+
+export const PATIENT_INTAKE_STATUSES = ['pending', 'submitted', 'revoked'] as const;
+
+export type PatientIntakeStatus = typeof PATIENT_INTAKE_STATUSES[number];
+
+export const INTAKE_CONFLICT_RESOLUTIONS = ['staff', 'patient'] as const;
+
+export type IntakeConflictResolution = typeof INTAKE_CONFLICT_RESOLUTIONS[number];
+
+// A patient answer that was not saved because staff had already answered the
+// question differently; staff keep their answer or take the patient's
+export interface IIntakeConflict {
+  questionId: string;
+  question?: string;
+  staffValue: any;
+  patientValue: any;
+  resolution?: IntakeConflictResolution;
+  resolvedBy?: mongoose.Types.ObjectId | string | null;
+  resolvedAt?: Date;
+}
+
+// A link that lets the patient answer a visit's patient-completable sections
+// before the visit. Only a SHA-256 hash of the token is stored.
+export interface IPatientIntakeBase {
+  visit: mongoose.Types.ObjectId | string;
+  patient: mongoose.Types.ObjectId | string;
+  tokenHash: string;
+  status: PatientIntakeStatus;
+  sentTo?: string;
+  createdBy?: mongoose.Types.ObjectId | string | null;
+  expiresAt: Date;
+  lastSentAt: Date;
+  sendCount: number;
+  submittedAt?: Date;
+  // Questions the patient answered
+  questionIds?: string[];
+  conflicts?: IIntakeConflict[];
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPatientIntake extends IPatientIntakeBase, Document {}
+
+const IntakeConflictSchema = new Schema<IIntakeConflict>({
+  questionId: { type: String, required: true },
+  question: String,
+  staffValue: Schema.Types.Mixed,
+  patientValue: Schema.Types.Mixed,
+  resolution: { type: String, enum: INTAKE_CONFLICT_RESOLUTIONS },
+  resolvedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  resolvedAt: Date
+}, { _id: false });
+
+const PatientIntakeSchema = new Schema<IPatientIntake>({
+  visit: { type: Schema.Types.ObjectId, ref: 'Visit', required: true },
+  patient: { type: Schema.Types.ObjectId, ref: 'Patient', required: true },
+  tokenHash: { type: String, required: true, select: false },
+  status: { type: String, enum: PATIENT_INTAKE_STATUSES, default: 'pending' },
+  sentTo: { type: String, trim: true, lowercase: true },
+  createdBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  expiresAt: { type: Date, required: true },
+  lastSentAt: { type: Date, default: Date.now },
+  sendCount: { type: Number, default: 1 },
+  submittedAt: Date,
+  questionIds: [String],
+  conflicts: [IntakeConflictSchema],
+  revokedAt: Date
+}, {
+  timestamps: true,
+  collection: 'patientintakes'
+});
+
+PatientIntakeSchema.index({ tokenHash: 1 }, { unique: true });
+PatientIntakeSchema.index({ visit: 1, createdAt: -1 });
+
+export type PatientIntakeModel = Model<IPatientIntake>;
+
+const PatientIntake = (mongoose.models.PatientIntake as PatientIntakeModel) ||
+  model<IPatientIntake>('PatientIntake', PatientIntakeSchema);
+
+export default PatientIntake;
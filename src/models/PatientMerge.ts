@@ -0,0 +1,68 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+import type { MergeChoices } from '@/lib/patientMatching';
+
+// 'merging' until every step of the merge has run; an interrupted merge stays there
+export const PATIENT_MERGE_STATUSES = ['merging', 'merged', 'undone'] as const;
+
+export type PatientMergeStatus = typeof PATIENT_MERGE_STATUSES[number];
+
+/**
+ * History of a patient merge. The removed record and the survivor as it was
+ * before the merge are kept whole, together with the visits and pre-visit
+ * links that were moved, so the merge can be undone.
+ */
+export interface IPatientMergeBase {
+  survivor: mongoose.Types.ObjectId | string;
+  // Id of the record merged into the survivor and removed
+  merged: mongoose.Types.ObjectId | string;
+  mergedPatient: Record<string, any>;
+  survivorBefore: Record<string, any>;
+  // updatedAt the merge gives the survivor, recorded before anything changes; a later edit blocks undo
+  survivorUpdatedAt?: Date;
+  choices: MergeChoices;
+  visits: (mongoose.Types.ObjectId | string)[];
+  intakes: (mongoose.Types.ObjectId | string)[];
+  status: PatientMergeStatus;
+  mergedBy?: mongoose.Types.ObjectId | string | null;
+  mergedByEmail?: string;
+  undoneAt?: Date;
+  undoneBy?: mongoose.Types.ObjectId | string | null;
+  undoneByEmail?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPatientMerge extends IPatientMergeBase, Document {}
+
+const PatientMergeSchema = new Schema<IPatientMerge>({
+  survivor: { type: Schema.Types.ObjectId, ref: 'Patient', required: true },
+  merged: { type: Schema.Types.ObjectId, required: true },
+  mergedPatient: { type: Schema.Types.Mixed, required: true },
+  survivorBefore: { type: Schema.Types.Mixed, required: true },
+  survivorUpdatedAt: Date,
+  choices: { type: Schema.Types.Mixed, default: {} },
+  visits: [{ type: Schema.Types.ObjectId, ref: 'Visit' }],
+  intakes: [{ type: Schema.Types.ObjectId, ref: 'PatientIntake' }],
+  status: { type: String, enum: PATIENT_MERGE_STATUSES, default: 'merged' },
+  mergedBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  mergedByEmail: String,
+  undoneAt: Date,
+  undoneBy: { type: Schema.Types.ObjectId, ref: 'User' },
+  undoneByEmail: String
+}, {
+  timestamps: true,
+  collection: 'patientmerges',
+  // Snapshots are stored exactly as read, including empty nested objects
+  minimize: false
+});
+
+PatientMergeSchema.index({ survivor: 1, createdAt: -1 });
+PatientMergeSchema.index({ merged: 1 });
+PatientMergeSchema.index({ createdAt: -1 });
+
+export type PatientMergeModel = Model<IPatientMerge>;
+
+const PatientMerge = (mongoose.models.PatientMerge as PatientMergeModel) ||
+  model<IPatientMerge>('PatientMerge', PatientMergeSchema);
+
+export default PatientMerge;
@@ -0,0 +1,45 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+
+// The practice's name, address and contact details, shown on reports. There is
+// a single settings document.
+export interface IPracticeSettingsBase {
+  name: string;
+  address: string;
+  city: string;
+  state: string;
+  zipCode: string;
+  phone: string;
+  email: string;
+  website?: string;
+  taxId?: string;
+  npi?: string;
+  logo?: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IPracticeSettings extends IPracticeSettingsBase, Document {}
+
+// Same shape as the schema the /api/practice routes register under this name
+const PracticeSettingsSchema = new Schema<IPracticeSettings>({
+  name: { type: String, required: true },
+  address: { type: String, required: true },
+  city: { type: String, required: true },
+  state: { type: String, required: true },
+  zipCode: { type: String, required: true },
+  phone: { type: String, required: true },
+  email: { type: String, required: true },
+  website: String,
+  taxId: String,
+  npi: String,
+  logo: String
+}, {
+  timestamps: true
+});
+
+export type PracticeSettingsModel = Model<IPracticeSettings>;
+
+const PracticeSettings = (mongoose.models.PracticeSettings as PracticeSettingsModel) ||
+  model<IPracticeSettings>('PracticeSettings', PracticeSettingsSchema);
+
+export default PracticeSettings;
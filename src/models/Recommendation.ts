@@ -1,10 +1,13 @@
 import mongoose from 'mongoose';
+import type { IConditionGroup } from '@/models/Template';
 
 export interface IRecommendation {
   text: string;
   domain: string;
   priority: 'high' | 'medium' | 'low';
-  condition?: string;
+  // Same rule format as template conditional logic, e.g. bmi.bmi >= 30 or patient.age >= 65.
+  // Older records hold a string such as `smoker AND bmi > 30`, which the health plan engine still reads.
+  condition?: IConditionGroup | string;
   tags?: string[];
   isCustom: boolean;
   createdBy?: mongoose.Types.ObjectId;
@@ -29,10 +32,7 @@ const RecommendationSchema = new mongoose.Schema<IRecommendation>(
       enum: ['high', 'medium', 'low'],
       default: 'medium',
     },
-    condition: {
-      type: String,
-      trim: true,
-    },
+    condition: mongoose.Schema.Types.Mixed,
     tags: [String],
     isCustom: {
       type: Boolean,
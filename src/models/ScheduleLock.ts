@@ -0,0 +1,32 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+
+// A short lock on one provider's or patient's schedule, held while a booking is
+// checked for conflicts and saved. A lock is free again once lockedUntil has
+// passed, so a request that dies while holding it cannot block the schedule.
+export interface IScheduleLockBase {
+  // 'provider:<id>' or 'patient:<id>'
+  key: string;
+  // Random id of the request holding the lock
+  owner: string;
+  lockedUntil: Date;
+}
+
+export interface IScheduleLock extends IScheduleLockBase, Document {}
+
+const ScheduleLockSchema = new Schema<IScheduleLock>({
+  key: { type: String, required: true },
+  owner: { type: String, required: true },
+  lockedUntil: { type: Date, required: true }
+}, {
+  collection: 'schedulelocks'
+});
+
+// Taking a lock relies on the unique key: an upsert for a held lock fails with a duplicate key error
+ScheduleLockSchema.index({ key: 1 }, { unique: true });
+
+export type ScheduleLockModel = Model<IScheduleLock>;
+
+const ScheduleLock = (mongoose.models.ScheduleLock as ScheduleLockModel) ||
+  model<IScheduleLock>('ScheduleLock', ScheduleLockSchema);
+
+export default ScheduleLock;
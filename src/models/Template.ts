@@ -7,6 +7,52 @@ export interface IOption {
   score?: number; // For scored questions (PHQ-2, MMSE, CAGE)
 }
 
+export type ConditionOperator =
+  | 'equals'
+  | 'notEquals'
+  | 'greaterThan'
+  | 'lessThan'
+  | 'greaterThanOrEqual'
+  | 'lessThanOrEqual'
+  | 'in'
+  | 'notIn'
+  | 'contains'
+  | 'isAnswered'
+  | 'isNotAnswered'
+  | 'before'
+  | 'after';
+
+// A single comparison against a question answer or a context field such as patient.age
+export interface ICondition {
+  field: string;
+  operator: ConditionOperator;
+  value?: string | number | boolean | (string | number)[];
+}
+
+// A group of conditions (or nested groups) combined with AND/OR
+export interface IConditionGroup {
+  combinator: 'and' | 'or';
+  conditions: (ICondition | IConditionGroup)[];
+}
+
+export interface IConditionalLogic {
+  // Legacy single-dependency rule
+  dependsOn?: string;
+  showWhen?: {
+    value: string | number | boolean;
+    operator: 'equals' | 'notEquals' | 'greaterThan' | 'lessThan';
+  };
+  // Compound rule; takes precedence over dependsOn when present
+  expression?: IConditionGroup;
+}
+
+// A code from an external terminology such as LOINC, used when exporting answers
+export interface ICoding {
+  system: string;
+  code: string;
+  display?: string;
+}
+
 export interface IQuestion {
   id: string;
   text: string;
@@ -17,13 +63,9 @@ export interface IQuestion {
   options?: IOption[];
   includeRecommendation?: boolean;
   defaultRecommendation?: string;
-  conditionalLogic?: {
-    dependsOn: string;
-    showWhen: {
-      value: string | number | boolean;
-      operator: 'equals' | 'notEquals' | 'greaterThan' | 'lessThan';
-    };
-  };
+  conditionalLogic?: IConditionalLogic;
+  // Overrides the built-in code for the question's answers in FHIR exports
+  code?: ICoding;
   config?: {
     units?: 'metric' | 'imperial'; // For BMI
     heightField?: string; // For BMI reference
@@ -44,6 +86,9 @@ export interface ISection {
   title: string;
   description?: string;
   questions: IQuestion[];
+  conditionalLogic?: Pick<IConditionalLogic, 'expression'>;
+  // Shown on the patient's pre-visit questionnaire
+  patientCompletable?: boolean;
 }
 
 // Base template interface without MongoDB specific fields
@@ -52,10 +97,16 @@ export interface ITemplateBase {
   description?: string;
   sections: ISection[];
   isActive: boolean;
+  // Appointment length booked for visits using this template
+  visitDurationMinutes?: number;
   createdBy: mongoose.Types.ObjectId | string | null;
   createdAt: Date;
   updatedAt: Date;
+  // Number of the latest published version (0 until first published)
   version: number;
+  // 'draft' when there are edits that have not been published yet
+  status?: 'draft' | 'published';
+  publishedAt?: Date;
 }
 
 // Interface for MongoDB document
@@ -77,15 +128,22 @@ const OptionSchema = new Schema<IOption>({
 
 // Define the schema for conditional logic
 const ConditionalLogicSchema = new Schema({
-  dependsOn: { type: String, required: true },
+  dependsOn: String,
   showWhen: {
-    value: { type: Schema.Types.Mixed, required: true },
+    value: Schema.Types.Mixed,
     operator: { 
       type: String, 
-      enum: ['equals', 'notEquals', 'greaterThan', 'lessThan'],
-      default: 'equals'
+      enum: ['equals', 'notEquals', 'greaterThan', 'lessThan']
     }
-  }
+  },
+  // Nested condition groups are stored as-is and validated by the evaluator
+  expression: Schema.Types.Mixed
+}, { _id: false });
+
+const CodingSchema = new Schema<ICoding>({
+  system: { type: String, required: true },
+  code: { type: String, required: true },
+  display: String
 }, { _id: false });
 
 // Define a schema for config
@@ -122,15 +180,18 @@ const QuestionSchema = new Schema<IQuestion>({
   includeRecommendation: { type: Boolean, default: false },
   defaultRecommendation: String,
   conditionalLogic: ConditionalLogicSchema,
+  code: CodingSchema,
   config: ConfigSchema
 }, { _id: false });
 
 // Define the schema for sections
-const SectionSchema = new Schema<ISection>({
+export const SectionSchema = new Schema<ISection>({
   id: { type: String, required: true },
   title: { type: String, required: true },
   description: String,
-  questions: [QuestionSchema]
+  questions: [QuestionSchema],
+  conditionalLogic: ConditionalLogicSchema,
+  patientCompletable: Boolean
 }, { _id: false });
 
 // Define the main template schema
@@ -139,8 +200,11 @@ const TemplateSchema = new Schema<ITemplate>({
   description: String,
   sections: [SectionSchema],
   isActive: { type: Boolean, default: false },
+  visitDurationMinutes: Number,
   createdBy: { type: Schema.Types.ObjectId, ref: 'User', required: false },
-  version: { type: Number, default: 1 }
+  version: { type: Number, default: 0 },
+  status: { type: String, enum: ['draft', 'published'], default: 'draft' },
+  publishedAt: Date
 }, { 
   timestamps: true,
   versionKey: false,
@@ -149,8 +213,8 @@ const TemplateSchema = new Schema<ITemplate>({
 
 // Add any pre-save middleware if needed
 TemplateSchema.pre('save', function(next) {
-  if (!this.version) {
-    this.version = 1;
+  if (this.version === undefined || this.version === null) {
+    this.version = 0;
   }
   next();
 });
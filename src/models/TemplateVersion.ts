@@ -0,0 +1,56 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+import { ISection, SectionSchema } from '@/models/Template';
+
+// Immutable snapshot of a template, created each time it is published
+export interface ITemplateVersionBase {
+  template: mongoose.Types.ObjectId | string;
+  version: number;
+  name: string;
+  description?: string;
+  sections: ISection[];
+  notes?: string;
+  publishedBy?: mongoose.Types.ObjectId | string | null;
+  publishedAt: Date;
+}
+
+export interface ITemplateVersion extends ITemplateVersionBase, Document {}
+
+const TemplateVersionSchema = new Schema<ITemplateVersion>({
+  template: { type: Schema.Types.ObjectId, ref: 'Template', required: true },
+  version: { type: Number, required: true },
+  name: { type: String, required: true },
+  description: String,
+  sections: [SectionSchema],
+  notes: String,
+  publishedBy: { type: Schema.Types.ObjectId, ref: 'User', required: false },
+  publishedAt: { type: Date, default: Date.now }
+}, {
+  versionKey: false,
+  collection: 'templateversions'
+});
+
+// One snapshot per template version
+TemplateVersionSchema.index({ template: 1, version: -1 }, { unique: true });
+
+// Published versions must never change once saved
+const rejectChanges = function(next: (err?: Error) => void) {
+  next(new Error('Published template versions cannot be modified'));
+};
+
+TemplateVersionSchema.pre('save', function(next) {
+  if (!this.isNew) {
+    return rejectChanges(next);
+  }
+  next();
+});
+TemplateVersionSchema.pre('findOneAndUpdate', rejectChanges);
+TemplateVersionSchema.pre('updateOne', rejectChanges);
+TemplateVersionSchema.pre('updateMany', rejectChanges);
+TemplateVersionSchema.pre('replaceOne', rejectChanges);
+
+export type TemplateVersionModel = Model<ITemplateVersion>;
+
+const TemplateVersion = (mongoose.models.TemplateVersion as TemplateVersionModel) ||
+  model<ITemplateVersion>('TemplateVersion', TemplateVersionSchema);
+
+export default TemplateVersion;
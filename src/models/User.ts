@@ -1,5 +1,6 @@
 import mongoose, { Schema, Document, Model } from 'mongoose';
 import bcrypt from 'bcryptjs';
+import { WorkingHours } from '@/lib/scheduling';
 
 // Define the interface for User document
 export interface IUser extends Document {
@@ -11,6 +12,8 @@ export interface IUser extends Document {
   specialty?: string;
   npiNumber?: string;
   isActive: boolean;
+  // Bookable hours shown on the scheduling calendar; unset means DEFAULT_WORKING_HOURS
+  workingHours?: WorkingHours[];
   lastLogin?: Date;
   createdAt: Date;
   updatedAt: Date;
@@ -44,6 +47,10 @@ const UserSchema: Schema = new Schema({
   specialty: String,
   npiNumber: String,
   isActive: { type: Boolean, default: true },
+  workingHours: {
+    type: [{ day: Number, start: String, end: String, _id: false }],
+    default: undefined
+  },
   lastLogin: Date
 }, { 
   timestamps: true 
@@ -1,30 +1,114 @@
 import mongoose from 'mongoose';
+import { VISIT_STATUSES, VisitStatus } from '@/lib/visitLifecycle';
+
+export { VISIT_STATUSES };
+export type { VisitStatus };
 
 export interface IResponse {
   questionId: string;
-  value: string | number | boolean | string[];
+  // Scored instruments store an itemId -> option value map
+  value: string | number | boolean | string[] | Record<string, string | number>;
+  // 'patient' for answers from the pre-visit questionnaire, until staff change them
+  source?: 'patient';
+}
+
+export interface IVisitDocument {
+  name: string;
+  url: string;
+  type?: string;
+  uploadedAt?: Date;
+}
+
+export interface IInstrumentScore {
+  questionId: string;
+  instrument: 'phq2' | 'cageScreening' | 'cognitiveAssessment';
+  label: string;
+  score: number;
+  maxScore: number;
+  threshold: number;
+  positive: boolean;
+  interpretation: string;
+  followUp?: string;
+  complete: boolean;
+}
+
+export interface IVisitStatusChange {
+  from?: VisitStatus | null;
+  to: VisitStatus;
+  at: Date;
+  changedBy?: string;
+  changedByEmail?: string;
+  reason?: string;
+}
+
+export interface IVisitSignature {
+  signedBy: mongoose.Types.ObjectId;
+  signedByName: string;
+  npiNumber: string;
+  signedAt: Date;
+  // SHA-256 of the visit content when it was signed, see visitContentHash
+  contentHash: string;
+}
+
+export interface IVisitAddendum {
+  // 1 for the first addendum, incremented for each one after it
+  version: number;
+  text: string;
+  author: mongoose.Types.ObjectId;
+  authorName: string;
+  authorNpi?: string;
+  createdAt: Date;
+  // SHA-256 chaining the addendum to the signature or the addendum before it
+  contentHash: string;
 }
 
 export interface IVisit {
   patient: mongoose.Types.ObjectId;
-  provider: mongoose.Types.ObjectId;
+  provider?: mongoose.Types.ObjectId;
   template: mongoose.Types.ObjectId;
+  // Published template version the visit was conducted with
+  templateVersion?: number;
   scheduledDate: Date;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  // Length of the appointment, from the template's visit duration when booked
+  durationMinutes?: number;
+  status: VisitStatus;
+  // Why the visit was cancelled, missed or rescheduled
+  statusReason?: string;
+  // Every status change, oldest first
+  statusHistory?: IVisitStatusChange[];
+  // The visit that replaced this one when it was rescheduled, and the one it replaced
+  rescheduledTo?: mongoose.Types.ObjectId;
+  rescheduledFrom?: mongoose.Types.ObjectId;
+  visitType?: string;
+  location?: string;
   responses: {
     sectionId: string;
     answers: IResponse[];
   }[];
+  // Indexes of the template sections marked complete on the conduct page
+  completedSections?: number[];
   healthPlan?: {
     recommendations: {
       domain: string;
       text: string;
       priority: 'high' | 'medium' | 'low';
+      source?: {
+        question: string;
+        response?: string;
+      };
+      dueDate?: Date | string | null;
     }[];
     summary?: string;
   };
+  scores?: IInstrumentScore[];
   notes?: string;
+  documents?: IVisitDocument[];
   completedAt?: Date;
+  // Set when the provider signs the visit; a signed visit only changes through addenda
+  signature?: IVisitSignature;
+  addenda?: IVisitAddendum[];
+  // Incremented on every write; clients send back the revision they loaded to detect stale writes
+  revision?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -38,6 +122,10 @@ const ResponseSchema = new mongoose.Schema({
     type: mongoose.Schema.Types.Mixed,
     required: true,
   },
+  source: {
+    type: String,
+    enum: ['patient'],
+  },
 }, { _id: false });
 
 const SectionResponseSchema = new mongoose.Schema({
@@ -62,6 +150,13 @@ const RecommendationSchema = new mongoose.Schema({
     enum: ['high', 'medium', 'low'],
     default: 'medium',
   },
+  // The question and answer that triggered a generated recommendation
+  source: {
+    question: String,
+    response: String,
+  },
+  // When a screening or immunization is next due, for the patient's schedule
+  dueDate: Date,
 }, { _id: false });
 
 const HealthPlanSchema = new mongoose.Schema({
@@ -69,6 +164,128 @@ const HealthPlanSchema = new mongoose.Schema({
   summary: String,
 }, { _id: false });
 
+// Computed from the scored instrument questions whenever responses are saved
+const InstrumentScoreSchema = new mongoose.Schema({
+  questionId: {
+    type: String,
+    required: true,
+  },
+  instrument: {
+    type: String,
+    enum: ['phq2', 'cageScreening', 'cognitiveAssessment'],
+    required: true,
+  },
+  label: String,
+  score: {
+    type: Number,
+    required: true,
+  },
+  maxScore: Number,
+  threshold: Number,
+  positive: {
+    type: Boolean,
+    default: false,
+  },
+  interpretation: String,
+  followUp: String,
+  complete: {
+    type: Boolean,
+    default: true,
+  },
+}, { _id: false });
+
+const StatusChangeSchema = new mongoose.Schema({
+  // Unset for the status a visit was created with
+  from: String,
+  to: {
+    type: String,
+    enum: VISIT_STATUSES,
+    required: true,
+  },
+  at: {
+    type: Date,
+    default: Date.now,
+  },
+  changedBy: String,
+  changedByEmail: String,
+  reason: String,
+}, { _id: false });
+
+const SignatureSchema = new mongoose.Schema({
+  signedBy: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  signedByName: {
+    type: String,
+    required: true,
+  },
+  npiNumber: {
+    type: String,
+    required: true,
+  },
+  signedAt: {
+    type: Date,
+    required: true,
+  },
+  contentHash: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
+const AddendumSchema = new mongoose.Schema({
+  version: {
+    type: Number,
+    required: true,
+  },
+  text: {
+    type: String,
+    required: true,
+  },
+  author: {
+    type: mongoose.Schema.Types.ObjectId,
+    ref: 'User',
+    required: true,
+  },
+  authorName: {
+    type: String,
+    required: true,
+  },
+  authorNpi: String,
+  createdAt: {
+    type: Date,
+    required: true,
+  },
+  contentHash: {
+    type: String,
+    required: true,
+  },
+}, { _id: false });
+
+const DocumentSchema = new mongoose.Schema({
+  name: {
+    type: String,
+    required: true,
+  },
+  url: {
+    type: String,
+    required: true,
+  },
+  // Nested so mongoose does not read this as the type of the whole subdocument
+  type: { type: String },
+  uploadedAt: {
+    type: Date,
+    default: Date.now,
+  },
+}, { _id: false });
+
+/**
+ * The single Visit model. API routes and scripts must import this instead of
+ * declaring their own schema, since whichever schema registers the 'Visit'
+ * model first is the one mongoose uses everywhere.
+ */
 const VisitSchema = new mongoose.Schema<IVisit>(
   {
     patient: {
@@ -79,26 +296,60 @@ const VisitSchema = new mongoose.Schema<IVisit>(
     provider: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'User',
-      required: true,
     },
     template: {
       type: mongoose.Schema.Types.ObjectId,
       ref: 'Template',
       required: true,
     },
+    templateVersion: Number,
     scheduledDate: {
       type: Date,
       required: true,
     },
+    durationMinutes: Number,
     status: {
       type: String,
-      enum: ['scheduled', 'in-progress', 'completed', 'cancelled'],
+      enum: VISIT_STATUSES,
       default: 'scheduled',
     },
-    responses: [SectionResponseSchema],
+    statusReason: String,
+    statusHistory: {
+      type: [StatusChangeSchema],
+      default: [],
+    },
+    rescheduledTo: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Visit',
+    },
+    rescheduledFrom: {
+      type: mongoose.Schema.Types.ObjectId,
+      ref: 'Visit',
+    },
+    visitType: {
+      type: String,
+      default: 'check-up',
+    },
+    location: String,
+    responses: {
+      type: [SectionResponseSchema],
+      default: [],
+    },
+    completedSections: [Number],
     healthPlan: HealthPlanSchema,
+    scores: [InstrumentScoreSchema],
     notes: String,
+    documents: [DocumentSchema],
     completedAt: Date,
+    signature: SignatureSchema,
+    addenda: {
+      type: [AddendumSchema],
+      default: [],
+    },
+    revision: {
+      type: Number,
+      default: 0,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,47 @@
+import mongoose, { Schema, Document, model, Model } from 'mongoose';
+
+// The clinician report, or the patient's prevention plan handout
+export const VISIT_PDF_TYPES = ['report', 'handout'] as const;
+
+export type VisitPdfType = typeof VISIT_PDF_TYPES[number];
+
+// A rendered visit PDF, kept per visit revision and type so the same revision is
+// served byte for byte every time. sourceHash covers what the PDF shows from
+// outside the visit (patient, provider, practice letterhead, billing); when
+// any of it changes the PDF for that revision is rendered again.
+export interface IVisitPdfBase {
+  visit: mongoose.Types.ObjectId | string;
+  type: VisitPdfType;
+  revision: number;
+  sourceHash: string;
+  pdf: Buffer;
+  // SHA-256 of the PDF, returned as its ETag
+  pdfHash: string;
+  size: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface IVisitPdf extends IVisitPdfBase, Document {}
+
+const VisitPdfSchema = new Schema<IVisitPdf>({
+  visit: { type: Schema.Types.ObjectId, ref: 'Visit', required: true },
+  type: { type: String, enum: VISIT_PDF_TYPES, default: 'report' },
+  revision: { type: Number, required: true },
+  sourceHash: { type: String, required: true },
+  pdf: { type: Buffer, required: true },
+  pdfHash: { type: String, required: true },
+  size: { type: Number, required: true }
+}, {
+  timestamps: true,
+  collection: 'visitpdfs'
+});
+
+VisitPdfSchema.index({ visit: 1, type: 1, revision: 1 }, { unique: true });
+
+export type VisitPdfModel = Model<IVisitPdf>;
+
+const VisitPdf = (mongoose.models.VisitPdf as VisitPdfModel) ||
+  model<IVisitPdf>('VisitPdf', VisitPdfSchema);
+
+export default VisitPdf;
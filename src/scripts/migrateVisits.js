@@ -0,0 +1,240 @@
+// This script normalizes existing visit documents to the canonical Visit model
+// (src/models/Visit.ts). Records that cannot be converted are left untouched
+// and listed at the end.
+// Run with: npm run migrate:visits -- [--dry-run]
+
+require('dotenv').config({ path: '.env.local' });
+const mongoose = require('mongoose');
+
+const VISIT_STATUSES = ['scheduled', 'checked-in', 'in-progress', 'completed', 'signed', 'cancelled', 'no-show', 'rescheduled'];
+const UNASSIGNED_SECTION_ID = 'unassigned';
+
+const dryRun = process.argv.includes('--dry-run');
+
+const { ObjectId } = mongoose.Types;
+
+const toObjectId = (value) => {
+  if (!value) return null;
+  if (value instanceof ObjectId) return value;
+  const id = String(value._id || value);
+  return ObjectId.isValid(id) && String(new ObjectId(id)) === id ? new ObjectId(id) : null;
+};
+
+// Load template sections once per template version
+const templateCache = new Map();
+async function loadSections(db, templateId, templateVersion) {
+  const key = `${templateId}:${templateVersion || 'live'}`;
+  if (templateCache.has(key)) return templateCache.get(key);
+
+  let source = null;
+  if (templateVersion) {
+    source = await db.collection('templateversions').findOne({ template: templateId, version: templateVersion });
+  }
+  if (!source) {
+    source = await db.collection('templates').findOne({ _id: templateId });
+  }
+
+  const sections = source ? source.sections || [] : null;
+  templateCache.set(key, sections);
+  return sections;
+}
+
+// Convert a flat questionId -> value map or a section array to the stored section array
+function groupResponses(responses, sections) {
+  const sectionByQuestion = new Map();
+  const answers = [];
+
+  if (Array.isArray(responses)) {
+    responses.forEach((section) => {
+      if (!section || !Array.isArray(section.answers)) {
+        throw new Error('responses array contains an entry without answers');
+      }
+      section.answers.forEach((answer) => {
+        if (!answer || !answer.questionId) {
+          throw new Error(`section ${section.sectionId || '?'} contains an answer without a questionId`);
+        }
+        if (section.sectionId) sectionByQuestion.set(answer.questionId, section.sectionId);
+        answers.push([answer.questionId, answer.value]);
+      });
+    });
+  } else if (responses && typeof responses === 'object') {
+    Object.entries(responses).forEach(([questionId, value]) => answers.push([questionId, value]));
+  } else if (responses !== undefined && responses !== null) {
+    throw new Error(`responses has unsupported type ${typeof responses}`);
+  }
+
+  const sectionOrder = (sections || []).map((section) => section.id);
+  (sections || []).forEach((section) => {
+    (section.questions || []).forEach((question) => sectionByQuestion.set(question.id, section.id));
+  });
+
+  const groups = [];
+  answers.forEach(([questionId, value]) => {
+    if (value === null || value === undefined) return;
+
+    const sectionId = sectionByQuestion.get(questionId) || UNASSIGNED_SECTION_ID;
+    let group = groups.find((g) => g.sectionId === sectionId);
+    if (!group) {
+      group = { sectionId, answers: [] };
+      groups.push(group);
+    }
+    group.answers.push({ questionId, value });
+  });
+
+  const position = (sectionId) => {
+    const index = sectionOrder.indexOf(sectionId);
+    return index === -1 ? sectionOrder.length : index;
+  };
+
+  return groups.sort((a, b) => position(a.sectionId) - position(b.sectionId));
+}
+
+// Build the $set/$unset update for one visit, collecting problems that block conversion
+async function normalizeVisit(db, visit) {
+  const errors = [];
+  const warnings = [];
+  const set = {};
+  const unset = {};
+
+  const patient = toObjectId(visit.patient);
+  if (!patient) {
+    errors.push('missing or invalid patient reference');
+  } else if (!(visit.patient instanceof ObjectId)) {
+    set.patient = patient;
+  }
+
+  if (visit.provider !== undefined && visit.provider !== null) {
+    const provider = toObjectId(visit.provider);
+    if (!provider) {
+      warnings.push(`dropped invalid provider reference ${JSON.stringify(visit.provider)}`);
+      unset.provider = '';
+    } else if (!(visit.provider instanceof ObjectId)) {
+      set.provider = provider;
+    }
+  }
+
+  const scheduledDate = visit.scheduledDate ? new Date(visit.scheduledDate) : null;
+  if (!scheduledDate || Number.isNaN(scheduledDate.getTime())) {
+    errors.push('missing or invalid scheduledDate');
+  } else if (!(visit.scheduledDate instanceof Date)) {
+    set.scheduledDate = scheduledDate;
+  }
+
+  if (!visit.status) {
+    set.status = 'scheduled';
+  } else if (!VISIT_STATUSES.includes(visit.status)) {
+    errors.push(`unknown status "${visit.status}"`);
+  }
+
+  // Older routes stored the template as a string templateId
+  const template = toObjectId(visit.template || visit.templateId);
+  if (!template) {
+    errors.push('missing or invalid template reference');
+  } else {
+    if (!(visit.template instanceof ObjectId)) set.template = template;
+    if (visit.templateId !== undefined) unset.templateId = '';
+  }
+
+  let sections = null;
+  if (template) {
+    sections = await loadSections(db, template, visit.templateVersion);
+    if (!sections) {
+      warnings.push(`template ${template} not found; answers kept under "${UNASSIGNED_SECTION_ID}"`);
+    }
+  }
+
+  try {
+    const responses = groupResponses(visit.responses, sections);
+    if (JSON.stringify(responses) !== JSON.stringify(visit.responses)) {
+      set.responses = responses;
+    }
+  } catch (error) {
+    errors.push(error.message);
+  }
+
+  if (visit.healthPlan === null) {
+    unset.healthPlan = '';
+  } else if (visit.healthPlan && !Array.isArray(visit.healthPlan.recommendations)) {
+    errors.push('healthPlan has no recommendations array');
+  }
+
+  // The old inline documents schema declared `type` in a way mongoose read as [String]
+  if (Array.isArray(visit.documents) && visit.documents.some((doc) => typeof doc === 'string')) {
+    set.documents = visit.documents.map((doc) => (
+      typeof doc === 'string' ? { name: doc.split('/').pop() || doc, url: doc } : doc
+    ));
+  }
+
+  if (Array.isArray(visit.completedSections) && visit.completedSections.some((index) => typeof index !== 'number')) {
+    set.completedSections = visit.completedSections
+      .map((index) => Number(index))
+      .filter((index) => Number.isInteger(index));
+  }
+
+  return { errors, warnings, set, unset };
+}
+
+async function migrateVisits() {
+  const summary = { scanned: 0, migrated: 0, unchanged: 0, failed: [] };
+
+  try {
+    console.log('Connecting to MongoDB...');
+    await mongoose.connect(process.env.MONGODB_URI);
+    console.log('Connected to MongoDB successfully!');
+    if (dryRun) {
+      console.log('Dry run: no documents will be changed');
+    }
+
+    const db = mongoose.connection.db;
+    const visits = db.collection('visits');
+    const cursor = visits.find({});
+
+    for await (const visit of cursor) {
+      summary.scanned++;
+      const { errors, warnings, set, unset } = await normalizeVisit(db, visit);
+
+      warnings.forEach((warning) => console.warn(`Visit ${visit._id}: ${warning}`));
+
+      if (errors.length > 0) {
+        summary.failed.push({ id: String(visit._id), errors });
+        continue;
+      }
+
+      const update = {};
+      if (Object.keys(set).length > 0) update.$set = set;
+      if (Object.keys(unset).length > 0) update.$unset = unset;
+
+      if (!update.$set && !update.$unset) {
+        summary.unchanged++;
+        continue;
+      }
+
+      if (!dryRun) {
+        await visits.updateOne({ _id: visit._id }, update);
+      }
+      summary.migrated++;
+    }
+
+    console.log('\nVisit migration summary:');
+    console.log(`  Scanned:   ${summary.scanned}`);
+    console.log(`  ${dryRun ? 'To migrate' : 'Migrated'}: ${summary.migrated}`);
+    console.log(`  Unchanged: ${summary.unchanged}`);
+    console.log(`  Failed:    ${summary.failed.length}`);
+
+    if (summary.failed.length > 0) {
+      console.log('\nVisits that could not be converted:');
+      summary.failed.forEach(({ id, errors }) => {
+        console.log(`  ${id}: ${errors.join('; ')}`);
+      });
+      process.exitCode = 1;
+    }
+  } catch (error) {
+    console.error('Error migrating visits:', error);
+    process.exitCode = 1;
+  } finally {
+    await mongoose.disconnect();
+    console.log('Disconnected from MongoDB');
+  }
+}
+
+migrateVisits();
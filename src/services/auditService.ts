@@ -0,0 +1,112 @@
+import { apiFetch } from '@/lib/apiFetch';
+
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+export interface AuditEvent {
+  _id: string;
+  actor: {
+    id: string;
+    email: string;
+    role: string;
+  };
+  action: 'read' | 'create' | 'update' | 'delete' | 'export';
+  resourceType: 'Patient' | 'Visit' | 'Template';
+  resourceId?: string;
+  changes: AuditChange[];
+  details?: Record<string, unknown>;
+  ipAddress?: string;
+  userAgent?: string;
+  timestamp: string;
+}
+
+export interface AuditSearchParams {
+  page?: number;
+  limit?: number;
+  actor?: string;
+  action?: string;
+  resourceType?: string;
+  resourceId?: string;
+  from?: string;
+  to?: string;
+}
+
+interface AuditEventsResponse {
+  events: AuditEvent[];
+  pagination: {
+    total: number;
+    page: number;
+    limit: number;
+    pages: number;
+  };
+}
+
+const isDevelopment = process.env.NODE_ENV === 'development';
+const BASE_URL = isDevelopment ? 'http://localhost:8888/.netlify/functions/api' : '/.netlify/functions/api';
+
+const toQueryString = (params: AuditSearchParams & { format?: string }) => {
+  const queryParams = new URLSearchParams();
+  Object.entries(params).forEach(([key, value]) => {
+    if (value !== undefined && value !== null && value !== '') {
+      queryParams.append(key, String(value));
+    }
+  });
+  const queryString = queryParams.toString();
+  return queryString ? `?${queryString}` : '';
+};
+
+async function handleResponse(response: Response) {
+  if (!response.ok) {
+    const errorData = await response.json().catch(() => null);
+    throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
+  }
+  return response.json();
+}
+
+// Audit log service for client-side API calls
+const auditService = {
+  // Search the audit log, newest events first
+  async getAuditEvents(params: AuditSearchParams = {}): Promise<AuditEventsResponse> {
+    const response = await apiFetch(`${BASE_URL}/audit${toQueryString(params)}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return handleResponse(response);
+  },
+
+  // Download the events matching the filters as a CSV file
+  async exportAuditCsv(params: AuditSearchParams = {}): Promise<Blob> {
+    const { page, limit, ...filters } = params;
+    const response = await apiFetch(`${BASE_URL}/audit${toQueryString({ ...filters, format: 'csv' })}`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.blob();
+  },
+
+  // Record that a visit report was downloaded or printed in the browser.
+  // Failures are logged rather than blocking the download.
+  async recordReportExport(visitId: string, format: 'pdf' | 'print' = 'pdf'): Promise<void> {
+    try {
+      const response = await apiFetch(`${BASE_URL}/audit`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ visitId, format }),
+      });
+      if (!response.ok) {
+        throw new Error(`HTTP error! status: ${response.status}`);
+      }
+    } catch (error) {
+      console.error('Error recording report export:', error);
+    }
+  },
+};
+
+export default auditService;
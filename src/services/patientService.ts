@@ -1,3 +1,8 @@
+import { apiFetch } from '@/lib/apiFetch';
+import type { ImportRow } from '@/lib/patientImport';
+import type { MergeChoices } from '@/lib/patientMatching';
+import type { AwvEligibility, AwvStatus } from '@/lib/awvEligibility';
+
 // Define types for API responses
 interface Pagination {
   total: number;
@@ -14,6 +19,7 @@ interface Patient {
   gender: string;
   email?: string;
   phoneNumber?: string;
+  medicalRecordNumber?: string;
   address?: {
     street?: string;
     city?: string;
@@ -41,6 +47,74 @@ interface PatientsResponse {
   pagination: Pagination;
 }
 
+// Progress of a CSV patient import
+interface PatientImportJob {
+  id: string;
+  fileName?: string;
+  status: 'pending' | 'running' | 'completed' | 'cancelled';
+  total: number;
+  processed: number;
+  created: number;
+  duplicates: number;
+  invalid: number;
+  failed: number;
+  startedAt?: string;
+  completedAt?: string;
+  createdAt: string;
+}
+
+// One side of a possible duplicate pair
+interface DuplicatePatientSummary {
+  _id: string;
+  firstName: string;
+  lastName: string;
+  dateOfBirth: string;
+  gender: string;
+  email?: string;
+  phoneNumber?: string;
+  medicalRecordNumber?: string;
+  visitCount: number;
+}
+
+interface DuplicatePatientPair {
+  patients: [DuplicatePatientSummary, DuplicatePatientSummary];
+  // 0 to 1
+  score: number;
+  reasons: string[];
+}
+
+interface PatientMergeRecord {
+  id: string;
+  survivor: { _id: string; firstName?: string; lastName?: string };
+  merged: { _id: string; firstName?: string; lastName?: string; dateOfBirth?: string };
+  choices: MergeChoices;
+  visitCount: number;
+  status: 'merging' | 'merged' | 'undone';
+  mergedAt: string;
+  mergedByEmail?: string;
+  undoneAt?: string;
+  undoneByEmail?: string;
+}
+
+// A patient on the AWV worklist with their eligibility
+interface AwvWorklistPatient extends Patient {
+  awv: AwvEligibility;
+}
+
+interface AwvWorklistResponse {
+  patients: AwvWorklistPatient[];
+  // Patients in each status, for the filter labels
+  counts: Record<AwvStatus, number>;
+  pagination: Pagination;
+}
+
+interface AwvWorklistParams {
+  status?: AwvStatus | 'all';
+  search?: string;
+  page?: number;
+  limit?: number;
+}
+
 interface PatientSearchParams {
   page?: number;
   limit?: number;
@@ -115,7 +189,7 @@ const patientService = {
       const url = `${BASE_URL}/patients${queryString ? `?${queryString}` : ''}`;
       
       console.log('Fetching patients with URL:', url);
-      const response = await fetch(url, {
+      const response = await apiFetch(url, {
         method: 'GET',
         headers: {
           'Content-Type': 'application/json',
@@ -135,6 +209,23 @@ const patientService = {
     }
   },
   
+  // Patients with their AWV eligibility, most urgent first
+  async getAwvWorklist(params: AwvWorklistParams = {}): Promise<AwvWorklistResponse> {
+    const queryParams = new URLSearchParams();
+    if (params.status) queryParams.append('status', params.status);
+    if (params.search) queryParams.append('search', params.search);
+    if (params.page) queryParams.append('page', params.page.toString());
+    if (params.limit) queryParams.append('limit', params.limit.toString());
+
+    const queryString = queryParams.toString();
+    const response = await apiFetch(`${BASE_URL}/patients/worklist${queryString ? `?${queryString}` : ''}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store'
+    });
+    return handleResponse(response);
+  },
+  
   // Get a specific patient by ID
   async getPatientById(id: string): Promise<Patient> {
     try {
@@ -142,7 +233,7 @@ const patientService = {
       
       // First attempt: Try to fetch directly by ID
       try {
-        const response = await fetch(`${BASE_URL}/patients/${id}`, {
+        const response = await apiFetch(`${BASE_URL}/patients/${id}`, {
           method: 'GET',
           headers: {
             'Content-Type': 'application/json',
@@ -197,7 +288,7 @@ const patientService = {
   // Create a new patient
   async createPatient(patientData: Partial<Patient>): Promise<Patient> {
     try {
-      const response = await fetch(`${BASE_URL}/patients`, {
+      const response = await apiFetch(`${BASE_URL}/patients`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -240,7 +331,7 @@ const patientService = {
   // Update an existing patient
   async updatePatient(id: string, patientData: Partial<Patient>): Promise<Patient> {
     try {
-      const response = await fetch(`${BASE_URL}/patients/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/patients/${id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -277,7 +368,7 @@ const patientService = {
   // Delete a patient
   async deletePatient(id: string): Promise<void> {
     try {
-      const response = await fetch(`${BASE_URL}/patients/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/patients/${id}`, {
         method: 'DELETE',
         headers: {
           'Content-Type': 'application/json',
@@ -303,8 +394,114 @@ const patientService = {
       console.error(`Error deleting patient with id ${id}:`, error);
       throw error;
     }
+  },
+
+  // Recent CSV imports, newest first
+  async getImportJobs(): Promise<PatientImportJob[]> {
+    const response = await apiFetch(`${BASE_URL}/patients/import`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store'
+    });
+    const data = await handleResponse(response);
+    return data.jobs;
+  },
+
+  // Upload mapped CSV rows; runImportBatch then processes them
+  async startImport(fileName: string, rows: ImportRow[]): Promise<PatientImportJob> {
+    const response = await apiFetch(`${BASE_URL}/patients/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ fileName, rows }),
+    });
+    return handleResponse(response);
+  },
+
+  // Process the next batch of an import and return its progress
+  async runImportBatch(id: string): Promise<PatientImportJob> {
+    const response = await apiFetch(`${BASE_URL}/patients/import/${id}/run`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return handleResponse(response);
+  },
+
+  // Stop an import; patients already created are kept
+  async cancelImport(id: string): Promise<PatientImportJob> {
+    const response = await apiFetch(`${BASE_URL}/patients/import/${id}`, {
+      method: 'DELETE',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return handleResponse(response);
+  },
+
+  // CSV of the rows that were not imported and why
+  async downloadImportErrors(id: string): Promise<Blob> {
+    const response = await apiFetch(`${BASE_URL}/patients/import/${id}/errors`, {
+      method: 'GET',
+    });
+
+    if (!response.ok) {
+      const errorData = await response.json().catch(() => null);
+      throw new Error(errorData?.error || `HTTP error! status: ${response.status}`);
+    }
+    return response.blob();
+  },
+
+  // Pairs of patients that may be the same person, best matches first
+  async findDuplicates(patientId?: string): Promise<DuplicatePatientPair[]> {
+    const query = patientId ? `?patientId=${encodeURIComponent(patientId)}` : '';
+    const response = await apiFetch(`${BASE_URL}/patients/duplicates${query}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store'
+    });
+    const data = await handleResponse(response);
+    return data.duplicates;
+  },
+
+  // Merge history, newest first
+  async getMerges(patientId?: string): Promise<PatientMergeRecord[]> {
+    const query = patientId ? `?patientId=${encodeURIComponent(patientId)}` : '';
+    const response = await apiFetch(`${BASE_URL}/patients/merges${query}`, {
+      method: 'GET',
+      headers: { 'Content-Type': 'application/json' },
+      cache: 'no-store'
+    });
+    const data = await handleResponse(response);
+    return data.merges;
+  },
+
+  // Merge the duplicate into the survivor, taking the fields marked 'duplicate' from it
+  async mergePatients(survivorId: string, duplicateId: string, choices: MergeChoices): Promise<PatientMergeRecord> {
+    const response = await apiFetch(`${BASE_URL}/patients/merges`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ survivorId, duplicateId, choices }),
+    });
+    return handleResponse(response);
+  },
+
+  // Restore both patients as they were before a merge
+  async undoMerge(id: string): Promise<PatientMergeRecord> {
+    const response = await apiFetch(`${BASE_URL}/patients/merges/${id}/undo`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+    });
+    return handleResponse(response);
   }
 };
 
-export type { Patient, PatientsResponse, PatientSearchParams };
+export type {
+  Patient,
+  PatientsResponse,
+  PatientSearchParams,
+  PatientImportJob,
+  DuplicatePatientSummary,
+  DuplicatePatientPair,
+  PatientMergeRecord,
+  AwvWorklistPatient,
+  AwvWorklistResponse,
+  AwvWorklistParams
+};
 export default patientService; 
\ No newline at end of file
@@ -1,3 +1,5 @@
+import { apiFetch } from '@/lib/apiFetch';
+
 export interface IPracticeSettings {
   name: string;
   address: string;
@@ -21,7 +23,7 @@ const practiceService = {
   getPracticeSettings: async (): Promise<IPracticeSettings> => {
     try {
       console.log('Fetching practice settings');
-      const response = await fetch(`${BASE_URL}/practice`);
+      const response = await apiFetch(`${BASE_URL}/practice`);
       
       if (!response.ok) {
         const error = await response.json();
@@ -39,7 +41,7 @@ const practiceService = {
   updatePracticeSettings: async (settingsData: Partial<IPracticeSettings>): Promise<IPracticeSettings> => {
     try {
       console.log('Updating practice settings:', settingsData);
-      const response = await fetch(`${BASE_URL}/practice`, {
+      const response = await apiFetch(`${BASE_URL}/practice`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -67,7 +69,7 @@ const practiceService = {
       const formData = new FormData();
       formData.append('logo', file);
       
-      const response = await fetch(`${BASE_URL}/practice/logo`, {
+      const response = await apiFetch(`${BASE_URL}/practice/logo`, {
         method: 'POST',
         body: formData,
       });
@@ -88,7 +90,7 @@ const practiceService = {
   deleteLogo: async (): Promise<{ success: boolean }> => {
     try {
       console.log('Deleting practice logo');
-      const response = await fetch(`${BASE_URL}/practice/logo`, {
+      const response = await apiFetch(`${BASE_URL}/practice/logo`, {
         method: 'DELETE',
       });
       
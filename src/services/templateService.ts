@@ -1,5 +1,7 @@
 import { ITemplate, ITemplateResponse, ISection } from '@/models/Template';
 import { v4 as uuidv4 } from '@/utils/uuid';
+import { apiFetch } from '@/lib/apiFetch';
+import type { FhirQuestionnaire, QuestionnaireIssue } from '@/lib/fhirQuestionnaire';
 
 const isDevelopment = process.env.NODE_ENV === 'development';
 const LOCAL_STORAGE_KEY = 'templates';
@@ -40,6 +42,27 @@ interface TemplatesResponse {
   };
 }
 
+interface TemplateVersionSummary {
+  _id: string;
+  template: string;
+  version: number;
+  name: string;
+  description?: string;
+  notes?: string;
+  publishedBy?: string | null;
+  publishedAt: string;
+}
+
+interface QuestionnaireExport {
+  questionnaire: FhirQuestionnaire;
+  issues: QuestionnaireIssue[];
+}
+
+interface QuestionnaireImport {
+  template: Template;
+  issues: QuestionnaireIssue[];
+}
+
 interface TemplateSearchParams {
   page?: number;
   limit?: number;
@@ -63,7 +86,7 @@ const templateService = {
       const url = `${BASE_URL}/templates${queryString ? `?${queryString}` : ''}`;
       
       console.log('Fetching templates with URL:', url);
-      const response = await fetch(url);
+      const response = await apiFetch(url);
       
       if (!response.ok) {
         throw new Error('Failed to fetch templates');
@@ -98,7 +121,7 @@ const templateService = {
 
   async getTemplateById(id: string): Promise<Template> {
     try {
-      const response = await fetch(`${BASE_URL}/templates?id=${id}`);
+      const response = await apiFetch(`${BASE_URL}/templates?id=${id}`);
       
       if (!response.ok) {
         throw new Error('Failed to fetch template');
@@ -113,7 +136,7 @@ const templateService = {
 
   async createTemplate(templateData: Omit<Template, '_id' | 'createdAt' | 'updatedAt'>): Promise<Template> {
     try {
-      const response = await fetch(`${BASE_URL}/templates`, {
+      const response = await apiFetch(`${BASE_URL}/templates`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -135,7 +158,7 @@ const templateService = {
 
   async updateTemplate(id: string, templateData: Partial<Template>): Promise<Template> {
     try {
-      const response = await fetch(`${BASE_URL}/templates?id=${id}`, {
+      const response = await apiFetch(`${BASE_URL}/templates?id=${id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -155,9 +178,118 @@ const templateService = {
     }
   },
 
+  async getTemplateVersions(id: string): Promise<TemplateVersionSummary[]> {
+    try {
+      const response = await apiFetch(`${BASE_URL}/templates/${id}/versions`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch template versions');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error(`Error fetching versions for template ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Published versions are returned in the same shape as a template
+  async getTemplateVersion(id: string, version: number): Promise<Template> {
+    try {
+      const response = await apiFetch(`${BASE_URL}/templates/${id}/versions/${version}`);
+      
+      if (!response.ok) {
+        throw new Error('Failed to fetch template version');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error(`Error fetching version ${version} of template ${id}:`, error);
+      throw error;
+    }
+  },
+
+  async publishTemplate(id: string, notes?: string): Promise<TemplateVersionSummary> {
+    try {
+      const response = await apiFetch(`${BASE_URL}/templates/${id}/versions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ notes }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to publish template');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error(`Error publishing template ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Load the template version a visit was conducted with, or the live template for unpinned visits
+  async getTemplateForVisit(visit: { templateId?: string; templateVersion?: number | null }): Promise<Template | null> {
+    if (!visit.templateId) return null;
+    
+    if (visit.templateVersion) {
+      try {
+        return await this.getTemplateVersion(visit.templateId, visit.templateVersion);
+      } catch (error) {
+        console.error('Pinned template version unavailable, using current template:', error);
+      }
+    }
+    
+    return this.getTemplateById(visit.templateId);
+  },
+
+  // Export a template (or one of its published versions) as a FHIR Questionnaire with a mapping report
+  async exportQuestionnaire(id: string, version?: number): Promise<QuestionnaireExport> {
+    try {
+      const query = version ? `?version=${version}` : '';
+      const response = await apiFetch(`${BASE_URL}/templates/${id}/questionnaire${query}`);
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to export template');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error(`Error exporting template ${id} as questionnaire:`, error);
+      throw error;
+    }
+  },
+
+  // Create a draft template from a FHIR Questionnaire resource
+  async importQuestionnaire(questionnaire: unknown): Promise<QuestionnaireImport> {
+    try {
+      const response = await apiFetch(`${BASE_URL}/templates/import`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionnaire }),
+      });
+      
+      if (!response.ok) {
+        const errorData = await response.json();
+        throw new Error(errorData.error || 'Failed to import questionnaire');
+      }
+      
+      return await response.json();
+    } catch (error) {
+      console.error('Error importing questionnaire:', error);
+      throw error;
+    }
+  },
+
   async deleteTemplate(id: string): Promise<void> {
     try {
-      const response = await fetch(`${BASE_URL}/templates?id=${id}`, {
+      const response = await apiFetch(`${BASE_URL}/templates?id=${id}`, {
         method: 'DELETE',
       });
       
@@ -172,5 +304,5 @@ const templateService = {
   }
 };
 
-export type { Template, TemplatesResponse, TemplateSearchParams };
+export type { Template, TemplatesResponse, TemplateSearchParams, TemplateVersionSummary, QuestionnaireExport, QuestionnaireImport };
 export default templateService; 
\ No newline at end of file
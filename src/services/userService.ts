@@ -1,4 +1,5 @@
 import { format } from 'date-fns';
+import { apiFetch } from '@/lib/apiFetch';
 
 export interface IUser {
   id: string;
@@ -27,6 +28,21 @@ export interface IUserInvite {
   message?: string;
 }
 
+export interface IInvitation {
+  id: string;
+  email: string;
+  name?: string;
+  role: 'admin' | 'provider' | 'staff';
+  status: 'pending' | 'accepted' | 'revoked' | 'expired';
+  invitedBy?: { name: string; email: string };
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  acceptedAt?: string;
+  revokedAt?: string;
+  createdAt: string;
+}
+
 export interface IUserProfile {
   id: string;
   firstName: string;
@@ -67,6 +83,15 @@ interface IUsersResponse {
 
 const BASE_URL = '/.netlify/functions/api';
 
+// Invitation endpoints answer with { success, data } or { success: false, error }
+async function handleInvitationResponse(response: Response, fallbackError: string) {
+  const data = await response.json().catch(() => null);
+  if (!response.ok || !data?.success) {
+    throw new Error(data?.error || fallbackError);
+  }
+  return data.data;
+}
+
 const userService = {
   // Get all users with optional filters and pagination
   getUsers: async (params: IUserSearchParams = {}): Promise<IUsersResponse> => {
@@ -85,7 +110,7 @@ const userService = {
       const url = `${BASE_URL}/users${queryString ? `?${queryString}` : ''}`;
       
       console.log('Fetching users with URL:', url);
-      const response = await fetch(url);
+      const response = await apiFetch(url);
       
       if (!response.ok) {
         const error = await response.json();
@@ -112,7 +137,7 @@ const userService = {
   getUserById: async (id: string): Promise<IUser> => {
     try {
       console.log(`Fetching user with ID: ${id}`);
-      const response = await fetch(`${BASE_URL}/users/${id}`);
+      const response = await apiFetch(`${BASE_URL}/users/${id}`);
       
       if (!response.ok) {
         const error = await response.json();
@@ -138,7 +163,7 @@ const userService = {
   getUserProfile: async (): Promise<IUserProfile> => {
     try {
       console.log('Fetching user profile');
-      const response = await fetch(`${BASE_URL}/users/profile`);
+      const response = await apiFetch(`${BASE_URL}/users/profile`);
       
       if (!response.ok) {
         const error = await response.json();
@@ -164,7 +189,7 @@ const userService = {
   updateUserProfile: async (profileData: Partial<IUserProfile>): Promise<IUserProfile> => {
     try {
       console.log('Updating user profile:', profileData);
-      const response = await fetch(`${BASE_URL}/users/profile`, {
+      const response = await apiFetch(`${BASE_URL}/users/profile`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -196,7 +221,7 @@ const userService = {
   createUser: async (userData: Partial<IUser>): Promise<IUser> => {
     try {
       console.log('Creating user with data:', userData);
-      const response = await fetch(`${BASE_URL}/users`, {
+      const response = await apiFetch(`${BASE_URL}/users`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -228,7 +253,7 @@ const userService = {
   updateUser: async (id: string, userData: Partial<IUser>): Promise<IUser> => {
     try {
       console.log(`Updating user ${id} with data:`, userData);
-      const response = await fetch(`${BASE_URL}/users/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/users/${id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -260,7 +285,7 @@ const userService = {
   deleteUser: async (id: string): Promise<void> => {
     try {
       console.log(`Deleting user with ID: ${id}`);
-      const response = await fetch(`${BASE_URL}/users/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/users/${id}`, {
         method: 'DELETE',
       });
       
@@ -274,49 +299,49 @@ const userService = {
     }
   },
   
-  // Send an invitation to a new user (admin only) - DISABLED
-  sendInvitation: async (inviteData: IUserInvite): Promise<{ success: boolean; message: string }> => {
-    // This functionality is disabled
-    console.log('Invitation functionality is disabled');
-    throw new Error('Invitation functionality is currently disabled');
+  // Invite a new user; they receive an email with a single-use registration link
+  sendInvitation: async (inviteData: IUserInvite): Promise<IInvitation> => {
+    const response = await apiFetch(`${BASE_URL}/invitations`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(inviteData),
+    });
+    return handleInvitationResponse(response, 'Failed to send invitation');
   },
   
-  // Get current user's role
-  getUserRole: async (userId: string): Promise<{ role: string }> => {
+  // List invitations, optionally filtered by status
+  getInvitations: async (status?: IInvitation['status']): Promise<IInvitation[]> => {
+    const response = await apiFetch(`${BASE_URL}/invitations${status ? `?status=${status}` : ''}`);
+    return handleInvitationResponse(response, 'Failed to load invitations');
+  },
+  
+  // Email a new link for a pending invitation; earlier links stop working
+  resendInvitation: async (id: string): Promise<IInvitation> => {
+    const response = await apiFetch(`${BASE_URL}/invitations/${id}/resend`, { method: 'POST' });
+    return handleInvitationResponse(response, 'Failed to resend invitation');
+  },
+  
+  // Revoke a pending invitation
+  revokeInvitation: async (id: string): Promise<IInvitation> => {
+    const response = await apiFetch(`${BASE_URL}/invitations/${id}`, { method: 'DELETE' });
+    return handleInvitationResponse(response, 'Failed to revoke invitation');
+  },
+  
+  // Get the role of the signed-in user as resolved by the API for permission checks.
+  // The userId is only used for logging; the role always comes from the request's token.
+  getUserRole: async (userId?: string): Promise<{ role: string }> => {
     try {
-      console.log('Fetching user role');
+      const response = await apiFetch(`${BASE_URL}/users/role`);
       
-      try {
-        const response = await fetch(`${BASE_URL}/users/role?userId=${userId}`);
-        
-        if (response.ok) {
-          const data = await response.json();
-          return data;
-        }
-        
-        // If we reach here, the API call wasn't successful
-        console.warn('User role API returned an error, using fallback default role');
-        throw new Error('Failed to fetch from API');
-      } catch (directError) {
-        // Provide a fallback role since the endpoint is giving 404
-        // In production, you would want to implement proper role-based security,
-        // but for now we'll use this to prevent the app from breaking
-        console.log('Using fallback default role for user:', userId);
-        
-        // Check if this user ID is already known to be an admin
-        // This is just a workaround until the API endpoint is fixed
-        if (userId === '6wsWnc7HllSNFvnHORIgc8iDc9U2') {
-          // Known admin user ID - hardcoded for development/testing only
-          return { role: 'admin' };
-        }
-        
-        // Default to 'provider' role for other users to maintain functionality
-        return { role: 'provider' };
+      if (!response.ok) {
+        throw new Error(`User role request failed with status ${response.status}`);
       }
+      
+      return await response.json();
     } catch (error) {
-      console.error('Error in getUserRole:', error);
-      // Final fallback
-      return { role: 'provider' }; 
+      // Fall back to the least privileged role; the API enforces permissions regardless
+      console.error(`Error in getUserRole${userId ? ` for ${userId}` : ''}:`, error);
+      return { role: 'staff' };
     }
   },
   
@@ -324,7 +349,7 @@ const userService = {
   changePassword: async (currentPassword: string, newPassword: string): Promise<{ success: boolean; message: string }> => {
     try {
       console.log('Changing password');
-      const response = await fetch('/api/users/password', {
+      const response = await apiFetch('/api/users/password', {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -1,4 +1,44 @@
 import { format } from 'date-fns';
+import type { IInstrumentScore } from '@/models/Visit';
+import type { VisitPdfType } from '@/models/VisitPdf';
+import { apiFetch } from '@/lib/apiFetch';
+import type { WorkingHours } from '@/lib/scheduling';
+import type { VisitStatus, VisitStatusChange } from '@/lib/visitLifecycle';
+
+interface IHealthPlanRecommendation {
+  domain: string;
+  text: string;
+  priority: 'high' | 'medium' | 'low';
+  source?: {
+    question: string;
+    response?: string;
+  };
+  // When a screening or immunization is next due (YYYY-MM-DD)
+  dueDate?: string | null;
+}
+
+interface IHealthPlan {
+  recommendations: IHealthPlanRecommendation[];
+  summary: string;
+}
+
+interface IVisitSignature {
+  signedBy: string;
+  signedByName: string;
+  npiNumber: string;
+  signedAt: string;
+  contentHash: string;
+}
+
+interface IVisitAddendum {
+  version: number;
+  text: string;
+  author: string;
+  authorName: string;
+  authorNpi?: string;
+  createdAt: string;
+  contentHash: string;
+}
 
 interface IVisitResponse {
   _id: string;
@@ -15,18 +55,30 @@ interface IVisitResponse {
     name?: string;
   };
   scheduledDate: string;
-  status: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  durationMinutes?: number;
+  status: VisitStatus;
+  // Why the visit was cancelled, missed or rescheduled
+  statusReason?: string;
+  statusHistory?: VisitStatusChange[];
+  // The visit that replaced this one, and the one this one replaced
+  rescheduledTo?: string;
+  rescheduledFrom?: string;
   visitType: string;
   templateId?: string;
+  templateVersion?: number;
   responses?: any;
   notes?: string;
   createdAt: string;
   updatedAt: string;
   completedSections?: number[];
-  healthPlan?: {
-    recommendations: any[];
-    summary: string;
-  };
+  healthPlan?: IHealthPlan;
+  scores?: IInstrumentScore[];
+  completedAt?: string;
+  signature?: IVisitSignature;
+  addenda?: IVisitAddendum[];
+  // Whether the signed content and addenda still match their hashes; only set for signed visits
+  signatureValid?: boolean;
+  revision?: number;
   success?: boolean;
   data?: IVisitResponse;
 }
@@ -35,7 +87,10 @@ interface IVisitCreateRequest {
   patient: string;
   provider?: string;
   scheduledDate: Date;
-  status?: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  // Defaults to the template's visit duration
+  durationMinutes?: number;
+  // Scheduled, or checked-in for walk-ins
+  status?: VisitStatus;
   visitType?: string;
   templateId?: string;
   notes?: string;
@@ -45,11 +100,85 @@ interface IVisitUpdateRequest {
   patient?: string;
   provider?: string;
   scheduledDate?: Date;
-  status?: 'scheduled' | 'in-progress' | 'completed' | 'cancelled';
+  durationMinutes?: number;
+  status?: VisitStatus;
+  // Required when cancelling or marking a no-show
+  reason?: string;
+  // NPI of a provider signing for the first time
+  npiNumber?: string;
   visitType?: string;
   templateId?: string;
   responses?: any;
+  completedSections?: number[];
+  healthPlan?: IHealthPlan;
   notes?: string;
+  // Revision the client loaded; a stale write is rejected with 409
+  revision?: number;
+}
+
+interface IVisitAnswersRequest {
+  revision: number;
+  // Changed answers by question id; null clears an answer
+  answers: Record<string, any>;
+  completedSections?: number[];
+}
+
+interface IVisitAnswersResponse {
+  _id: string;
+  revision: number;
+  updatedAt: string;
+  status: IVisitResponse['status'];
+  scores?: IInstrumentScore[];
+}
+
+interface IVisitIntake {
+  id: string;
+  visit: string;
+  status: 'pending' | 'submitted' | 'revoked' | 'expired';
+  sentTo?: string;
+  expiresAt: string;
+  lastSentAt: string;
+  sendCount: number;
+  submittedAt?: string;
+  // Questions the patient answered
+  questionIds: string[];
+  // Patient answers that differ from what staff had already entered
+  conflicts: IIntakeConflict[];
+  revokedAt?: string;
+  createdAt: string;
+}
+
+interface IIntakeConflict {
+  questionId: string;
+  question?: string;
+  staffValue: any;
+  patientValue: any;
+  // Which answer was kept, once resolved
+  resolution?: 'staff' | 'patient';
+  resolvedAt?: string;
+}
+
+interface IVisitIntakeLink {
+  intake: IVisitIntake;
+  // Only returned when the link is created
+  link: string;
+}
+
+// A visit that a booking or reschedule would overlap, from a 409 response
+interface ISchedulingConflict {
+  visitId: string;
+  reason: 'provider' | 'patient' | 'both';
+  scheduledDate: string;
+  durationMinutes: number;
+  patientName?: string;
+}
+
+interface IProvider {
+  _id: string;
+  name: string;
+  email: string;
+  specialty?: string;
+  workingHours: WorkingHours[];
 }
 
 interface IPaginationResponse {
@@ -64,10 +193,17 @@ interface IVisitsResponse {
   pagination: IPaginationResponse;
 }
 
+interface IVisitStats {
+  counts: Record<VisitStatus, number>;
+  total: number;
+}
+
 interface IVisitSearchParams {
   page?: number;
   limit?: number;
   patientId?: string;
+  providerId?: string;
+  // One status, or several separated by commas
   status?: string;
   fromDate?: string;
   toDate?: string;
@@ -102,6 +238,7 @@ const visitService = {
       if (params.page) queryParams.append('page', params.page.toString());
       if (params.limit) queryParams.append('limit', params.limit.toString());
       if (params.patientId) queryParams.append('patientId', params.patientId);
+      if (params.providerId) queryParams.append('providerId', params.providerId);
       if (params.status) queryParams.append('status', params.status);
       
       // Handle date filtering with multiple possible parameter names
@@ -124,7 +261,7 @@ const visitService = {
       const timeoutId = setTimeout(() => controller.abort(), 15000); // 15 second timeout
       
       try {
-        const response = await fetch(url, {
+        const response = await apiFetch(url, {
           signal: controller.signal
         });
         clearTimeout(timeoutId);
@@ -189,7 +326,7 @@ const visitService = {
       const timeoutId = setTimeout(() => controller.abort(), 15000);
       
       try {
-        const response = await fetch(`${BASE_URL}/visits/${id}`, {
+        const response = await apiFetch(`${BASE_URL}/visits/${id}`, {
           signal: controller.signal,
           headers: {
             'Cache-Control': 'no-store'
@@ -266,9 +403,9 @@ const visitService = {
           };
         }
         
-        // Ensure responses object exists
+        // Ensure responses exist (stored grouped by template section)
         if (!data.responses) {
-          data.responses = {};
+          data.responses = [];
         }
         
         console.log('Visit data loaded:', data);
@@ -280,6 +417,11 @@ const visitService = {
           throw new ApiError('Request timed out. Please try again.', 408);
         }
         
+        // fetch() rejects with a TypeError when the server cannot be reached
+        if (error instanceof TypeError) {
+          throw new ApiError('Unable to reach the server. Check your connection.', 0);
+        }
+        
         throw new ApiError(`Failed to fetch visit: ${error.message || 'Unknown error'}`, 500);
       }
     } catch (error) {
@@ -291,7 +433,7 @@ const visitService = {
   createVisit: async (visitData: IVisitCreateRequest): Promise<IVisitResponse> => {
     try {
       console.log('Creating visit with data:', visitData);
-      const response = await fetch(`${BASE_URL}/visits`, {
+      const response = await apiFetch(`${BASE_URL}/visits`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -300,8 +442,9 @@ const visitService = {
       });
       
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to create visit');
+        const error = await response.json().catch(() => ({ error: 'Unknown server error' }));
+        // Double-bookings come back as 409 with the overlapping visits in conflicts
+        throw new ApiError(error.error || 'Failed to create visit', response.status, error.conflicts);
       }
       
       return await response.json();
@@ -314,7 +457,7 @@ const visitService = {
   updateVisit: async (id: string, visitData: IVisitUpdateRequest): Promise<IVisitResponse> => {
     try {
       console.log(`Updating visit ${id} with data:`, visitData);
-      const response = await fetch(`${BASE_URL}/visits/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}`, {
         method: 'PUT',
         headers: {
           'Content-Type': 'application/json',
@@ -323,8 +466,9 @@ const visitService = {
       });
       
       if (!response.ok) {
-        const error = await response.json();
-        throw new Error(error.error || 'Failed to update visit');
+        const error = await response.json().catch(() => ({ error: 'Unknown server error' }));
+        // Validation failures carry a per-question error list in details, double-bookings the overlapping visits
+        throw new ApiError(error.error || 'Failed to update visit', response.status, error.details);
       }
       
       return await response.json();
@@ -334,10 +478,270 @@ const visitService = {
     }
   },
   
+  // Autosave only the answers that changed. A 409 ApiError means the visit was
+  // saved by someone else; its details carry the current revision and responses.
+  saveAnswers: async (id: string, request: IVisitAnswersRequest): Promise<IVisitAnswersResponse> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(request),
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to save answers', response.status, data.details);
+      }
+      
+      return data.data || data;
+    } catch (error) {
+      console.error(`Error saving answers for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Generate a draft health plan from the visit responses for the provider to review.
+  // Pass the current responses to include answers that have not been saved yet.
+  generateHealthPlan: async (id: string, responses?: any): Promise<IHealthPlan> => {
+    try {
+      console.log(`Generating health plan for visit ${id}`);
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/health-plan`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(responses ? { responses } : {}),
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to generate health plan', response.status, data);
+      }
+      
+      return data.data || data;
+    } catch (error) {
+      console.error(`Error generating health plan for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Download a completed visit as a FHIR R4 Bundle for an EHR
+  exportFhirBundle: async (id: string): Promise<Blob> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/fhir`, {
+        method: 'GET',
+      });
+      
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+        throw new ApiError(data.error || 'Failed to export visit', response.status, data);
+      }
+      
+      return response.blob();
+    } catch (error) {
+      console.error(`Error exporting visit ${id} as FHIR:`, error);
+      throw error;
+    }
+  },
+
+  // Download the report of a completed visit, or the patient's prevention plan handout, as a PDF rendered on the server
+  downloadVisitPdf: async (id: string, type: VisitPdfType = 'report'): Promise<Blob> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/pdf?type=${type}`, {
+        method: 'GET',
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+        throw new ApiError(data.error || 'Failed to download the PDF', response.status, data);
+      }
+
+      return response.blob();
+    } catch (error) {
+      console.error(`Error downloading PDF for visit ${id}:`, error);
+      throw error;
+    }
+  },
+
+  // Latest pre-visit questionnaire link of the visit, or null when none was sent
+  getIntake: async (id: string): Promise<IVisitIntake | null> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/intake`, {
+        method: 'GET',
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to fetch pre-visit questionnaire', response.status, data);
+      }
+      
+      return data.data ?? null;
+    } catch (error) {
+      console.error(`Error fetching pre-visit questionnaire for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Create a new pre-visit questionnaire link, revoking the previous one. It is
+  // emailed to the patient's address unless another email or sendEmail: false is given.
+  sendIntakeLink: async (id: string, options: { email?: string; sendEmail?: boolean } = {}): Promise<IVisitIntakeLink> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/intake`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify(options),
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to send pre-visit questionnaire', response.status, data);
+      }
+      
+      return data.data;
+    } catch (error) {
+      console.error(`Error sending pre-visit questionnaire for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Keep the staff answer or use the patient's for a question the two answered differently
+  resolveIntakeConflict: async (id: string, questionId: string, keep: 'staff' | 'patient'): Promise<IVisitIntake> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/intake`, {
+        method: 'PATCH',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ questionId, keep }),
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to resolve pre-visit answer', response.status, data);
+      }
+      
+      return data.data;
+    } catch (error) {
+      console.error(`Error resolving pre-visit answer for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  revokeIntakeLink: async (id: string): Promise<IVisitIntake> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/intake`, {
+        method: 'DELETE',
+      });
+      
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to revoke pre-visit questionnaire', response.status, data);
+      }
+      
+      return data.data;
+    } catch (error) {
+      console.error(`Error revoking pre-visit questionnaire for visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  getProviders: async (): Promise<IProvider[]> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/providers`);
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok) {
+        throw new ApiError(data.error || 'Failed to fetch providers', response.status);
+      }
+      
+      return data.providers || [];
+    } catch (error) {
+      console.error('Error fetching providers:', error);
+      throw error;
+    }
+  },
+  
+  updateWorkingHours: async (providerId: string, workingHours: WorkingHours[]): Promise<IProvider> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/providers/${providerId}`, {
+        method: 'PUT',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ workingHours }),
+      });
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok) {
+        throw new ApiError(data.error || 'Failed to update working hours', response.status, data.details);
+      }
+      
+      return data;
+    } catch (error) {
+      console.error(`Error updating working hours of provider ${providerId}:`, error);
+      throw error;
+    }
+  },
+  
+  // Signed visits only change through addenda
+  addAddendum: async (id: string, text: string): Promise<IVisitAddendum> => {
+    try {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}/addenda`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({ text }),
+      });
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok || data.success === false) {
+        throw new ApiError(data.error || 'Failed to add the addendum', response.status);
+      }
+      
+      return data.data;
+    } catch (error) {
+      console.error(`Error adding an addendum to visit ${id}:`, error);
+      throw error;
+    }
+  },
+  
+  // Number of visits in each status, optionally for one provider or date range
+  getVisitStats: async (params: Pick<IVisitSearchParams, 'providerId' | 'fromDate' | 'toDate'> = {}): Promise<IVisitStats> => {
+    try {
+      const queryParams = new URLSearchParams();
+      if (params.providerId) queryParams.append('providerId', params.providerId);
+      if (params.fromDate) queryParams.append('fromDate', params.fromDate);
+      if (params.toDate) queryParams.append('toDate', params.toDate);
+      
+      const response = await apiFetch(`${BASE_URL}/visits/stats?${queryParams.toString()}`);
+      const data = await response.json().catch(() => ({ error: 'Unknown server error' }));
+      
+      if (!response.ok) {
+        throw new ApiError(data.error || 'Failed to fetch visit stats', response.status);
+      }
+      
+      return data;
+    } catch (error) {
+      console.error('Error fetching visit stats:', error);
+      throw error;
+    }
+  },
+  
   deleteVisit: async (id: string): Promise<void> => {
     try {
       console.log(`Deleting visit with ID: ${id}`);
-      const response = await fetch(`${BASE_URL}/visits/${id}`, {
+      const response = await apiFetch(`${BASE_URL}/visits/${id}`, {
         method: 'DELETE',
       });
       
@@ -363,10 +767,23 @@ const visitService = {
   }
 };
 
+export { ApiError };
 export type { 
+  IHealthPlan,
+  IHealthPlanRecommendation,
   IVisitResponse, 
+  IVisitSignature,
+  IVisitAddendum,
   IVisitCreateRequest, 
   IVisitUpdateRequest, 
+  IVisitAnswersRequest,
+  IVisitAnswersResponse,
+  IVisitIntake,
+  IIntakeConflict,
+  IVisitIntakeLink,
+  ISchedulingConflict,
+  IProvider,
+  IVisitStats,
   IVisitsResponse, 
   IVisitSearchParams 
 };
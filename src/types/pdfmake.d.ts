@@ -3,13 +3,10 @@ declare module 'pdfmake/build/pdfmake' {
   export default pdfMake;
 }
 
+// The Roboto font files, base64-encoded, keyed by file name
 declare module 'pdfmake/build/vfs_fonts' {
-  const pdfFonts: {
-    pdfMake: {
-      vfs: any;
-    };
-  };
-  export default pdfFonts;
+  const vfs: Record<string, string>;
+  export default vfs;
 }
 
 declare module 'pdfmake/interfaces' {